@@ -1,10 +1,21 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, addIcon, normalizePath, Events, TFile } from 'obsidian';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, addIcon, debounce, normalizePath, Events, TFile, TAbstractFile, ObsidianProtocolData } from 'obsidian';
 import * as moment from 'moment';
-import { AccountingPluginSettings, AccountingSettingTab, DEFAULT_SETTINGS } from './src/settings';
+import { AccountingPluginSettings, AccountingSettingTab, DEFAULT_SETTINGS, PREVIOUS_DEFAULT_TEMPLATES } from './src/settings';
 import { TransactionModal } from './src/transactionModal';
-import { saveTransaction, formatTransaction, normalizeTransactionDate, parseTransactionsFromFile, getDatePart } from './src/utils';
-import { StatsView, STATS_VIEW_TYPE } from './src/statsView';
-import { Account, Category, Tag, Transaction, TransactionType } from './src/models';
+import { saveTransaction, formatTransactionForFile, normalizeTransactionDate, parseTransactionContent, addMissingBlockIds, getTransactionFilePath, getLedgerFilePath, TransactionParseError, ensureFileExists, appendToFile, formatBalanceAssertion } from './src/utils';
+import { StatsView, STATS_VIEW_TYPE, StatsTab } from './src/statsView';
+import { TransactionIndex } from './src/transactionIndex';
+import { AccountingApi } from './src/api';
+import { LedgerSuggest } from './src/ledgerSuggest';
+import { createLedgerLivePreviewExtension, createLedgerPostProcessor } from './src/ledgerWidgets';
+import { QUERY_BLOCK_LANGUAGE, createQueryBlockProcessor } from './src/queryBlock';
+import { parseQuickEntry, QuickEntryConfirmModal, QuickEntryProblem } from './src/quickEntry';
+import { URI_ACTION, parseAddUriParams } from './src/uriHandler';
+import { ImportModal } from './src/importModal';
+import { ExportModal } from './src/exportModal';
+import { createRecurringTransaction, getDueOccurrences } from './src/recurring';
+import { checkBalanceAssertions } from './src/balances';
+import { Account, BalanceAssertion, Category, Tag, Transaction, TransactionType } from './src/models';
 import { I18n } from './src/locales/i18n';
 import { SupportedLocale } from './src/locales';
 
@@ -18,11 +29,40 @@ const ACCOUNTING_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24
   <line x1="6" y1="16" x2="8" y2="16"></line>
 </svg>`;
 
+/**
+ * Delay before the vault is re-read after the settings changed, so typing in a setting doesn't re-read it on every key
+ */
+const SETTINGS_REFRESH_DELAY = 1000;
+
 export default class AccountingPlugin extends Plugin {
 	settings: AccountingPluginSettings;
 	events: Events;
 	i18n: I18n; // 添加I18n实例
-	public transactions: Transaction[] = []; // Store loaded transactions
+	transactionIndex: TransactionIndex; // Transactions of the vault, shared by all views
+	api: AccountingApi; // For other plugins and scripts
+	/** Re-reads the vault once the settings have been quiet for a while */
+	private loadAllTransactionsLater = debounce(() => this.loadAllTransactions(), SETTINGS_REFRESH_DELAY, true);
+
+	/**
+	 * All transactions in the vault
+	 */
+	get transactions(): Transaction[] {
+		return this.transactionIndex.transactions;
+	}
+
+	/**
+	 * Lines that look like transactions but could not be read
+	 */
+	get parseErrors(): TransactionParseError[] {
+		return this.transactionIndex.errors;
+	}
+
+	/**
+	 * Balance assertions written in the ledger
+	 */
+	get balanceAssertions(): BalanceAssertion[] {
+		return this.transactionIndex.assertions;
+	}
 
 	async onload() {
 		await this.loadSettings();
@@ -47,8 +87,11 @@ export default class AccountingPlugin extends Plugin {
 		// Load CSS styles
 		this.loadStyles();
 
-		// Initial load of transactions
-		await this.loadAllTransactions(); 
+		// Create the transaction index; it is filled once the vault is ready
+		this.transactionIndex = new TransactionIndex(this);
+
+		// Expose the API as app.plugins.plugins['obsidian-accounting'].api
+		this.api = new AccountingApi(this);
 
 		// Add ribbon icon
 		this.addRibbonIcon('accounting', this.i18n.t('ADD_TRANSACTION'), (evt: MouseEvent) => {
@@ -99,50 +142,197 @@ export default class AccountingPlugin extends Plugin {
 			}
 		});
 
+		// Add command to delete the transaction on the current line
+		this.addCommand({
+			id: 'delete-transaction',
+			name: this.i18n.t('DELETE_TRANSACTION'),
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.deleteTransactionAtCursor(editor, view);
+			}
+		});
+
+		// Add command to give transactions written before IDs existed a durable ID
+		this.addCommand({
+			id: 'add-transaction-ids',
+			name: this.i18n.t('ADD_TRANSACTION_IDS'),
+			callback: () => {
+				this.migrateTransactionIds();
+			}
+		});
+
+		// Add command to post recurring transactions that are due
+		this.addCommand({
+			id: 'post-recurring-transactions',
+			name: this.i18n.t('POST_RECURRING_TRANSACTIONS'),
+			callback: async () => {
+				const posted = await this.postDueRecurringTransactions();
+				if (posted === 0) {
+					new Notice(this.i18n.t('NO_RECURRING_DUE'));
+				}
+			}
+		});
+
+		// Add command to check the balance assertions in the ledger
+		this.addCommand({
+			id: 'check-balance-assertions',
+			name: this.i18n.t('CHECK_BALANCE_ASSERTIONS'),
+			callback: async () => {
+				const results = checkBalanceAssertions(this.balanceAssertions, this.transactions, this.settings);
+				const failed = results.filter(result => !result.matches).length;
+				if (results.length === 0) {
+					new Notice(this.i18n.t('NO_BALANCE_ASSERTIONS'));
+				} else if (failed === 0) {
+					new Notice(this.i18n.t('BALANCE_ASSERTIONS_PASSED').replace('{count}', results.length.toString()));
+				} else {
+					new Notice(this.i18n.t('BALANCE_ASSERTIONS_FAILED')
+						.replace('{failed}', failed.toString())
+						.replace('{count}', results.length.toString()));
+					const view = await this.activateStatsView();
+					view?.showTab(StatsTab.ACCOUNTS);
+				}
+			}
+		});
+
+		// Complete names while transaction lines are typed by hand
+		this.registerEditorSuggest(new LedgerSuggest(this.app, this));
+
+		// Show ledger lines as transaction rows in reading view and live preview
+		this.registerMarkdownPostProcessor(createLedgerPostProcessor(this));
+		this.registerEditorExtension(createLedgerLivePreviewExtension(this));
+		this.registerMarkdownCodeBlockProcessor(QUERY_BLOCK_LANGUAGE, createQueryBlockProcessor(this));
+
+		// Handle obsidian://accounting URIs from shortcuts and launchers
+		this.registerObsidianProtocolHandler(URI_ACTION, (params) => this.handleUri(params));
+
+		// Add command to import transactions from a statement file
+		this.addCommand({
+			id: 'import-transactions',
+			name: this.i18n.t('IMPORT_TRANSACTIONS'),
+			callback: () => {
+				new ImportModal(this.app, this).open();
+			}
+		});
+
+		// Add command to export transactions to CSV, JSON or Excel
+		this.addCommand({
+			id: 'export-transactions',
+			name: this.i18n.t('EXPORT_TRANSACTIONS'),
+			callback: () => {
+				new ExportModal(this.app, this).open();
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new AccountingSettingTab(this.app, this));
 
-		// Optional: Reload transactions when relevant files change
-		// this.registerEvent(
-        //     this.app.metadataCache.on('changed', (file) => {
-        //         // Check if the changed file is relevant (e.g., daily note or output file)
-        //         if (this.isRelevantFile(file.path)) {
-        //             this.loadAllTransactions();
-        //         }
-        //     })
-        // );
+		this.app.workspace.onLayoutReady(async () => {
+			// Initial load of transactions; files unchanged since the last session come from the parse cache
+			await this.transactionIndex.loadCache();
+			await this.loadAllTransactions();
+
+			// Keep the index current as ledger files change; registered after the initial
+			// load so the vault's startup 'create' events don't re-read every file
+			this.registerEvent(this.app.vault.on('create', file => this.updateIndexedFile(file)));
+			this.registerEvent(this.app.vault.on('modify', file => this.updateIndexedFile(file)));
+			this.registerEvent(this.app.vault.on('delete', file => {
+				if (this.transactionIndex.removeFile(file.path)) {
+					this.events.trigger('transactions-updated');
+				}
+			}));
+			this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+				if (await this.transactionIndex.renameFile(file, oldPath)) {
+					this.events.trigger('transactions-updated');
+				}
+			}));
+
+			// Post recurring transactions that became due while Obsidian was closed
+			this.postDueRecurringTransactions();
+		});
 	}
 
 	/**
-	 * Load all transactions based on settings
+	 * Bring the loaded transactions up to date; only files that changed since they were
+	 * last read are parsed again
 	 */
 	async loadAllTransactions(): Promise<void> {
-        this.transactions = [];
         try {
-            if (this.settings.useDailyNotes) {
-                const files = this.app.vault.getMarkdownFiles();
-                let dailyNoteFormat = this.settings.dailyNotesFormat;
-                // Optional: Try to get format from Daily Notes/Calendar plugin if needed
-
-                for (const file of files) {
-                    // Use moment directly for parsing - Ensure standard call
-                    if (moment(file.basename, dailyNoteFormat, true).isValid()) { 
-                        const fileTransactions = await parseTransactionsFromFile(this.app, file.path, this.settings);
-                        this.transactions.push(...fileTransactions);
-                    }
-                }
-            } else {
-                this.transactions = await parseTransactionsFromFile(this.app, this.settings.outputFile, this.settings);
+            if (await this.transactionIndex.refresh()) {
+                console.log('Loaded transactions:', this.transactions.length);
+                // Trigger an event to notify views (like StatsView) that transactions have been loaded/reloaded
+                this.events.trigger('transactions-updated');
             }
-            console.log('Loaded transactions:', this.transactions.length);
-             // Trigger an event to notify views (like StatsView) that transactions have been loaded/reloaded
-             this.events.trigger('transactions-updated');
         } catch (error) {
             console.error('Error loading transactions:', error);
             new Notice('Error loading transactions. Check console for details.');
         }
     }
 
+	/**
+	 * Re-read a file that was created or modified, if it holds transactions
+	 */
+	private async updateIndexedFile(file: TAbstractFile): Promise<void> {
+		try {
+			if (await this.transactionIndex.updateFile(file)) {
+				this.events.trigger('transactions-updated');
+			}
+		} catch (error) {
+			console.error(`Error reading transactions from ${file.path}:`, error);
+		}
+	}
+
+	/**
+	 * Write every due occurrence of the recurring rules. Occurrences whose transaction is
+	 * already in the vault are skipped, so running this again never duplicates them.
+	 * @returns The number of transactions written
+	 */
+	async postDueRecurringTransactions(): Promise<number> {
+		const today = moment().format('YYYY-MM-DD');
+		const dueRules = this.settings.recurringRules
+			.map(rule => ({ rule, dates: getDueOccurrences(rule, today) }))
+			.filter(({ dates }) => dates.length > 0);
+		if (dueRules.length === 0) {
+			return 0;
+		}
+
+		// Make sure the check below sees everything that is in the vault right now
+		await this.loadAllTransactions();
+		const existingIds = new Set(this.transactions.map(t => t.id));
+
+		let posted = 0;
+		for (const { rule, dates } of dueRules) {
+			for (const date of dates) {
+				const transaction = createRecurringTransaction(rule, date);
+				if (!existingIds.has(transaction.id)) {
+					try {
+						await saveTransaction(this.app, transaction, this.settings);
+					} catch (error) {
+						console.error(`Error posting recurring transaction "${rule.name}":`, error);
+						new Notice(`${this.i18n.t('ERROR_SAVING_TRANSACTION')}: ${error.message}`);
+						break;
+					}
+					existingIds.add(transaction.id);
+					posted++;
+				}
+				rule.lastPostedDate = date;
+			}
+		}
+		await this.saveSettings();
+
+		if (posted > 0) {
+			new Notice(this.i18n.t('RECURRING_POSTED').replace('{count}', posted.toString()));
+			await this.loadAllTransactions();
+			this.events.trigger('transaction-added');
+		}
+		return posted;
+	}
+
+	/**
+	 * Get the files transactions are read from: daily notes or the output file
+	 */
+	getTransactionFiles(): TFile[] {
+		return this.transactionIndex.getTransactionFiles();
+	}
+
 	/**
 	 * Get Obsidian's language and map it to supported locales
 	 */
@@ -161,37 +351,87 @@ export default class AccountingPlugin extends Plugin {
 
 	onunload() {
 		// Clean up
+		this.transactionIndex?.flushCache();
 		this.app.workspace.detachLeavesOfType(STATS_VIEW_TYPE);
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+		// Templates left at an earlier default gain the status section; changed ones are kept
+		const templateKeys = ['transactionTemplate', 'transferTemplate'] as const;
+		const outdated = templateKeys.filter(key => this.settings[key] === PREVIOUS_DEFAULT_TEMPLATES[key]);
+		if (outdated.length > 0) {
+			outdated.forEach(key => this.settings[key] = DEFAULT_SETTINGS[key]);
+			await this.saveData(this.settings);
+		}
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		// Transactions are read with the template, accounts, categories and tags; re-read
+		// them when those changed. Before the layout is ready the initial load does this.
+		if (this.app.workspace.layoutReady) {
+			this.loadAllTransactionsLater();
+		}
 	}
 
 	/**
 	 * Open the transaction modal for adding a new transaction
+	 * @param initialValues Fields to fill in the form with
 	 */
-	private openTransactionModal() {
+	private openTransactionModal(initialValues?: Partial<Transaction>) {
 		const modal = new TransactionModal(
 			this.app,
 			this,
-			async (transaction) => {
-				// Save the new transaction
-				await saveTransaction(this.app, transaction, this.settings);
-				new Notice(this.i18n.t('SUCCESS_SAVE_TRANSACTION'));
-				// Reload transactions and notify views
-				await this.loadAllTransactions();
-				this.events.trigger('transaction-added', transaction); // Keep original event if needed
-			}
+			(transaction) => this.addTransaction(transaction),
+			undefined,
+			initialValues
 		);
 		
 		modal.open();
 	}
 
+	/**
+	 * Write a new transaction and notify views
+	 * @returns Whether the transaction was written
+	 */
+	private async addTransaction(transaction: Transaction): Promise<boolean> {
+		try {
+			await this.writeTransaction(transaction);
+		} catch (error) {
+			console.error('Error saving transaction:', error);
+			new Notice(`${this.i18n.t('ERROR_SAVING_TRANSACTION')}: ${error.message}`);
+			return false;
+		}
+		new Notice(this.i18n.t('SUCCESS_SAVE_TRANSACTION'));
+		return true;
+	}
+
+	/**
+	 * Append a new transaction to its file, then reload and notify views
+	 * @throws When the transaction can't be formatted or written
+	 */
+	async writeTransaction(transaction: Transaction): Promise<void> {
+		await saveTransaction(this.app, transaction, this.settings);
+		await this.loadAllTransactions();
+		this.events.trigger('transaction-added', transaction); // Keep original event if needed
+	}
+
+	/**
+	 * Append a balance assertion to the ledger file of its day, then reload and notify views
+	 * @param account The account
+	 * @param date The day (YYYY-MM-DD)
+	 * @param amount The balance at the end of the day, the amount owed for liabilities
+	 * @throws When the assertion can't be written
+	 */
+	async writeBalanceAssertion(account: Account, date: string, amount: number): Promise<void> {
+		const filePath = getLedgerFilePath(date, this.settings);
+		await ensureFileExists(this.app, filePath);
+		await appendToFile(this.app, filePath, formatBalanceAssertion(account, date, amount));
+		await this.loadAllTransactions();
+	}
+
 	/**
 	 * Open the transaction modal for editing an existing transaction
 	 */
@@ -201,7 +441,9 @@ export default class AccountingPlugin extends Plugin {
 			this, 
 			async (updatedTransaction) => {
 				// Handle the updated transaction
-				await this.updateTransaction(updatedTransaction);
+				if (!await this.updateTransaction(updatedTransaction)) {
+					return;
+				}
 				new Notice('Transaction updated successfully'); // Add translation key if needed
 				// Reload transactions and notify views
 				await this.loadAllTransactions(); 
@@ -214,131 +456,256 @@ export default class AccountingPlugin extends Plugin {
 		modal.open();
 	}
 
+	/**
+	 * Find the file and line a transaction was read from, keyed by its ID
+	 */
+	private async locateTransaction(transaction: Transaction): Promise<{ file: TFile, lines: string[], start: number, end: number } | null> {
+		// The file the transaction's date points to is the likely location; fall back to every transaction file
+		const expectedPath = normalizePath(getTransactionFilePath(transaction, this.settings));
+		const expectedFile = this.app.vault.getAbstractFileByPath(expectedPath);
+		const candidates = this.getTransactionFiles().filter(file => file.path !== expectedPath);
+		if (expectedFile instanceof TFile) {
+			candidates.unshift(expectedFile);
+		}
+
+		for (const file of candidates) {
+			const content = await this.app.vault.read(file);
+			const parsed = parseTransactionContent(content, file.path, this.settings);
+			const range = parsed.lineRanges.get(transaction.id);
+			if (range) {
+				return { file, lines: content.split('\n'), ...range };
+			}
+		}
+		return null;
+	}
+
 	/**
 	 * Update an existing transaction in its file
-	 * NOTE: This is a complex operation and needs careful implementation.
+	 * @returns Whether the transaction was written
 	 */
-	private async updateTransaction(updatedTransaction: Transaction): Promise<void> {
-		// 1. Find the original transaction in this.transactions to get its original date (for finding the file)
-		const originalTransaction = this.transactions.find(t => t.id === updatedTransaction.id);
-		if (!originalTransaction) {
-			console.error('Cannot update transaction: Original not found.');
-			new Notice('Error updating transaction: Original not found.');
-			return;
+	private async updateTransaction(updatedTransaction: Transaction): Promise<boolean> {
+		try {
+			await this.replaceTransaction(updatedTransaction);
+		} catch (error) {
+			console.error('Cannot update transaction:', error);
+			new Notice(`Error updating transaction: ${error.message}`);
+			return false;
 		}
+		return true;
+	}
 
-		// 2. Determine the file path based on the ORIGINAL transaction's date
-		let filePath: string;
-		if (this.settings.useDailyNotes) {
-			const originalDateOnly = getDatePart(originalTransaction.date);
-			const date = moment(originalDateOnly, 'YYYY-MM-DD'); // Use moment here
-			const fileName = date.format(this.settings.dailyNotesFormat);
-			filePath = `${fileName}.md`;
-		} else {
-			filePath = this.settings.outputFile;
+	/**
+	 * Replace the lines of a transaction, found by its ID, with its updated version
+	 * @throws When the original lines can't be found or the transaction can't be formatted
+	 */
+	async replaceTransaction(updatedTransaction: Transaction): Promise<void> {
+		// 1. Find the line of the original transaction by its ID
+		const location = await this.locateTransaction(updatedTransaction);
+		if (!location) {
+			throw new Error(`Could not find original record of transaction ${updatedTransaction.id}.`);
 		}
+		const { file, lines, start, end } = location;
 
-		// 3. Read the file content
-		const normalizedPath = normalizePath(filePath);
-		const file = this.app.vault.getAbstractFileByPath(normalizedPath) as TFile; // Use imported TFile
-		if (!file) {
-			console.error(`Cannot update transaction: File not found at ${filePath}`);
-			new Notice(`Error updating transaction: File not found.`);
-			return;
+		// 2. Format the updated transaction
+		const updatedFormatted = formatTransactionForFile(updatedTransaction, this.settings);
+
+		// 3. Replace the line in place, or move it when the date now belongs to another daily note
+		const targetPath = normalizePath(getTransactionFilePath(updatedTransaction, this.settings));
+		if (targetPath === file.path) {
+			lines.splice(start, end - start, updatedFormatted);
+			await this.app.vault.modify(file, lines.join('\n'));
+		} else {
+			await saveTransaction(this.app, updatedTransaction, this.settings);
+			lines.splice(start, end - start);
+			await this.app.vault.modify(file, lines.join('\n'));
 		}
-		const content = await this.app.vault.read(file);
-		const lines = content.split('\n');
-
-		// 4. Find and replace the line
-		//    THIS IS THE TRICKY PART. How are transactions uniquely identified in the line?
-		//    Assuming the format includes the ID, e.g., `- {{date}} | ... | id={{id}}`
-		//    Or relying on exact match of the original formatted string might be fragile.
-		//    A robust solution might require parsing each line or adding explicit IDs.
-		//    For now, let's try finding by ID if it's part of the format, or fall back to searching for original formatted line.
-		
-		let foundIndex = -1;
-		// Try finding by ID embedded in the line (adjust regex/logic as needed)
-		const idRegex = new RegExp(`id=${originalTransaction.id}( |$)`); 
-		foundIndex = lines.findIndex(line => line.startsWith('- ') && idRegex.test(line));
-
-		// Fallback: Find by matching the originally formatted string (less reliable)
-		if (foundIndex === -1) {
-			const originalFormatted = formatTransaction(originalTransaction, this.settings.transactionTemplate, this.settings.accounts, this.settings.categories, this.settings.tags);
-			foundIndex = lines.findIndex(line => line.trim() === originalFormatted.trim());
+	}
+
+	/**
+	 * Delete a transaction after confirmation, removing its line from the source file
+	 * @returns Whether the transaction was deleted
+	 */
+	async deleteTransaction(transaction: Transaction): Promise<boolean> {
+		if (!confirm(this.i18n.t('CONFIRM_DELETE_TRANSACTION'))) {
+			return false;
 		}
 
-		if (foundIndex === -1) {
-			console.error(`Cannot update transaction: Line for ID ${originalTransaction.id} not found in ${filePath}`);
-			new Notice(`Error updating transaction: Could not find original record.`);
-			return;
+		try {
+			await this.removeTransaction(transaction);
+		} catch (error) {
+			console.error('Cannot delete transaction:', error);
+			new Notice(`Error deleting transaction: ${error.message}`);
+			return false;
 		}
 
-		// 5. Format the updated transaction
-		const updatedFormatted = formatTransaction(updatedTransaction, this.settings.transactionTemplate, this.settings.accounts, this.settings.categories, this.settings.tags);
+		new Notice(this.i18n.t('SUCCESS_DELETE_TRANSACTION'));
+		return true;
+	}
 
-		// 6. Replace the line and save
-		lines[foundIndex] = updatedFormatted;
+	/**
+	 * Remove the lines of a transaction, found by its ID, without asking
+	 * @throws When the lines can't be found
+	 */
+	async removeTransaction(transaction: Transaction): Promise<void> {
+		const location = await this.locateTransaction(transaction);
+		if (!location) {
+			throw new Error(`Could not find original record of transaction ${transaction.id}.`);
+		}
+
+		const { file, lines, start, end } = location;
+		lines.splice(start, end - start);
 		await this.app.vault.modify(file, lines.join('\n'));
 
-		// 7. Handle potential file move if date changed and using daily notes
-		if (this.settings.useDailyNotes) {
-			const newDateOnly = getDatePart(updatedTransaction.date);
-			if (newDateOnly !== getDatePart(originalTransaction.date)) {
-				// Transaction date changed, need to move it to the new daily note
-				// This involves removing it from the old file (already done by replacing) 
-				// and appending it to the new file.
-				await saveTransaction(this.app, updatedTransaction, this.settings); // Save to potentially new file
-				
-				// Clean up the placeholder line in the original file if it wasn't the only content
-				// (Re-reading and saving might be safer)
-				const oldContent = await this.app.vault.read(file);
-				const oldLines = oldContent.split('\n');
-				// If the line we replaced was the only transaction, the file might just have that line.
-				// Simple check: if the line exists and is just the updated one, remove it.
-				// A more robust check is needed depending on file structure.
-				if (oldLines[foundIndex] === updatedFormatted) { 
-					 oldLines.splice(foundIndex, 1);
-					 await this.app.vault.modify(file, oldLines.join('\n'));
+		await this.loadAllTransactions();
+		this.events.trigger('transaction-deleted', transaction);
+	}
+
+	/**
+	 * Delete the transaction written on the editor's current line
+	 */
+	private async deleteTransactionAtCursor(editor: Editor, view: MarkdownView): Promise<void> {
+		const cursorLine = editor.getCursor().line;
+		const parsed = parseTransactionContent(editor.getValue(), view.file?.path || '', this.settings);
+
+		let transaction: Transaction | undefined;
+		parsed.lineRanges.forEach((range, id) => {
+			if (cursorLine >= range.start && cursorLine < range.end) {
+				transaction = parsed.transactions.find(t => t.id === id);
+			}
+		});
+
+		if (!transaction) {
+			new Notice(this.i18n.t('NO_TRANSACTION_AT_CURSOR'));
+			return;
+		}
+		await this.deleteTransaction(transaction);
+	}
+
+	/**
+	 * Write a block ID onto every transaction line that doesn't have one yet
+	 */
+	private async migrateTransactionIds(): Promise<void> {
+		let added = 0;
+		try {
+			for (const file of this.getTransactionFiles()) {
+				const content = await this.app.vault.read(file);
+				const result = addMissingBlockIds(content, file.path, this.settings);
+				if (result.added > 0) {
+					await this.app.vault.modify(file, result.content);
+					added += result.added;
 				}
 			}
+		} catch (error) {
+			console.error('Error adding transaction IDs:', error);
+			new Notice('Error adding transaction IDs. Check console for details.');
+			return;
 		}
+
+		new Notice(this.i18n.t('TRANSACTION_IDS_ADDED').replace('{count}', added.toString()));
+		await this.loadAllTransactions();
 	}
 
 	/**
-	 * Handle slash command for quick transaction entry
+	 * Handle slash command for quick transaction entry, e.g. "/accounting 35.5 午餐 微信 #工作 lunch".
+	 * A complete and unambiguous entry is written after a confirmation preview; anything
+	 * else opens the full modal with the fields that could be read.
 	 */
 	private handleSlashCommand(line: string, editor: Editor, view: MarkdownView) {
 		// Remove the slash command prefix
 		const commandText = line.replace(/^\/(accounting|transaction)\s*/, '').trim();
+
+		// Remove the slash command line
+		editor.replaceRange('', 
+			{ line: editor.getCursor().line, ch: 0 },
+			{ line: editor.getCursor().line, ch: line.length }
+		);
 		
 		if (!commandText) {
 			// If no additional text, open the modal
 			this.openTransactionModal();
 			return;
 		}
-		
-		// TODO: Implement parsing of command text for quick entry
-		// For now, just open the modal
-		this.openTransactionModal();
-		
-		// Remove the slash command line
-		editor.replaceRange('', 
-			{ line: editor.getCursor().line, ch: 0 },
-			{ line: editor.getCursor().line, ch: line.length }
-		);
+
+		const { transaction, problems } = parseQuickEntry(commandText, this.settings);
+		if (problems.length > 0) {
+			new Notice(this.getQuickEntryProblemMessage(problems[0]));
+			this.openTransactionModal(transaction);
+			return;
+		}
+
+		new QuickEntryConfirmModal(
+			this.app,
+			this,
+			transaction as Transaction,
+			(confirmed) => this.addTransaction(confirmed),
+			(toEdit) => this.openTransactionModal(toEdit)
+		).open();
+	}
+
+	/**
+	 * Describe why a quick entry needs to be completed in the modal
+	 */
+	private getQuickEntryProblemMessage(problem: QuickEntryProblem): string {
+		const messages: Record<QuickEntryProblem['kind'], string> = {
+			'missing-amount': this.i18n.t('QUICK_ENTRY_MISSING_AMOUNT'),
+			'missing-account': this.i18n.t('QUICK_ENTRY_MISSING_ACCOUNT'),
+			'missing-category': this.i18n.t('QUICK_ENTRY_MISSING_CATEGORY'),
+			'ambiguous-account': this.i18n.t('QUICK_ENTRY_AMBIGUOUS_ACCOUNT'),
+			'ambiguous-category': this.i18n.t('QUICK_ENTRY_AMBIGUOUS_CATEGORY'),
+			'unknown-tag': this.i18n.t('QUICK_ENTRY_UNKNOWN_TAG')
+		};
+		return messages[problem.kind].replace('{name}', problem.text || '');
+	}
+
+	/**
+	 * Handle an obsidian://accounting URI. `action=add` writes the transaction when every
+	 * field resolves and opens the prefilled modal otherwise; `action=stats` opens the
+	 * statistics on a tab (`tab`) and date (`date`).
+	 */
+	private async handleUri(params: ObsidianProtocolData): Promise<void> {
+		switch (params.action) {
+			case 'add': {
+				const { transaction, problems } = parseAddUriParams(params, this.settings);
+				if (problems.length > 0) {
+					new Notice(this.getQuickEntryProblemMessage(problems[0]));
+					this.openTransactionModal(transaction);
+					return;
+				}
+				await this.addTransaction(transaction as Transaction);
+				break;
+			}
+			case 'stats': {
+				const tab = params.tab || StatsTab.OVERVIEW;
+				if (!Object.values(StatsTab).includes(tab as StatsTab)) {
+					new Notice(this.i18n.t('URI_UNKNOWN_TAB').replace('{name}', tab));
+					return;
+				}
+				const date = params.date ? moment(params.date, ['YYYY-MM-DD', 'YYYY-MM', 'YYYY'], true) : null;
+				if (date && !date.isValid()) {
+					new Notice(this.i18n.t('URI_INVALID_DATE').replace('{date}', params.date));
+					return;
+				}
+				const view = await this.activateStatsView();
+				view?.showTab(tab as StatsTab, date?.format('YYYY-MM-DD'));
+				break;
+			}
+			default:
+				new Notice(this.i18n.t('URI_UNKNOWN_ACTION').replace('{name}', params.action));
+		}
 	}
 
 	/**
 	 * Activate the stats view
+	 * @returns The view, or null when no leaf could be opened for it
 	 */
-	private async activateStatsView() {
+	private async activateStatsView(): Promise<StatsView | null> {
 		// Check if the view is already open
 		const existing = this.app.workspace.getLeavesOfType(STATS_VIEW_TYPE);
 		
 		if (existing.length) {
 			// Focus the existing leaf
 			this.app.workspace.revealLeaf(existing[0]);
-			return;
+			return existing[0].view as StatsView;
 		}
 		
 		// Open the view in a new leaf
@@ -353,8 +720,10 @@ export default class AccountingPlugin extends Plugin {
 			const leaves = this.app.workspace.getLeavesOfType(STATS_VIEW_TYPE);
 			if (leaves.length > 0) {
 				this.app.workspace.revealLeaf(leaves[0]);
+				return leaves[0].view as StatsView;
 			}
 		}
+		return null;
 	}
 
 	/**
@@ -0,0 +1,364 @@
+// Public API for other plugins and scripts, available as
+// app.plugins.plugins['obsidian-accounting'].api
+
+import { EventRef, moment } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Account, AccountType, BudgetPeriod, BudgetScope, Category, Tag, Transaction, TransactionType, findItemById, flattenHierarchy, generateId, getAccountType } from './models';
+import { convertToBaseCurrency, convertTransactionAmount, convertTransactionAmountTo, getAccountCurrency } from './currency';
+import { calculateBudgetSpending, getAccountBalanceChange, getAccountDescendantIds, getAllDescendantIds, getCategoryAmounts, getDatePart, getOpeningBalance, getPeriodDateRange, isTransactionForAccount, normalizeTransactionDate } from './utils';
+
+/**
+ * Version of the API. The major version changes when a change could break existing
+ * scripts; the minor version when something is added.
+ */
+export const API_VERSION = '1.1';
+
+/**
+ * Events scripts can subscribe to
+ */
+export type AccountingApiEvent = 'transactions-updated' | 'transaction-added' | 'transaction-deleted';
+
+/**
+ * Which transactions getTransactions returns; every field is optional
+ */
+export interface TransactionFilter {
+    /** First day included (YYYY-MM-DD) */
+    from?: string;
+    /** Last day included (YYYY-MM-DD) */
+    to?: string;
+    type?: TransactionType;
+    accountId?: string;
+    categoryId?: string;
+    tagId?: string;
+    /** Whether accounts, categories and tags match their sub-items too, true by default */
+    includeChildren?: boolean;
+    /** Text contained in the description or note, case-insensitive */
+    text?: string;
+}
+
+/**
+ * A transaction to add; the ID is generated when missing
+ */
+export type TransactionInput = Omit<Transaction, 'id' | 'categoryId' | 'tagIds'> & {
+    id?: string;
+    categoryId?: string;
+    tagIds?: string[];
+};
+
+/**
+ * Balance of an account at the end of a day
+ */
+export interface AccountBalance {
+    accountId: string;
+    name: string;
+    type: AccountType;
+    /** Currency of the account */
+    currency: string;
+    /**
+     * Opening balance plus the account's own transactions, in the account's currency;
+     * negative while money is owed on a credit card or liability
+     */
+    balance: number;
+    /** Balance including sub-accounts, in the base currency */
+    totalBalance: number;
+}
+
+/**
+ * Spending against a budget in the period containing a date
+ */
+export interface BudgetStatus {
+    budgetId: string;
+    name: string;
+    scope: BudgetScope;
+    scopeId: string;
+    period: BudgetPeriod;
+    /** First day of the period (YYYY-MM-DD) */
+    start: string;
+    /** Last day of the period (YYYY-MM-DD) */
+    end: string;
+    /** The budgeted amount, in the base currency */
+    amount: number;
+    /** Spent so far, in the base currency */
+    spent: number;
+    remaining: number;
+    /** Share of the budget spent, 1 when fully spent */
+    ratio: number;
+}
+
+/**
+ * Copy a transaction so scripts can't change the loaded data by accident
+ */
+function copyTransaction(transaction: Transaction): Transaction {
+    return {
+        ...transaction,
+        tagIds: [...transaction.tagIds],
+        splits: transaction.splits?.map(split => ({ ...split, tagIds: split.tagIds ? [...split.tagIds] : undefined }))
+    };
+}
+
+/**
+ * The API of the plugin. Reads come from the transaction index; writes go through the
+ * same code as the plugin's own modals and throw an Error when they fail.
+ */
+export class AccountingApi {
+    readonly version = API_VERSION;
+    private plugin: AccountingPlugin;
+
+    constructor(plugin: AccountingPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Whether this API can be used by a script written for a version, i.e. the major
+     * versions match and this one is not older
+     * @param required The version the script was written for, e.g. "1.0"
+     */
+    isCompatible(required: string): boolean {
+        const [major, minor] = this.version.split('.').map(Number);
+        const [requiredMajor, requiredMinor = 0] = required.split('.').map(Number);
+        return major === requiredMajor && minor >= requiredMinor;
+    }
+
+    /**
+     * Get the accounts, as a flat list; accounts below another name it by `parentId`
+     */
+    getAccounts(): Account[] {
+        return JSON.parse(JSON.stringify(this.plugin.settings.accounts));
+    }
+
+    /**
+     * Get the categories, as a hierarchy
+     */
+    getCategories(): Category[] {
+        return JSON.parse(JSON.stringify(this.plugin.settings.categories));
+    }
+
+    /**
+     * Get the tags, as a hierarchy
+     */
+    getTags(): Tag[] {
+        return JSON.parse(JSON.stringify(this.plugin.settings.tags));
+    }
+
+    /**
+     * Get the transactions matching a filter, newest first
+     * @param filter Which transactions to return, all by default
+     */
+    getTransactions(filter: TransactionFilter = {}): Transaction[] {
+        const settings = this.plugin.settings;
+        const includeChildren = filter.includeChildren !== false;
+        const idsOf = <T extends { id: string, children?: T[] }>(items: T[], id: string) =>
+            new Set(includeChildren ? getAllDescendantIds(items, id) : [id]);
+        const accountIds = filter.accountId
+            ? new Set(includeChildren ? getAccountDescendantIds(settings.accounts, filter.accountId) : [filter.accountId])
+            : null;
+        const categoryIds = filter.categoryId ? idsOf(settings.categories, filter.categoryId) : null;
+        const tagIds = filter.tagId ? idsOf(settings.tags, filter.tagId) : null;
+        const text = filter.text?.toLowerCase();
+
+        return this.plugin.transactions
+            .filter(transaction => {
+                const date = getDatePart(transaction.date);
+                if ((filter.from && date < filter.from) || (filter.to && date > filter.to)) {
+                    return false;
+                }
+                if (filter.type && transaction.type !== filter.type) {
+                    return false;
+                }
+                if (accountIds && !Array.from(accountIds).some(id => isTransactionForAccount(transaction, id))) {
+                    return false;
+                }
+                const parts = getCategoryAmounts(transaction);
+                if (categoryIds && !parts.some(part => categoryIds.has(part.categoryId))) {
+                    return false;
+                }
+                if (tagIds && !parts.some(part => part.tagIds.some(id => tagIds.has(id)))) {
+                    return false;
+                }
+                if (text && ![transaction.description, transaction.note].some(value => value?.toLowerCase().includes(text))) {
+                    return false;
+                }
+                return true;
+            })
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .map(copyTransaction);
+    }
+
+    /**
+     * Get a transaction by its ID
+     */
+    getTransaction(id: string): Transaction | undefined {
+        const transaction = this.plugin.transactions.find(t => t.id === id);
+        return transaction ? copyTransaction(transaction) : undefined;
+    }
+
+    /**
+     * Write a new transaction to its daily note or the output file
+     * @param input The transaction
+     * @returns The transaction as written, with its ID
+     * @throws When a field is invalid or the transaction can't be written
+     */
+    async addTransaction(input: TransactionInput): Promise<Transaction> {
+        const transaction: Transaction = {
+            ...input,
+            id: input.id || generateId(),
+            categoryId: input.categoryId || '',
+            tagIds: input.tagIds || []
+        };
+        this.validate(transaction);
+        if (this.plugin.transactions.some(t => t.id === transaction.id)) {
+            throw new Error(`A transaction with ID ${transaction.id} already exists`);
+        }
+
+        await this.plugin.writeTransaction(transaction);
+        return copyTransaction(transaction);
+    }
+
+    /**
+     * Change fields of an existing transaction
+     * @param id The ID of the transaction
+     * @param changes The fields to change
+     * @returns The updated transaction
+     * @throws When the transaction doesn't exist, a field is invalid or it can't be written
+     */
+    async updateTransaction(id: string, changes: Partial<TransactionInput>): Promise<Transaction> {
+        const existing = this.plugin.transactions.find(t => t.id === id);
+        if (!existing) {
+            throw new Error(`Transaction ${id} not found`);
+        }
+        const transaction: Transaction = { ...copyTransaction(existing), ...changes, id };
+        this.validate(transaction);
+
+        await this.plugin.replaceTransaction(transaction);
+        await this.plugin.loadAllTransactions();
+        return copyTransaction(transaction);
+    }
+
+    /**
+     * Delete a transaction, without asking for confirmation
+     * @param id The ID of the transaction
+     * @throws When the transaction doesn't exist or can't be removed
+     */
+    async deleteTransaction(id: string): Promise<void> {
+        const existing = this.plugin.transactions.find(t => t.id === id);
+        if (!existing) {
+            throw new Error(`Transaction ${id} not found`);
+        }
+        await this.plugin.removeTransaction(existing);
+    }
+
+    /**
+     * Get the balance of every account at the end of a day
+     * @param date The day (YYYY-MM-DD), today by default
+     */
+    getBalances(date: string = moment().format('YYYY-MM-DD')): AccountBalance[] {
+        const settings = this.plugin.settings;
+        const transactions = this.plugin.transactions.filter(t => getDatePart(t.date) <= date);
+
+        return flattenHierarchy(settings.accounts).map(account => {
+            const currency = getAccountCurrency(account as Account, settings);
+            const ids = getAccountDescendantIds(settings.accounts, account.id);
+            let balance = getOpeningBalance(account as Account, date);
+            let totalBalance = ids.reduce((sum, id) => {
+                const child = findItemById(settings.accounts, id);
+                return child ? sum + convertToBaseCurrency(getOpeningBalance(child, date), getAccountCurrency(child, settings), child.openingDate || date, settings) : sum;
+            }, 0);
+            transactions.forEach(transaction => {
+                balance += convertTransactionAmountTo(transaction, currency, settings, getAccountBalanceChange(transaction, account.id));
+                const change = ids.reduce((sum, id) => sum + getAccountBalanceChange(transaction, id), 0);
+                totalBalance += convertTransactionAmount(transaction, settings, change);
+            });
+            return { accountId: account.id, name: account.name, type: getAccountType(account), currency, balance, totalBalance };
+        });
+    }
+
+    /**
+     * Get the spending against every budget in its period containing a day
+     * @param date The day (YYYY-MM-DD), today by default
+     */
+    getBudgetStatus(date: string = moment().format('YYYY-MM-DD')): BudgetStatus[] {
+        const settings = this.plugin.settings;
+        return settings.budgets.map(budget => {
+            const { start, end } = getPeriodDateRange(budget.period, moment(date, 'YYYY-MM-DD'));
+            const spent = calculateBudgetSpending(
+                budget,
+                this.plugin.transactions,
+                settings.categories,
+                settings.tags,
+                start,
+                end,
+                (transaction, amount) => convertTransactionAmount(transaction, settings, amount)
+            );
+            return {
+                budgetId: budget.id,
+                name: budget.name,
+                scope: budget.scope,
+                scopeId: budget.scopeId,
+                period: budget.period,
+                start: start.format('YYYY-MM-DD'),
+                end: end.format('YYYY-MM-DD'),
+                amount: budget.amount,
+                spent,
+                remaining: budget.amount - spent,
+                ratio: budget.amount > 0 ? spent / budget.amount : 0
+            };
+        });
+    }
+
+    /**
+     * Subscribe to an event. 'transactions-updated' fires whenever the loaded transactions
+     * change, including edits made by hand; the other events receive the transaction.
+     * @returns A function that ends the subscription
+     */
+    on(event: AccountingApiEvent, callback: (transaction?: Transaction) => void): () => void {
+        const ref: EventRef = this.plugin.events.on(event, (transaction?: Transaction) => {
+            callback(transaction ? copyTransaction(transaction) : undefined);
+        });
+        return () => this.plugin.events.offref(ref);
+    }
+
+    /**
+     * Check the fields of a transaction before it is written
+     * @throws Error naming the first invalid field
+     */
+    private validate(transaction: Transaction): void {
+        const settings = this.plugin.settings;
+        if (!['income', 'expense', 'transfer'].includes(transaction.type)) {
+            throw new Error(`Invalid type "${transaction.type}"`);
+        }
+        if (typeof transaction.amount !== 'number' || !isFinite(transaction.amount) || transaction.amount <= 0) {
+            throw new Error(`Invalid amount "${transaction.amount}"`);
+        }
+        if (!transaction.date || !moment(normalizeTransactionDate(transaction.date), 'YYYY-MM-DD HH:mm', true).isValid()) {
+            throw new Error(`Invalid date "${transaction.date}"`);
+        }
+
+        const accountFields: Array<'accountId' | 'fromAccountId' | 'toAccountId'> = transaction.type === 'transfer'
+            ? ['fromAccountId', 'toAccountId']
+            : ['accountId'];
+        accountFields.forEach(field => {
+            const accountId = transaction[field];
+            if (!accountId || !findItemById(settings.accounts, accountId)) {
+                throw new Error(`Unknown account in ${field}: "${accountId || ''}"`);
+            }
+        });
+
+        if (transaction.type !== 'transfer') {
+            const categoryIds = transaction.splits && transaction.splits.length > 0
+                ? transaction.splits.map(split => split.categoryId)
+                : [transaction.categoryId];
+            categoryIds.forEach(categoryId => {
+                const category = findItemById(settings.categories, categoryId);
+                if (!category || category.type !== transaction.type) {
+                    throw new Error(`Unknown ${transaction.type} category "${categoryId}"`);
+                }
+            });
+        }
+
+        transaction.tagIds.forEach(tagId => {
+            if (!findItemById(settings.tags, tagId)) {
+                throw new Error(`Unknown tag "${tagId}"`);
+            }
+        });
+    }
+}
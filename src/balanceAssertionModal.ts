@@ -0,0 +1,84 @@
+// Dialog for writing a balance assertion, e.g. the closing balance of a bank statement
+
+import { App, Modal, Notice, Setting, moment } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Account, getDisplayBalance } from './models';
+import { getAccountBalance } from './balances';
+
+/**
+ * Asks for the day and the balance of an account and writes them to the ledger as a
+ * balance assertion. The balance starts out as the one computed from the transactions.
+ */
+export class BalanceAssertionModal extends Modal {
+    private plugin: AccountingPlugin;
+    private account: Account;
+    /** YYYY-MM-DD */
+    private date = moment().format('YYYY-MM-DD');
+    private amount = '';
+
+    constructor(app: App, plugin: AccountingPlugin, account: Account) {
+        super(app);
+        this.plugin = plugin;
+        this.account = account;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: `${i18n.t('ADD_BALANCE_ASSERTION')}: ${this.account.name}` });
+
+        let amountInput: HTMLInputElement | null = null;
+        const fillComputedBalance = () => {
+            const balance = getAccountBalance(this.account, this.plugin.transactions, this.plugin.settings, this.date);
+            this.amount = getDisplayBalance(this.account, balance).toFixed(2);
+            if (amountInput) amountInput.value = this.amount;
+        };
+
+        new Setting(contentEl)
+            .setName(i18n.t('DATE'))
+            .setDesc(i18n.t('BALANCE_ASSERTION_DATE_DESC'))
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.date).onChange(value => {
+                    this.date = value;
+                    fillComputedBalance();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName(i18n.t('BALANCE_ASSERTED'))
+            .setDesc(i18n.t('BALANCE_ASSERTION_AMOUNT_DESC'))
+            .addText(text => {
+                text.inputEl.type = 'number';
+                amountInput = text.inputEl;
+                text.onChange(value => this.amount = value.trim());
+            });
+        fillComputedBalance();
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(i18n.t('SAVE'))
+                .setCta()
+                .onClick(async () => {
+                    const amount = parseFloat(this.amount);
+                    if (!moment(this.date, 'YYYY-MM-DD', true).isValid() || isNaN(amount)) {
+                        new Notice(i18n.t('ERROR_INVALID_BALANCE_ASSERTION'));
+                        return;
+                    }
+                    try {
+                        await this.plugin.writeBalanceAssertion(this.account, this.date, amount);
+                    } catch (error) {
+                        console.error('Error saving balance assertion:', error);
+                        new Notice(`${i18n.t('ERROR_SAVING_BALANCE_ASSERTION')}: ${error.message}`);
+                        return;
+                    }
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,71 @@
+// Account balances over time, and checking them against balance assertions
+
+import { Account, BalanceAssertion, Transaction, findItemById, getDisplayBalance } from './models';
+import { AccountingPluginSettings } from './settings';
+import { convertTransactionAmountTo, getAccountCurrency } from './currency';
+import { getAccountBalanceChange, getDatePart, getOpeningBalance } from './utils';
+
+/**
+ * Difference below which a computed balance matches an assertion
+ */
+const BALANCE_TOLERANCE = 0.005;
+
+/**
+ * A balance assertion checked against the balance computed from the transactions
+ */
+export interface BalanceAssertionResult {
+    assertion: BalanceAssertion;
+    account?: Account;
+    /** Computed balance at the end of the day, the amount owed for liabilities like the assertion */
+    balance: number;
+    /** Asserted minus computed balance */
+    difference: number;
+    matches: boolean;
+}
+
+/**
+ * Get the balance of an account at the end of a day: its opening balance plus every
+ * transaction up to that day
+ * @param account The account
+ * @param transactions All transactions
+ * @param settings The plugin settings
+ * @param date The day (YYYY-MM-DD); every transaction when not given
+ * @returns Money in minus money out, in the account's currency
+ */
+export function getAccountBalance(
+    account: Account,
+    transactions: Transaction[],
+    settings: AccountingPluginSettings,
+    date?: string
+): number {
+    const currency = getAccountCurrency(account, settings);
+    return transactions.reduce((balance, transaction) => {
+        if (date && getDatePart(transaction.date) > date) {
+            return balance;
+        }
+        const change = getAccountBalanceChange(transaction, account.id);
+        return change ? balance + convertTransactionAmountTo(transaction, currency, settings, change) : balance;
+    }, getOpeningBalance(account, date));
+}
+
+/**
+ * Check balance assertions against the running balances of their accounts
+ * @param assertions The balance assertions
+ * @param transactions All transactions
+ * @param settings The plugin settings
+ * @returns One result per assertion, oldest first
+ */
+export function checkBalanceAssertions(
+    assertions: BalanceAssertion[],
+    transactions: Transaction[],
+    settings: AccountingPluginSettings
+): BalanceAssertionResult[] {
+    return [...assertions]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(assertion => {
+            const account = findItemById(settings.accounts, assertion.accountId) || undefined;
+            const balance = account ? getDisplayBalance(account, getAccountBalance(account, transactions, settings, assertion.date)) : 0;
+            const difference = assertion.amount - balance;
+            return { assertion, account, balance, difference, matches: Math.abs(difference) < BALANCE_TOLERANCE };
+        });
+}
@@ -0,0 +1,160 @@
+// Chart renderers shared by the statistics view and embedded query blocks
+
+/**
+ * Formats an amount for display, e.g. with the base currency symbol
+ */
+export type MoneyFormatter = (amount: number, fractionDigits?: number) => string;
+
+/**
+ * Income and expense of one bar group
+ */
+export interface IncomeExpensePoint {
+    label: string;
+    income: number;
+    expense: number;
+}
+
+/**
+ * Extra classes for the elements of a bar chart, for charts that are styled differently
+ */
+export interface BarChartClasses {
+    chart?: string;
+    item?: string;
+    group?: string;
+    label?: string;
+}
+
+/**
+ * Render paired income and expense bars for each point
+ * @param containerEl The element to render into
+ * @param points The bar groups, in display order
+ * @param formatMoney Formats the values shown on the bars
+ * @param classes Extra classes for the chart elements
+ */
+export function renderIncomeExpenseBarChart(
+    containerEl: HTMLElement,
+    points: IncomeExpensePoint[],
+    formatMoney: MoneyFormatter,
+    classes: BarChartClasses = {}
+): void {
+    const withClass = (base: string, extra?: string) => extra ? `${base} ${extra}` : base;
+    const chartEl = containerEl.createDiv({ cls: withClass('bar-chart-grid', classes.chart) });
+
+    // Find the maximum value for scaling
+    let maxValue = 0;
+    points.forEach(point => {
+        maxValue = Math.max(maxValue, point.income, point.expense);
+    });
+    maxValue = maxValue * 1.1 || 100; // Add padding, default 100
+
+    points.forEach(point => {
+        const itemContainer = chartEl.createDiv({ cls: withClass('bar-item-container', classes.item) });
+        const barsContainer = itemContainer.createDiv({ cls: withClass('bar-group', classes.group) });
+
+        // Income bar
+        const incomeBarWrapper = barsContainer.createDiv({ cls: 'bar-wrapper' });
+        const incomeBar = incomeBarWrapper.createDiv({ cls: 'bar income-bar' });
+        incomeBar.style.height = `${(point.income / maxValue) * 100}%`;
+        if (point.income > 0) {
+            incomeBar.createDiv({ cls: 'bar-value' }).setText(formatMoney(point.income, 0));
+        }
+
+        // Expense bar
+        const expenseBarWrapper = barsContainer.createDiv({ cls: 'bar-wrapper' });
+        const expenseBar = expenseBarWrapper.createDiv({ cls: 'bar expense-bar' });
+        expenseBar.style.height = `${(point.expense / maxValue) * 100}%`;
+        if (point.expense > 0) {
+            expenseBar.createDiv({ cls: 'bar-value' }).setText(formatMoney(point.expense, 0));
+        }
+
+        itemContainer.createDiv({ cls: withClass('bar-label', classes.label) }).setText(point.label);
+    });
+}
+
+/**
+ * Add a standard Income/Expense legend
+ */
+export function addIncomeExpenseLegend(containerEl: HTMLElement): void {
+    const legend = containerEl.createDiv({ cls: 'chart-legend' });
+    const incomeLegend = legend.createDiv({ cls: 'legend-item' });
+    incomeLegend.createDiv({ cls: 'legend-color income-color' });
+    incomeLegend.createEl('span', { text: 'Income' });
+    const expenseLegend = legend.createDiv({ cls: 'legend-item' });
+    expenseLegend.createDiv({ cls: 'legend-color expense-color' });
+    expenseLegend.createEl('span', { text: 'Expenses' });
+}
+
+/**
+ * Render a pie chart of category amounts (income or expense)
+ * @param containerEl The element to render into
+ * @param categoryData Names and amounts, sorted by amount
+ * @param totalAmount The total of all amounts
+ * @param formatMoney Formats the total shown in the tooltip
+ */
+export function renderCategoryPieChart(
+    containerEl: HTMLElement,
+    categoryData: { name: string, amount: number }[],
+    totalAmount: number,
+    formatMoney: MoneyFormatter
+): void {
+    const chartOuterContainer = containerEl.createDiv('pie-chart-outer-container');
+    const chartContainer = chartOuterContainer.createDiv('category-pie-chart-container');
+
+    if (categoryData.length === 0 || totalAmount <= 0) {
+        chartContainer.createEl('p', { text: 'No data for pie chart.' });
+        return;
+    }
+
+    // Show the top 9 slices and group the rest as "Other"
+    const maxSlices = 10;
+    let displayData = categoryData;
+    if (categoryData.length > maxSlices) {
+        displayData = categoryData.slice(0, maxSlices - 1);
+        const otherAmount = categoryData.slice(maxSlices - 1).reduce((sum, cat) => sum + cat.amount, 0);
+        if (otherAmount > 0) {
+            displayData.push({ name: 'Other', amount: otherAmount });
+        }
+    }
+
+    // Generate CSS conic gradient string
+    let gradientString = 'conic-gradient(';
+    let currentPercentage = 0;
+    const colors = generateCategoryColors(displayData.length);
+
+    displayData.forEach(({ amount }, index) => {
+        const percentage = (amount / totalAmount) * 100;
+        const color = colors[index % colors.length];
+        gradientString += `${color} ${currentPercentage}% ${currentPercentage + percentage}%, `;
+        currentPercentage += percentage;
+    });
+
+    // Remove trailing comma and space, add closing parenthesis
+    gradientString = gradientString.slice(0, -2) + ')';
+
+    const pieElement = chartContainer.createDiv({ cls: 'pie-chart' });
+    pieElement.style.background = gradientString;
+    pieElement.title = `Total: ${formatMoney(totalAmount)}`;
+}
+
+/**
+ * Generate distinct colors for categories.
+ * Simple HSL based color generation.
+ */
+export function generateCategoryColors(count: number): string[] {
+    // A single color should be reasonably distinct
+    if (count === 1) {
+        return ['hsl(210, 70%, 60%)'];
+    }
+
+    const colors: string[] = [];
+    // Use a base hue and rotate, varying lightness/saturation slightly for more distinction
+    const baseHue = 200;
+    const hueStep = count > 1 ? 360 / count : 0;
+    for (let i = 0; i < count; i++) {
+        const hue = (baseHue + i * hueStep) % 360;
+        const saturation = 60 + (i % 2) * 10;
+        const lightness = 55 + (i % 3) * 5;
+        colors.push(`hsl(${hue}, ${saturation}%, ${lightness}%)`);
+    }
+    return colors;
+}
@@ -0,0 +1,271 @@
+// Reading transactions from CSV files with a user-defined column mapping
+
+import { moment } from 'obsidian';
+import { TransactionType } from './models';
+import { ImportRow } from './importer';
+
+/**
+ * Fields a CSV column can be mapped to
+ */
+export type CsvField = 'date' | 'time' | 'amount' | 'type' | 'account' | 'category' | 'tags' | 'description' | 'note';
+
+export const CSV_FIELDS: CsvField[] = ['date', 'time', 'amount', 'type', 'account', 'category', 'tags', 'description', 'note'];
+
+/**
+ * Column index of each mapped field
+ */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * Encodings offered for CSV files; Chinese banks and apps often export GBK
+ */
+export const CSV_ENCODINGS = ['utf-8', 'gbk', 'gb18030', 'big5', 'utf-16le', 'windows-1252', 'shift_jis'];
+
+export interface CsvImportOptions {
+    delimiter: string;
+    encoding: string;
+    /** moment.js format of the date column, e.g. YYYY-MM-DD or DD/MM/YYYY */
+    dateFormat: string;
+    decimalSeparator: '.' | ',';
+    /** Whether the first row holds column names */
+    hasHeader: boolean;
+    mapping: CsvColumnMapping;
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvImportOptions = {
+    delimiter: ',',
+    encoding: 'utf-8',
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    hasHeader: true,
+    mapping: {}
+};
+
+/**
+ * Words of a type column, compared in lower case
+ */
+const TYPE_VALUES: Record<string, TransactionType> = {
+    'income': 'income',
+    'credit': 'income',
+    'cr': 'income',
+    'in': 'income',
+    '+': 'income',
+    '收入': 'income',
+    '收': 'income',
+    'expense': 'expense',
+    'debit': 'expense',
+    'dr': 'expense',
+    'out': 'expense',
+    '-': 'expense',
+    '支出': 'expense',
+    '支': 'expense',
+    'transfer': 'transfer',
+    '转账': 'transfer'
+};
+
+/**
+ * Header names recognised when guessing the mapping, in lower case
+ */
+const HEADER_GUESSES: Record<CsvField, string[]> = {
+    date: ['date', 'transaction date', 'booking date', '日期', '交易日期', '交易时间', '记账日期'],
+    time: ['time', '时间'],
+    amount: ['amount', 'value', 'sum', '金额', '金额(元)', '交易金额'],
+    type: ['type', 'direction', '类型', '收/支', '收支'],
+    account: ['account', '账户', '账户名称'],
+    category: ['category', '分类', '类别'],
+    tags: ['tags', 'tag', '标签'],
+    description: ['description', 'payee', 'memo', 'details', '描述', '说明', '交易对方', '商品说明'],
+    note: ['note', 'notes', 'comment', '备注']
+};
+
+/**
+ * Decode the bytes of a file
+ * @param buffer The file content
+ * @param encoding The encoding, one of CSV_ENCODINGS
+ * @param fatal Whether to throw on bytes that are invalid in the encoding
+ */
+export function decodeText(buffer: ArrayBuffer, encoding: string, fatal = false): string {
+    const text = new TextDecoder(encoding, { fatal }).decode(buffer);
+    // Drop the byte order mark some programs write
+    return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * Decode the bytes of a file that is either UTF-8 or GBK, like the statements of
+ * Chinese payment apps
+ * @param buffer The file content
+ */
+export function decodeTextAuto(buffer: ArrayBuffer): string {
+    try {
+        return decodeText(buffer, 'utf-8', true);
+    } catch (error) {
+        return decodeText(buffer, 'gb18030');
+    }
+}
+
+/**
+ * Guess the delimiter of CSV text from its first line
+ */
+export function guessDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const candidates = [',', ';', '\t', '|'];
+    return candidates
+        .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+        .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * Split CSV text into records. Quoted values may contain delimiters, line breaks and
+ * doubled quotes. Empty lines are dropped.
+ * @param text The CSV text
+ * @param delimiter The value delimiter
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let value = '';
+    let quoted = false;
+
+    const endRecord = () => {
+        record.push(value);
+        if (record.some(cell => cell.trim() !== '')) {
+            records.push(record);
+        }
+        record = [];
+        value = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                value += char;
+            }
+        } else if (char === '"' && value.trim() === '') {
+            quoted = true;
+            value = '';
+        } else if (char === delimiter) {
+            record.push(value);
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            endRecord();
+        } else {
+            value += char;
+        }
+    }
+    if (value !== '' || record.length > 0) {
+        endRecord();
+    }
+    return records;
+}
+
+/**
+ * Guess which column holds which field from the header row
+ * @param headers The values of the header row
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+    const mapping: CsvColumnMapping = {};
+    const normalized = headers.map(header => header.trim().toLowerCase());
+    CSV_FIELDS.forEach(field => {
+        const index = normalized.findIndex((header, i) =>
+            HEADER_GUESSES[field].includes(header) && !Object.values(mapping).includes(i));
+        if (index > -1) {
+            mapping[field] = index;
+        }
+    });
+    return mapping;
+}
+
+/**
+ * Read an amount written with a decimal separator, thousands separators, a currency
+ * symbol or accounting-style parentheses for negative numbers
+ * @returns The signed amount, or NaN when the text is not a number
+ */
+export function parseAmount(text: string, decimalSeparator: '.' | ','): number {
+    let value = text.trim().replace(/[\s\u00A0¥$€£￥]|元/g, '');
+    const negative = /^\(.*\)$/.test(value);
+    if (negative) {
+        value = value.slice(1, -1);
+    }
+    value = decimalSeparator === ','
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value.replace(/,/g, '');
+    if (!/^[+-]?\d+(\.\d+)?$/.test(value)) {
+        return NaN;
+    }
+    const amount = parseFloat(value);
+    return negative ? -amount : amount;
+}
+
+/**
+ * Turn CSV records into import rows following the options' column mapping. Without a
+ * type column, negative amounts are expenses and positive ones income.
+ * @param records The records, including the header row if there is one
+ * @param options The import options
+ */
+export function csvToImportRows(records: string[][], options: CsvImportOptions): ImportRow[] {
+    const { mapping } = options;
+    const firstRow = options.hasHeader ? 1 : 0;
+    const cell = (record: string[], field: CsvField): string => {
+        const index = mapping[field];
+        return index === undefined ? '' : (record[index] || '').trim();
+    };
+
+    return records.slice(firstRow).map((record, index) => {
+        const row: ImportRow = {
+            source: index + firstRow + 1,
+            date: '',
+            type: 'expense',
+            amount: 0,
+            accountName: cell(record, 'account'),
+            categoryName: cell(record, 'category'),
+            tagNames: cell(record, 'tags').split(/[,;#]/).map(tag => tag.trim()).filter(Boolean),
+            description: cell(record, 'description'),
+            note: cell(record, 'note')
+        };
+
+        const dateText = [cell(record, 'date'), cell(record, 'time')].filter(Boolean).join(' ');
+        const date = moment(dateText, [
+            options.dateFormat,
+            `${options.dateFormat} HH:mm`,
+            `${options.dateFormat} HH:mm:ss`,
+            `${options.dateFormat} H:mm`,
+            `${options.dateFormat} H:mm:ss`
+        ], true);
+        if (!date.isValid()) {
+            row.error = `Invalid date "${dateText}"`;
+            return row;
+        }
+        row.date = date.format('YYYY-MM-DD HH:mm');
+
+        const amount = parseAmount(cell(record, 'amount'), options.decimalSeparator);
+        if (isNaN(amount) || amount === 0) {
+            row.error = `Invalid amount "${cell(record, 'amount')}"`;
+            return row;
+        }
+        row.amount = Math.abs(amount);
+
+        if (mapping.type !== undefined) {
+            const type = TYPE_VALUES[cell(record, 'type').toLowerCase()];
+            if (!type) {
+                row.error = `Unknown type "${cell(record, 'type')}"`;
+                return row;
+            }
+            row.type = type;
+        } else {
+            row.type = amount < 0 ? 'expense' : 'income';
+        }
+        if (row.type === 'transfer') {
+            row.error = 'Transfers can\'t be imported from CSV';
+        }
+        return row;
+    });
+}
@@ -0,0 +1,152 @@
+// Currencies of accounts and conversion of amounts to the base currency
+
+import { Account, Transaction, findItemById } from './models';
+import { AccountingPluginSettings } from './settings';
+
+/**
+ * Symbols printed in front of amounts; other currencies are printed with their code
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    CNY: '¥',
+    JPY: '¥',
+    USD: '$',
+    HKD: 'HK$',
+    TWD: 'NT$',
+    EUR: '€',
+    GBP: '£',
+    KRW: '₩'
+};
+
+const warnedCurrencies = new Set<string>();
+
+/**
+ * Normalize a currency code as typed by the user
+ * @param code The currency code, e.g. "usd"
+ * @returns The upper-case code, or an empty string when not set
+ */
+export function normalizeCurrencyCode(code: string | undefined): string {
+    return (code || '').trim().toUpperCase();
+}
+
+/**
+ * Get the currency an account is kept in
+ * @param account The account, if any
+ * @param settings The plugin settings
+ * @returns The account's currency or the base currency
+ */
+export function getAccountCurrency(account: Account | undefined, settings: AccountingPluginSettings): string {
+    return normalizeCurrencyCode(account?.currency) || normalizeCurrencyCode(settings.baseCurrency);
+}
+
+/**
+ * Get the currency a transaction amount is in: its own currency, otherwise the currency
+ * of its account (the source account for transfers)
+ * @param transaction The transaction
+ * @param settings The plugin settings
+ */
+export function getTransactionCurrency(transaction: Transaction, settings: AccountingPluginSettings): string {
+    if (transaction.currency) {
+        return normalizeCurrencyCode(transaction.currency);
+    }
+    const accountId = transaction.type === 'transfer' ? transaction.fromAccountId : transaction.accountId;
+    const account = accountId ? findItemById(settings.accounts, accountId) : undefined;
+    return getAccountCurrency(account, settings);
+}
+
+/**
+ * Get the rate converting a currency to the base currency on a date. The latest rate
+ * on or before the date is used; dates before the first rate use the first rate.
+ * @param currency The currency code
+ * @param date The date (YYYY-MM-DD, optionally with time)
+ * @param settings The plugin settings
+ * @returns The rate, or undefined when the table has no rate for the currency
+ */
+export function getExchangeRate(currency: string, date: string, settings: AccountingPluginSettings): number | undefined {
+    const code = normalizeCurrencyCode(currency);
+    if (!code || code === normalizeCurrencyCode(settings.baseCurrency)) {
+        return 1;
+    }
+
+    const rates = (settings.exchangeRates || [])
+        .filter(rate => normalizeCurrencyCode(rate.currency) === code)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    if (rates.length === 0) {
+        return undefined;
+    }
+
+    const day = date.substring(0, 10);
+    let applicable = rates[0];
+    for (const rate of rates) {
+        if (rate.date > day) break;
+        applicable = rate;
+    }
+    return applicable.rate;
+}
+
+/**
+ * Convert an amount to the base currency. Amounts in a currency without any rate are
+ * left unconverted and reported once in the console.
+ * @param amount The amount
+ * @param currency The currency of the amount
+ * @param date The date the rate applies to
+ * @param settings The plugin settings
+ * @returns The amount in the base currency
+ */
+export function convertToBaseCurrency(amount: number, currency: string, date: string, settings: AccountingPluginSettings): number {
+    const rate = getExchangeRate(currency, date, settings);
+    if (rate === undefined) {
+        if (!warnedCurrencies.has(currency)) {
+            warnedCurrencies.add(currency);
+            console.warn(`Accounting: no exchange rate for ${currency}, its amounts are counted unconverted`);
+        }
+        return amount;
+    }
+    return amount * rate;
+}
+
+/**
+ * Convert (part of) a transaction's amount to the base currency at the transaction's date
+ * @param transaction The transaction
+ * @param settings The plugin settings
+ * @param amount The amount to convert, the whole transaction amount by default
+ */
+export function convertTransactionAmount(transaction: Transaction, settings: AccountingPluginSettings, amount = transaction.amount): number {
+    return convertToBaseCurrency(amount, getTransactionCurrency(transaction, settings), transaction.date, settings);
+}
+
+/**
+ * Convert (part of) a transaction's amount to another currency, through the base currency
+ * @param transaction The transaction
+ * @param currency The target currency, e.g. the currency of an account
+ * @param settings The plugin settings
+ * @param amount The amount to convert, the whole transaction amount by default
+ */
+export function convertTransactionAmountTo(
+    transaction: Transaction,
+    currency: string,
+    settings: AccountingPluginSettings,
+    amount = transaction.amount
+): number {
+    if (getTransactionCurrency(transaction, settings) === normalizeCurrencyCode(currency)) {
+        return amount;
+    }
+    const baseAmount = convertTransactionAmount(transaction, settings, amount);
+    const rate = getExchangeRate(currency, transaction.date, settings);
+    return rate ? baseAmount / rate : baseAmount;
+}
+
+/**
+ * Format an amount with the symbol or code of its currency
+ * @param amount The amount
+ * @param currency The currency code
+ * @param fractionDigits Number of decimals
+ */
+export function formatCurrency(amount: number, currency: string, fractionDigits = 2): string {
+    const code = normalizeCurrencyCode(currency);
+    const value = amount.toFixed(fractionDigits);
+    const symbol = CURRENCY_SYMBOLS[code];
+    if (symbol !== undefined) {
+        return `${symbol}${value}`;
+    }
+    return code ? `${code} ${value}` : value;
+}
@@ -0,0 +1,158 @@
+// Finding transactions recorded twice, e.g. typed by hand and imported from a bank file
+
+import { moment } from 'obsidian';
+import { Transaction } from './models';
+import { getDatePart } from './utils';
+
+/**
+ * Days two records of the same payment may be apart; banks book card payments a few
+ * days after they were made
+ */
+export const DUPLICATE_MAX_DAYS = 3;
+
+/**
+ * Score from which a transaction counts as a duplicate
+ */
+const DUPLICATE_THRESHOLD = 0.5;
+
+/**
+ * Anything but letters of the Latin, Cyrillic, Japanese, Chinese and Korean scripts
+ */
+const NON_LETTERS = /[^a-z\u00C0-\u024F\u0400-\u04FF\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]+/g;
+
+/**
+ * What to do with a transaction that looks like one already recorded
+ */
+export type DuplicateAction = 'skip' | 'merge' | 'import';
+
+/**
+ * An existing transaction that may be the same as another one
+ */
+export interface DuplicateMatch {
+    transaction: Transaction;
+    /** How alike the two are, from DUPLICATE_THRESHOLD to 1 */
+    score: number;
+}
+
+/**
+ * Split a description into words, leaving out numbers such as card or reference numbers
+ */
+function getWords(text: string): string[] {
+    return text.toLowerCase().split(NON_LETTERS).filter(word => word.length >= 2);
+}
+
+/**
+ * Character pairs of a text, for scripts written without spaces such as Chinese
+ */
+function getBigrams(text: string): string[] {
+    const letters = text.toLowerCase().replace(NON_LETTERS, '');
+    const bigrams: string[] = [];
+    for (let i = 0; i < letters.length - 1; i++) {
+        bigrams.push(letters.substring(i, i + 2));
+    }
+    return bigrams;
+}
+
+/**
+ * How alike two descriptions are. Bank descriptions add noise around the name of the
+ * payee ("POS 1234 COFFEE CO SEATTLE", "财付通-星巴克咖啡"), so a short description whose
+ * words all appear in the other one counts as the same.
+ * @returns 0 for nothing in common, 1 for the same
+ */
+export function getTextSimilarity(a: string, b: string): number {
+    const wordsA = getWords(a);
+    const wordsB = getWords(b);
+    let wordScore = 0;
+    if (wordsA.length > 0 && wordsB.length > 0) {
+        const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+        const found = shorter.filter(word => longer.some(other =>
+            other === word || (Math.min(word.length, other.length) >= 3 && (other.includes(word) || word.includes(other)))));
+        wordScore = found.length / shorter.length;
+    }
+
+    // Dice coefficient of the character pairs
+    const bigramsA = getBigrams(a);
+    const bigramsB = getBigrams(b);
+    let bigramScore = 0;
+    if (bigramsA.length > 0 && bigramsB.length > 0) {
+        const remaining = [...bigramsB];
+        let shared = 0;
+        bigramsA.forEach(bigram => {
+            const index = remaining.indexOf(bigram);
+            if (index > -1) {
+                remaining.splice(index, 1);
+                shared++;
+            }
+        });
+        bigramScore = (2 * shared) / (bigramsA.length + bigramsB.length);
+    }
+    return Math.max(wordScore, bigramScore);
+}
+
+/**
+ * Whether two transactions move the same amount between the same accounts
+ */
+function isSamePayment(a: Transaction, b: Transaction): boolean {
+    if (a.type !== b.type || Math.abs(a.amount - b.amount) >= 0.005) {
+        return false;
+    }
+    return a.type === 'transfer'
+        ? a.fromAccountId === b.fromAccountId && a.toAccountId === b.toAccountId
+        : !!a.accountId && a.accountId === b.accountId;
+}
+
+/**
+ * Score how likely two transactions of the same payment are one purchase recorded twice,
+ * from how close their dates are and how alike their descriptions are. A missing
+ * description neither speaks for nor against a match.
+ */
+function getDuplicateScore(a: Transaction, b: Transaction): number {
+    const days = Math.abs(moment(getDatePart(a.date), 'YYYY-MM-DD').diff(moment(getDatePart(b.date), 'YYYY-MM-DD'), 'days'));
+    if (isNaN(days) || days > DUPLICATE_MAX_DAYS) {
+        return 0;
+    }
+    const dateScore = 1 - days / (DUPLICATE_MAX_DAYS + 1);
+    const textA = a.description || a.note || '';
+    const textB = b.description || b.note || '';
+    const textScore = textA && textB ? getTextSimilarity(textA, textB) : 0.5;
+    return 0.4 * dateScore + 0.6 * textScore;
+}
+
+/**
+ * Find the existing transactions that may be the same as a transaction: same type,
+ * amount and account, a date a few days apart at most, and a similar description
+ * @param transaction The new transaction
+ * @param transactions The existing transactions
+ * @param excludeIds Transactions not to match, e.g. ones matched to another import row
+ * @returns The matches, most alike first
+ */
+export function findDuplicates(transaction: Transaction, transactions: Transaction[], excludeIds?: Set<string>): DuplicateMatch[] {
+    return transactions
+        .filter(existing => existing.id !== transaction.id && !excludeIds?.has(existing.id) && isSamePayment(existing, transaction))
+        .map(existing => ({ transaction: existing, score: getDuplicateScore(existing, transaction) }))
+        .filter(match => match.score >= DUPLICATE_THRESHOLD)
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Combine two records of one payment. The primary transaction keeps its ID, date, amount,
+ * account and category; the other one fills in what it lacks and adds its tags and note.
+ * @param primary The record to keep
+ * @param other The record merged into it
+ */
+export function mergeTransactions(primary: Transaction, other: Transaction): Transaction {
+    const merged: Transaction = {
+        ...primary,
+        // A split transaction has its categories in the splits
+        categoryId: primary.categoryId || (primary.splits?.length ? '' : other.categoryId),
+        tagIds: [...new Set([...primary.tagIds, ...other.tagIds])],
+        note: other.note && !(primary.note || '').includes(other.note)
+            ? [primary.note, other.note].filter(Boolean).join(' ')
+            : primary.note
+    };
+    const description = primary.description || other.description;
+    if (description) {
+        merged.description = description;
+    }
+    return merged;
+}
@@ -0,0 +1,207 @@
+// Dialog for exporting transactions to a file in the vault or a download
+
+import { App, Modal, Notice, Setting, TFile, moment, normalizePath } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Transaction } from './models';
+import { ensureFileExists, getDatePart } from './utils';
+import { EXPORT_FILE_TYPES, ExportFormat, exportTransactions } from './exporter';
+
+/**
+ * Which transactions to export: the ones shown in the statistics view, or a date range
+ */
+type ExportScope = 'view' | 'range';
+
+/**
+ * Where the exported file goes
+ */
+type ExportDestination = 'vault' | 'download';
+
+/**
+ * Let the browser save a file to the downloads folder
+ */
+function downloadFile(fileName: string, content: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Exports transactions with their account, category and tag names to CSV, JSON, an
+ * Excel spreadsheet or a ledger/Beancount journal. Opened from the statistics view, it
+ * offers the transactions the view currently shows; otherwise the user picks a date range.
+ */
+export class ExportModal extends Modal {
+    private plugin: AccountingPlugin;
+    /** Transactions matching the statistics view's filters, when opened from the view */
+    private viewTransactions: Transaction[] | null;
+    private format: ExportFormat = 'csv';
+    private exportScope: ExportScope;
+    /** First and last day of the range (YYYY-MM-DD); empty for no limit */
+    private from = '';
+    private to = '';
+    private destination: ExportDestination = 'vault';
+    private path: string;
+    private countEl: HTMLElement | null = null;
+
+    constructor(app: App, plugin: AccountingPlugin, viewTransactions?: Transaction[]) {
+        super(app);
+        this.plugin = plugin;
+        this.viewTransactions = viewTransactions || null;
+        this.exportScope = viewTransactions ? 'view' : 'range';
+        this.path = `accounting-export-${moment().format('YYYY-MM-DD')}.${EXPORT_FILE_TYPES[this.format].extension}`;
+    }
+
+    onOpen() {
+        this.modalEl.addClass('accounting-export-modal');
+        this.render();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    /**
+     * The transactions to export with the current options
+     */
+    private getTransactions(): Transaction[] {
+        if (this.exportScope === 'view' && this.viewTransactions) {
+            return this.viewTransactions;
+        }
+        return this.plugin.transactions.filter(transaction => {
+            const date = getDatePart(transaction.date);
+            return (!this.from || date >= this.from) && (!this.to || date <= this.to);
+        });
+    }
+
+    private updateCount(): void {
+        this.countEl?.setText(this.plugin.i18n.t('EXPORT_COUNT').replace('{count}', this.getTransactions().length.toString()));
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: i18n.t('EXPORT_TRANSACTIONS') });
+
+        new Setting(contentEl)
+            .setName(i18n.t('EXPORT_FORMAT'))
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    csv: 'CSV',
+                    json: 'JSON',
+                    excel: i18n.t('EXPORT_FORMAT_EXCEL'),
+                    ledger: 'ledger / hledger (.journal)',
+                    beancount: 'Beancount'
+                })
+                .setValue(this.format)
+                .onChange(value => {
+                    this.format = value as ExportFormat;
+                    this.path = `${this.path.replace(/\.[^./]*$/, '')}.${EXPORT_FILE_TYPES[this.format].extension}`;
+                    this.render();
+                }));
+
+        if (this.viewTransactions) {
+            new Setting(contentEl)
+                .setName(i18n.t('EXPORT_SCOPE'))
+                .addDropdown(dropdown => dropdown
+                    .addOptions({ view: i18n.t('EXPORT_SCOPE_VIEW'), range: i18n.t('EXPORT_SCOPE_RANGE') })
+                    .setValue(this.exportScope)
+                    .onChange(value => {
+                        this.exportScope = value as ExportScope;
+                        this.render();
+                    }));
+        }
+
+        if (this.exportScope === 'range') {
+            const addDateSetting = (name: string, field: 'from' | 'to') => {
+                new Setting(contentEl)
+                    .setName(name)
+                    .setDesc(i18n.t('EXPORT_RANGE_DESC'))
+                    .addText(text => {
+                        text.inputEl.type = 'date';
+                        text.setValue(this[field]).onChange(value => {
+                            this[field] = value;
+                            this.updateCount();
+                        });
+                    });
+            };
+            addDateSetting(i18n.t('EXPORT_FROM'), 'from');
+            addDateSetting(i18n.t('EXPORT_TO'), 'to');
+        }
+
+        new Setting(contentEl)
+            .setName(i18n.t('EXPORT_DESTINATION'))
+            .addDropdown(dropdown => dropdown
+                .addOptions({ vault: i18n.t('EXPORT_DESTINATION_VAULT'), download: i18n.t('EXPORT_DESTINATION_DOWNLOAD') })
+                .setValue(this.destination)
+                .onChange(value => {
+                    this.destination = value as ExportDestination;
+                    this.render();
+                }));
+
+        if (this.destination === 'vault') {
+            new Setting(contentEl)
+                .setName(i18n.t('EXPORT_PATH'))
+                .setDesc(i18n.t('EXPORT_PATH_DESC'))
+                .addText(text => text
+                    .setValue(this.path)
+                    .onChange(value => this.path = value.trim()));
+        }
+
+        this.countEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+        this.updateCount();
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(i18n.t('EXPORT'))
+                .setCta()
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    await this.runExport();
+                    button.setDisabled(false);
+                }));
+    }
+
+    private async runExport(): Promise<void> {
+        const i18n = this.plugin.i18n;
+        const transactions = this.getTransactions();
+        if (transactions.length === 0) {
+            new Notice(i18n.t('EXPORT_NOTHING'));
+            return;
+        }
+
+        try {
+            const content = exportTransactions(this.format, transactions, this.plugin.settings);
+            const fileType = EXPORT_FILE_TYPES[this.format];
+            let target: string;
+            if (this.destination === 'download') {
+                target = `accounting-export-${moment().format('YYYY-MM-DD')}.${fileType.extension}`;
+                downloadFile(target, content, fileType.mimeType);
+            } else {
+                if (!this.path) {
+                    new Notice(i18n.t('EXPORT_PATH_REQUIRED'));
+                    return;
+                }
+                target = normalizePath(this.path);
+                await ensureFileExists(this.app, target);
+                const file = this.app.vault.getAbstractFileByPath(target);
+                if (!(file instanceof TFile)) {
+                    throw new Error(`${target} is not a file`);
+                }
+                await this.app.vault.modify(file, content);
+            }
+            new Notice(i18n.t('EXPORT_SUCCESS')
+                .replace('{count}', transactions.length.toString())
+                .replace('{path}', target));
+            this.close();
+        } catch (error) {
+            console.error('Error exporting transactions:', error);
+            new Notice(`${i18n.t('EXPORT_FAILED')}: ${error.message}`);
+        }
+    }
+}
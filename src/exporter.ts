@@ -0,0 +1,237 @@
+// Writing transactions to files other programs read: CSV, JSON, Excel spreadsheets and
+// plain-text accounting journals
+
+import { Transaction, TransactionType, getItemPath } from './models';
+import { AccountingPluginSettings } from './settings';
+import { getTransactionCurrency } from './currency';
+import { getDatePart, normalizeTransactionDate } from './utils';
+import { exportToBeancount, exportToLedger } from './ledgerExport';
+
+/**
+ * Formats transactions can be exported to
+ */
+export type ExportFormat = 'csv' | 'json' | 'excel' | 'ledger' | 'beancount';
+
+/**
+ * File extension and MIME type of each format. Excel opens .xml files in its
+ * SpreadsheetML format without asking.
+ */
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string, mimeType: string }> = {
+    csv: { extension: 'csv', mimeType: 'text/csv' },
+    json: { extension: 'json', mimeType: 'application/json' },
+    excel: { extension: 'xml', mimeType: 'application/vnd.ms-excel' },
+    ledger: { extension: 'journal', mimeType: 'text/plain' },
+    beancount: { extension: 'beancount', mimeType: 'text/plain' }
+};
+
+/**
+ * Separator between the names of an item and its ancestors, e.g. "Food:Groceries"
+ */
+export const EXPORT_PATH_SEPARATOR = ':';
+
+/**
+ * Part of an exported split transaction
+ */
+export interface ExportSplit {
+    category: string;
+    amount: number;
+    tags: string[];
+    note?: string;
+}
+
+/**
+ * A transaction with its accounts, categories and tags written as hierarchy paths
+ */
+export interface ExportRecord {
+    id: string;
+    /** YYYY-MM-DD */
+    date: string;
+    /** HH:mm */
+    time: string;
+    type: TransactionType;
+    amount: number;
+    currency: string;
+    /** Account of an income or expense */
+    account?: string;
+    fromAccount?: string;
+    toAccount?: string;
+    /** Category, or the categories of the splits separated by "; " */
+    category?: string;
+    tags: string[];
+    description?: string;
+    note?: string;
+    splits?: ExportSplit[];
+}
+
+/**
+ * Columns of the CSV and Excel exports. The names match the ones the CSV import
+ * recognises, so an export can be imported again.
+ */
+const EXPORT_COLUMNS: Array<{ name: string, value: (record: ExportRecord) => string | number }> = [
+    { name: 'ID', value: record => record.id },
+    { name: 'Date', value: record => record.date },
+    { name: 'Time', value: record => record.time },
+    { name: 'Type', value: record => record.type },
+    { name: 'Amount', value: record => record.amount },
+    { name: 'Currency', value: record => record.currency },
+    { name: 'Account', value: record => record.account || '' },
+    { name: 'From Account', value: record => record.fromAccount || '' },
+    { name: 'To Account', value: record => record.toAccount || '' },
+    { name: 'Category', value: record => record.category || '' },
+    { name: 'Tags', value: record => record.tags.join(', ') },
+    { name: 'Description', value: record => record.description || '' },
+    { name: 'Note', value: record => record.note || '' },
+    {
+        name: 'Splits',
+        value: record => (record.splits || []).map(split => `${split.category}=${split.amount.toFixed(2)}`).join('; ')
+    }
+];
+
+/**
+ * Resolve the accounts, categories and tags of transactions to their hierarchy paths
+ * @param transactions The transactions to export
+ * @param settings The plugin settings
+ * @returns One record per transaction, oldest first
+ */
+export function toExportRecords(transactions: Transaction[], settings: AccountingPluginSettings): ExportRecord[] {
+    const path = <T extends { id: string, name: string, parentId?: string | null, children?: T[] }>(items: T[], id?: string): string | undefined =>
+        id ? getItemPath(items, id).join(EXPORT_PATH_SEPARATOR) || undefined : undefined;
+    const tagPaths = (ids: string[] = []): string[] =>
+        ids.map(id => path(settings.tags, id)).filter((tag): tag is string => !!tag);
+
+    return [...transactions]
+        .sort((a, b) => normalizeTransactionDate(a.date).localeCompare(normalizeTransactionDate(b.date)))
+        .map(transaction => {
+            const date = normalizeTransactionDate(transaction.date);
+            const record: ExportRecord = {
+                id: transaction.id,
+                date: getDatePart(date),
+                time: date.substring(11, 16),
+                type: transaction.type,
+                amount: transaction.amount,
+                currency: getTransactionCurrency(transaction, settings),
+                tags: tagPaths(transaction.tagIds)
+            };
+            if (transaction.type === 'transfer') {
+                record.fromAccount = path(settings.accounts, transaction.fromAccountId);
+                record.toAccount = path(settings.accounts, transaction.toAccountId);
+            } else {
+                record.account = path(settings.accounts, transaction.accountId);
+            }
+            if (transaction.splits && transaction.splits.length > 0) {
+                record.splits = transaction.splits.map(split => ({
+                    category: path(settings.categories, split.categoryId) || '',
+                    amount: split.amount,
+                    tags: tagPaths(split.tagIds),
+                    note: split.note || undefined
+                }));
+                record.category = record.splits.map(split => split.category).join('; ');
+            } else {
+                record.category = path(settings.categories, transaction.categoryId);
+            }
+            if (transaction.description) {
+                record.description = transaction.description;
+            }
+            if (transaction.note) {
+                record.note = transaction.note;
+            }
+            return record;
+        });
+}
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break
+ */
+function toCsvValue(value: string | number): string {
+    const text = typeof value === 'number' ? value.toFixed(2) : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write records as CSV with a header row. The byte order mark makes Excel read the file
+ * as UTF-8.
+ */
+export function exportToCsv(records: ExportRecord[]): string {
+    const lines = [
+        EXPORT_COLUMNS.map(column => column.name).join(','),
+        ...records.map(record => EXPORT_COLUMNS.map(column => toCsvValue(column.value(record))).join(','))
+    ];
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Write records as a JSON array
+ */
+export function exportToJson(records: ExportRecord[]): string {
+    return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Escape text for XML
+ */
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Write records as an Excel 2003 XML spreadsheet (SpreadsheetML), with the dates and
+ * amounts in typed cells so they can be sorted and summed right away
+ */
+export function exportToSpreadsheet(records: ExportRecord[]): string {
+    const cell = (value: string | number, style?: string, type?: string): string => {
+        const styleAttr = style ? ` ss:StyleID="${style}"` : '';
+        const dataType = type || (typeof value === 'number' ? 'Number' : 'String');
+        return `<Cell${styleAttr}><Data ss:Type="${dataType}">${escapeXml(String(value))}</Data></Cell>`;
+    };
+    const rows = records.map(record => {
+        const cells = EXPORT_COLUMNS.map(column => {
+            const value = column.value(record);
+            if (column.name === 'Date') {
+                return cell(`${record.date}T00:00:00.000`, 'date', 'DateTime');
+            }
+            return typeof value === 'number' ? cell(value, 'amount') : cell(value);
+        });
+        return `<Row>${cells.join('')}</Row>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<?mso-application progid="Excel.Sheet"?>',
+        '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+        '<Styles>',
+        '<Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+        '<Style ss:ID="date"><NumberFormat ss:Format="yyyy-mm-dd"/></Style>',
+        '<Style ss:ID="amount"><NumberFormat ss:Format="#,##0.00"/></Style>',
+        '</Styles>',
+        '<Worksheet ss:Name="Transactions">',
+        '<Table>',
+        `<Row>${EXPORT_COLUMNS.map(column => cell(column.name, 'header')).join('')}</Row>`,
+        ...rows,
+        '</Table>',
+        '</Worksheet>',
+        '</Workbook>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Export transactions in a format
+ * @param format The file format
+ * @param transactions The transactions to export
+ * @param settings The plugin settings
+ * @returns The file content
+ */
+export function exportTransactions(format: ExportFormat, transactions: Transaction[], settings: AccountingPluginSettings): string {
+    switch (format) {
+        case 'csv':
+            return exportToCsv(toExportRecords(transactions, settings));
+        case 'json':
+            return exportToJson(toExportRecords(transactions, settings));
+        case 'excel':
+            return exportToSpreadsheet(toExportRecords(transactions, settings));
+        case 'ledger':
+            return exportToLedger(transactions, settings);
+        case 'beancount':
+            return exportToBeancount(transactions, settings);
+    }
+}
@@ -0,0 +1,620 @@
+// Wizard for importing transactions from files: options, column mapping, preview
+
+import { App, ButtonComponent, Modal, Notice, Setting } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Transaction, flattenHierarchy } from './models';
+import { saveTransactions } from './utils';
+import {
+    ImportContext, ImportRow, NameResolutions, UnresolvedName,
+    createImportTransactions, findUnresolvedNames, getImportAccountId, getNameKey, markImportedRows
+} from './importer';
+import { DuplicateAction, DuplicateMatch, findDuplicates, mergeTransactions } from './duplicates';
+import {
+    CSV_ENCODINGS, CSV_FIELDS, CsvField, CsvImportOptions, DEFAULT_CSV_OPTIONS,
+    csvToImportRows, decodeText, decodeTextAuto, guessColumnMapping, guessDelimiter, parseCsv
+} from './csvImport';
+import { STATEMENT_ACCOUNT_NAMES, StatementFormat, parseStatementFile } from './statementImport';
+import { getOfxEncoding, parseOfx } from './ofxImport';
+import { QIF_DATE_FORMAT, parseQif } from './qifImport';
+import { JournalSyntax, parseJournal } from './journalImport';
+
+/**
+ * Steps of the wizard
+ */
+type ImportStep = 'options' | 'mapping' | 'review';
+
+/**
+ * Kinds of files the wizard reads: CSV with a column mapping, or a known statement format
+ */
+type ImportFormat = 'csv' | StatementFormat | 'ofx' | 'qif' | JournalSyntax;
+
+/**
+ * File extensions offered in the file picker for each format
+ */
+const FORMAT_EXTENSIONS: Record<ImportFormat, string> = {
+    csv: '.csv,.txt',
+    alipay: '.csv',
+    wechat: '.csv',
+    ofx: '.ofx,.qfx',
+    qif: '.qif',
+    ledger: '.journal,.ledger,.hledger,.dat',
+    beancount: '.beancount,.bean'
+};
+
+/**
+ * Rows shown in the preview table; all rows are imported
+ */
+const PREVIEW_LIMIT = 200;
+
+/**
+ * The transaction a row describes, with only the fields compared and merged
+ */
+function toTransaction(row: ImportRow, accountId: string): Transaction {
+    return {
+        id: '',
+        date: row.date,
+        type: row.type,
+        amount: row.amount,
+        accountId,
+        categoryId: '',
+        tagIds: [],
+        note: row.note,
+        description: row.description
+    };
+}
+
+/**
+ * Imports transactions from a CSV file, a payment app statement, a bank statement
+ * (OFX, QFX, QIF) or a ledger/Beancount journal. The user picks the
+ * file and how to read it, maps the columns of a CSV file to transaction fields, then
+ * reviews the rows and decides what unknown account, category and tag names stand for
+ * before anything is written.
+ */
+export class ImportModal extends Modal {
+    private plugin: AccountingPlugin;
+    private step: ImportStep = 'options';
+    private format: ImportFormat = 'csv';
+    private fileName = '';
+    private fileContent: ArrayBuffer | null = null;
+    private options: CsvImportOptions = { ...DEFAULT_CSV_OPTIONS, mapping: {} };
+    private defaultAccountId: string;
+    /** Records of the file, read with the current options */
+    private records: string[][] = [];
+    private rows: ImportRow[] = [];
+    private resolutions: NameResolutions = new Map();
+    /** Rows that look like a loaded transaction, and what to do with each */
+    private duplicates: Map<ImportRow, DuplicateMatch> = new Map();
+    private duplicateActions: Map<ImportRow, DuplicateAction> = new Map();
+    private runButton: ButtonComponent | null = null;
+    private importing = false;
+
+    constructor(app: App, plugin: AccountingPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.defaultAccountId = flattenHierarchy(plugin.settings.accounts)[0]?.id || '';
+    }
+
+    onOpen() {
+        this.modalEl.addClass('accounting-import-modal');
+        this.render();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private get context(): ImportContext {
+        return {
+            settings: this.plugin.settings,
+            defaultAccountId: this.defaultAccountId,
+            uncategorizedName: this.plugin.i18n.t('IMPORT_UNCATEGORIZED')
+        };
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.plugin.i18n.t('IMPORT_TRANSACTIONS') });
+        switch (this.step) {
+            case 'options':
+                this.renderOptions();
+                break;
+            case 'mapping':
+                this.renderMapping();
+                break;
+            case 'review':
+                this.renderReview();
+                break;
+        }
+    }
+
+    /**
+     * Read the records of the file with the current encoding and delimiter
+     */
+    private readRecords(): void {
+        if (!this.fileContent) {
+            this.records = [];
+            return;
+        }
+        this.records = parseCsv(decodeText(this.fileContent, this.options.encoding), this.options.delimiter);
+    }
+
+    private renderOptions(): void {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+
+        const input = createEl('input', { type: 'file', attr: { accept: FORMAT_EXTENSIONS[this.format] } });
+        input.style.display = 'none';
+        input.onchange = async () => {
+            const file = input.files?.[0];
+            if (!file) {
+                return;
+            }
+            try {
+                this.fileContent = await file.arrayBuffer();
+                this.fileName = file.name;
+                this.options.delimiter = guessDelimiter(decodeText(this.fileContent, this.options.encoding));
+                this.options.mapping = {};
+            } catch (error) {
+                console.error('Error reading import file:', error);
+                new Notice(i18n.t('IMPORT_READ_FAILED'));
+            }
+            this.render();
+        };
+        contentEl.appendChild(input);
+
+        new Setting(contentEl)
+            .setName(i18n.t('IMPORT_FORMAT'))
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    csv: 'CSV',
+                    alipay: i18n.t('IMPORT_FORMAT_ALIPAY'),
+                    wechat: i18n.t('IMPORT_FORMAT_WECHAT'),
+                    ofx: i18n.t('IMPORT_FORMAT_OFX'),
+                    qif: i18n.t('IMPORT_FORMAT_QIF'),
+                    ledger: i18n.t('IMPORT_FORMAT_LEDGER'),
+                    beancount: 'Beancount'
+                })
+                .setValue(this.format)
+                .onChange(value => {
+                    this.format = value as ImportFormat;
+                    // QIF files of US banks and Quicken use month-first dates
+                    if (this.format === 'qif' && this.options.dateFormat === DEFAULT_CSV_OPTIONS.dateFormat) {
+                        this.options.dateFormat = QIF_DATE_FORMAT;
+                    }
+                    this.selectStatementAccount();
+                    this.render();
+                }));
+
+        new Setting(contentEl)
+            .setName(i18n.t('IMPORT_FILE'))
+            .setDesc(this.fileName || i18n.t('IMPORT_NO_FILE'))
+            .addButton(button => button
+                .setButtonText(i18n.t('IMPORT_CHOOSE_FILE'))
+                .onClick(() => input.click()));
+
+        // Statements are read the way their app writes them; QIF leaves the encoding and number formats open
+        if (this.format === 'csv' || this.format === 'qif') {
+            new Setting(contentEl)
+                .setName(i18n.t('IMPORT_ENCODING'))
+                .addDropdown(dropdown => {
+                    CSV_ENCODINGS.forEach(encoding => dropdown.addOption(encoding, encoding.toUpperCase()));
+                    dropdown.setValue(this.options.encoding).onChange(value => this.options.encoding = value);
+                });
+        }
+        if (this.format === 'csv') {
+            new Setting(contentEl)
+                .setName(i18n.t('IMPORT_DELIMITER'))
+                .addDropdown(dropdown => dropdown
+                    .addOptions({ ',': ',', ';': ';', '\t': 'Tab', '|': '|' })
+                    .setValue(this.options.delimiter)
+                    .onChange(value => this.options.delimiter = value));
+        }
+        if (this.format === 'csv' || this.format === 'qif') {
+            new Setting(contentEl)
+                .setName(i18n.t('IMPORT_DATE_FORMAT'))
+                .setDesc(i18n.t('IMPORT_DATE_FORMAT_DESC'))
+                .addText(text => text
+                    .setValue(this.options.dateFormat)
+                    .onChange(value => this.options.dateFormat = value.trim()));
+
+            new Setting(contentEl)
+                .setName(i18n.t('IMPORT_DECIMAL_SEPARATOR'))
+                .addDropdown(dropdown => dropdown
+                    .addOptions({ '.': '1,234.56', ',': '1.234,56' })
+                    .setValue(this.options.decimalSeparator)
+                    .onChange(value => this.options.decimalSeparator = value as '.' | ','));
+        }
+        if (this.format === 'csv') {
+            new Setting(contentEl)
+                .setName(i18n.t('IMPORT_HAS_HEADER'))
+                .addToggle(toggle => toggle
+                    .setValue(this.options.hasHeader)
+                    .onChange(value => this.options.hasHeader = value));
+        }
+
+        new Setting(contentEl)
+            .setName(i18n.t('IMPORT_DEFAULT_ACCOUNT'))
+            .setDesc(i18n.t('IMPORT_DEFAULT_ACCOUNT_DESC'))
+            .addDropdown(dropdown => {
+                flattenHierarchy(this.plugin.settings.accounts).forEach(account => dropdown.addOption(account.id, account.name));
+                dropdown.setValue(this.defaultAccountId).onChange(value => this.defaultAccountId = value);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(i18n.t('IMPORT_NEXT'))
+                .setCta()
+                .setDisabled(!this.fileContent || !this.defaultAccountId)
+                .onClick(() => {
+                    if (this.format === 'csv') {
+                        this.readRecords();
+                        if (Object.keys(this.options.mapping).length === 0 && this.options.hasHeader && this.records.length > 0) {
+                            this.options.mapping = guessColumnMapping(this.records[0]);
+                        }
+                        this.step = 'mapping';
+                    } else {
+                        try {
+                            this.readStatements();
+                        } catch (error) {
+                            new Notice(`${i18n.t('IMPORT_READ_FAILED')}: ${error.message}`);
+                            return;
+                        }
+                        this.step = 'review';
+                    }
+                    this.render();
+                }));
+    }
+
+    /**
+     * Read the rows of a statement file. The accounts named in OFX and QIF files go to the
+     * default account until the user picks another one for them in the review.
+     */
+    private readStatements(): void {
+        const content = this.fileContent!;
+        this.resolutions = new Map();
+        this.duplicateActions = new Map();
+        if (this.format === 'ofx' || this.format === 'qif') {
+            const statements = this.format === 'ofx'
+                ? parseOfx(decodeText(content, getOfxEncoding(content)))
+                : parseQif(decodeText(content, this.options.encoding), this.options.dateFormat, this.options.decimalSeparator);
+            statements.filter(statement => statement.accountName).forEach(statement => {
+                this.resolutions.set(getNameKey('account', statement.accountName), this.defaultAccountId);
+            });
+            this.rows = statements.flatMap(statement => statement.rows);
+        } else if (this.format === 'ledger' || this.format === 'beancount') {
+            this.rows = parseJournal(decodeTextAuto(content), this.format, this.plugin.settings.baseCurrency);
+        } else if (this.format !== 'csv') {
+            this.rows = parseStatementFile(this.format, decodeTextAuto(content));
+        }
+        markImportedRows(this.rows, new Set(this.plugin.transactions.map(transaction => transaction.id)));
+    }
+
+    /**
+     * Make the account a payment app statement belongs to the default account, when it exists
+     */
+    private selectStatementAccount(): void {
+        if (this.format !== 'alipay' && this.format !== 'wechat') {
+            return;
+        }
+        const names = STATEMENT_ACCOUNT_NAMES[this.format].map(name => name.toLowerCase());
+        const account = flattenHierarchy(this.plugin.settings.accounts).find(item => names.includes(item.name.toLowerCase()));
+        if (account) {
+            this.defaultAccountId = account.id;
+        }
+    }
+
+    private renderMapping(): void {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        const mapping = this.options.mapping;
+        const columnCount = Math.max(0, ...this.records.slice(0, 20).map(record => record.length));
+        const headers = this.options.hasHeader && this.records.length > 0
+            ? this.records[0]
+            : Array.from({ length: columnCount }, (_, index) => `#${index + 1}`);
+
+        contentEl.createEl('h3', { text: i18n.t('IMPORT_MAP_COLUMNS') });
+        const fieldLabels: Record<CsvField, string> = {
+            date: i18n.t('DATE'),
+            time: i18n.t('TIME'),
+            amount: i18n.t('AMOUNT'),
+            type: i18n.t('TYPE'),
+            account: i18n.t('ACCOUNT_FIELD'),
+            category: i18n.t('CATEGORY_FIELD'),
+            tags: i18n.t('TAGS_FIELD'),
+            description: i18n.t('DESCRIPTION_FIELD'),
+            note: i18n.t('NOTE')
+        };
+        CSV_FIELDS.forEach(field => {
+            new Setting(contentEl)
+                .setName(fieldLabels[field])
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', i18n.t('IMPORT_COLUMN_NONE'));
+                    for (let index = 0; index < columnCount; index++) {
+                        dropdown.addOption(index.toString(), headers[index] || `#${index + 1}`);
+                    }
+                    dropdown
+                        .setValue(mapping[field] === undefined ? '' : mapping[field]!.toString())
+                        .onChange(value => {
+                            if (value === '') {
+                                delete mapping[field];
+                            } else {
+                                mapping[field] = parseInt(value, 10);
+                            }
+                        });
+                });
+        });
+        contentEl.createEl('p', { text: i18n.t('IMPORT_AMOUNT_SIGN_HINT'), cls: 'setting-item-description' });
+
+        // A few records of the file to map against
+        const sample = contentEl.createDiv({ cls: 'accounting-import-table-container' });
+        const table = sample.createEl('table', { cls: 'accounting-import-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headers.forEach(header => headerRow.createEl('th', { text: header }));
+        const tbody = table.createEl('tbody');
+        this.records.slice(this.options.hasHeader ? 1 : 0, (this.options.hasHeader ? 1 : 0) + 5).forEach(record => {
+            const row = tbody.createEl('tr');
+            record.forEach(value => row.createEl('td', { text: value }));
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(i18n.t('BACK'))
+                .onClick(() => {
+                    this.step = 'options';
+                    this.render();
+                }))
+            .addButton(button => button
+                .setButtonText(i18n.t('IMPORT_NEXT'))
+                .setCta()
+                .onClick(() => {
+                    if (mapping.date === undefined || mapping.amount === undefined) {
+                        new Notice(i18n.t('IMPORT_MAPPING_REQUIRED'));
+                        return;
+                    }
+                    this.rows = csvToImportRows(this.records, this.options);
+                    this.resolutions = new Map();
+                    this.duplicateActions = new Map();
+                    this.step = 'review';
+                    this.render();
+                }));
+    }
+
+    /**
+     * Match the valid rows against the loaded transactions. Each transaction is matched to
+     * one row at most, so repeated payments of the same amount aren't all taken for it.
+     */
+    private findDuplicateRows(): void {
+        this.duplicates = new Map();
+        const matchedIds = new Set<string>();
+        this.rows.filter(row => !row.error).forEach(row => {
+            const accountId = getImportAccountId(row, this.resolutions, this.context);
+            if (!accountId) {
+                return;
+            }
+            const match = findDuplicates(toTransaction(row, accountId), this.plugin.transactions, matchedIds)[0];
+            if (match) {
+                this.duplicates.set(row, match);
+                matchedIds.add(match.transaction.id);
+            }
+        });
+    }
+
+    /**
+     * What to do with a row: skip rows that look like a loaded transaction unless the user
+     * chose otherwise
+     */
+    private getRowAction(row: ImportRow): DuplicateAction {
+        return this.duplicates.has(row) ? this.duplicateActions.get(row) || 'skip' : 'import';
+    }
+
+    private updateRunButton(): void {
+        const validRows = this.rows.filter(row => !row.error);
+        const importCount = validRows.filter(row => this.getRowAction(row) === 'import').length;
+        const mergeCount = validRows.filter(row => this.getRowAction(row) === 'merge').length;
+        this.runButton?.setButtonText(this.plugin.i18n.t('IMPORT_RUN').replace('{count}', importCount.toString()))
+            .setDisabled(importCount + mergeCount === 0);
+    }
+
+    private renderReview(): void {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        const validCount = this.rows.filter(row => !row.error).length;
+        this.findDuplicateRows();
+
+        contentEl.createEl('h3', { text: i18n.t('IMPORT_PREVIEW') });
+        contentEl.createEl('p', {
+            text: i18n.t('IMPORT_SUMMARY')
+                .replace('{valid}', validCount.toString())
+                .replace('{total}', this.rows.length.toString())
+                .replace('{errors}', (this.rows.length - validCount).toString())
+        });
+        if (this.duplicates.size > 0) {
+            contentEl.createEl('p', { text: i18n.t('IMPORT_DUPLICATES').replace('{count}', this.duplicates.size.toString()) });
+        }
+
+        this.renderPreviewTable(contentEl);
+        this.renderUnresolvedNames(contentEl, findUnresolvedNames(this.rows, this.context));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(i18n.t('BACK'))
+                .onClick(() => {
+                    this.step = this.format === 'csv' ? 'mapping' : 'options';
+                    this.render();
+                }))
+            .addButton(button => {
+                this.runButton = button
+                    .setCta()
+                    .onClick(async () => {
+                        button.setDisabled(true);
+                        await this.runImport();
+                    });
+            });
+        this.updateRunButton();
+    }
+
+    private renderPreviewTable(containerEl: HTMLElement): void {
+        const i18n = this.plugin.i18n;
+        const accounts = flattenHierarchy(this.plugin.settings.accounts);
+        const defaultAccountName = accounts.find(account => account.id === this.defaultAccountId)?.name || '';
+        const typeLabels = { income: i18n.t('INCOME'), expense: i18n.t('EXPENSE'), transfer: i18n.t('TRANSFER') };
+
+        const container = containerEl.createDiv({ cls: 'accounting-import-table-container' });
+        const table = container.createEl('table', { cls: 'accounting-import-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        [i18n.t('IMPORT_ROW'), i18n.t('DATE'), i18n.t('TYPE'), i18n.t('AMOUNT'), i18n.t('ACCOUNT_FIELD'),
+            i18n.t('CATEGORY_FIELD'), i18n.t('TAGS_FIELD'), i18n.t('DESCRIPTION_FIELD'), i18n.t('IMPORT_PROBLEM')]
+            .forEach(header => headerRow.createEl('th', { text: header }));
+
+        const tbody = table.createEl('tbody');
+        this.rows.slice(0, PREVIEW_LIMIT).forEach(importRow => {
+            const duplicate = this.duplicates.get(importRow);
+            const row = tbody.createEl('tr', {
+                cls: importRow.error ? 'accounting-import-error' : duplicate ? 'accounting-import-duplicate' : ''
+            });
+            row.createEl('td', { text: importRow.source.toString() });
+            row.createEl('td', { text: importRow.date });
+            row.createEl('td', { text: importRow.error ? '' : typeLabels[importRow.type] });
+            row.createEl('td', { text: importRow.error ? '' : importRow.amount.toFixed(2) });
+            row.createEl('td', {
+                text: [importRow.accountName || defaultAccountName, importRow.toAccountName].filter(Boolean).join(' → ')
+            });
+            row.createEl('td', {
+                text: importRow.splits
+                    ? importRow.splits.map(split => `${split.categoryName} ${split.amount.toFixed(2)}`).join(', ')
+                    : importRow.categoryName || ''
+            });
+            row.createEl('td', { text: importRow.tagNames.join(', ') });
+            row.createEl('td', { text: importRow.description || '' });
+            const problemCell = row.createEl('td', { text: importRow.error || '' });
+            if (duplicate) {
+                this.renderDuplicate(problemCell, importRow, duplicate);
+            }
+        });
+        if (this.rows.length > PREVIEW_LIMIT) {
+            containerEl.createEl('p', {
+                text: i18n.t('IMPORT_PREVIEW_LIMIT').replace('{count}', PREVIEW_LIMIT.toString()),
+                cls: 'setting-item-description'
+            });
+        }
+    }
+
+    /**
+     * Describe the transaction a row may duplicate and let the user choose what to do with the row
+     */
+    private renderDuplicate(containerEl: HTMLElement, row: ImportRow, duplicate: DuplicateMatch): void {
+        const i18n = this.plugin.i18n;
+        const existing = duplicate.transaction;
+        containerEl.createDiv({
+            text: i18n.t('DUPLICATE_WARNING')
+                .replace('{date}', existing.date)
+                .replace('{amount}', existing.amount.toFixed(2))
+                .replace('{description}', existing.description || existing.note || '')
+        });
+        const select = containerEl.createEl('select', { cls: 'dropdown' });
+        const labels: Record<DuplicateAction, string> = {
+            skip: i18n.t('DUPLICATE_SKIP'),
+            merge: i18n.t('DUPLICATE_MERGE'),
+            import: i18n.t('DUPLICATE_IMPORT')
+        };
+        (Object.keys(labels) as DuplicateAction[]).forEach(action => {
+            select.createEl('option', { text: labels[action], value: action });
+        });
+        select.value = this.getRowAction(row);
+        select.addEventListener('change', () => {
+            this.duplicateActions.set(row, select.value as DuplicateAction);
+            this.updateRunButton();
+        });
+    }
+
+    /**
+     * Let the user map each unknown name to an existing item or have it created
+     */
+    private renderUnresolvedNames(containerEl: HTMLElement, names: UnresolvedName[]): void {
+        if (names.length === 0) {
+            return;
+        }
+        const i18n = this.plugin.i18n;
+        const settings = this.plugin.settings;
+        containerEl.createEl('h3', { text: i18n.t('IMPORT_UNKNOWN_NAMES') });
+        containerEl.createEl('p', { text: i18n.t('IMPORT_UNKNOWN_NAMES_DESC'), cls: 'setting-item-description' });
+
+        const kindLabels = { account: i18n.t('ACCOUNT'), category: i18n.t('CATEGORY'), tag: i18n.t('TAGS_FIELD') };
+        names.forEach(name => {
+            const items = name.kind === 'account'
+                ? flattenHierarchy(settings.accounts)
+                : name.kind === 'category'
+                    ? flattenHierarchy(settings.categories).filter(category => category.type === name.type)
+                    : flattenHierarchy(settings.tags);
+            const key = getNameKey(name.kind, name.name, name.type);
+            new Setting(containerEl)
+                .setName(`${kindLabels[name.kind]}: ${name.name}`)
+                .setDesc([
+                    name.type === 'income' ? i18n.t('INCOME') : name.type === 'expense' ? i18n.t('EXPENSE') : '',
+                    i18n.t('IMPORT_NAME_ROWS').replace('{count}', name.count.toString())
+                ].filter(Boolean).join(' · '))
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', i18n.t('IMPORT_CREATE_NEW'));
+                    items.forEach(item => dropdown.addOption(item.id, item.name));
+                    dropdown
+                        .setValue(this.resolutions.get(key) || '')
+                        .onChange(value => {
+                            this.resolutions.set(key, value);
+                            // Which transactions the rows duplicate depends on their account
+                            if (name.kind === 'account') {
+                                this.render();
+                            }
+                        });
+                });
+        });
+    }
+
+    /**
+     * Write the valid rows, creating the accounts, categories and tags the user asked for.
+     * Rows merged into a loaded transaction fill in its description and note.
+     */
+    private async runImport(): Promise<void> {
+        if (this.importing) {
+            return;
+        }
+        this.importing = true;
+        const i18n = this.plugin.i18n;
+        const settings = this.plugin.settings;
+
+        // Work on copies so a failed import doesn't leave new items in the settings
+        const { accounts, categories, tags } = settings;
+        settings.accounts = [...accounts];
+        settings.categories = [...categories];
+        settings.tags = [...tags];
+        try {
+            const rows = this.rows.filter(row => this.getRowAction(row) === 'import');
+            const { transactions, created } = createImportTransactions(rows, this.resolutions, this.context);
+            await saveTransactions(this.app, transactions, settings);
+            if (created > 0) {
+                await this.plugin.saveSettings();
+            }
+            const mergeRows = this.rows.filter(row => !row.error && this.getRowAction(row) === 'merge');
+            for (const row of mergeRows) {
+                const existing = this.duplicates.get(row)!.transaction;
+                await this.plugin.replaceTransaction(mergeTransactions(existing, toTransaction(row, existing.accountId || '')));
+            }
+            await this.plugin.loadAllTransactions();
+            const messages = [i18n.t('IMPORT_SUCCESS').replace('{count}', transactions.length.toString())];
+            if (mergeRows.length > 0) {
+                messages.push(i18n.t('IMPORT_MERGED').replace('{count}', mergeRows.length.toString()));
+            }
+            new Notice(messages.join('\n'));
+            this.close();
+        } catch (error) {
+            settings.accounts = accounts;
+            settings.categories = categories;
+            settings.tags = tags;
+            console.error('Error importing transactions:', error);
+            new Notice(`${i18n.t('IMPORT_FAILED')}: ${error.message}`);
+        } finally {
+            this.importing = false;
+        }
+    }
+}
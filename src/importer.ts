@@ -0,0 +1,321 @@
+// Shared steps of importing transactions from files: resolving the names used in a
+// statement to accounts, categories and tags, and turning the rows into transactions
+
+import { Account, AccountType, Category, Tag, Transaction, TransactionType, addItemToHierarchy, findItemById, flattenHierarchy, generateId } from './models';
+import { AccountingPluginSettings } from './settings';
+import { toBlockId } from './utils';
+import { EXPORT_PATH_SEPARATOR } from './exporter';
+
+/**
+ * Part of an imported split transaction
+ */
+export interface ImportSplit {
+    categoryName: string;
+    amount: number;
+}
+
+/**
+ * One transaction read from an imported file, before its names are resolved
+ */
+export interface ImportRow {
+    /** Line or record number in the file, shown in the preview */
+    source: number;
+    /**
+     * ID of the transaction, for files that give each record an ID of its own. Importing
+     * the same record again is recognised by it; a new ID is generated when missing.
+     */
+    id?: string;
+    /** YYYY-MM-DD HH:mm */
+    date: string;
+    type: TransactionType;
+    amount: number;
+    /**
+     * Empty for the default account of the import; the source account of a transfer.
+     * Names may give their parents, e.g. "Bank:Checking", like all names of a row.
+     */
+    accountName?: string;
+    /** Destination account of a transfer */
+    toAccountName?: string;
+    /** Types of the accounts named by the row, for the ones the import creates; assets otherwise */
+    accountTypes?: Record<string, AccountType>;
+    /** Empty for the "uncategorized" category of the import */
+    categoryName?: string;
+    /** Categories of a split transaction, used instead of the category */
+    splits?: ImportSplit[];
+    tagNames: string[];
+    description?: string;
+    note?: string;
+    currency?: string;
+    /** Why the row can't be imported; such rows are shown but skipped */
+    error?: string;
+}
+
+export type ImportNameKind = 'account' | 'category' | 'tag';
+
+/**
+ * A name used in the imported rows that matches no existing item
+ */
+export interface UnresolvedName {
+    kind: ImportNameKind;
+    name: string;
+    /** Type of the category, since the same name may exist for income and expense */
+    type?: TransactionType;
+    /** Number of rows using the name */
+    count: number;
+}
+
+/**
+ * What the names of an import resolve to: the ID of an existing item, or an empty
+ * string to create a new one. Keyed by getNameKey.
+ */
+export type NameResolutions = Map<string, string>;
+
+/**
+ * Settings shared by the steps of an import
+ */
+export interface ImportContext {
+    settings: AccountingPluginSettings;
+    /** Account of rows without an account name */
+    defaultAccountId: string;
+    /** Category name of rows without one */
+    uncategorizedName: string;
+}
+
+/**
+ * Key of a name in NameResolutions
+ */
+export function getNameKey(kind: ImportNameKind, name: string, type?: TransactionType): string {
+    return kind === 'category' ? `${kind}:${type}:${name.toLowerCase()}` : `${kind}:${name.toLowerCase()}`;
+}
+
+/**
+ * Split a name into the names of the item and its parents, e.g. "Food:Groceries"
+ */
+function getNamePath(name: string): string[] {
+    return name.split(EXPORT_PATH_SEPARATOR).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * The items directly under a parent, or the top-level items. Categories and tags nest
+ * their children; accounts are kept in a flat list and name their parent by ID.
+ */
+function getChildItems<T extends { id: string, parentId?: string | null, children?: T[] }>(items: T[], parentId: string | null): T[] {
+    if (!parentId) {
+        return items.filter(item => !item.parentId);
+    }
+    return [...(findItemById(items, parentId)?.children || []), ...items.filter(item => item.parentId === parentId)];
+}
+
+/**
+ * Find an existing item by name, case-insensitively. A name with parents is looked up by
+ * its path when no item has the name itself.
+ */
+function findByName<T extends { id: string, name: string, parentId?: string | null, children?: T[] }>(
+    items: T[],
+    name: string
+): Omit<T, 'children'> | undefined {
+    const lowerName = name.toLowerCase();
+    const item = flattenHierarchy(items).find(item => item.name.toLowerCase() === lowerName);
+    if (item || !name.includes(EXPORT_PATH_SEPARATOR)) {
+        return item;
+    }
+    let found: T | undefined;
+    for (const part of getNamePath(lowerName)) {
+        found = getChildItems(items, found ? found.id : null).find(item => item.name.toLowerCase() === part);
+        if (!found) {
+            return undefined;
+        }
+    }
+    return found;
+}
+
+/**
+ * The category names of a row: those of its splits, or its category
+ */
+function getRowCategoryNames(row: ImportRow, context: ImportContext): string[] {
+    return row.splits && row.splits.length > 0
+        ? row.splits.map(split => split.categoryName || context.uncategorizedName)
+        : [row.categoryName || context.uncategorizedName];
+}
+
+/**
+ * Find the names of valid rows that match no existing account, category or tag
+ * @param rows The imported rows
+ * @param context The import context
+ * @returns One entry per name, most used first
+ */
+export function findUnresolvedNames(rows: ImportRow[], context: ImportContext): UnresolvedName[] {
+    const { settings } = context;
+    const unresolved = new Map<string, UnresolvedName>();
+    const note = (kind: ImportNameKind, name: string, type?: TransactionType) => {
+        const key = getNameKey(kind, name, type);
+        const entry = unresolved.get(key);
+        if (entry) {
+            entry.count++;
+        } else {
+            unresolved.set(key, { kind, name, type, count: 1 });
+        }
+    };
+
+    rows.filter(row => !row.error).forEach(row => {
+        [row.accountName, row.toAccountName].forEach(accountName => {
+            if (accountName && !findByName(settings.accounts, accountName)) {
+                note('account', accountName);
+            }
+        });
+        if (row.type !== 'transfer') {
+            const categories = settings.categories.filter(category => category.type === row.type);
+            new Set(getRowCategoryNames(row, context)).forEach(categoryName => {
+                if (!findByName(categories, categoryName)) {
+                    note('category', categoryName, row.type);
+                }
+            });
+        }
+        row.tagNames.forEach(tagName => {
+            if (!findByName(settings.tags, tagName)) {
+                note('tag', tagName);
+            }
+        });
+    });
+
+    return Array.from(unresolved.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Find the account a row will be imported into, without creating anything
+ * @param row The imported row
+ * @param resolutions What the unresolved names map to
+ * @param context The import context
+ * @returns The account ID, or an empty string for an account still to be created
+ */
+export function getImportAccountId(row: ImportRow, resolutions: NameResolutions, context: ImportContext): string {
+    if (!row.accountName) {
+        return context.defaultAccountId;
+    }
+    const existing = findByName(context.settings.accounts, row.accountName);
+    return existing ? existing.id : resolutions.get(getNameKey('account', row.accountName)) || '';
+}
+
+/**
+ * Mark the rows whose transaction was imported before, or appears twice in the file, so
+ * they are skipped
+ * @param rows The imported rows
+ * @param existingIds The IDs of the loaded transactions
+ */
+export function markImportedRows(rows: ImportRow[], existingIds: Set<string>): void {
+    const seen = new Set(existingIds);
+    rows.filter(row => row.id && !row.error).forEach(row => {
+        const id = toBlockId(row.id!);
+        if (seen.has(id)) {
+            row.error = 'Already imported';
+        }
+        seen.add(id);
+    });
+}
+
+/**
+ * Turn the valid rows into transactions. Names resolved to an empty string are added to
+ * the settings as new items, under the parents they name (created as well when missing);
+ * the caller saves the settings.
+ * @param rows The imported rows
+ * @param resolutions What the unresolved names map to
+ * @param context The import context
+ * @returns The transactions and the number of items created
+ */
+export function createImportTransactions(
+    rows: ImportRow[],
+    resolutions: NameResolutions,
+    context: ImportContext
+): { transactions: Transaction[], created: number } {
+    const { settings } = context;
+    const createdIds = new Map<string, string>();
+    const accountTypes = new Map<string, AccountType>();
+    rows.forEach(row => Object.keys(row.accountTypes || {}).forEach(name => {
+        accountTypes.set(name.toLowerCase(), row.accountTypes![name]);
+    }));
+    let created = 0;
+
+    // Resolve a name to an ID: an existing item first, then the user's choice, creating the item if asked to
+    const resolve = (kind: ImportNameKind, name: string, type?: TransactionType): string => {
+        const items: Array<Account | Category | Tag> = kind === 'account'
+            ? settings.accounts
+            : kind === 'category' ? settings.categories.filter(category => category.type === type) : settings.tags;
+        const existing = findByName(items, name);
+        if (existing) {
+            return existing.id;
+        }
+        const key = getNameKey(kind, name, type);
+        const chosen = resolutions.get(key);
+        if (chosen) {
+            return chosen;
+        }
+        if (!createdIds.has(key)) {
+            createdIds.set(key, create(kind, name, type));
+        }
+        return createdIds.get(key)!;
+    };
+
+    // Create an item and the parents it names that don't exist yet
+    const create = (kind: ImportNameKind, name: string, type?: TransactionType): string => {
+        let parentId: string | null = null;
+        getNamePath(name).forEach(part => {
+            const items: Array<Account | Category | Tag> = kind === 'account'
+                ? settings.accounts
+                : kind === 'category' ? settings.categories.filter(category => category.type === type) : settings.tags;
+            const existing = getChildItems(items, parentId).find(item => item.name.toLowerCase() === part.toLowerCase());
+            if (existing) {
+                parentId = existing.id;
+                return;
+            }
+            const id = generateId();
+            if (kind === 'account') {
+                // Parents created with an account are of its type as well
+                const type = accountTypes.get(name.toLowerCase());
+                settings.accounts = [...settings.accounts, type ? { id, name: part, type, parentId } : { id, name: part, parentId }];
+            } else if (kind === 'category') {
+                settings.categories = addItemToHierarchy(settings.categories, { id, name: part, type: type!, parentId, children: [] });
+            } else {
+                settings.tags = addItemToHierarchy(settings.tags, { id, name: part, parentId, children: [] });
+            }
+            created++;
+            parentId = id;
+        });
+        return parentId || '';
+    };
+
+    const transactions = rows.filter(row => !row.error).map(row => {
+        const accountId = row.accountName ? resolve('account', row.accountName) : context.defaultAccountId;
+        const transaction: Transaction = {
+            id: row.id ? toBlockId(row.id) : generateId(),
+            date: row.date,
+            type: row.type,
+            amount: row.amount,
+            categoryId: '',
+            tagIds: [...new Set(row.tagNames.map(name => resolve('tag', name)))],
+            note: row.note || ''
+        };
+        if (row.type === 'transfer') {
+            transaction.fromAccountId = accountId;
+            transaction.toAccountId = resolve('account', row.toAccountName || '');
+        } else {
+            transaction.accountId = accountId;
+            if (row.splits && row.splits.length > 0) {
+                transaction.splits = row.splits.map(split => ({
+                    categoryId: resolve('category', split.categoryName || context.uncategorizedName, row.type),
+                    amount: split.amount
+                }));
+            } else {
+                transaction.categoryId = resolve('category', row.categoryName || context.uncategorizedName, row.type);
+            }
+        }
+        if (row.description) {
+            transaction.description = row.description;
+        }
+        if (row.currency) {
+            transaction.currency = row.currency;
+        }
+        return transaction;
+    });
+
+    return { transactions, created };
+}
@@ -0,0 +1,360 @@
+// Reader for plain-text accounting journals: ledger-cli/hledger and Beancount
+
+import { ImportRow } from './importer';
+import { EXPORT_PATH_SEPARATOR } from './exporter';
+import { normalizeCurrencyCode } from './currency';
+
+/**
+ * Journal syntaxes the reader understands
+ */
+export type JournalSyntax = 'ledger' | 'beancount';
+
+/**
+ * What the top-level accounts of a journal map to: the plugin's accounts, or income and
+ * expense categories. Other top-level accounts, such as Equity, can't be imported.
+ */
+const ROOT_KINDS: Record<string, 'account' | 'income' | 'expense'> = {
+    assets: 'account',
+    liabilities: 'account',
+    income: 'income',
+    revenue: 'income',
+    revenues: 'income',
+    expenses: 'expense',
+    expense: 'expense'
+};
+
+/**
+ * One line of an entry moving money in or out of an account
+ */
+interface JournalPosting {
+    account: string;
+    /** In cents; null when left out, to be inferred from the other postings */
+    cents: number | null;
+    currency: string;
+    /** Why the posting can't be imported */
+    error?: string;
+}
+
+/**
+ * A transaction of the journal, before it is turned into an import row
+ */
+interface JournalEntry {
+    /** Line of the entry's first line */
+    line: number;
+    /** YYYY-MM-DD */
+    date: string;
+    /** HH:mm */
+    time: string;
+    id: string;
+    description: string;
+    notes: string[];
+    tags: string[];
+    postings: JournalPosting[];
+}
+
+/**
+ * Read a journal amount, e.g. "-12.50 USD", "$1,200", "EUR 3" or "12 CNY @ 0.14 USD"
+ * @returns The amount in cents and its commodity, or an error for prices and costs,
+ * which convert between commodities
+ */
+function parseJournalAmount(text: string): { cents: number, currency: string } | { error: string } {
+    const value = text.trim();
+    if (/[@{]/.test(value)) {
+        return { error: `Price or cost "${value}" can't be imported` };
+    }
+    const match = value.match(/^(-?)\s*([^\d\s.,+-]*)\s*([+-]?)\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*("[^"]*"|[^\d\s.,+-]*)$/);
+    if (!match) {
+        return { error: `Invalid amount "${value}"` };
+    }
+    const negative = (match[1] === '-') !== (match[3] === '-');
+    const amount = parseFloat(match[4].replace(/,/g, ''));
+    const commodity = (match[2] || match[5]).replace(/"/g, '');
+    return {
+        cents: Math.round(amount * 100) * (negative ? -1 : 1),
+        // Symbols such as $ stand for no particular currency
+        currency: /^[A-Za-z][A-Za-z0-9._'-]*$/.test(commodity) ? normalizeCurrencyCode(commodity) : ''
+    };
+}
+
+/**
+ * Read a posting line, without its indentation and comment. ledger ends the account name
+ * with two spaces or a tab, Beancount with any whitespace.
+ */
+function parsePosting(text: string, syntax: JournalSyntax): JournalPosting {
+    const match = syntax === 'beancount'
+        ? text.match(/^(?:[*!]\s+)?(\S+)(?:\s+(.*))?$/)
+        : text.match(/^(?:[*!]\s+)?(.+?)(?:(?: {2,}|\t)\s*(.*))?$/);
+    const account = match ? match[1].trim() : text;
+    // ledger's balance assertions ("= 100 USD") don't change the posting
+    const amountText = ((match && match[2]) || '').replace(/\s*==?\s*.*$/, '').trim();
+    if (/^[([]/.test(account)) {
+        return { account, cents: null, currency: '', error: `Virtual posting ${account} can't be imported` };
+    }
+    if (!amountText) {
+        return { account, cents: null, currency: '' };
+    }
+    const amount = parseJournalAmount(amountText);
+    return 'error' in amount
+        ? { account, cents: null, currency: '', error: amount.error }
+        : { account, cents: amount.cents, currency: amount.currency };
+}
+
+/**
+ * Read the tags of an entry from a ledger comment: ":food:travel:" tags, and hledger's
+ * "tag:" tags without a value
+ */
+function getLedgerTags(comment: string): string[] {
+    const tagList = comment.match(/^:((?:[^:\s]+:)+)$/);
+    if (tagList) {
+        return tagList[1].split(':').filter(Boolean);
+    }
+    const tag = comment.match(/^([^\s:,]+):$/);
+    return tag ? [tag[1]] : [];
+}
+
+/**
+ * Read the quoted strings, tags (#tag) and links (^link) after the flag of a Beancount
+ * transaction
+ */
+function parseBeancountHeader(text: string): { strings: string[], tags: string[] } {
+    const strings: string[] = [];
+    const tags: string[] = [];
+    const pattern = /"((?:[^"\\]|\\.)*)"|#([^\s#^]+)|\^\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        if (match[1] !== undefined) {
+            strings.push(match[1].replace(/\\(.)/g, '$1'));
+        } else if (match[2]) {
+            tags.push(match[2]);
+        }
+    }
+    return { strings, tags };
+}
+
+/**
+ * Split the entries of a journal from its other directives
+ */
+function readEntries(text: string, syntax: JournalSyntax): JournalEntry[] {
+    const entries: JournalEntry[] = [];
+    // Beancount's pushtag adds a tag to the transactions after it until its poptag
+    const pushedTags: string[] = [];
+    let entry: JournalEntry | null = null;
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.replace(/\s+$/, '');
+        if (!line.trim()) {
+            entry = null;
+            return;
+        }
+
+        if (/^\s/.test(line)) {
+            // Lines of another directive, e.g. an account declaration, are skipped with it
+            if (!entry) {
+                return;
+            }
+            const content = line.trim();
+            // Postings may start with a flag such as * or !, so only these start a comment
+            const commentStart = syntax === 'beancount' ? /^;\s*/ : /^[;#%|]\s*/;
+            if (commentStart.test(content)) {
+                const comment = content.replace(commentStart, '');
+                const id = comment.match(/^id:\s*(\S+)$/);
+                const tags = getLedgerTags(comment);
+                if (id) {
+                    entry.id = id[1];
+                } else if (tags.length > 0) {
+                    entry.tags.push(...tags);
+                } else if (comment) {
+                    entry.notes.push(comment);
+                }
+                return;
+            }
+            // Beancount metadata: key: value
+            const metadata = syntax === 'beancount' ? content.match(/^([a-z][\w-]*):\s*(.*)$/) : null;
+            if (metadata) {
+                const value = metadata[2].replace(/^"((?:[^"\\]|\\.)*)"$/, '$1').replace(/\\(.)/g, '$1');
+                // Metadata of a posting belongs to the posting, not the transaction
+                if (entry.postings.length > 0) {
+                    return;
+                }
+                if (metadata[1] === 'id') {
+                    entry.id = value;
+                } else if (metadata[1] === 'time' && /^\d{1,2}:\d{2}/.test(value)) {
+                    const [hours, minutes] = value.split(':');
+                    entry.time = `${hours.length < 2 ? '0' : ''}${hours}:${minutes.substring(0, 2)}`;
+                } else if (metadata[1] === 'tags') {
+                    entry.tags.push(...value.split(',').map(tag => tag.trim()).filter(Boolean));
+                } else if (metadata[1] === 'note') {
+                    entry.notes.push(value);
+                }
+                return;
+            }
+            entry.postings.push(parsePosting(content.replace(/\s+;.*$/, ''), syntax));
+            return;
+        }
+
+        entry = null;
+        if (syntax === 'beancount') {
+            const push = line.match(/^(pushtag|poptag)\s+#(\S+)/);
+            if (push) {
+                if (push[1] === 'pushtag') {
+                    pushedTags.push(push[2]);
+                } else if (pushedTags.indexOf(push[2]) > -1) {
+                    pushedTags.splice(pushedTags.indexOf(push[2]), 1);
+                }
+                return;
+            }
+            const header = line.match(/^(\d{4}-\d{2}-\d{2})\s+(?:txn|[*!&#?%PSTCURM])(?:\s+(.*))?$/);
+            if (header) {
+                const { strings, tags } = parseBeancountHeader(header[2] || '');
+                // "payee" "narration", or only the narration
+                const [payee, narration] = strings.length > 1 ? strings : ['', strings[0] || ''];
+                entry = {
+                    line: index + 1,
+                    date: header[1],
+                    time: '00:00',
+                    id: '',
+                    description: payee || narration,
+                    notes: payee && narration ? [narration] : [],
+                    tags: [...pushedTags, ...tags],
+                    postings: []
+                };
+                entries.push(entry);
+            }
+            return;
+        }
+
+        // ledger: date[=auxiliary date] [*|!] [(code)] description[  ; comment]
+        const header = line.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:=\S+)?\s*(?:[*!]\s*)?(?:\([^)]*\)\s*)?(.*)$/);
+        if (header) {
+            const [description, comment] = header[4].split(/(?: {2,}|\t);/);
+            const pad = (value: string) => (value.length < 2 ? '0' : '') + value;
+            entry = {
+                line: index + 1,
+                date: `${header[1]}-${pad(header[2])}-${pad(header[3])}`,
+                time: '00:00',
+                id: '',
+                description: description.trim(),
+                notes: [],
+                tags: comment ? getLedgerTags(comment.trim()) : [],
+                postings: []
+            };
+            if (comment && entry.tags.length === 0 && comment.trim()) {
+                entry.notes.push(comment.trim());
+            }
+            entries.push(entry);
+        }
+    });
+    return entries;
+}
+
+/**
+ * Turn a journal entry into an import row. Entries moving money between one account and
+ * one or more categories of the same type become income or expenses, with splits for
+ * several categories; entries between two accounts become transfers. Other entries are
+ * returned with an error so the preview reports them.
+ */
+function toImportRow(entry: JournalEntry, baseCurrency: string): ImportRow {
+    const row: ImportRow = {
+        source: entry.line,
+        id: entry.id || undefined,
+        date: `${entry.date} ${entry.time}`,
+        type: 'expense',
+        amount: 0,
+        tagNames: [...new Set(entry.tags)].map(tag => tag.split('/').join(EXPORT_PATH_SEPARATOR)),
+        description: entry.description,
+        note: entry.notes.join(' ')
+    };
+    const postings = entry.postings;
+    const fail = (error: string) => {
+        row.error = error;
+        return row;
+    };
+
+    const postingError = postings.find(posting => posting.error);
+    if (postingError) {
+        return fail(postingError.error!);
+    }
+    const currencies = [...new Set(postings.filter(posting => posting.cents !== null).map(posting => posting.currency))];
+    if (currencies.length > 1) {
+        return fail(`Postings in several currencies (${currencies.join(', ')}) can't be imported`);
+    }
+    // One posting may leave its amount out; it balances the others
+    const missing = postings.filter(posting => posting.cents === null);
+    if (missing.length > 1) {
+        return fail('More than one posting without an amount');
+    }
+    const total = postings.reduce((sum, posting) => sum + (posting.cents || 0), 0);
+    if (missing.length === 1) {
+        missing[0].cents = -total;
+    } else if (total !== 0) {
+        return fail(`Postings don't balance (off by ${(total / 100).toFixed(2)})`);
+    }
+    if (currencies[0] && currencies[0] !== normalizeCurrencyCode(baseCurrency)) {
+        row.currency = currencies[0];
+    }
+
+    // The name of the account or category below its top-level account, e.g. "Bank:Checking"
+    const getKind = (posting: JournalPosting) => ROOT_KINDS[posting.account.split(':')[0].toLowerCase()];
+    const getName = (posting: JournalPosting) => posting.account.split(':').slice(1).join(EXPORT_PATH_SEPARATOR)
+        || posting.account;
+    const unknown = postings.find(posting => !getKind(posting));
+    if (unknown) {
+        return fail(`Account ${unknown.account} is not an asset, liability, income or expense account`);
+    }
+    const accountPostings = postings.filter(posting => getKind(posting) === 'account' && posting.cents !== 0);
+    const categoryPostings = postings.filter(posting => getKind(posting) !== 'account' && posting.cents !== 0);
+    // Accounts under Liabilities are created as liabilities
+    accountPostings.filter(posting => /^liabilities:/i.test(posting.account)).forEach(posting => {
+        row.accountTypes = { ...row.accountTypes, [getName(posting)]: 'liability' };
+    });
+    const describe = () => `Entry with ${postings.length} postings (${postings.map(posting => posting.account).join(', ')}) can't be represented`;
+
+    if (categoryPostings.length === 0) {
+        if (accountPostings.length !== 2) {
+            return fail(describe());
+        }
+        const [from, to] = accountPostings[0].cents! < 0 ? accountPostings : [accountPostings[1], accountPostings[0]];
+        row.type = 'transfer';
+        row.amount = to.cents! / 100;
+        row.accountName = getName(from);
+        row.toAccountName = getName(to);
+        return row;
+    }
+
+    const types = [...new Set(categoryPostings.map(getKind))];
+    if (accountPostings.length !== 1 || types.length > 1) {
+        return fail(describe());
+    }
+    row.type = types[0] as 'income' | 'expense';
+    // Expenses are positive and income negative; the other way round they are refunds
+    const sign = row.type === 'expense' ? 1 : -1;
+    if (categoryPostings.some(posting => sign * posting.cents! < 0)) {
+        return fail(row.type === 'expense' ? 'Refunds of expenses can\'t be imported' : 'Negative income can\'t be imported');
+    }
+    row.amount = sign * -accountPostings[0].cents! / 100;
+    row.accountName = getName(accountPostings[0]);
+    if (categoryPostings.length > 1) {
+        row.splits = categoryPostings.map(posting => ({ categoryName: getName(posting), amount: sign * posting.cents! / 100 }));
+    } else {
+        row.categoryName = getName(categoryPostings[0]);
+    }
+    return row;
+}
+
+/**
+ * Read the transactions of a ledger-cli/hledger journal or a Beancount file. Accounts
+ * under Assets and Liabilities map to the plugin's accounts and those under Expenses and
+ * Income to categories, keeping their hierarchy. Entries the plugin can't represent, e.g.
+ * with Equity postings or several accounts, are returned as rows with an error.
+ * @param text The file content
+ * @param syntax The journal syntax
+ * @param baseCurrency Currency amounts are in unless they say otherwise
+ * @throws When the file contains no transactions
+ */
+export function parseJournal(text: string, syntax: JournalSyntax, baseCurrency: string): ImportRow[] {
+    const entries = readEntries(text, syntax);
+    if (entries.length === 0) {
+        throw new Error('No transactions found in the file');
+    }
+    return entries.map(entry => toImportRow(entry, baseCurrency));
+}
@@ -0,0 +1,266 @@
+// Writing transactions as plain-text accounting journals: ledger-cli/hledger and Beancount
+
+import { moment } from 'obsidian';
+import { Transaction, findItemById, flattenHierarchy, getItemPath, isLiabilityAccount } from './models';
+import { AccountingPluginSettings } from './settings';
+import { getTransactionCurrency, normalizeCurrencyCode } from './currency';
+import { getCategoryAmounts, getDatePart, normalizeTransactionDate } from './utils';
+
+/**
+ * Top-level accounts the plugin's accounts and categories are placed under
+ */
+const ROOT_ACCOUNTS = {
+    account: 'Assets',
+    liability: 'Liabilities',
+    income: 'Income',
+    expense: 'Expenses'
+};
+
+/**
+ * Name of the category of transactions without one
+ */
+const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * One line moving money in or out of an account; the postings of an entry add up to zero
+ */
+interface Posting {
+    account: string;
+    /** In cents, to keep the sum exact */
+    cents: number;
+    currency: string;
+}
+
+/**
+ * A transaction in the shape both journal formats share
+ */
+interface JournalEntry {
+    /** YYYY-MM-DD */
+    date: string;
+    /** HH:mm */
+    time: string;
+    id: string;
+    narration: string;
+    note: string;
+    tags: string[];
+    postings: Posting[];
+}
+
+/**
+ * Turns names into account names of a journal format
+ */
+type NameSanitizer = (name: string) => string;
+
+/**
+ * ledger and hledger allow almost anything in account names, except the separator and
+ * two spaces in a row, which end the account name
+ */
+const sanitizeLedgerName: NameSanitizer = name =>
+    name.replace(/[:;]/g, '-').replace(/\s+/g, ' ').trim() || 'Unnamed';
+
+/**
+ * Beancount account names start with a capital letter or digit and contain only letters,
+ * digits and dashes; letters outside ASCII are allowed anywhere
+ */
+const sanitizeBeancountName: NameSanitizer = name => {
+    const component = name
+        .replace(/[^A-Za-z0-9\u0080-\uFFFF-]+/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '');
+    return component ? component.charAt(0).toUpperCase() + component.slice(1) : 'Unnamed';
+};
+
+/**
+ * Tags may not contain spaces, commas or colons in either format; parents are separated
+ * by slashes
+ */
+function getTagName(path: string[]): string {
+    return path.map(name => name.replace(/[\s,:]+/g, '-')).join('/');
+}
+
+/**
+ * Resolves the plugin's accounts and categories to journal account names
+ */
+class JournalAccounts {
+    private settings: AccountingPluginSettings;
+    private sanitize: NameSanitizer;
+    /** Names handed out, including ones for missing accounts and categories */
+    private used = new Set<string>();
+
+    constructor(settings: AccountingPluginSettings, sanitize: NameSanitizer) {
+        this.settings = settings;
+        this.sanitize = sanitize;
+    }
+
+    account(accountId?: string): string {
+        const path = accountId ? getItemPath(this.settings.accounts, accountId) : [];
+        const account = accountId ? findItemById(this.settings.accounts, accountId) : undefined;
+        return this.toName(isLiabilityAccount(account) ? ROOT_ACCOUNTS.liability : ROOT_ACCOUNTS.account, path);
+    }
+
+    category(categoryId: string, type: 'income' | 'expense'): string {
+        const path = categoryId ? getItemPath(this.settings.categories, categoryId) : [];
+        return this.toName(ROOT_ACCOUNTS[type], path);
+    }
+
+    /**
+     * Every account and category, and the names used for missing ones, for the account
+     * declarations
+     */
+    all(): string[] {
+        flattenHierarchy(this.settings.accounts).forEach(account => this.account(account.id));
+        flattenHierarchy(this.settings.categories).forEach(category => {
+            if (category.type !== 'transfer') {
+                this.category(category.id, category.type);
+            }
+        });
+        return Array.from(this.used).sort();
+    }
+
+    private toName(root: string, path: string[]): string {
+        const name = [root, ...(path.length > 0 ? path : [UNCATEGORIZED]).map(this.sanitize)].join(':');
+        this.used.add(name);
+        return name;
+    }
+}
+
+/**
+ * Turn transactions into balanced journal entries. Expenses move money from the account
+ * to the categories of the transaction, income the other way, transfers from one account
+ * to the other.
+ */
+function toJournalEntries(transactions: Transaction[], settings: AccountingPluginSettings, accounts: JournalAccounts): JournalEntry[] {
+    return [...transactions]
+        .sort((a, b) => normalizeTransactionDate(a.date).localeCompare(normalizeTransactionDate(b.date)))
+        .map(transaction => {
+            const date = normalizeTransactionDate(transaction.date);
+            const currency = getTransactionCurrency(transaction, settings);
+            const cents = (amount: number) => Math.round(amount * 100);
+            let postings: Posting[];
+
+            if (transaction.type === 'transfer') {
+                postings = [
+                    { account: accounts.account(transaction.toAccountId), cents: cents(transaction.amount), currency },
+                    { account: accounts.account(transaction.fromAccountId), cents: -cents(transaction.amount), currency }
+                ];
+            } else {
+                // Money leaves the account for an expense and enters it for income
+                const sign = transaction.type === 'expense' ? 1 : -1;
+                postings = getCategoryAmounts(transaction).map(part => ({
+                    account: accounts.category(part.categoryId, transaction.type as 'income' | 'expense'),
+                    cents: sign * cents(part.amount),
+                    currency
+                }));
+                // Rounded split amounts may not add up to the amount; the last one takes the difference
+                const total = postings.reduce((sum, posting) => sum + posting.cents, 0);
+                postings[postings.length - 1].cents += sign * cents(transaction.amount) - total;
+                postings.push({ account: accounts.account(transaction.accountId), cents: -sign * cents(transaction.amount), currency });
+            }
+
+            const tagIds = [...new Set([...transaction.tagIds, ...(transaction.splits || []).flatMap(split => split.tagIds || [])])];
+            return {
+                date: getDatePart(date),
+                time: date.substring(11, 16),
+                id: transaction.id,
+                narration: (transaction.description || transaction.note || '').replace(/\s+/g, ' ').trim(),
+                note: transaction.description ? (transaction.note || '').replace(/\s+/g, ' ').trim() : '',
+                tags: tagIds.map(id => getItemPath(settings.tags, id)).filter(path => path.length > 0).map(getTagName),
+                postings
+            };
+        });
+}
+
+/**
+ * Write an amount of cents with two decimals
+ */
+function formatCents(cents: number): string {
+    return (cents / 100).toFixed(2);
+}
+
+/**
+ * Write a posting with its amounts lined up at the given column
+ */
+function formatPosting(indent: string, posting: Posting, width: number): string {
+    const amount = `${formatCents(posting.cents)} ${posting.currency}`;
+    const padding = Math.max(2, width - posting.account.length - amount.length);
+    return `${indent}${posting.account}${' '.repeat(padding)}${amount}`;
+}
+
+/**
+ * Column the amounts of all postings end at
+ */
+function getPostingWidth(entries: JournalEntry[]): number {
+    return Math.max(56, ...entries.flatMap(entry => entry.postings.map(posting => posting.account.length + 20)));
+}
+
+/**
+ * Quote a string for Beancount
+ */
+function quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Write transactions as a ledger-cli journal, which hledger reads as well. Accounts are
+ * declared first; each entry carries its ID and tags as metadata comments.
+ * @param transactions The transactions to export
+ * @param settings The plugin settings
+ * @returns The journal text
+ */
+export function exportToLedger(transactions: Transaction[], settings: AccountingPluginSettings): string {
+    const accounts = new JournalAccounts(settings, sanitizeLedgerName);
+    const entries = toJournalEntries(transactions, settings, accounts);
+    const width = getPostingWidth(entries);
+
+    const lines = [`; Exported from Obsidian Accounting on ${moment().format('YYYY-MM-DD')}`, ''];
+    accounts.all().forEach(account => lines.push(`account ${account}`));
+    entries.forEach(entry => {
+        lines.push('');
+        lines.push(entry.narration ? `${entry.date} * ${entry.narration}` : `${entry.date} *`);
+        lines.push(`    ; id: ${entry.id}`);
+        if (entry.note) {
+            lines.push(`    ; ${entry.note}`);
+        }
+        entry.tags.forEach(tag => lines.push(`    ; ${tag}:`));
+        entry.postings.forEach(posting => lines.push(formatPosting('    ', posting, width)));
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Write transactions as a Beancount file. Every account and category is opened on the
+ * day of the first transaction; IDs, times, tags and notes become metadata.
+ * @param transactions The transactions to export
+ * @param settings The plugin settings
+ * @returns The Beancount text
+ */
+export function exportToBeancount(transactions: Transaction[], settings: AccountingPluginSettings): string {
+    const accounts = new JournalAccounts(settings, sanitizeBeancountName);
+    const entries = toJournalEntries(transactions, settings, accounts);
+    const openDate = entries.length > 0 ? entries[0].date : moment().format('YYYY-MM-DD');
+    const width = getPostingWidth(entries);
+
+    const lines = [
+        `; Exported from Obsidian Accounting on ${moment().format('YYYY-MM-DD')}`,
+        'option "title" "Obsidian Accounting"',
+        `option "operating_currency" ${quote(normalizeCurrencyCode(settings.baseCurrency) || 'CNY')}`,
+        ''
+    ];
+    accounts.all().forEach(account => lines.push(`${openDate} open ${account}`));
+    entries.forEach(entry => {
+        lines.push('');
+        lines.push(`${entry.date} * ${quote(entry.narration)}`);
+        lines.push(`  id: ${quote(entry.id)}`);
+        if (entry.time !== '00:00') {
+            lines.push(`  time: ${quote(entry.time)}`);
+        }
+        if (entry.tags.length > 0) {
+            lines.push(`  tags: ${quote(entry.tags.join(', '))}`);
+        }
+        if (entry.note) {
+            lines.push(`  note: ${quote(entry.note)}`);
+        }
+        entry.postings.forEach(posting => lines.push(formatPosting('  ', posting, width)));
+    });
+    return lines.join('\n') + '\n';
+}
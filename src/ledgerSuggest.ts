@@ -0,0 +1,221 @@
+// Autocomplete for transaction lines typed by hand in ledger files
+
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, TFile, moment } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Account, TransactionStatus, TransactionType, flattenHierarchy, getItemPath } from './models';
+import { CompiledTemplate, TemplateField, TemplateFieldPosition, TRANSFER_REQUIRED_FIELDS, compileTemplate, getFieldAtEnd } from './template';
+
+/**
+ * One entry of the suggestion list
+ */
+interface LedgerSuggestion {
+    /** Shown in the list */
+    label: string;
+    /** Shown dimmed after the label, e.g. the parent of a nested account */
+    detail?: string;
+    /** Written into the field */
+    text: string;
+}
+
+/**
+ * Most frequent amounts offered as snippets in the amount field
+ */
+const MAX_AMOUNT_SNIPPETS = 5;
+
+/**
+ * Suggests account, category and tag names, dates and amounts while a transaction line
+ * is typed in a daily note or the output file. Only lines that already follow the
+ * transaction or transfer template trigger it.
+ */
+export class LedgerSuggest extends EditorSuggest<LedgerSuggestion> {
+    private plugin: AccountingPlugin;
+    /** The field the cursor is in, found when the suggestion was triggered */
+    private position: TemplateFieldPosition | null = null;
+    /** The template separator that follows the field, written after a suggestion at the end of the line */
+    private separator = '';
+
+    constructor(app: App, plugin: AccountingPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+        if (!file || !this.plugin.transactionIndex.isTransactionFile(file)) {
+            return null;
+        }
+
+        const settings = this.plugin.settings;
+        const text = editor.getLine(cursor.line).substring(0, cursor.ch);
+        const compiled = compileTemplate(settings.transactionTemplate);
+        const compiledTransfer = compileTemplate(settings.transferTemplate, TRANSFER_REQUIRED_FIELDS);
+
+        // A transfer line also follows the transaction template up to its type; past that
+        // point the transfer template knows the fields better
+        const transferPosition = getFieldAtEnd(compiledTransfer, text);
+        const usesTransfer = !!transferPosition && transferPosition.field !== 'date' && transferPosition.field !== 'amount';
+        const position = usesTransfer ? transferPosition : getFieldAtEnd(compiled, text) || transferPosition;
+        if (!position || !this.isSuggestedField(position)) {
+            return null;
+        }
+
+        // Tags are a list; only the tag being typed is replaced
+        if (position.field === 'tags') {
+            const lastSeparator = position.query.lastIndexOf(',');
+            if (lastSeparator > -1) {
+                // Tags typed before this one are not offered again
+                position.values.tags = position.query.substring(0, lastSeparator);
+                const typed = position.query.substring(lastSeparator + 1);
+                const query = typed.trimStart();
+                position.start += lastSeparator + 1 + typed.length - query.length;
+                position.query = query;
+            }
+        }
+
+        this.position = position;
+        // Tags are a list, so more may follow the one picked
+        this.separator = position.field === 'tags' ? '' : this.getSeparatorAfter(usesTransfer ? compiledTransfer : compiled, position.field);
+        return {
+            start: { line: cursor.line, ch: position.start },
+            end: cursor,
+            query: position.query
+        };
+    }
+
+    getSuggestions(context: EditorSuggestContext): LedgerSuggestion[] {
+        const position = this.position;
+        if (!position) {
+            return [];
+        }
+
+        const query = context.query.trim().toLowerCase();
+        const settings = this.plugin.settings;
+        let suggestions: LedgerSuggestion[];
+        switch (position.field) {
+            case 'date':
+                suggestions = this.getDateSuggestions();
+                break;
+            case 'type':
+                suggestions = (['expense', 'income', 'transfer'] as TransactionType[])
+                    .map(type => ({ label: type, text: type }));
+                break;
+            case 'amount':
+                suggestions = this.getAmountSuggestions();
+                break;
+            case 'status':
+                suggestions = (['cleared', 'reconciled'] as TransactionStatus[])
+                    .map(status => ({ label: status, text: status }));
+                break;
+            case 'account':
+            case 'from':
+            case 'to':
+                suggestions = this.getAccountSuggestions(settings.accounts);
+                break;
+            case 'category': {
+                const type = position.values.type;
+                suggestions = this.getHierarchySuggestions(settings.categories.filter(category => !type || category.type === type));
+                break;
+            }
+            case 'tags': {
+                const typedTags = (position.values.tags || '').split(',').map(tag => tag.trim().toLowerCase());
+                suggestions = this.getHierarchySuggestions(settings.tags)
+                    .filter(suggestion => !typedTags.includes(suggestion.text.toLowerCase()));
+                break;
+            }
+            default:
+                suggestions = [];
+        }
+
+        return suggestions.filter(suggestion => suggestion.text.toLowerCase().includes(query));
+    }
+
+    renderSuggestion(suggestion: LedgerSuggestion, el: HTMLElement): void {
+        el.createSpan({ text: suggestion.label });
+        if (suggestion.detail) {
+            el.createSpan({ text: ` ${suggestion.detail}`, cls: 'accounting-suggestion-detail' });
+        }
+    }
+
+    selectSuggestion(suggestion: LedgerSuggestion, evt: MouseEvent | KeyboardEvent): void {
+        if (!this.context) {
+            return;
+        }
+        const { editor, start, end } = this.context;
+        const lineEnd = editor.getLine(end.line).length;
+
+        // At the end of the line, continue with the template's separator so the next field can be typed
+        const text = end.ch === lineEnd ? suggestion.text + this.separator : suggestion.text;
+        editor.replaceRange(text, start, end);
+        editor.setCursor({ line: start.line, ch: start.ch + text.length });
+        this.close();
+    }
+
+    /**
+     * Fields with something to offer. Dates are only completed once the user started
+     * typing one, so ordinary bullet points don't open the list.
+     */
+    private isSuggestedField(position: TemplateFieldPosition): boolean {
+        const suggestedFields: TemplateField[] = ['date', 'type', 'amount', 'account', 'from', 'to', 'category', 'tags', 'status'];
+        if (!suggestedFields.includes(position.field)) {
+            return false;
+        }
+        return position.field !== 'date' || /^\d[\d\-: T]*$/.test(position.query);
+    }
+
+    /**
+     * Get the literal text that follows a field in a template
+     */
+    private getSeparatorAfter(compiled: CompiledTemplate, field: TemplateField): string {
+        const index = compiled.tokens.findIndex(token => token.kind === 'field' && token.name === field);
+        const next = compiled.tokens[index + 1];
+        return index > -1 && next?.kind === 'literal' ? next.text : '';
+    }
+
+    private getDateSuggestions(): LedgerSuggestion[] {
+        const i18n = this.plugin.i18n;
+        const now = moment();
+        return [
+            { label: now.format('YYYY-MM-DD HH:mm'), detail: i18n.t('NOW'), text: now.format('YYYY-MM-DD HH:mm') },
+            { label: now.format('YYYY-MM-DD'), detail: i18n.t('TODAY'), text: now.format('YYYY-MM-DD') },
+            { label: now.clone().subtract(1, 'day').format('YYYY-MM-DD'), detail: i18n.t('YESTERDAY'), text: now.clone().subtract(1, 'day').format('YYYY-MM-DD') }
+        ];
+    }
+
+    /**
+     * Amounts used most often in existing transactions
+     */
+    private getAmountSuggestions(): LedgerSuggestion[] {
+        const counts = new Map<number, number>();
+        this.plugin.transactions.forEach(transaction => {
+            counts.set(transaction.amount, (counts.get(transaction.amount) || 0) + 1);
+        });
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_AMOUNT_SNIPPETS)
+            .map(([amount]) => ({ label: amount.toString(), text: amount.toString() }));
+    }
+
+    /**
+     * Suggest the accounts by name, showing the path of nested accounts. Accounts are kept
+     * in a flat list and name their parent by ID, so the path is looked up rather than walked.
+     */
+    private getAccountSuggestions(accounts: Account[]): LedgerSuggestion[] {
+        return flattenHierarchy(accounts).map(account => {
+            const parents = getItemPath(accounts, account.id).slice(0, -1);
+            return { label: account.name, detail: parents.length > 0 ? parents.join(' / ') : undefined, text: account.name };
+        });
+    }
+
+    /**
+     * Suggest the items of a hierarchy by name, showing the path of nested items
+     */
+    private getHierarchySuggestions<T extends { name: string, children?: T[] }>(items: T[], path: string[] = []): LedgerSuggestion[] {
+        const suggestions: LedgerSuggestion[] = [];
+        items.forEach(item => {
+            suggestions.push({ label: item.name, detail: path.length > 0 ? path.join(' / ') : undefined, text: item.name });
+            if (item.children && item.children.length > 0) {
+                suggestions.push(...this.getHierarchySuggestions(item.children, [...path, item.name]));
+            }
+        });
+        return suggestions;
+    }
+}
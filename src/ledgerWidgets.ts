@@ -0,0 +1,306 @@
+// Rendered transaction rows for ledger lines in reading view and live preview
+
+import { MarkdownPostProcessor, TFile, editorInfoField, editorLivePreviewField, setIcon } from 'obsidian';
+import { EditorState, Extension, RangeSetBuilder, StateField, Transaction as EditorTransaction } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+import AccountingPlugin from '../main';
+import { Transaction, findItemById } from './models';
+import { convertTransactionAmount, formatCurrency, getTransactionCurrency } from './currency';
+import { TransactionFileParseResult, getCategoryAmounts, parseTransactionContent } from './utils';
+
+/**
+ * A run of transaction lines with nothing else between them
+ */
+interface TransactionBlock {
+    transactions: Transaction[];
+    /** 0-based line of the first transaction */
+    start: number;
+    /** 0-based line after the last transaction (and its splits) */
+    end: number;
+}
+
+/**
+ * Group the transactions of parsed content into blocks of adjacent lines
+ */
+function getTransactionBlocks(parsed: TransactionFileParseResult): TransactionBlock[] {
+    const blocks: TransactionBlock[] = [];
+    parsed.transactions
+        .map(transaction => ({ transaction, range: parsed.lineRanges.get(transaction.id)! }))
+        .filter(({ range }) => !!range)
+        .sort((a, b) => a.range.start - b.range.start)
+        .forEach(({ transaction, range }) => {
+            const last = blocks[blocks.length - 1];
+            if (last && last.end === range.start) {
+                last.transactions.push(transaction);
+                last.end = range.end;
+            } else {
+                blocks.push({ transactions: [transaction], start: range.start, end: range.end });
+            }
+        });
+    return blocks;
+}
+
+/**
+ * Whether rows should be rendered for a file
+ */
+function shouldRender(plugin: AccountingPlugin, file: TFile | null | undefined): file is TFile {
+    return !!file && plugin.settings.renderTransactionWidgets && plugin.transactionIndex.isTransactionFile(file);
+}
+
+/**
+ * Render a transaction as a compact row: amount, account, category, tags, description,
+ * and buttons to edit or delete it
+ * @param containerEl The element to render into
+ * @param transaction The transaction
+ * @param plugin The plugin instance
+ */
+export function renderTransactionRow(containerEl: HTMLElement, transaction: Transaction, plugin: AccountingPlugin): void {
+    const settings = plugin.settings;
+    const i18n = plugin.i18n;
+    const row = containerEl.createDiv({ cls: `accounting-ledger-row accounting-ledger-${transaction.type}` });
+
+    row.createSpan({ text: transaction.date.substring(11) || transaction.date, cls: 'accounting-ledger-time' });
+
+    // Account with its icon; transfers show both sides
+    const accountEl = row.createSpan({ cls: 'accounting-ledger-account' });
+    const accountIds = transaction.type === 'transfer'
+        ? [transaction.fromAccountId, transaction.toAccountId]
+        : [transaction.accountId];
+    accountIds.forEach((accountId, index) => {
+        if (index > 0) {
+            accountEl.createSpan({ text: ' → ' });
+        }
+        const account = accountId ? findItemById(settings.accounts, accountId) : undefined;
+        setIcon(accountEl.createSpan({ cls: 'accounting-ledger-icon' }), account?.icon || 'wallet');
+        accountEl.createSpan({ text: account?.name || '?' });
+    });
+
+    getCategoryAmounts(transaction).forEach(part => {
+        const category = part.categoryId ? findItemById(settings.categories, part.categoryId) : undefined;
+        if (category) {
+            row.createSpan({ text: category.name, cls: 'accounting-ledger-chip' });
+        }
+    });
+    transaction.tagIds.forEach(tagId => {
+        const tag = findItemById(settings.tags, tagId);
+        if (tag) {
+            row.createSpan({ text: `#${tag.name}`, cls: 'accounting-ledger-tag' });
+        }
+    });
+
+    const text = [transaction.description, transaction.note].filter(Boolean).join(' · ');
+    row.createSpan({ text, cls: 'accounting-ledger-description' });
+
+    const sign = transaction.type === 'expense' ? '-' : transaction.type === 'income' ? '+' : '';
+    row.createSpan({
+        text: sign + formatCurrency(transaction.amount, getTransactionCurrency(transaction, settings)),
+        cls: 'accounting-ledger-amount'
+    });
+    if (transaction.status) {
+        const statusEl = row.createSpan({
+            cls: `accounting-ledger-status accounting-ledger-${transaction.status}`,
+            attr: { 'aria-label': i18n.t(transaction.status === 'reconciled' ? 'STATUS_RECONCILED' : 'STATUS_CLEARED') }
+        });
+        setIcon(statusEl, transaction.status === 'reconciled' ? 'check-check' : 'check');
+    }
+
+    const actions = row.createSpan({ cls: 'accounting-ledger-actions' });
+    const editButton = actions.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': i18n.t('EDIT_TRANSACTION') } });
+    setIcon(editButton, 'pencil');
+    editButton.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        plugin.editTransaction(transaction);
+    });
+    const deleteButton = actions.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': i18n.t('DELETE_TRANSACTION') } });
+    setIcon(deleteButton, 'trash');
+    deleteButton.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        plugin.deleteTransaction(transaction);
+    });
+}
+
+/**
+ * Render the income and expense totals of a block of transactions, in the base currency
+ * @param containerEl The element to render into
+ * @param transactions The transactions of the block
+ * @param plugin The plugin instance
+ */
+export function renderSubtotal(containerEl: HTMLElement, transactions: Transaction[], plugin: AccountingPlugin): void {
+    const settings = plugin.settings;
+    const i18n = plugin.i18n;
+    let income = 0;
+    let expense = 0;
+    transactions.forEach(transaction => {
+        if (transaction.type === 'income') {
+            income += convertTransactionAmount(transaction, settings);
+        } else if (transaction.type === 'expense') {
+            expense += convertTransactionAmount(transaction, settings);
+        }
+    });
+
+    const footer = containerEl.createDiv({ cls: 'accounting-ledger-subtotal' });
+    footer.createSpan({ text: `${i18n.t('INCOME')}: ${formatCurrency(income, settings.baseCurrency)}`, cls: 'accounting-ledger-income' });
+    footer.createSpan({ text: `${i18n.t('EXPENSE')}: ${formatCurrency(expense, settings.baseCurrency)}`, cls: 'accounting-ledger-expense' });
+    footer.createSpan({ text: `${i18n.t('NET_INCOME')}: ${formatCurrency(income - expense, settings.baseCurrency)}` });
+}
+
+/**
+ * Create the reading-view post-processor that replaces ledger list items with rows
+ * @param plugin The plugin instance
+ */
+export function createLedgerPostProcessor(plugin: AccountingPlugin): MarkdownPostProcessor {
+    return (el, ctx) => {
+        const file = plugin.app.vault.getAbstractFileByPath(ctx.sourcePath);
+        if (!(file instanceof TFile) || !shouldRender(plugin, file)) {
+            return;
+        }
+        const section = ctx.getSectionInfo(el);
+        const list = el.querySelector(':scope > ul');
+        if (!section || !list) {
+            return;
+        }
+
+        const lines = section.text.split('\n').slice(section.lineStart, section.lineEnd + 1);
+        const parsed = parseTransactionContent(lines.join('\n'), ctx.sourcePath, plugin.settings);
+        if (parsed.transactions.length === 0) {
+            return;
+        }
+
+        const transactionsByLine = new Map<number, Transaction>();
+        parsed.transactions.forEach(transaction => {
+            const range = parsed.lineRanges.get(transaction.id);
+            if (range) {
+                transactionsByLine.set(range.start, transaction);
+            }
+        });
+
+        // Each list item carries the line it was rendered from, relative to the section;
+        // items without one are left alone rather than guessed from their position
+        Array.from(list.children).forEach(item => {
+            const line = item.getAttribute('data-line');
+            const transaction = line !== null ? transactionsByLine.get(parseInt(line, 10)) : undefined;
+            if (transaction && item instanceof HTMLElement) {
+                item.empty();
+                item.addClass('accounting-ledger-item');
+                renderTransactionRow(item, transaction, plugin);
+            }
+        });
+
+        if (plugin.settings.useDailyNotes) {
+            getTransactionBlocks(parsed).forEach(block => renderSubtotal(el, block.transactions, plugin));
+        }
+    };
+}
+
+/**
+ * Live-preview widget standing in for the lines of one transaction
+ */
+class TransactionRowWidget extends WidgetType {
+    constructor(private plugin: AccountingPlugin, private transaction: Transaction, private source: string) {
+        super();
+    }
+
+    eq(other: TransactionRowWidget): boolean {
+        return other.source === this.source;
+    }
+
+    toDOM(): HTMLElement {
+        const el = createDiv({ cls: 'accounting-ledger-item' });
+        renderTransactionRow(el, this.transaction, this.plugin);
+        return el;
+    }
+
+    ignoreEvent(event: Event): boolean {
+        // Let clicks on the row move the cursor there to reveal the text, but keep the buttons to themselves
+        return event.target instanceof HTMLElement && !!event.target.closest('button');
+    }
+}
+
+/**
+ * Live-preview widget with the totals of a block of transactions
+ */
+class SubtotalWidget extends WidgetType {
+    constructor(private plugin: AccountingPlugin, private transactions: Transaction[], private source: string) {
+        super();
+    }
+
+    eq(other: SubtotalWidget): boolean {
+        return other.source === this.source;
+    }
+
+    toDOM(): HTMLElement {
+        const el = createDiv();
+        renderSubtotal(el, this.transactions, this.plugin);
+        return el;
+    }
+}
+
+/**
+ * Build the decorations of a document: every transaction the cursor isn't on is shown
+ * as a row, and blocks in daily notes get a subtotal below them
+ */
+function buildLedgerDecorations(state: EditorState, plugin: AccountingPlugin): DecorationSet {
+    if (!state.field(editorLivePreviewField, false)) {
+        return Decoration.none;
+    }
+    const file = state.field(editorInfoField, false)?.file;
+    if (!shouldRender(plugin, file)) {
+        return Decoration.none;
+    }
+
+    const doc = state.doc;
+    const parsed = parseTransactionContent(doc.toString(), file.path, plugin.settings);
+    const cursorLines = new Set<number>();
+    state.selection.ranges.forEach(range => {
+        for (let line = doc.lineAt(range.from).number; line <= doc.lineAt(range.to).number; line++) {
+            cursorLines.add(line - 1);
+        }
+    });
+
+    const builder = new RangeSetBuilder<Decoration>();
+    getTransactionBlocks(parsed).forEach(block => {
+        block.transactions.forEach(transaction => {
+            const range = parsed.lineRanges.get(transaction.id)!;
+            for (let line = range.start; line < range.end; line++) {
+                if (cursorLines.has(line)) return;
+            }
+            const from = doc.line(range.start + 1).from;
+            const to = doc.line(range.end).to;
+            builder.add(from, to, Decoration.replace({
+                widget: new TransactionRowWidget(plugin, transaction, doc.sliceString(from, to)),
+                block: true
+            }));
+        });
+
+        if (plugin.settings.useDailyNotes) {
+            const end = doc.line(block.end).to;
+            const source = doc.sliceString(doc.line(block.start + 1).from, end);
+            builder.add(end, end, Decoration.widget({
+                widget: new SubtotalWidget(plugin, block.transactions, source),
+                block: true,
+                side: 1
+            }));
+        }
+    });
+    return builder.finish();
+}
+
+/**
+ * Create the editor extension rendering ledger lines in live preview
+ * @param plugin The plugin instance
+ */
+export function createLedgerLivePreviewExtension(plugin: AccountingPlugin): Extension {
+    // Block decorations have to come from a state field rather than a view plugin
+    return StateField.define<DecorationSet>({
+        create: state => buildLedgerDecorations(state, plugin),
+        update: (decorations, transaction: EditorTransaction) => {
+            if (transaction.docChanged || transaction.selection || transaction.reconfigured) {
+                return buildLedgerDecorations(transaction.state, plugin);
+            }
+            return decorations;
+        },
+        provide: field => EditorView.decorations.from(field)
+    });
+}
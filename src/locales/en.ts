@@ -162,7 +162,207 @@ const en: Translation = {
     OUTPUT_FILE_DESC: 'The file where transactions will be saved',
     USE_DAILY_NOTES_DESC: 'Add transactions to daily notes instead of a single file',
     DAILY_NOTES_FORMAT_DESC: 'Format for daily notes filenames (only used if Use Daily Notes is enabled)',
-    TRANSACTION_TEMPLATE_DESC: 'Template for formatting transactions. Placeholders: {{date}}, {{type}}, {{amount}}, {{account}}, {{category}}, {{tags}}, {{description}}, {{note}}',
+    TRANSACTION_TEMPLATE_DESC: 'Template for formatting transactions. Placeholders: {{date}}, {{type}}, {{amount}}, {{currency}}, {{account}}, {{category}}, {{tags}}, {{description}}, {{note}}, {{status}}. Wrap text in {{#note}}...{{/note}} to write it only when the field is set',
+    DELETE_TRANSACTION: 'Delete transaction',
+    CONFIRM_DELETE_TRANSACTION: 'Delete this transaction? This cannot be undone.',
+    SUCCESS_DELETE_TRANSACTION: 'Transaction deleted',
+    NO_TRANSACTION_AT_CURSOR: 'No transaction on the current line',
+    ADD_TRANSACTION_IDS: 'Add IDs to existing transactions',
+    TRANSACTION_IDS_ADDED: 'Added IDs to {count} transactions',
+    TRANSFER_TEMPLATE: 'Transfer Template',
+    TRANSFER_TEMPLATE_DESC: 'Template for transfers between your own accounts. Placeholders: {{date}}, {{amount}}, {{currency}}, {{from}}, {{to}}, {{tags}}, {{description}}, {{note}}, {{status}}',
+    TRANSFER: 'Transfer',
+    FROM_ACCOUNT: 'From Account',
+    FROM_ACCOUNT_DESC: 'The account the money leaves',
+    TO_ACCOUNT: 'To Account',
+    TO_ACCOUNT_DESC: 'The account the money goes to',
+    ERROR_TRANSFER_ACCOUNTS: 'A transfer needs two different accounts',
+    SPLITS: 'Splits',
+    SPLITS_DESC: 'Divide the amount across several categories',
+    ADD_SPLIT: 'Add Split',
+    REMOVE_SPLIT: 'Remove split',
+    SPLIT_REMAINING: 'Remaining: {amount}',
+    ERROR_SPLIT_INVALID: 'Every split needs a category and an amount greater than 0',
+    ERROR_SPLITS_TOTAL: 'Splits add up to {total} but the amount is {amount}',
+    CURRENCY: 'Currency',
+    TRANSACTION_CURRENCY_DESC: 'Currency of the amount; leave empty to use the account\'s currency',
+    ACCOUNT_CURRENCY_DESC: 'Currency code of the account, e.g. USD; leave empty to use the base currency',
+    ACCOUNT_TYPE: 'Account Type',
+    ACCOUNT_TYPE_DESC: 'Liabilities and credit cards show the amount owed as their balance and count against net worth',
+    ACCOUNT_TYPE_ASSET: 'Asset',
+    ACCOUNT_TYPE_INVESTMENT: 'Investment',
+    ACCOUNT_TYPE_CREDIT: 'Credit Card',
+    ACCOUNT_TYPE_LIABILITY: 'Liability',
+    CREDIT_LIMIT: 'Credit Limit',
+    CREDIT_LIMIT_DESC: 'Leave empty when the card has no limit',
+    STATEMENT_DAY: 'Statement Day',
+    STATEMENT_DAY_DESC: 'Day of the month the statement closes (1-31)',
+    DUE_DAY: 'Payment Due Day',
+    DUE_DAY_DESC: 'Day of the month the payment is due (1-31)',
+    ERROR_INVALID_DAY: 'Days must be between 1 and 31',
+    ERROR_INVALID_CREDIT_LIMIT: 'The credit limit must be a positive number',
+    TOTAL_ASSETS: 'Total Assets',
+    TOTAL_LIABILITIES: 'Total Liabilities',
+    NET_WORTH: 'Net Worth',
+    AMOUNT_OWED: 'Amount Owed',
+    AVAILABLE_CREDIT: 'Available Credit',
+    NEXT_STATEMENT: 'Next Statement',
+    PAYMENT_DUE: 'Payment Due',
+    OPENING_BALANCE: 'Opening balance',
+    OPENING_BALANCE_DESC: 'Balance before the first recorded transaction, and the day it applies from. For credit cards and liabilities, enter the amount owed.',
+    ERROR_INVALID_OPENING_BALANCE: 'Please enter a valid opening balance.',
+    CHECK_BALANCE_ASSERTIONS: 'Check balance assertions',
+    NO_BALANCE_ASSERTIONS: 'No balance assertions found in the ledger.',
+    BALANCE_ASSERTIONS_PASSED: 'All {count} balance assertions match.',
+    BALANCE_ASSERTIONS_FAILED: '{failed} of {count} balance assertions do not match',
+    BALANCE_ASSERTION_MISMATCH: 'A balance assertion does not match',
+    BALANCE_ASSERTION_DIFFERENCE: 'expected {expected}, computed {actual}',
+    BALANCE_ASSERTIONS: 'Balance assertions',
+    BALANCE_ASSERTED: 'Asserted balance',
+    BALANCE_COMPUTED: 'Computed balance',
+    BALANCE_DIFFERENCE: 'Difference',
+    ADD_BALANCE_ASSERTION: 'Add balance assertion',
+    BALANCE_ASSERTION_DATE_DESC: 'The balance is checked at the end of this day.',
+    BALANCE_ASSERTION_AMOUNT_DESC: 'The balance on your statement, in the account\'s currency. For credit cards and liabilities, enter the amount owed.',
+    ERROR_INVALID_BALANCE_ASSERTION: 'Please enter a valid date and balance.',
+    ERROR_SAVING_BALANCE_ASSERTION: 'Error saving balance assertion',
+    STATUS: 'Status',
+    STATUS_DESC: 'Whether the transaction was checked against the account\'s statement',
+    STATUS_UNCLEARED: 'Uncleared',
+    STATUS_CLEARED: 'Cleared',
+    STATUS_RECONCILED: 'Reconciled',
+    RECONCILE: 'Reconcile',
+    STATEMENT_DATE: 'Statement end date',
+    STATEMENT_BALANCE: 'Statement ending balance',
+    STATEMENT_BALANCE_DESC: 'In the account\'s currency. For credit cards and liabilities, enter the amount owed.',
+    CLEARED_BALANCE: 'Cleared balance',
+    FINISH_RECONCILIATION: 'Finish reconciliation',
+    RECONCILE_TEMPLATE_NO_STATUS: 'Some transactions can\'t be ticked off because their template has no {{status}} placeholder. Add it in the settings.',
+    RECONCILE_TRANSFER_SHARED: 'A transfer has one status for both of its accounts: clearing or reconciling it here also marks it in the other account\'s reconciliation.',
+    RECONCILE_NOTHING_TO_CLEAR: 'No unreconciled transactions up to the statement date.',
+    RECONCILE_NOT_BALANCED: 'The cleared balance does not match the statement balance yet.',
+    RECONCILE_FINISHED: 'Reconciled {count} transactions.',
+    ERROR_INVALID_STATEMENT_BALANCE: 'Please enter the statement ending balance.',
+    ERROR_UPDATING_STATUS: 'Error updating transaction status',
+    BASE_CURRENCY: 'Base Currency',
+    BASE_CURRENCY_DESC: 'Currency code that totals, charts and reports are converted to, e.g. CNY',
+    EXCHANGE_RATES: 'Exchange Rates',
+    MANAGE_EXCHANGE_RATES: 'Manage Exchange Rates',
+    MANAGE_EXCHANGE_RATES_DESC: 'Value of other currencies in {base}. A rate applies from its date until the next rate of the same currency',
+    ADD_EXCHANGE_RATE: 'Add Exchange Rate',
+    EDIT_EXCHANGE_RATE: 'Edit Exchange Rate',
+    DELETE_EXCHANGE_RATE: 'Delete Exchange Rate',
+    NO_EXCHANGE_RATES: 'No exchange rates defined yet.',
+    EXCHANGE_RATE_FROM: 'Valid from {date}',
+    EXCHANGE_RATE_DATE: 'Valid From',
+    EXCHANGE_RATE_DATE_DESC: 'Transactions on or after this date use this rate',
+    EXCHANGE_RATE: 'Rate',
+    EXCHANGE_RATE_DESC: 'How much {base} one unit of the currency is worth',
+    ERROR_INVALID_CURRENCY: 'Enter a three-letter currency code other than the base currency',
+    ERROR_INVALID_EXCHANGE_RATE: 'The rate must be greater than 0',
+    POST_RECURRING_TRANSACTIONS: 'Post due recurring transactions',
+    NO_RECURRING_DUE: 'No recurring transactions are due',
+    RECURRING_POSTED: 'Posted {count} recurring transaction(s)',
+    RECURRING_TRANSACTIONS: 'Recurring Transactions',
+    MANAGE_RECURRING: 'Recurring schedules',
+    MANAGE_RECURRING_DESC: 'Transactions that are posted automatically on a schedule. Due occurrences are posted when Obsidian starts.',
+    ADD_RECURRING: 'Add Recurring Transaction',
+    EDIT_RECURRING: 'Edit Recurring Transaction',
+    DELETE_RECURRING: 'Delete Recurring Transaction',
+    NO_RECURRING_RULES: 'No recurring transactions yet.',
+    RECURRING_NEXT: 'Next: {dates}',
+    RECURRING_NO_UPCOMING: 'No upcoming occurrences',
+    RECURRING_DUE: 'due',
+    RECURRING_ENABLED: 'Enabled',
+    RECURRING_NAME_PLACEHOLDER: 'e.g. Rent',
+    RECURRING_TAGS_DESC: 'Comma-separated names of existing tags',
+    RECURRING_START_DESC: 'Date and time of the first occurrence',
+    FREQUENCY: 'Frequency',
+    WEEKLY: 'Weekly',
+    REPEAT_EVERY: 'Repeat every',
+    REPEAT_EVERY_DESC: 'Number of days, weeks, months or years between occurrences',
+    MONTHLY_ON: 'Monthly on',
+    DAY_OF_MONTH: 'Day {day}',
+    NTH_WEEKDAY: '{nth}. {weekday}',
+    LAST_WEEKDAY: 'Last {weekday}',
+    RECURRING_ENDS: 'Ends',
+    ENDS_NEVER: 'Never',
+    ENDS_ON_DATE: 'On date',
+    ENDS_AFTER_COUNT: 'After a number of occurrences',
+    UPCOMING_OCCURRENCES: 'Upcoming occurrences',
+    ERROR_RECURRING_NAME_REQUIRED: 'Please enter a name',
+    ERROR_RECURRING_END_BEFORE_START: 'The end date must not be before the start date',
+    QUICK_ENTRY_CONFIRM: 'Add this transaction?',
+    QUICK_ENTRY_MISSING_AMOUNT: 'No amount found, please complete the transaction',
+    QUICK_ENTRY_MISSING_ACCOUNT: 'No account found, please complete the transaction',
+    QUICK_ENTRY_MISSING_CATEGORY: 'No category found, please complete the transaction',
+    QUICK_ENTRY_AMBIGUOUS_ACCOUNT: 'Several accounts are named "{name}", please pick one',
+    QUICK_ENTRY_AMBIGUOUS_CATEGORY: 'Several categories are named "{name}", please pick one',
+    QUICK_ENTRY_UNKNOWN_TAG: 'Unknown tag "{name}"',
+    NOW: 'now',
+    TODAY: 'today',
+    YESTERDAY: 'yesterday',
+    RENDER_TRANSACTION_WIDGETS: 'Show transactions as rows',
+    RENDER_TRANSACTION_WIDGETS_DESC: 'Render transaction lines as styled rows with edit and delete buttons in reading view and live preview. Notes that are open need to be reopened.',
+    QUERY_ERROR: 'Query error',
+    QUERY_NO_RESULTS: 'No transactions match this query.',
+    QUERY_COUNT: 'Count',
+    QUERY_GROUP: 'Group',
+    QUERY_TOTAL: 'Total',
+    QUERY_OTHER: 'Other',
+    QUERY_AVERAGE_INCOME: 'Average income',
+    QUERY_AVERAGE_EXPENSE: 'Average expense',
+    URI_UNKNOWN_ACTION: 'Unknown accounting URI action "{name}", expected add or stats',
+    URI_UNKNOWN_TAB: 'Unknown statistics tab "{name}"',
+    URI_INVALID_DATE: 'Invalid date "{date}", expected YYYY-MM-DD, YYYY-MM or YYYY',
+    IMPORT_TRANSACTIONS: 'Import Transactions',
+    IMPORT_TRANSACTIONS_DESC: 'Import transactions from a bank or app statement file',
+    IMPORT_FORMAT: 'Format',
+    IMPORT_FORMAT_ALIPAY: 'Alipay bill statement (支付宝)',
+    IMPORT_FORMAT_WECHAT: 'WeChat Pay bill statement (微信支付)',
+    IMPORT_FORMAT_OFX: 'Bank statement (OFX, QFX)',
+    IMPORT_FORMAT_QIF: 'Quicken (QIF)',
+    IMPORT_FORMAT_LEDGER: 'ledger / hledger journal',
+    IMPORT_FILE: 'File',
+    IMPORT_CHOOSE_FILE: 'Choose file',
+    IMPORT_NO_FILE: 'No file chosen',
+    IMPORT_READ_FAILED: 'Could not read the file',
+    IMPORT_ENCODING: 'Encoding',
+    IMPORT_DELIMITER: 'Delimiter',
+    IMPORT_DATE_FORMAT: 'Date format',
+    IMPORT_DATE_FORMAT_DESC: 'Format of the date column, e.g. YYYY-MM-DD or DD/MM/YYYY',
+    IMPORT_DECIMAL_SEPARATOR: 'Decimal separator',
+    IMPORT_HAS_HEADER: 'First row holds column names',
+    IMPORT_DEFAULT_ACCOUNT: 'Default account',
+    IMPORT_DEFAULT_ACCOUNT_DESC: 'Account of rows that don\'t name one',
+    IMPORT_NEXT: 'Next',
+    IMPORT_MAP_COLUMNS: 'Map columns',
+    IMPORT_COLUMN_NONE: '—',
+    IMPORT_AMOUNT_SIGN_HINT: 'Without a type column, negative amounts are imported as expenses and positive amounts as income.',
+    IMPORT_MAPPING_REQUIRED: 'Map at least the date and amount columns',
+    IMPORT_PREVIEW: 'Preview',
+    IMPORT_SUMMARY: '{valid} of {total} rows will be imported, {errors} have problems and are skipped.',
+    IMPORT_ROW: 'Row',
+    IMPORT_PROBLEM: 'Problem',
+    IMPORT_PREVIEW_LIMIT: 'Only the first {count} rows are shown.',
+    IMPORT_UNKNOWN_NAMES: 'Unknown names',
+    IMPORT_UNKNOWN_NAMES_DESC: 'Choose an existing item for each name, or create it.',
+    IMPORT_NAME_ROWS: 'Used by {count} rows',
+    IMPORT_CREATE_NEW: 'Create new',
+    IMPORT_UNCATEGORIZED: 'Uncategorized',
+    IMPORT_RUN: 'Import {count} transactions',
+    IMPORT_SUCCESS: 'Imported {count} transactions',
+    IMPORT_DUPLICATES: '{count} of them look like transactions you already have. Choose for each whether to skip it, merge it into the existing transaction, or import it anyway.',
+    IMPORT_MERGED: 'Merged {count} into existing transactions',
+    DUPLICATE_WARNING: 'Possible duplicate of {date} · {amount} · {description}',
+    DUPLICATE_SKIP: 'Skip',
+    DUPLICATE_MERGE: 'Merge',
+    DUPLICATE_IMPORT: 'Import anyway',
+    DUPLICATE_MERGE_DESC: 'Merge this entry into the existing transaction instead of adding a new one',
+    DUPLICATE_SKIPPED: 'Not added: the transaction is already recorded',
+    DUPLICATE_MERGED: 'Merged into the existing transaction',
+    IMPORT_FAILED: 'Import failed',
+    TRANSACTION_TEMPLATE_INVALID: 'Invalid template, changes are not saved: {error}',
     CONFIRM_DELETE: 'Confirm Delete',
     CANNOT_BE_UNDONE: 'This action cannot be undone.',
     FEATURE_UNDER_DEVELOPMENT: 'Feature under development.',
@@ -175,6 +375,26 @@ const en: Translation = {
     DATA_EXPORTED_SUCCESS: 'Data exported successfully.',
     IMPORT_DATA: 'Import Data',
     IMPORT_DATA_DESC: 'Import plugin data from a JSON file. This will overwrite existing settings.',
+    EXPORT_TRANSACTIONS: 'Export Transactions',
+    EXPORT_TRANSACTIONS_DESC: 'Export transactions to CSV, JSON or an Excel spreadsheet, with the names of their accounts, categories and tags.',
+    EXPORT_FORMAT: 'Format',
+    EXPORT_FORMAT_EXCEL: 'Excel spreadsheet (.xml)',
+    EXPORT_SCOPE: 'Transactions',
+    EXPORT_SCOPE_VIEW: 'As filtered in the statistics view',
+    EXPORT_SCOPE_RANGE: 'Date range',
+    EXPORT_FROM: 'From',
+    EXPORT_TO: 'To',
+    EXPORT_RANGE_DESC: 'Leave empty for no limit',
+    EXPORT_DESTINATION: 'Save to',
+    EXPORT_DESTINATION_VAULT: 'File in the vault',
+    EXPORT_DESTINATION_DOWNLOAD: 'Download',
+    EXPORT_PATH: 'File path',
+    EXPORT_PATH_DESC: 'Path in the vault; an existing file is overwritten',
+    EXPORT_PATH_REQUIRED: 'Enter a file path',
+    EXPORT_COUNT: '{count} transactions will be exported.',
+    EXPORT_NOTHING: 'No transactions to export',
+    EXPORT_SUCCESS: 'Exported {count} transactions to {path}',
+    EXPORT_FAILED: 'Export failed',
     IMPORT: 'Import',
     DATA_IMPORTED_SUCCESS: 'Data imported successfully. Settings may require Obsidian reload.',
     DATA_IMPORT_FAILED: 'Data import failed. Check console for errors.',
@@ -236,6 +456,8 @@ const en: Translation = {
     TAGS_PLACEHOLDER: 'e.g., work, groceries',
     NOTE_DESC: 'Optional transaction note',
     NOTE_PLACEHOLDER: 'Enter transaction note here...',
+    DESCRIPTION_DESC: 'Short description of the transaction',
+    DESCRIPTION_PLACEHOLDER: 'e.g., Lunch with team',
 
     // --- Start of Added/Updated Keys (Consolidated) ---
     UPDATE: 'Update',
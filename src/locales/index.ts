@@ -53,6 +53,8 @@ export interface Translation {
     TAGS_PLACEHOLDER: string;
     NOTE_DESC: string;
     NOTE_PLACEHOLDER: string;
+    DESCRIPTION_DESC: string;
+    DESCRIPTION_PLACEHOLDER: string;
     ACCOUNT_FIELD: string; // Used specifically in forms/modals
     CATEGORY_FIELD: string; // Used specifically in forms/modals
     TAGS_FIELD: string; // Used specifically in forms/modals
@@ -179,6 +181,206 @@ export interface Translation {
     USE_DAILY_NOTES_DESC: string;
     DAILY_NOTES_FORMAT_DESC: string;
     TRANSACTION_TEMPLATE_DESC: string;
+    TRANSACTION_TEMPLATE_INVALID: string;
+    TRANSFER_TEMPLATE: string;
+    TRANSFER_TEMPLATE_DESC: string;
+    TRANSFER: string;
+    FROM_ACCOUNT: string;
+    FROM_ACCOUNT_DESC: string;
+    TO_ACCOUNT: string;
+    TO_ACCOUNT_DESC: string;
+    ERROR_TRANSFER_ACCOUNTS: string;
+    SPLITS: string;
+    SPLITS_DESC: string;
+    ADD_SPLIT: string;
+    REMOVE_SPLIT: string;
+    SPLIT_REMAINING: string;
+    ERROR_SPLIT_INVALID: string;
+    ERROR_SPLITS_TOTAL: string;
+    CURRENCY: string;
+    TRANSACTION_CURRENCY_DESC: string;
+    ACCOUNT_CURRENCY_DESC: string;
+    ACCOUNT_TYPE: string;
+    ACCOUNT_TYPE_DESC: string;
+    ACCOUNT_TYPE_ASSET: string;
+    ACCOUNT_TYPE_INVESTMENT: string;
+    ACCOUNT_TYPE_CREDIT: string;
+    ACCOUNT_TYPE_LIABILITY: string;
+    CREDIT_LIMIT: string;
+    CREDIT_LIMIT_DESC: string;
+    STATEMENT_DAY: string;
+    STATEMENT_DAY_DESC: string;
+    DUE_DAY: string;
+    DUE_DAY_DESC: string;
+    ERROR_INVALID_DAY: string;
+    ERROR_INVALID_CREDIT_LIMIT: string;
+    TOTAL_ASSETS: string;
+    TOTAL_LIABILITIES: string;
+    NET_WORTH: string;
+    AMOUNT_OWED: string;
+    AVAILABLE_CREDIT: string;
+    NEXT_STATEMENT: string;
+    PAYMENT_DUE: string;
+    OPENING_BALANCE: string;
+    OPENING_BALANCE_DESC: string;
+    ERROR_INVALID_OPENING_BALANCE: string;
+    CHECK_BALANCE_ASSERTIONS: string;
+    NO_BALANCE_ASSERTIONS: string;
+    BALANCE_ASSERTIONS_PASSED: string;
+    BALANCE_ASSERTIONS_FAILED: string;
+    BALANCE_ASSERTION_MISMATCH: string;
+    BALANCE_ASSERTION_DIFFERENCE: string;
+    BALANCE_ASSERTIONS: string;
+    BALANCE_ASSERTED: string;
+    BALANCE_COMPUTED: string;
+    BALANCE_DIFFERENCE: string;
+    ADD_BALANCE_ASSERTION: string;
+    BALANCE_ASSERTION_DATE_DESC: string;
+    BALANCE_ASSERTION_AMOUNT_DESC: string;
+    ERROR_INVALID_BALANCE_ASSERTION: string;
+    ERROR_SAVING_BALANCE_ASSERTION: string;
+    STATUS: string;
+    STATUS_DESC: string;
+    STATUS_UNCLEARED: string;
+    STATUS_CLEARED: string;
+    STATUS_RECONCILED: string;
+    RECONCILE: string;
+    STATEMENT_DATE: string;
+    STATEMENT_BALANCE: string;
+    STATEMENT_BALANCE_DESC: string;
+    CLEARED_BALANCE: string;
+    FINISH_RECONCILIATION: string;
+    RECONCILE_TEMPLATE_NO_STATUS: string;
+    RECONCILE_TRANSFER_SHARED: string;
+    RECONCILE_NOTHING_TO_CLEAR: string;
+    RECONCILE_NOT_BALANCED: string;
+    RECONCILE_FINISHED: string;
+    ERROR_INVALID_STATEMENT_BALANCE: string;
+    ERROR_UPDATING_STATUS: string;
+    BASE_CURRENCY: string;
+    BASE_CURRENCY_DESC: string;
+    EXCHANGE_RATES: string;
+    MANAGE_EXCHANGE_RATES: string;
+    MANAGE_EXCHANGE_RATES_DESC: string;
+    ADD_EXCHANGE_RATE: string;
+    EDIT_EXCHANGE_RATE: string;
+    DELETE_EXCHANGE_RATE: string;
+    NO_EXCHANGE_RATES: string;
+    EXCHANGE_RATE_FROM: string;
+    EXCHANGE_RATE_DATE: string;
+    EXCHANGE_RATE_DATE_DESC: string;
+    EXCHANGE_RATE: string;
+    EXCHANGE_RATE_DESC: string;
+    ERROR_INVALID_CURRENCY: string;
+    ERROR_INVALID_EXCHANGE_RATE: string;
+    POST_RECURRING_TRANSACTIONS: string;
+    NO_RECURRING_DUE: string;
+    RECURRING_POSTED: string;
+    RECURRING_TRANSACTIONS: string;
+    MANAGE_RECURRING: string;
+    MANAGE_RECURRING_DESC: string;
+    ADD_RECURRING: string;
+    EDIT_RECURRING: string;
+    DELETE_RECURRING: string;
+    NO_RECURRING_RULES: string;
+    RECURRING_NEXT: string;
+    RECURRING_NO_UPCOMING: string;
+    RECURRING_DUE: string;
+    RECURRING_ENABLED: string;
+    RECURRING_NAME_PLACEHOLDER: string;
+    RECURRING_TAGS_DESC: string;
+    RECURRING_START_DESC: string;
+    FREQUENCY: string;
+    WEEKLY: string;
+    REPEAT_EVERY: string;
+    REPEAT_EVERY_DESC: string;
+    MONTHLY_ON: string;
+    DAY_OF_MONTH: string;
+    NTH_WEEKDAY: string;
+    LAST_WEEKDAY: string;
+    RECURRING_ENDS: string;
+    ENDS_NEVER: string;
+    ENDS_ON_DATE: string;
+    ENDS_AFTER_COUNT: string;
+    UPCOMING_OCCURRENCES: string;
+    ERROR_RECURRING_NAME_REQUIRED: string;
+    ERROR_RECURRING_END_BEFORE_START: string;
+    QUICK_ENTRY_CONFIRM: string;
+    QUICK_ENTRY_MISSING_AMOUNT: string;
+    QUICK_ENTRY_MISSING_ACCOUNT: string;
+    QUICK_ENTRY_MISSING_CATEGORY: string;
+    QUICK_ENTRY_AMBIGUOUS_ACCOUNT: string;
+    QUICK_ENTRY_AMBIGUOUS_CATEGORY: string;
+    QUICK_ENTRY_UNKNOWN_TAG: string;
+    NOW: string;
+    TODAY: string;
+    YESTERDAY: string;
+    RENDER_TRANSACTION_WIDGETS: string;
+    RENDER_TRANSACTION_WIDGETS_DESC: string;
+    QUERY_ERROR: string;
+    QUERY_NO_RESULTS: string;
+    QUERY_COUNT: string;
+    QUERY_GROUP: string;
+    QUERY_TOTAL: string;
+    QUERY_OTHER: string;
+    QUERY_AVERAGE_INCOME: string;
+    QUERY_AVERAGE_EXPENSE: string;
+    URI_UNKNOWN_ACTION: string;
+    URI_UNKNOWN_TAB: string;
+    URI_INVALID_DATE: string;
+    IMPORT_TRANSACTIONS: string;
+    IMPORT_TRANSACTIONS_DESC: string;
+    IMPORT_FORMAT: string;
+    IMPORT_FORMAT_ALIPAY: string;
+    IMPORT_FORMAT_WECHAT: string;
+    IMPORT_FORMAT_OFX: string;
+    IMPORT_FORMAT_QIF: string;
+    IMPORT_FORMAT_LEDGER: string;
+    IMPORT_FILE: string;
+    IMPORT_CHOOSE_FILE: string;
+    IMPORT_NO_FILE: string;
+    IMPORT_READ_FAILED: string;
+    IMPORT_ENCODING: string;
+    IMPORT_DELIMITER: string;
+    IMPORT_DATE_FORMAT: string;
+    IMPORT_DATE_FORMAT_DESC: string;
+    IMPORT_DECIMAL_SEPARATOR: string;
+    IMPORT_HAS_HEADER: string;
+    IMPORT_DEFAULT_ACCOUNT: string;
+    IMPORT_DEFAULT_ACCOUNT_DESC: string;
+    IMPORT_NEXT: string;
+    IMPORT_MAP_COLUMNS: string;
+    IMPORT_COLUMN_NONE: string;
+    IMPORT_AMOUNT_SIGN_HINT: string;
+    IMPORT_MAPPING_REQUIRED: string;
+    IMPORT_PREVIEW: string;
+    IMPORT_SUMMARY: string;
+    IMPORT_ROW: string;
+    IMPORT_PROBLEM: string;
+    IMPORT_PREVIEW_LIMIT: string;
+    IMPORT_UNKNOWN_NAMES: string;
+    IMPORT_UNKNOWN_NAMES_DESC: string;
+    IMPORT_NAME_ROWS: string;
+    IMPORT_CREATE_NEW: string;
+    IMPORT_UNCATEGORIZED: string;
+    IMPORT_RUN: string;
+    IMPORT_SUCCESS: string;
+    IMPORT_DUPLICATES: string;
+    IMPORT_MERGED: string;
+    DUPLICATE_WARNING: string;
+    DUPLICATE_SKIP: string;
+    DUPLICATE_MERGE: string;
+    DUPLICATE_IMPORT: string;
+    DUPLICATE_MERGE_DESC: string;
+    DUPLICATE_SKIPPED: string;
+    DUPLICATE_MERGED: string;
+    IMPORT_FAILED: string;
+    ADD_TRANSACTION_IDS: string;
+    DELETE_TRANSACTION: string;
+    CONFIRM_DELETE_TRANSACTION: string;
+    SUCCESS_DELETE_TRANSACTION: string;
+    NO_TRANSACTION_AT_CURSOR: string;
+    TRANSACTION_IDS_ADDED: string;
     OUTPUT_FILE_PATH: string; // Key used in new code for setting name
     CONFIRM_DELETE: string;
     CANNOT_BE_UNDONE: string;
@@ -192,6 +394,26 @@ export interface Translation {
     DATA_EXPORTED_SUCCESS: string;
     IMPORT_DATA: string;
     IMPORT_DATA_DESC: string;
+    EXPORT_TRANSACTIONS: string;
+    EXPORT_TRANSACTIONS_DESC: string;
+    EXPORT_FORMAT: string;
+    EXPORT_FORMAT_EXCEL: string;
+    EXPORT_SCOPE: string;
+    EXPORT_SCOPE_VIEW: string;
+    EXPORT_SCOPE_RANGE: string;
+    EXPORT_FROM: string;
+    EXPORT_TO: string;
+    EXPORT_RANGE_DESC: string;
+    EXPORT_DESTINATION: string;
+    EXPORT_DESTINATION_VAULT: string;
+    EXPORT_DESTINATION_DOWNLOAD: string;
+    EXPORT_PATH: string;
+    EXPORT_PATH_DESC: string;
+    EXPORT_PATH_REQUIRED: string;
+    EXPORT_COUNT: string;
+    EXPORT_NOTHING: string;
+    EXPORT_SUCCESS: string;
+    EXPORT_FAILED: string;
     IMPORT: string;
     DATA_IMPORTED_SUCCESS: string;
     DATA_IMPORT_FAILED: string;
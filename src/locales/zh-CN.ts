@@ -75,7 +75,207 @@ const zhCN: Translation = {
     OUTPUT_FILE_DESC: '用于保存交易记录的文件',
     USE_DAILY_NOTES_DESC: '将交易添加到日记中，而不是单个文件',
     DAILY_NOTES_FORMAT_DESC: '日记文件名格式（仅在启用"使用日记"时使用）',
-    TRANSACTION_TEMPLATE_DESC: '用于格式化交易记录的模板。占位符：{{date}}, {{type}}, {{amount}}, {{account}}, {{category}}, {{tags}}, {{description}}, {{note}}',
+    TRANSACTION_TEMPLATE_DESC: '用于格式化交易记录的模板。占位符：{{date}}, {{type}}, {{amount}}, {{currency}}, {{account}}, {{category}}, {{tags}}, {{description}}, {{note}}, {{status}}。用 {{#note}}...{{/note}} 包裹的内容仅在该字段有值时写入',
+    DELETE_TRANSACTION: '删除交易',
+    CONFIRM_DELETE_TRANSACTION: '确定删除这条交易吗？此操作无法撤销。',
+    SUCCESS_DELETE_TRANSACTION: '交易已删除',
+    NO_TRANSACTION_AT_CURSOR: '当前行没有交易',
+    ADD_TRANSACTION_IDS: '为已有交易添加 ID',
+    TRANSACTION_IDS_ADDED: '已为 {count} 条交易添加 ID',
+    TRANSFER_TEMPLATE: '转账模板',
+    TRANSFER_TEMPLATE_DESC: '在自己账户之间转账时使用的模板。占位符：{{date}}, {{amount}}, {{currency}}, {{from}}, {{to}}, {{tags}}, {{description}}, {{note}}, {{status}}',
+    TRANSFER: '转账',
+    FROM_ACCOUNT: '转出账户',
+    FROM_ACCOUNT_DESC: '资金转出的账户',
+    TO_ACCOUNT: '转入账户',
+    TO_ACCOUNT_DESC: '资金转入的账户',
+    ERROR_TRANSFER_ACCOUNTS: '转账需要两个不同的账户',
+    SPLITS: '拆分',
+    SPLITS_DESC: '将金额分配到多个分类',
+    ADD_SPLIT: '添加拆分',
+    REMOVE_SPLIT: '删除拆分',
+    SPLIT_REMAINING: '剩余：{amount}',
+    ERROR_SPLIT_INVALID: '每个拆分都需要分类和大于 0 的金额',
+    ERROR_SPLITS_TOTAL: '拆分合计为 {total}，但交易金额为 {amount}',
+    CURRENCY: '货币',
+    TRANSACTION_CURRENCY_DESC: '金额的货币；留空则使用账户的货币',
+    ACCOUNT_CURRENCY_DESC: '账户的货币代码，例如 USD；留空则使用本位币',
+    ACCOUNT_TYPE: '账户类型',
+    ACCOUNT_TYPE_DESC: '负债和信用卡的余额显示为欠款，并从净资产中扣除',
+    ACCOUNT_TYPE_ASSET: '资产',
+    ACCOUNT_TYPE_INVESTMENT: '投资',
+    ACCOUNT_TYPE_CREDIT: '信用卡',
+    ACCOUNT_TYPE_LIABILITY: '负债',
+    CREDIT_LIMIT: '信用额度',
+    CREDIT_LIMIT_DESC: '没有额度时留空',
+    STATEMENT_DAY: '账单日',
+    STATEMENT_DAY_DESC: '每月出账单的日期 (1-31)',
+    DUE_DAY: '还款日',
+    DUE_DAY_DESC: '每月最后还款的日期 (1-31)',
+    ERROR_INVALID_DAY: '日期必须在 1 到 31 之间',
+    ERROR_INVALID_CREDIT_LIMIT: '信用额度必须是正数',
+    TOTAL_ASSETS: '总资产',
+    TOTAL_LIABILITIES: '总负债',
+    NET_WORTH: '净资产',
+    AMOUNT_OWED: '欠款',
+    AVAILABLE_CREDIT: '可用额度',
+    NEXT_STATEMENT: '下个账单日',
+    PAYMENT_DUE: '还款日',
+    OPENING_BALANCE: '期初余额',
+    OPENING_BALANCE_DESC: '首笔记录交易之前的余额及其生效日期。信用卡和负债账户请填写欠款金额。',
+    ERROR_INVALID_OPENING_BALANCE: '请输入有效的期初余额。',
+    CHECK_BALANCE_ASSERTIONS: '检查余额断言',
+    NO_BALANCE_ASSERTIONS: '账本中没有余额断言。',
+    BALANCE_ASSERTIONS_PASSED: '全部 {count} 条余额断言均匹配。',
+    BALANCE_ASSERTIONS_FAILED: '{count} 条余额断言中有 {failed} 条不匹配',
+    BALANCE_ASSERTION_MISMATCH: '有余额断言不匹配',
+    BALANCE_ASSERTION_DIFFERENCE: '断言 {expected}，实际 {actual}',
+    BALANCE_ASSERTIONS: '余额断言',
+    BALANCE_ASSERTED: '断言余额',
+    BALANCE_COMPUTED: '计算余额',
+    BALANCE_DIFFERENCE: '差额',
+    ADD_BALANCE_ASSERTION: '添加余额断言',
+    BALANCE_ASSERTION_DATE_DESC: '在该日结束时检查余额。',
+    BALANCE_ASSERTION_AMOUNT_DESC: '对账单上的余额，以账户币种计。信用卡和负债账户请填写欠款金额。',
+    ERROR_INVALID_BALANCE_ASSERTION: '请输入有效的日期和余额。',
+    ERROR_SAVING_BALANCE_ASSERTION: '保存余额断言时出错',
+    STATUS: '状态',
+    STATUS_DESC: '该交易是否已与账户对账单核对',
+    STATUS_UNCLEARED: '未核对',
+    STATUS_CLEARED: '已核对',
+    STATUS_RECONCILED: '已对账',
+    RECONCILE: '对账',
+    STATEMENT_DATE: '对账单截止日期',
+    STATEMENT_BALANCE: '对账单期末余额',
+    STATEMENT_BALANCE_DESC: '以账户币种计。信用卡和负债账户请填写欠款金额。',
+    CLEARED_BALANCE: '已核对余额',
+    FINISH_RECONCILIATION: '完成对账',
+    RECONCILE_TEMPLATE_NO_STATUS: '部分交易无法勾选，因为其模板中没有 {{status}} 占位符。请在设置中添加。',
+    RECONCILE_TRANSFER_SHARED: '转账的两个账户共用同一个状态：在此勾选或对账后，另一账户的对账中也会显示为已勾选或已对账。',
+    RECONCILE_NOTHING_TO_CLEAR: '截至对账单日期没有未对账的交易。',
+    RECONCILE_NOT_BALANCED: '已核对余额与对账单余额尚不一致。',
+    RECONCILE_FINISHED: '已对账 {count} 笔交易。',
+    ERROR_INVALID_STATEMENT_BALANCE: '请输入对账单期末余额。',
+    ERROR_UPDATING_STATUS: '更新交易状态时出错',
+    BASE_CURRENCY: '本位币',
+    BASE_CURRENCY_DESC: '统计、图表和报表换算成的货币代码，例如 CNY',
+    EXCHANGE_RATES: '汇率',
+    MANAGE_EXCHANGE_RATES: '管理汇率',
+    MANAGE_EXCHANGE_RATES_DESC: '其他货币折合 {base} 的汇率。汇率从其日期开始生效，直到同一货币的下一个汇率',
+    ADD_EXCHANGE_RATE: '添加汇率',
+    EDIT_EXCHANGE_RATE: '编辑汇率',
+    DELETE_EXCHANGE_RATE: '删除汇率',
+    NO_EXCHANGE_RATES: '尚未设置汇率。',
+    EXCHANGE_RATE_FROM: '自 {date} 起生效',
+    EXCHANGE_RATE_DATE: '生效日期',
+    EXCHANGE_RATE_DATE_DESC: '此日期及之后的交易使用该汇率',
+    EXCHANGE_RATE: '汇率',
+    EXCHANGE_RATE_DESC: '一单位该货币折合多少 {base}',
+    ERROR_INVALID_CURRENCY: '请输入本位币以外的三位字母货币代码',
+    ERROR_INVALID_EXCHANGE_RATE: '汇率必须大于 0',
+    POST_RECURRING_TRANSACTIONS: '记录到期的周期交易',
+    NO_RECURRING_DUE: '没有到期的周期交易',
+    RECURRING_POSTED: '已记录 {count} 笔周期交易',
+    RECURRING_TRANSACTIONS: '周期交易',
+    MANAGE_RECURRING: '周期计划',
+    MANAGE_RECURRING_DESC: '按计划自动记录的交易。到期的交易会在 Obsidian 启动时记录。',
+    ADD_RECURRING: '添加周期交易',
+    EDIT_RECURRING: '编辑周期交易',
+    DELETE_RECURRING: '删除周期交易',
+    NO_RECURRING_RULES: '暂无周期交易。',
+    RECURRING_NEXT: '下次：{dates}',
+    RECURRING_NO_UPCOMING: '没有后续的交易',
+    RECURRING_DUE: '已到期',
+    RECURRING_ENABLED: '启用',
+    RECURRING_NAME_PLACEHOLDER: '例如：房租',
+    RECURRING_TAGS_DESC: '已有标签的名称，用逗号分隔',
+    RECURRING_START_DESC: '第一次交易的日期和时间',
+    FREQUENCY: '频率',
+    WEEKLY: '每周',
+    REPEAT_EVERY: '重复间隔',
+    REPEAT_EVERY_DESC: '两次交易之间相隔的天、周、月或年数',
+    MONTHLY_ON: '每月的',
+    DAY_OF_MONTH: '第 {day} 天',
+    NTH_WEEKDAY: '第 {nth} 个{weekday}',
+    LAST_WEEKDAY: '最后一个{weekday}',
+    RECURRING_ENDS: '结束',
+    ENDS_NEVER: '从不',
+    ENDS_ON_DATE: '在指定日期',
+    ENDS_AFTER_COUNT: '在指定次数后',
+    UPCOMING_OCCURRENCES: '后续交易',
+    ERROR_RECURRING_NAME_REQUIRED: '请输入名称',
+    ERROR_RECURRING_END_BEFORE_START: '结束日期不能早于开始日期',
+    QUICK_ENTRY_CONFIRM: '添加这笔交易？',
+    QUICK_ENTRY_MISSING_AMOUNT: '未识别到金额，请补全交易',
+    QUICK_ENTRY_MISSING_ACCOUNT: '未识别到账户，请补全交易',
+    QUICK_ENTRY_MISSING_CATEGORY: '未识别到分类，请补全交易',
+    QUICK_ENTRY_AMBIGUOUS_ACCOUNT: '有多个名为“{name}”的账户，请选择',
+    QUICK_ENTRY_AMBIGUOUS_CATEGORY: '有多个名为“{name}”的分类，请选择',
+    QUICK_ENTRY_UNKNOWN_TAG: '未知标签“{name}”',
+    NOW: '现在',
+    TODAY: '今天',
+    YESTERDAY: '昨天',
+    RENDER_TRANSACTION_WIDGETS: '以行的形式显示交易',
+    RENDER_TRANSACTION_WIDGETS_DESC: '在阅读视图和实时预览中将交易行显示为带编辑和删除按钮的样式行。已打开的笔记需要重新打开。',
+    QUERY_ERROR: '查询错误',
+    QUERY_NO_RESULTS: '没有符合查询条件的交易。',
+    QUERY_COUNT: '笔数',
+    QUERY_GROUP: '分组',
+    QUERY_TOTAL: '合计',
+    QUERY_OTHER: '其他',
+    QUERY_AVERAGE_INCOME: '平均收入',
+    QUERY_AVERAGE_EXPENSE: '平均支出',
+    URI_UNKNOWN_ACTION: '未知的记账链接操作“{name}”，应为 add 或 stats',
+    URI_UNKNOWN_TAB: '未知的统计标签页“{name}”',
+    URI_INVALID_DATE: '无效的日期“{date}”，应为 YYYY-MM-DD、YYYY-MM 或 YYYY',
+    IMPORT_TRANSACTIONS: '导入交易',
+    IMPORT_TRANSACTIONS_DESC: '从银行或应用导出的账单文件导入交易',
+    IMPORT_FORMAT: '格式',
+    IMPORT_FORMAT_ALIPAY: '支付宝交易明细',
+    IMPORT_FORMAT_WECHAT: '微信支付账单',
+    IMPORT_FORMAT_OFX: '银行对账单 (OFX, QFX)',
+    IMPORT_FORMAT_QIF: 'Quicken (QIF)',
+    IMPORT_FORMAT_LEDGER: 'ledger / hledger 账本',
+    IMPORT_FILE: '文件',
+    IMPORT_CHOOSE_FILE: '选择文件',
+    IMPORT_NO_FILE: '未选择文件',
+    IMPORT_READ_FAILED: '无法读取文件',
+    IMPORT_ENCODING: '编码',
+    IMPORT_DELIMITER: '分隔符',
+    IMPORT_DATE_FORMAT: '日期格式',
+    IMPORT_DATE_FORMAT_DESC: '日期列的格式，例如 YYYY-MM-DD 或 DD/MM/YYYY',
+    IMPORT_DECIMAL_SEPARATOR: '小数分隔符',
+    IMPORT_HAS_HEADER: '第一行为列名',
+    IMPORT_DEFAULT_ACCOUNT: '默认账户',
+    IMPORT_DEFAULT_ACCOUNT_DESC: '未指定账户的行使用的账户',
+    IMPORT_NEXT: '下一步',
+    IMPORT_MAP_COLUMNS: '映射列',
+    IMPORT_COLUMN_NONE: '—',
+    IMPORT_AMOUNT_SIGN_HINT: '未映射类型列时，负数金额导入为支出，正数金额导入为收入。',
+    IMPORT_MAPPING_REQUIRED: '请至少映射日期列和金额列',
+    IMPORT_PREVIEW: '预览',
+    IMPORT_SUMMARY: '共 {total} 行，将导入 {valid} 行，{errors} 行有问题将被跳过。',
+    IMPORT_ROW: '行',
+    IMPORT_PROBLEM: '问题',
+    IMPORT_PREVIEW_LIMIT: '仅显示前 {count} 行。',
+    IMPORT_UNKNOWN_NAMES: '未知名称',
+    IMPORT_UNKNOWN_NAMES_DESC: '为每个名称选择已有的项目，或新建该项目。',
+    IMPORT_NAME_ROWS: '{count} 行使用',
+    IMPORT_CREATE_NEW: '新建',
+    IMPORT_UNCATEGORIZED: '未分类',
+    IMPORT_RUN: '导入 {count} 笔交易',
+    IMPORT_SUCCESS: '已导入 {count} 笔交易',
+    IMPORT_DUPLICATES: '其中 {count} 行与已有交易相似，请逐行选择跳过、合并到已有交易或仍然导入。',
+    IMPORT_MERGED: '已将 {count} 行合并到已有交易',
+    DUPLICATE_WARNING: '可能与已有交易重复：{date} · {amount} · {description}',
+    DUPLICATE_SKIP: '跳过',
+    DUPLICATE_MERGE: '合并',
+    DUPLICATE_IMPORT: '仍然导入',
+    DUPLICATE_MERGE_DESC: '将本条合并到已有交易，而不是新增一笔',
+    DUPLICATE_SKIPPED: '未添加：该交易已记录',
+    DUPLICATE_MERGED: '已合并到已有交易',
+    IMPORT_FAILED: '导入失败',
+    TRANSACTION_TEMPLATE_INVALID: '模板无效，修改未保存：{error}',
     FOLLOW_SYSTEM: '跟随系统',
     
     // 统计相关
@@ -162,6 +362,8 @@ const zhCN: Translation = {
     TAGS_PLACEHOLDER: '例如：工作，购物',
     NOTE_DESC: '可选的交易备注',
     NOTE_PLACEHOLDER: '在此输入交易备注...',
+    DESCRIPTION_DESC: '交易的简短描述',
+    DESCRIPTION_PLACEHOLDER: '例如：团队午餐',
     ACCOUNT_FIELD: '账户',
     CATEGORY_FIELD: '分类',
     TAGS_FIELD: '标签',
@@ -237,6 +439,26 @@ const zhCN: Translation = {
     DATA_EXPORTED_SUCCESS: '数据导出成功。',
     IMPORT_DATA: '导入数据',
     IMPORT_DATA_DESC: '从 JSON 文件导入插件数据。这将覆盖现有设置。',
+    EXPORT_TRANSACTIONS: '导出交易',
+    EXPORT_TRANSACTIONS_DESC: '将交易导出为 CSV、JSON 或 Excel 表格，包含账户、分类和标签的名称。',
+    EXPORT_FORMAT: '格式',
+    EXPORT_FORMAT_EXCEL: 'Excel 表格 (.xml)',
+    EXPORT_SCOPE: '交易范围',
+    EXPORT_SCOPE_VIEW: '统计视图当前筛选的交易',
+    EXPORT_SCOPE_RANGE: '日期范围',
+    EXPORT_FROM: '开始日期',
+    EXPORT_TO: '结束日期',
+    EXPORT_RANGE_DESC: '留空表示不限',
+    EXPORT_DESTINATION: '保存到',
+    EXPORT_DESTINATION_VAULT: '库中的文件',
+    EXPORT_DESTINATION_DOWNLOAD: '下载',
+    EXPORT_PATH: '文件路径',
+    EXPORT_PATH_DESC: '库中的路径；已有文件将被覆盖',
+    EXPORT_PATH_REQUIRED: '请输入文件路径',
+    EXPORT_COUNT: '将导出 {count} 笔交易。',
+    EXPORT_NOTHING: '没有可导出的交易',
+    EXPORT_SUCCESS: '已导出 {count} 笔交易到 {path}',
+    EXPORT_FAILED: '导出失败',
     IMPORT: '导入',
     DATA_IMPORTED_SUCCESS: '数据导入成功。设置可能需要重新加载 Obsidian。',
     DATA_IMPORT_FAILED: '数据导入失败。请检查控制台错误。',
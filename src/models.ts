@@ -1,5 +1,16 @@
 // Data models for the accounting plugin
 
+/**
+ * What an account is. Assets and investments hold money; liabilities and credit cards
+ * owe it, so their balances are shown as the amount owed.
+ */
+export type AccountType = 'asset' | 'investment' | 'credit' | 'liability';
+
+/**
+ * Account types in the order they are listed
+ */
+export const ACCOUNT_TYPES: AccountType[] = ['asset', 'investment', 'credit', 'liability'];
+
 /**
  * Represents a financial account (e.g., Alipay, WeChat, bank account, credit card)
  */
@@ -8,14 +19,33 @@ export interface Account {
     name: string;
     description?: string;
     icon?: string;
+    currency?: string; // ISO currency code, the base currency when not set
+    type?: AccountType; // 'asset' when not set
+    creditLimit?: number; // Credit cards only
+    statementDay?: number; // Day of the month a credit card statement closes
+    dueDay?: number; // Day of the month a credit card payment is due
+    openingBalance?: number; // Balance before the first recorded transaction; the amount owed for liabilities
+    openingDate?: string; // Day (YYYY-MM-DD) the opening balance applies from
     parentId?: string | null;
     children?: Account[];
 }
 
 /**
- * Type of transaction: income or expense
+ * A balance an account must have at the end of a day, e.g. from a bank statement.
+ * Written in the ledger as `balance <account> <YYYY-MM-DD> = <amount>`.
+ */
+export interface BalanceAssertion {
+    accountId: string;
+    date: string; // YYYY-MM-DD
+    amount: number; // In the account's currency; the amount owed for liabilities
+    filePath: string;
+    line: number; // 1-based
+}
+
+/**
+ * Type of transaction: income, expense, or a transfer between own accounts
  */
-export type TransactionType = 'income' | 'expense';
+export type TransactionType = 'income' | 'expense' | 'transfer';
 
 /**
  * Represents a category for income or expense with support for nested hierarchy
@@ -39,6 +69,13 @@ export interface Tag {
     children?: Tag[];
 }
 
+/**
+ * How far a transaction is reconciled with the account's statement: cleared once it was
+ * ticked off against a statement, reconciled once the statement balance was confirmed.
+ * Transactions without a status are uncleared.
+ */
+export type TransactionStatus = 'cleared' | 'reconciled';
+
 /**
  * Represents a financial transaction
  */
@@ -48,10 +85,37 @@ export interface Transaction {
     amount: number;
     type: TransactionType;
     accountId?: string;
+    fromAccountId?: string; // Source account of a transfer
+    toAccountId?: string; // Destination account of a transfer
     categoryId: string;
     tagIds: string[];
     note?: string;
     description?: string; // Transaction description
+    currency?: string; // Overrides the currency of the account
+    splits?: TransactionSplit[]; // Parts of the amount assigned to different categories
+    status?: TransactionStatus; // Uncleared when not set
+}
+
+/**
+ * Part of a split transaction assigned to one category. The amounts of all
+ * splits add up to the amount of the transaction.
+ */
+export interface TransactionSplit {
+    categoryId: string;
+    amount: number;
+    tagIds?: string[];
+    note?: string;
+}
+
+/**
+ * Value of one unit of a currency in the base currency, valid from a date
+ * until the next rate of the same currency
+ */
+export interface ExchangeRate {
+    id: string;
+    currency: string;
+    date: string; // YYYY-MM-DD
+    rate: number;
 }
 
 /**
@@ -84,6 +148,63 @@ export interface BudgetItem {
     amount: number;
 }
 
+/**
+ * How often a recurring transaction repeats
+ */
+export enum RecurringFrequency {
+    Daily = 'daily',
+    Weekly = 'weekly',
+    Monthly = 'monthly',
+    Yearly = 'yearly',
+}
+
+/**
+ * Which day of the month a monthly rule falls on, taken from its start date:
+ * the same day number, the same nth weekday (e.g. 2nd Monday) or the last such weekday
+ */
+export type MonthlyRecurrence = 'dayOfMonth' | 'nthWeekday' | 'lastWeekday';
+
+/**
+ * A schedule that posts the same transaction repeatedly
+ */
+export interface RecurringRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    transaction: Omit<Transaction, 'id' | 'date'>; // The transaction posted on each occurrence
+    frequency: RecurringFrequency;
+    interval: number; // Repeat every n days/weeks/months/years
+    monthlyRecurrence?: MonthlyRecurrence;
+    startDate: string; // YYYY-MM-DD, also the first occurrence
+    time: string; // HH:mm
+    endDate?: string; // YYYY-MM-DD, last day an occurrence may fall on
+    count?: number; // Total number of occurrences
+    lastPostedDate?: string; // Date of the latest occurrence already posted
+}
+
+/**
+ * Get the type of an account; accounts created before there were types are assets
+ */
+export function getAccountType(account: Account | undefined): AccountType {
+    return account?.type || 'asset';
+}
+
+/**
+ * Whether an account owes money rather than holding it: a liability or credit card
+ */
+export function isLiabilityAccount(account: Account | undefined): boolean {
+    const type = getAccountType(account);
+    return type === 'liability' || type === 'credit';
+}
+
+/**
+ * Turn the balance of an account (money in minus money out) into the balance shown for
+ * it: the amount held for assets, the amount owed for liabilities
+ */
+export function getDisplayBalance(account: Account | undefined, balance: number): number {
+    return isLiabilityAccount(account) ? -balance : balance;
+}
+
 /**
  * Helper function to generate a unique ID
  */
@@ -112,6 +233,35 @@ export function findItemById<T extends { id: string, children?: T[] }>(
     return undefined;
 }
 
+/**
+ * Helper function to get the names of an item and its ancestors, from the top level down.
+ * Categories and tags nest their children; accounts are kept in a flat list and name
+ * their parent by ID, so both are followed.
+ * @returns The names, or an empty array when the item doesn't exist
+ */
+export function getItemPath<T extends { id: string, name: string, parentId?: string | null, children?: T[] }>(
+    items: T[],
+    id: string
+): string[] {
+    const names = new Map<string, string>();
+    const parents = new Map<string, string | null | undefined>();
+    const collect = (level: T[], parentId?: string) => level.forEach(item => {
+        names.set(item.id, item.name);
+        parents.set(item.id, parentId || item.parentId);
+        collect(item.children || [], item.id);
+    });
+    collect(items);
+
+    const path: string[] = [];
+    const visited = new Set<string>();
+    // Stop at parents that refer to each other
+    for (let current: string | null | undefined = id; current && names.has(current) && !visited.has(current); current = parents.get(current)) {
+        visited.add(current);
+        path.unshift(names.get(current)!);
+    }
+    return path;
+}
+
 /**
  * Helper function to add an item to a nested structure
  */
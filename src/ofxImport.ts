@@ -0,0 +1,146 @@
+// Reader for OFX bank and credit card statements: OFX 1.x (SGML), OFX 2.x (XML) and
+// Quicken's QFX, which is OFX with a few extra elements
+
+import { moment } from 'obsidian';
+import { ImportRow } from './importer';
+import { decodeText } from './csvImport';
+
+/**
+ * The transactions of one account in a statement file
+ */
+export interface ImportStatement {
+    /** Name of the account in the file, e.g. "CHECKING 1234"; the user picks the account it goes to */
+    accountName: string;
+    rows: ImportRow[];
+}
+
+/**
+ * Statement aggregates of bank and credit card accounts
+ */
+const STATEMENT_TAGS = ['STMTRS', 'CCSTMTRS'];
+
+/**
+ * Entities used in OFX values
+ */
+const ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&apos;': '\'',
+    '&nbsp;': ' '
+};
+
+/**
+ * Find the encoding of an OFX file: OFX 1.x names it in its header (CHARSET:1252),
+ * OFX 2.x in its XML declaration
+ * @param buffer The file content
+ */
+export function getOfxEncoding(buffer: ArrayBuffer): string {
+    const header = decodeText(buffer.slice(0, 1000), 'windows-1252');
+    const xmlEncoding = header.match(/<\?xml[^>]*encoding\s*=\s*["']([\w-]+)["']/i);
+    if (xmlEncoding) {
+        return xmlEncoding[1].toLowerCase();
+    }
+    if (/^\s*ENCODING:\s*UTF-?8/im.test(header)) {
+        return 'utf-8';
+    }
+    const charset = header.match(/^\s*CHARSET:\s*(\d+)/im);
+    return charset ? `windows-${charset[1]}` : 'windows-1252';
+}
+
+/**
+ * Get the content of every aggregate with a tag, e.g. all STMTTRN elements. Aggregates
+ * have closing tags in both OFX versions.
+ */
+function getAggregates(text: string, tag: string): string[] {
+    const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    const aggregates: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        aggregates.push(match[1]);
+    }
+    return aggregates;
+}
+
+/**
+ * Get the value of an element. In OFX 1.x elements aren't closed, so the value ends at
+ * the next tag or line break.
+ */
+function getValue(text: string, tag: string): string {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(text);
+    if (!match) {
+        return '';
+    }
+    return match[1].trim().replace(/&\w+;/g, entity => ENTITIES[entity.toLowerCase()] ?? entity);
+}
+
+/**
+ * Read an OFX date: YYYYMMDD, optionally followed by the time, milliseconds and a time
+ * zone such as [-5:EST], which is ignored since transactions are stored in local time
+ * @returns YYYY-MM-DD HH:mm, or an empty string when the date is invalid
+ */
+function parseOfxDate(text: string): string {
+    const match = text.match(/^(\d{8})(\d{4})?/);
+    if (!match) {
+        return '';
+    }
+    const date = moment(match[1] + (match[2] || '0000'), 'YYYYMMDDHHmm', true);
+    return date.isValid() ? date.format('YYYY-MM-DD HH:mm') : '';
+}
+
+/**
+ * Read the transactions of an OFX or QFX file. Positive amounts are income and negative
+ * ones expenses. Each row gets an ID derived from the account and the FITID the bank
+ * gives the transaction, so records imported before can be recognised.
+ * @param text The file content
+ * @throws When the file contains no bank or credit card statement
+ */
+export function parseOfx(text: string): ImportStatement[] {
+    const statements = STATEMENT_TAGS.flatMap(tag => getAggregates(text, tag));
+    if (statements.length === 0) {
+        throw new Error('No bank or credit card statement found in the file');
+    }
+
+    let source = 0;
+    return statements.map(statement => {
+        const accountId = getValue(statement, 'ACCTID');
+        const accountType = getValue(statement, 'ACCTTYPE') || 'CREDITCARD';
+        const accountName = `${accountType} ${accountId.slice(-4)}`.trim();
+
+        const rows = getAggregates(statement, 'STMTTRN').map(record => {
+            const fitId = getValue(record, 'FITID');
+            const name = getValue(record, 'NAME') || getValue(record, 'PAYEE');
+            const memo = getValue(record, 'MEMO');
+            const checkNumber = getValue(record, 'CHECKNUM');
+            const row: ImportRow = {
+                source: ++source,
+                date: parseOfxDate(getValue(record, 'DTPOSTED')),
+                type: 'expense',
+                amount: 0,
+                accountName,
+                tagNames: [],
+                description: name || memo,
+                note: [name && memo !== name ? memo : '', checkNumber ? `#${checkNumber}` : ''].filter(Boolean).join(' ')
+            };
+            if (fitId) {
+                row.id = `ofx-${accountId}-${fitId}`;
+            }
+
+            if (!row.date) {
+                row.error = `Invalid date "${getValue(record, 'DTPOSTED')}"`;
+                return row;
+            }
+            // Some banks write a decimal comma
+            const amount = parseFloat(getValue(record, 'TRNAMT').replace(',', '.'));
+            if (isNaN(amount) || amount === 0) {
+                row.error = `Invalid amount "${getValue(record, 'TRNAMT')}"`;
+                return row;
+            }
+            row.amount = Math.abs(amount);
+            row.type = amount < 0 ? 'expense' : 'income';
+            return row;
+        });
+        return { accountName, rows };
+    });
+}
@@ -0,0 +1,145 @@
+// Reader for QIF (Quicken Interchange Format) files exported by banks and finance apps
+
+import { moment } from 'obsidian';
+import { ImportRow } from './importer';
+import { parseAmount } from './csvImport';
+import { ImportStatement } from './ofxImport';
+
+/**
+ * Sections holding transactions of a bank, cash or credit card account. Investment,
+ * category and memorized transaction lists are skipped.
+ */
+const TRANSACTION_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+/**
+ * Date format of Quicken and most banks' QIF files
+ */
+export const QIF_DATE_FORMAT = 'MM/DD/YYYY';
+
+/**
+ * Date formats to try for a user-chosen format: QIF files write days and months with or
+ * without leading zeros, and years with two or four digits
+ */
+function getQifDateFormats(dateFormat: string): string[] {
+    const lenient = dateFormat.replace(/MM/g, 'M').replace(/DD/g, 'D');
+    return [lenient, lenient.replace('YYYY', 'YY')];
+}
+
+/**
+ * Read a QIF date. Quicken writes years after 1999 with an apostrophe, e.g. 1/ 5'24.
+ * @returns YYYY-MM-DD HH:mm, or an empty string when the date is invalid
+ */
+function parseQifDate(text: string, dateFormat: string): string {
+    const value = text.replace(/\s/g, '').replace('\'', '/');
+    const date = moment(value, getQifDateFormats(dateFormat), true);
+    return date.isValid() ? date.format('YYYY-MM-DD 00:00') : '';
+}
+
+/**
+ * Read the transactions of a QIF file. Each !Account section, or the whole file when
+ * there is none, becomes a statement. The category (L) is used without its parent
+ * categories; splits are imported as one transaction with the total amount.
+ * @param text The file content
+ * @param dateFormat moment.js format of the dates, e.g. MM/DD/YYYY
+ * @param decimalSeparator The decimal separator of the amounts
+ * @throws When the file contains no bank, cash or credit card transactions
+ */
+export function parseQif(text: string, dateFormat: string, decimalSeparator: '.' | ','): ImportStatement[] {
+    const statements: ImportStatement[] = [];
+    let statement: ImportStatement | null = null;
+    let accountName = '';
+    let section = '';
+    let inAccountList = false;
+    let fields: Record<string, string> = {};
+    let source = 0;
+
+    const endRecord = () => {
+        if (inAccountList) {
+            // A !Account record names the account of the sections after it
+            accountName = fields['N'] || '';
+            statement = null;
+        } else if (TRANSACTION_SECTIONS.includes(section) && Object.keys(fields).length > 0) {
+            if (!statement) {
+                statement = { accountName, rows: [] };
+                statements.push(statement);
+            }
+            statement.rows.push(readRecord(fields, ++source, accountName, dateFormat, decimalSeparator));
+        }
+        fields = {};
+    };
+
+    text.split(/\r?\n/).forEach(line => {
+        if (line.startsWith('!')) {
+            const header = line.trim().toLowerCase();
+            if (header === '!account') {
+                inAccountList = true;
+            } else if (header.startsWith('!type:')) {
+                inAccountList = false;
+                section = header.substring('!type:'.length).trim();
+            } else if (header.startsWith('!option:') || header.startsWith('!clear:')) {
+                return;
+            }
+            fields = {};
+        } else if (line.startsWith('^')) {
+            endRecord();
+        } else if (line.trim() !== '') {
+            const code = line[0];
+            // Split lines (S, E, $) repeat; only the whole transaction is imported
+            if (!(code in fields)) {
+                fields[code] = line.substring(1).trim();
+            }
+        }
+    });
+    // The last record may lack its ^
+    endRecord();
+
+    if (statements.length === 0) {
+        throw new Error('No bank, cash or credit card transactions found in the file');
+    }
+    return statements;
+}
+
+/**
+ * Turn the fields of a QIF record into an import row
+ */
+function readRecord(
+    fields: Record<string, string>,
+    source: number,
+    accountName: string,
+    dateFormat: string,
+    decimalSeparator: '.' | ','
+): ImportRow {
+    const category = fields['L'] || '';
+    const row: ImportRow = {
+        source,
+        date: parseQifDate(fields['D'] || '', dateFormat),
+        type: 'expense',
+        amount: 0,
+        accountName,
+        // "Food:Groceries/Vacation" is the category Groceries under Food, with the class Vacation
+        categoryName: category.split('/')[0].split(':').pop()!.trim(),
+        tagNames: [],
+        description: fields['P'] || fields['M'] || '',
+        note: [fields['P'] ? fields['M'] : '', fields['N'] && /^\d+$/.test(fields['N']) ? `#${fields['N']}` : '']
+            .filter(Boolean).join(' ')
+    };
+
+    if (!row.date) {
+        row.error = `Invalid date "${fields['D'] || ''}"`;
+        return row;
+    }
+    const amountText = fields['T'] || fields['U'] || '';
+    const amount = parseAmount(amountText, decimalSeparator);
+    if (isNaN(amount) || amount === 0) {
+        row.error = `Invalid amount "${amountText}"`;
+        return row;
+    }
+    row.amount = Math.abs(amount);
+    row.type = amount < 0 ? 'expense' : 'income';
+
+    // [Savings] is a transfer to another account, which the other account's file contains as well
+    if (/^\[.*\]$/.test(category)) {
+        row.error = `Transfer ${category} skipped`;
+    }
+    return row;
+}
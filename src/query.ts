@@ -0,0 +1,424 @@
+// Query language of ```accounting code blocks, e.g.
+// "from 2025-01 to 2025-03 where category = 餐饮 group by month show table"
+
+import { moment } from 'obsidian';
+import { Account, Category, Tag, Transaction, flattenHierarchy } from './models';
+import { AccountingPluginSettings } from './settings';
+import { convertTransactionAmount } from './currency';
+import { CategoryAmount, getAccountDescendantIds, getAllDescendantIds, getCategoryAmounts, getDatePart, isTransactionForAccount } from './utils';
+
+export type QueryField = 'date' | 'type' | 'account' | 'category' | 'tag' | 'amount' | 'text';
+export type QueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+export type QueryGroupBy = 'day' | 'week' | 'month' | 'year' | 'category' | 'account' | 'tag';
+export type QueryAggregate = 'sum' | 'count' | 'avg';
+export type QueryDisplay = 'table' | 'bar' | 'pie';
+
+const QUERY_FIELDS: QueryField[] = ['date', 'type', 'account', 'category', 'tag', 'amount', 'text'];
+const QUERY_OPERATORS: QueryOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'contains'];
+const GROUP_BY_VALUES: QueryGroupBy[] = ['day', 'week', 'month', 'year', 'category', 'account', 'tag'];
+const AGGREGATES: QueryAggregate[] = ['sum', 'count', 'avg'];
+const DISPLAYS: QueryDisplay[] = ['table', 'bar', 'pie'];
+
+/**
+ * Accepted spellings of fields, e.g. "tags" for "tag"
+ */
+const FIELD_ALIASES: Record<string, QueryField> = {
+    tags: 'tag',
+    description: 'text',
+    note: 'text'
+};
+
+/**
+ * Date formats of periods, e.g. "2025" for the whole year
+ */
+const PERIOD_FORMATS: Array<{ format: string, unit: moment.unitOfTime.StartOf }> = [
+    { format: 'YYYY-MM-DD', unit: 'day' },
+    { format: 'YYYY-MM', unit: 'month' },
+    { format: 'YYYY', unit: 'year' }
+];
+
+/**
+ * Labels of time groups, which also sort in time order
+ */
+const TIME_GROUP_FORMATS: Partial<Record<QueryGroupBy, string>> = {
+    day: 'YYYY-MM-DD',
+    week: 'GGGG-[W]WW',
+    month: 'YYYY-MM',
+    year: 'YYYY'
+};
+
+export interface QueryCondition {
+    field: QueryField;
+    operator: QueryOperator;
+    value: string;
+}
+
+/**
+ * A parsed query
+ */
+export interface AccountingQuery {
+    /** First day included (YYYY-MM-DD) */
+    from?: string;
+    /** Last day included (YYYY-MM-DD) */
+    to?: string;
+    conditions: QueryCondition[];
+    groupBy?: QueryGroupBy;
+    aggregate: QueryAggregate;
+    display: QueryDisplay;
+    limit?: number;
+}
+
+/**
+ * Totals of one group, amounts in the base currency. Transfers are only counted.
+ */
+export interface QueryGroup {
+    key: string;
+    label: string;
+    income: number;
+    expense: number;
+    incomeCount: number;
+    expenseCount: number;
+    count: number;
+}
+
+/**
+ * Result of running a query
+ */
+export interface QueryResult {
+    /** The matching transactions, newest first */
+    transactions: Transaction[];
+    /** Set when the query groups its results */
+    groups?: QueryGroup[];
+    error?: string;
+}
+
+/**
+ * Test of one condition. Category and tag conditions test the parts of a transaction,
+ * so that only the parts of a split transaction they match are counted.
+ */
+interface CompiledCondition {
+    transaction?: (transaction: Transaction) => boolean;
+    part?: (part: CategoryAmount) => boolean;
+}
+
+/**
+ * Split a query into words, keeping quoted text together and operators apart
+ */
+function tokenizeQuery(source: string): string[] {
+    const tokens: string[] = [];
+    const tokenRegex = /"([^"]*)"|'([^']*)'|(!=|>=|<=|=|>|<)|([^\s=<>!"']+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(source)) !== null) {
+        tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+    }
+    return tokens;
+}
+
+/**
+ * Read a period such as "2025", "2025-03", "2025-03-15" or "today"
+ * @returns The first and last day of the period, or null when the text is not a period
+ */
+function parsePeriod(text: string): { start: string, end: string } | null {
+    if (text.toLowerCase() === 'today') {
+        const today = moment().format('YYYY-MM-DD');
+        return { start: today, end: today };
+    }
+    for (const { format, unit } of PERIOD_FORMATS) {
+        const date = moment(text, format, true);
+        if (date.isValid()) {
+            return {
+                start: date.clone().startOf(unit).format('YYYY-MM-DD'),
+                end: date.clone().endOf(unit).format('YYYY-MM-DD')
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse the text of an accounting code block. Clauses may come in any order:
+ * `from <period>`, `to <period>`, `where <field> <op> <value> [and ...]`,
+ * `group by <day|week|month|year|category|account|tag>`, `aggregate <sum|count|avg>`,
+ * `show <table|bar|pie>` and `limit <n>`.
+ * @param source The query text
+ * @returns The query, or an error describing the first problem
+ */
+export function parseQuery(source: string): { query?: AccountingQuery, error?: string } {
+    const tokens = tokenizeQuery(source);
+    const query: AccountingQuery = { conditions: [], aggregate: 'sum', display: 'table' };
+    let index = 0;
+    const next = (): string | undefined => tokens[index++];
+    const expectOneOf = <T extends string>(clause: string, values: readonly T[]): T => {
+        const value = next()?.toLowerCase();
+        if (!value || !values.includes(value as T)) {
+            throw new Error(`"${clause}" expects one of ${values.join(', ')}${value ? `, got "${value}"` : ''}`);
+        }
+        return value as T;
+    };
+
+    try {
+        while (index < tokens.length) {
+            const keyword = next()!.toLowerCase();
+            switch (keyword) {
+                case 'from':
+                case 'to': {
+                    const text = next();
+                    const period = text ? parsePeriod(text) : null;
+                    if (!period) {
+                        throw new Error(`"${keyword}" expects a date like 2025, 2025-03 or 2025-03-15${text ? `, got "${text}"` : ''}`);
+                    }
+                    if (keyword === 'from') {
+                        query.from = period.start;
+                    } else {
+                        query.to = period.end;
+                    }
+                    break;
+                }
+                case 'where':
+                case 'and': {
+                    const rawField = next()?.toLowerCase() || '';
+                    const field = FIELD_ALIASES[rawField] || rawField as QueryField;
+                    if (!QUERY_FIELDS.includes(field)) {
+                        throw new Error(`Unknown field "${rawField}", expected one of ${QUERY_FIELDS.join(', ')}`);
+                    }
+                    const operator = expectOneOf(field, QUERY_OPERATORS);
+                    const value = next();
+                    if (value === undefined) {
+                        throw new Error(`Missing value after "${field} ${operator}"`);
+                    }
+                    if (field === 'amount' && isNaN(parseFloat(value))) {
+                        throw new Error(`"amount" expects a number, got "${value}"`);
+                    }
+                    if (field === 'date' && !parsePeriod(value)) {
+                        throw new Error(`"date" expects a date like 2025, 2025-03 or 2025-03-15, got "${value}"`);
+                    }
+                    query.conditions.push({ field, operator, value });
+                    break;
+                }
+                case 'group':
+                    if (next()?.toLowerCase() !== 'by') {
+                        throw new Error('Expected "group by"');
+                    }
+                    query.groupBy = expectOneOf('group by', GROUP_BY_VALUES);
+                    break;
+                case 'aggregate':
+                    query.aggregate = expectOneOf('aggregate', AGGREGATES);
+                    break;
+                case 'show':
+                    query.display = expectOneOf('show', DISPLAYS);
+                    break;
+                case 'limit': {
+                    const limit = parseInt(next() || '', 10);
+                    if (isNaN(limit) || limit < 1) {
+                        throw new Error('"limit" expects a positive number');
+                    }
+                    query.limit = limit;
+                    break;
+                }
+                default:
+                    throw new Error(`Unexpected "${keyword}"`);
+            }
+        }
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (query.display !== 'table' && !query.groupBy) {
+        return { error: `"show ${query.display}" needs a "group by" clause` };
+    }
+    return { query };
+}
+
+/**
+ * Compare two values with a query operator
+ */
+function compare(actual: number | string, operator: QueryOperator, expected: number | string): boolean {
+    switch (operator) {
+        case '=': return actual === expected;
+        case '!=': return actual !== expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case 'contains': return String(actual).includes(String(expected));
+    }
+}
+
+/**
+ * Build the test of a condition, resolving names against the settings
+ * @throws When a name doesn't match any account, category or tag
+ */
+function compileCondition(condition: QueryCondition, settings: AccountingPluginSettings): CompiledCondition {
+    const { field, operator, value } = condition;
+    const negate = operator === '!=';
+    const lowerValue = value.toLowerCase();
+
+    // Names match the item and everything below it
+    const resolveIds = <T extends { id: string, name: string, children?: T[] }>(
+        items: T[],
+        label: string,
+        getDescendantIds: (id: string) => string[]
+    ): Set<string> => {
+        const matches = flattenHierarchy(items).filter(item => item.name.toLowerCase() === lowerValue);
+        if (matches.length === 0) {
+            throw new Error(`Unknown ${label} "${value}"`);
+        }
+        return new Set(matches.flatMap(item => getDescendantIds(item.id)));
+    };
+    const membership = <T>(test: (value: T) => boolean) => {
+        if (operator !== '=' && operator !== '!=') {
+            throw new Error(`"${field}" only supports = and !=`);
+        }
+        return (value: T) => test(value) !== negate;
+    };
+
+    switch (field) {
+        case 'date': {
+            const period = parsePeriod(value)!;
+            return { transaction: transaction => {
+                const date = getDatePart(transaction.date);
+                switch (operator) {
+                    case '=': return date >= period.start && date <= period.end;
+                    case '!=': return date < period.start || date > period.end;
+                    case '>': return date > period.end;
+                    case '>=': return date >= period.start;
+                    case '<': return date < period.start;
+                    case '<=': return date <= period.end;
+                    case 'contains': return date.includes(value);
+                }
+            } };
+        }
+        case 'amount':
+            return { transaction: transaction => compare(transaction.amount, operator, parseFloat(value)) };
+        case 'text':
+            return { transaction: transaction => {
+                const text = [transaction.description, transaction.note].filter(Boolean).join(' ').toLowerCase();
+                return operator === 'contains' ? text.includes(lowerValue) : compare(text, operator, lowerValue);
+            } };
+        case 'type':
+            return { transaction: membership<Transaction>(transaction => transaction.type === lowerValue) };
+        case 'account': {
+            const ids = resolveIds(settings.accounts, 'account', id => getAccountDescendantIds(settings.accounts, id));
+            return { transaction: membership<Transaction>(transaction => [...ids].some(id => isTransactionForAccount(transaction, id))) };
+        }
+        case 'category': {
+            const ids = resolveIds(settings.categories, 'category', id => getAllDescendantIds(settings.categories, id));
+            return { part: membership<CategoryAmount>(part => ids.has(part.categoryId)) };
+        }
+        case 'tag': {
+            const ids = resolveIds(settings.tags, 'tag', id => getAllDescendantIds(settings.tags, id));
+            return { part: membership<CategoryAmount>(part => part.tagIds.some(id => ids.has(id))) };
+        }
+    }
+}
+
+/**
+ * Find the groups the matching parts of a transaction belong to
+ * @param transaction The transaction
+ * @param parts The parts of the transaction that match the query
+ * @param groupBy What to group by
+ * @returns The amount of the transaction in each of its groups, by group key
+ */
+function getGroupAmounts(transaction: Transaction, parts: CategoryAmount[], groupBy: QueryGroupBy): Map<string, number> {
+    const amounts = new Map<string, number>();
+    const add = (key: string, amount: number) => amounts.set(key, (amounts.get(key) || 0) + amount);
+    const timeFormat = TIME_GROUP_FORMATS[groupBy];
+    parts.forEach(part => {
+        if (timeFormat) {
+            add(moment(getDatePart(transaction.date), 'YYYY-MM-DD').format(timeFormat), part.amount);
+            return;
+        }
+        switch (groupBy) {
+            case 'category':
+                add(part.categoryId, part.amount);
+                break;
+            case 'account':
+                add((transaction.type === 'transfer' ? transaction.fromAccountId : transaction.accountId) || '', part.amount);
+                break;
+            case 'tag':
+                if (part.tagIds.length > 0) {
+                    part.tagIds.forEach(id => add(id, part.amount));
+                } else {
+                    add('', part.amount);
+                }
+                break;
+        }
+    });
+    return amounts;
+}
+
+/**
+ * Run a query over transactions
+ * @param query The parsed query
+ * @param transactions All transactions
+ * @param settings The plugin settings
+ * @returns The matching transactions and, when grouped, the totals per group
+ */
+export function runQuery(query: AccountingQuery, transactions: Transaction[], settings: AccountingPluginSettings): QueryResult {
+    let conditions: CompiledCondition[];
+    try {
+        conditions = query.conditions.map(condition => compileCondition(condition, settings));
+    } catch (error) {
+        return { transactions: [], error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // A transaction matches when at least one of its parts passes every part condition
+    const matchingParts = new Map<Transaction, CategoryAmount[]>();
+    transactions.forEach(transaction => {
+        const date = getDatePart(transaction.date);
+        if ((query.from && date < query.from) || (query.to && date > query.to)) {
+            return;
+        }
+        if (!conditions.every(condition => !condition.transaction || condition.transaction(transaction))) {
+            return;
+        }
+        const parts = getCategoryAmounts(transaction)
+            .filter(part => conditions.every(condition => !condition.part || condition.part(part)));
+        if (parts.length > 0) {
+            matchingParts.set(transaction, parts);
+        }
+    });
+    const matching = Array.from(matchingParts.keys()).sort((a, b) => b.date.localeCompare(a.date));
+
+    if (!query.groupBy) {
+        return { transactions: query.limit ? matching.slice(0, query.limit) : matching };
+    }
+
+    const groupBy = query.groupBy;
+    const groups = new Map<string, QueryGroup>();
+    matching.forEach(transaction => {
+        getGroupAmounts(transaction, matchingParts.get(transaction) || [], groupBy).forEach((amount, key) => {
+            let group = groups.get(key);
+            if (!group) {
+                group = { key, label: key, income: 0, expense: 0, incomeCount: 0, expenseCount: 0, count: 0 };
+                groups.set(key, group);
+            }
+            group.count++;
+            if (transaction.type === 'income') {
+                group.income += convertTransactionAmount(transaction, settings, amount);
+                group.incomeCount++;
+            } else if (transaction.type === 'expense') {
+                group.expense += convertTransactionAmount(transaction, settings, amount);
+                group.expenseCount++;
+            }
+        });
+    });
+
+    // Name the groups of accounts, categories and tags
+    const items = groupBy === 'category' ? settings.categories : groupBy === 'account' ? settings.accounts : groupBy === 'tag' ? settings.tags : null;
+    let sortedGroups = Array.from(groups.values());
+    if (items) {
+        const flatItems: Array<{ id: string, name: string }> = flattenHierarchy<Account | Category | Tag>(items);
+        sortedGroups.forEach(group => {
+            group.label = flatItems.find(item => item.id === group.key)?.name || '—';
+        });
+        sortedGroups.sort((a, b) => (b.income + b.expense) - (a.income + a.expense));
+    } else {
+        sortedGroups.sort((a, b) => a.key.localeCompare(b.key));
+    }
+    if (query.limit) {
+        sortedGroups = sortedGroups.slice(0, query.limit);
+    }
+
+    return { transactions: matching, groups: sortedGroups };
+}
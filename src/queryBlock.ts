@@ -0,0 +1,231 @@
+// Rendering of ```accounting query code blocks
+
+import { MarkdownPostProcessorContext, MarkdownRenderChild } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Transaction, flattenHierarchy } from './models';
+import { convertTransactionAmount, formatCurrency, getTransactionCurrency } from './currency';
+import { addIncomeExpenseLegend, generateCategoryColors, renderCategoryPieChart, renderIncomeExpenseBarChart } from './charts';
+import { AccountingQuery, QueryGroup, parseQuery, runQuery } from './query';
+import { getCategoryAmounts } from './utils';
+
+/**
+ * Language of the code blocks holding queries
+ */
+export const QUERY_BLOCK_LANGUAGE = 'accounting';
+
+/**
+ * A rendered query block, re-rendered whenever the transaction index changes
+ */
+class QueryBlockRenderer extends MarkdownRenderChild {
+    private plugin: AccountingPlugin;
+    private source: string;
+    private transactionsChangedListener: () => void;
+
+    constructor(containerEl: HTMLElement, plugin: AccountingPlugin, source: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+        this.transactionsChangedListener = () => this.render();
+    }
+
+    onload() {
+        this.plugin.events.on('transactions-updated', this.transactionsChangedListener);
+        this.render();
+    }
+
+    onunload() {
+        this.plugin.events.off('transactions-updated', this.transactionsChangedListener);
+    }
+
+    private render(): void {
+        const containerEl = this.containerEl;
+        const i18n = this.plugin.i18n;
+        containerEl.empty();
+        containerEl.addClass('accounting-query');
+
+        const parsed = parseQuery(this.source);
+        if (!parsed.query) {
+            this.renderError(parsed.error || '');
+            return;
+        }
+        const query = parsed.query;
+        const result = runQuery(query, this.plugin.transactions, this.plugin.settings);
+        if (result.error) {
+            this.renderError(result.error);
+            return;
+        }
+
+        if (result.transactions.length === 0) {
+            containerEl.createDiv({ text: i18n.t('QUERY_NO_RESULTS'), cls: 'accounting-query-empty' });
+            return;
+        }
+
+        if (!result.groups) {
+            this.renderTransactionTable(result.transactions);
+        } else if (query.display === 'bar') {
+            renderIncomeExpenseBarChart(containerEl, result.groups, (amount, digits) => this.formatMoney(amount, digits));
+            addIncomeExpenseLegend(containerEl);
+        } else if (query.display === 'pie') {
+            this.renderPieChart(result.groups);
+        } else {
+            this.renderGroupTable(query, result.groups);
+        }
+    }
+
+    private renderError(message: string): void {
+        this.containerEl.createDiv({ text: `${this.plugin.i18n.t('QUERY_ERROR')}: ${message}`, cls: 'accounting-query-error' });
+    }
+
+    /**
+     * Format an amount in the base currency
+     */
+    private formatMoney(amount: number, fractionDigits = 2): string {
+        return formatCurrency(amount, this.plugin.settings.baseCurrency, fractionDigits);
+    }
+
+    /**
+     * List the matching transactions with the totals of income and expense below them
+     */
+    private renderTransactionTable(transactions: Transaction[]): void {
+        const i18n = this.plugin.i18n;
+        const settings = this.plugin.settings;
+        const categories = flattenHierarchy(settings.categories);
+        const accounts = flattenHierarchy(settings.accounts);
+        const tags = flattenHierarchy(settings.tags);
+        const nameOf = (items: Array<{ id: string, name: string }>, id: string | undefined) =>
+            items.find(item => item.id === id)?.name || '';
+
+        const table = this.containerEl.createEl('table', { cls: 'transactions-table accounting-query-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        [i18n.t('DATE'), i18n.t('DESCRIPTION_FIELD'), i18n.t('CATEGORY_FIELD'), i18n.t('ACCOUNT_FIELD'), i18n.t('TAGS_FIELD'), i18n.t('AMOUNT')]
+            .forEach(header => headerRow.createEl('th', { text: header }));
+
+        const tbody = table.createEl('tbody');
+        transactions.forEach(transaction => {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: transaction.date });
+            row.createEl('td', { text: transaction.description || '' });
+            row.createEl('td', { text: getCategoryAmounts(transaction).map(part => nameOf(categories, part.categoryId)).filter(Boolean).join(', ') });
+            row.createEl('td', {
+                text: transaction.type === 'transfer'
+                    ? `${nameOf(accounts, transaction.fromAccountId)} → ${nameOf(accounts, transaction.toAccountId)}`
+                    : nameOf(accounts, transaction.accountId)
+            });
+            row.createEl('td', { text: transaction.tagIds.map(id => nameOf(tags, id)).filter(Boolean).join(', ') });
+            const sign = transaction.type === 'expense' ? '-' : transaction.type === 'income' ? '+' : '';
+            row.createEl('td', {
+                text: sign + formatCurrency(transaction.amount, getTransactionCurrency(transaction, settings)),
+                cls: transaction.type === 'income' ? 'income-value' : transaction.type === 'expense' ? 'expense-value' : ''
+            });
+        });
+
+        // Totals in the base currency
+        let income = 0;
+        let expense = 0;
+        transactions.forEach(transaction => {
+            if (transaction.type === 'income') {
+                income += convertTransactionAmount(transaction, settings);
+            } else if (transaction.type === 'expense') {
+                expense += convertTransactionAmount(transaction, settings);
+            }
+        });
+        const footer = this.containerEl.createDiv({ cls: 'accounting-query-summary' });
+        footer.createSpan({ text: `${i18n.t('QUERY_COUNT')}: ${transactions.length}` });
+        footer.createSpan({ text: `${i18n.t('INCOME')}: ${this.formatMoney(income)}`, cls: 'income-value' });
+        footer.createSpan({ text: `${i18n.t('EXPENSE')}: ${this.formatMoney(expense)}`, cls: 'expense-value' });
+        footer.createSpan({ text: `${i18n.t('NET_INCOME')}: ${this.formatMoney(income - expense)}` });
+    }
+
+    /**
+     * Show the groups as rows, with the columns of the query's aggregate
+     */
+    private renderGroupTable(query: AccountingQuery, groups: QueryGroup[]): void {
+        const i18n = this.plugin.i18n;
+        const average = (amount: number, count: number) => count > 0 ? amount / count : 0;
+        const columns: Array<{ header: string, value: (group: QueryGroup) => string, cls?: string }> = [];
+        switch (query.aggregate) {
+            case 'count':
+                columns.push(
+                    { header: i18n.t('INCOME'), value: group => String(group.incomeCount), cls: 'income-value' },
+                    { header: i18n.t('EXPENSE'), value: group => String(group.expenseCount), cls: 'expense-value' },
+                    { header: i18n.t('QUERY_COUNT'), value: group => String(group.count) }
+                );
+                break;
+            case 'avg':
+                columns.push(
+                    { header: i18n.t('QUERY_AVERAGE_INCOME'), value: group => this.formatMoney(average(group.income, group.incomeCount)), cls: 'income-value' },
+                    { header: i18n.t('QUERY_AVERAGE_EXPENSE'), value: group => this.formatMoney(average(group.expense, group.expenseCount)), cls: 'expense-value' },
+                    { header: i18n.t('QUERY_COUNT'), value: group => String(group.count) }
+                );
+                break;
+            default:
+                columns.push(
+                    { header: i18n.t('INCOME'), value: group => this.formatMoney(group.income), cls: 'income-value' },
+                    { header: i18n.t('EXPENSE'), value: group => this.formatMoney(group.expense), cls: 'expense-value' },
+                    { header: i18n.t('NET_INCOME'), value: group => this.formatMoney(group.income - group.expense) },
+                    { header: i18n.t('QUERY_COUNT'), value: group => String(group.count) }
+                );
+        }
+
+        const table = this.containerEl.createEl('table', { cls: 'report-table accounting-query-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headerRow.createEl('th', { text: i18n.t('QUERY_GROUP') });
+        columns.forEach(column => headerRow.createEl('th', { text: column.header }));
+
+        const tbody = table.createEl('tbody');
+        groups.forEach(group => {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: group.label });
+            columns.forEach(column => row.createEl('td', { text: column.value(group), cls: column.cls }));
+        });
+
+        // Sums add up across groups; averages and counts over all groups are shown too
+        const total: QueryGroup = { key: '', label: i18n.t('QUERY_TOTAL'), income: 0, expense: 0, incomeCount: 0, expenseCount: 0, count: 0 };
+        groups.forEach(group => {
+            total.income += group.income;
+            total.expense += group.expense;
+            total.incomeCount += group.incomeCount;
+            total.expenseCount += group.expenseCount;
+            total.count += group.count;
+        });
+        const totalRow = table.createEl('tfoot').createEl('tr');
+        totalRow.createEl('th', { text: total.label });
+        columns.forEach(column => totalRow.createEl('th', { text: column.value(total), cls: column.cls }));
+    }
+
+    /**
+     * Show the share of each group in the expenses, or in the income when there are no expenses
+     */
+    private renderPieChart(groups: QueryGroup[]): void {
+        const hasExpense = groups.some(group => group.expense > 0);
+        const data = groups
+            .map(group => ({ name: group.label, amount: hasExpense ? group.expense : group.income }))
+            .filter(item => item.amount > 0)
+            .sort((a, b) => b.amount - a.amount);
+        const total = data.reduce((sum, item) => sum + item.amount, 0);
+        renderCategoryPieChart(this.containerEl, data, total, (amount, digits) => this.formatMoney(amount, digits));
+
+
+        // Same slices as the chart: the nine largest, then everything else as one
+        const slices = data.length > 10
+            ? [...data.slice(0, 9), { name: this.plugin.i18n.t('QUERY_OTHER'), amount: data.slice(9).reduce((sum, item) => sum + item.amount, 0) }]
+            : data;
+        const colors = generateCategoryColors(slices.length);
+        const legend = this.containerEl.createDiv({ cls: 'chart-legend accounting-query-legend' });
+        slices.forEach((slice, index) => {
+            const legendItem = legend.createDiv({ cls: 'legend-item' });
+            legendItem.createDiv({ cls: 'legend-color' }).style.background = colors[index];
+            legendItem.createSpan({ text: `${slice.name} ${this.formatMoney(slice.amount)} (${((slice.amount / total) * 100).toFixed(1)}%)` });
+        });
+    }
+}
+
+/**
+ * Create the processor of accounting code blocks
+ * @param plugin The plugin instance
+ */
+export function createQueryBlockProcessor(plugin: AccountingPlugin) {
+    return (source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+        ctx.addChild(new QueryBlockRenderer(el, plugin, source));
+    };
+}
@@ -0,0 +1,300 @@
+// Natural-language quick entry, e.g. "/accounting 35.5 午餐 微信 #工作 lunch with team"
+
+import { App, Modal, Setting, moment } from 'obsidian';
+import AccountingPlugin from '../main';
+import { Account, Category, Transaction, TransactionType, flattenHierarchy, generateId } from './models';
+import { AccountingPluginSettings } from './settings';
+import { findAccountById, findCategoryById, findTagById, formatTransactionForFile } from './utils';
+
+/**
+ * Why a quick entry can't be written without reviewing it in the full modal
+ */
+export type QuickEntryProblemKind =
+    | 'missing-amount'
+    | 'missing-account'
+    | 'missing-category'
+    | 'ambiguous-account'
+    | 'ambiguous-category'
+    | 'unknown-tag';
+
+export interface QuickEntryProblem {
+    kind: QuickEntryProblemKind;
+    /** The text the problem is about, e.g. the ambiguous name */
+    text?: string;
+}
+
+/**
+ * A parsed quick entry
+ */
+export interface QuickEntryResult {
+    /** The fields that could be read from the text */
+    transaction: Partial<Transaction>;
+    /** Empty when the transaction is complete and unambiguous */
+    problems: QuickEntryProblem[];
+}
+
+/**
+ * Words that set the date, relative to today
+ */
+const DATE_WORDS: Record<string, number> = {
+    'today': 0,
+    '今天': 0,
+    'yesterday': -1,
+    '昨天': -1,
+    '前天': -2,
+    'tomorrow': 1,
+    '明天': 1
+};
+
+/**
+ * Words that set the transaction type explicitly
+ */
+const TYPE_WORDS: Record<string, TransactionType> = {
+    'expense': 'expense',
+    'spent': 'expense',
+    '支出': 'expense',
+    'income': 'income',
+    'earned': 'income',
+    '收入': 'income'
+};
+
+/**
+ * Longest account or category name, in words, tried when matching the text
+ */
+const MAX_NAME_WORDS = 4;
+
+/**
+ * Amounts with an optional currency symbol before or a Chinese unit after them
+ */
+const AMOUNT_PATTERN = /^[¥$€£]?(\d+(?:\.\d+)?)(?:元|块)?$/;
+
+/**
+ * Find every item of a hierarchy with a name, case-insensitively
+ */
+export function findAllByName<T extends { id: string, name: string, children?: T[] }>(items: T[], name: string): Omit<T, 'children'>[] {
+    const lowerName = name.toLowerCase();
+    return flattenHierarchy(items).filter(item => item.name.toLowerCase() === lowerName);
+}
+
+/**
+ * Read a date token: a date word, YYYY-MM-DD, or MM-DD / M/D in the current year
+ * @returns The date (YYYY-MM-DD), or null when the token is not a date
+ */
+export function parseDateToken(token: string, now: moment.Moment): string | null {
+    const lowerToken = token.toLowerCase();
+    if (lowerToken in DATE_WORDS) {
+        return now.clone().add(DATE_WORDS[lowerToken], 'days').format('YYYY-MM-DD');
+    }
+    const full = moment(token, ['YYYY-MM-DD', 'YYYY/MM/DD'], true);
+    if (full.isValid()) {
+        return full.format('YYYY-MM-DD');
+    }
+    const short = moment(token, ['MM-DD', 'M-D', 'M/D', 'MM/DD'], true);
+    if (short.isValid()) {
+        return short.year(now.year()).format('YYYY-MM-DD');
+    }
+    return null;
+}
+
+/**
+ * Parse the text of a quick entry. The amount, date words, explicit type words and
+ * `#tags` are recognised anywhere; account and category names (of up to four words) are
+ * matched against the settings; everything else becomes the description. The type
+ * follows the category unless it is given explicitly.
+ * @param text The text after the slash command
+ * @param settings The plugin settings
+ * @param now The current time
+ */
+export function parseQuickEntry(text: string, settings: AccountingPluginSettings, now: moment.Moment = moment()): QuickEntryResult {
+    const tokens = text.trim().split(/\s+/).filter(token => token.length > 0);
+    const problems: QuickEntryProblem[] = [];
+    const descriptionWords: string[] = [];
+    const tagIds: string[] = [];
+
+    let amount: number | undefined;
+    let date: string | undefined;
+    let time: string | undefined;
+    let explicitType: TransactionType | undefined;
+    let accounts: Omit<Account, 'children'>[] = [];
+    let categories: Omit<Category, 'children'>[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const lowerToken = token.toLowerCase();
+
+        const amountMatch = amount === undefined ? token.match(AMOUNT_PATTERN) : null;
+        if (amountMatch) {
+            amount = parseFloat(amountMatch[1]);
+            continue;
+        }
+
+        if (/^\d{1,2}:\d{2}$/.test(token) && moment(token, 'H:mm', true).isValid()) {
+            time = moment(token, 'H:mm', true).format('HH:mm');
+            continue;
+        }
+
+        const tokenDate = parseDateToken(token, now);
+        if (tokenDate) {
+            date = tokenDate;
+            continue;
+        }
+
+        if (lowerToken in TYPE_WORDS) {
+            explicitType = TYPE_WORDS[lowerToken];
+            continue;
+        }
+
+        if (token.startsWith('#') && token.length > 1) {
+            const tags = findAllByName(settings.tags, token.substring(1));
+            if (tags.length > 0) {
+                tagIds.push(tags[0].id);
+            } else {
+                problems.push({ kind: 'unknown-tag', text: token.substring(1) });
+            }
+            continue;
+        }
+
+        // Names may span several words; the longest match wins
+        let matched = false;
+        for (let length = Math.min(MAX_NAME_WORDS, tokens.length - i); length >= 1 && !matched; length--) {
+            const name = tokens.slice(i, i + length).join(' ');
+            const nameAccounts = accounts.length === 0 ? findAllByName(settings.accounts, name) : [];
+            const nameCategories = categories.length === 0 ? findAllByName(settings.categories, name) : [];
+            if (nameCategories.length > 0) {
+                categories = nameCategories;
+            } else if (nameAccounts.length > 0) {
+                accounts = nameAccounts;
+            } else {
+                continue;
+            }
+            matched = true;
+            i += length - 1;
+        }
+        if (!matched) {
+            descriptionWords.push(token);
+        }
+    }
+
+    // An explicit type narrows down categories that exist for both types
+    if (explicitType && categories.length > 1) {
+        const ofType = categories.filter(category => category.type === explicitType);
+        if (ofType.length > 0) {
+            categories = ofType;
+        }
+    }
+
+    const category = categories.length === 1 ? categories[0] : undefined;
+    const account = accounts.length === 1 ? accounts[0] : undefined;
+    const type: TransactionType = explicitType || category?.type || 'expense';
+
+    if (amount === undefined || amount <= 0) {
+        problems.unshift({ kind: 'missing-amount' });
+    }
+    if (accounts.length > 1) {
+        problems.push({ kind: 'ambiguous-account', text: accounts[0].name });
+    } else if (!account) {
+        problems.push({ kind: 'missing-account' });
+    }
+    if (categories.length > 1) {
+        problems.push({ kind: 'ambiguous-category', text: categories[0].name });
+    } else if (!category || category.type !== type) {
+        problems.push({ kind: 'missing-category' });
+    }
+
+    const transaction: Partial<Transaction> = {
+        id: generateId(),
+        date: `${date || now.format('YYYY-MM-DD')} ${time || now.format('HH:mm')}`,
+        type,
+        amount: amount || 0,
+        accountId: account?.id || '',
+        categoryId: category && category.type === type ? category.id : '',
+        tagIds,
+        note: ''
+    };
+    if (descriptionWords.length > 0) {
+        transaction.description = descriptionWords.join(' ');
+    }
+
+    return { transaction, problems };
+}
+
+/**
+ * Preview of a parsed quick entry, asking for confirmation before it is written
+ */
+export class QuickEntryConfirmModal extends Modal {
+    private plugin: AccountingPlugin;
+    private transaction: Transaction;
+    private onConfirm: (transaction: Transaction) => void;
+    private onEdit: (transaction: Transaction) => void;
+
+    constructor(
+        app: App,
+        plugin: AccountingPlugin,
+        transaction: Transaction,
+        onConfirm: (transaction: Transaction) => void,
+        onEdit: (transaction: Transaction) => void
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.transaction = transaction;
+        this.onConfirm = onConfirm;
+        this.onEdit = onEdit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        const settings = this.plugin.settings;
+        const transaction = this.transaction;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: i18n.t('QUICK_ENTRY_CONFIRM') });
+
+        const typeLabels: Record<TransactionType, string> = {
+            expense: i18n.t('EXPENSE'),
+            income: i18n.t('INCOME'),
+            transfer: i18n.t('TRANSFER')
+        };
+        const rows: Array<[string, string]> = [
+            [i18n.t('DATE'), transaction.date],
+            [i18n.t('TRANSACTION_TYPE'), typeLabels[transaction.type]],
+            [i18n.t('AMOUNT'), transaction.amount.toFixed(2)],
+            [i18n.t('ACCOUNT_FIELD'), findAccountById(settings.accounts, transaction.accountId || '')?.name || ''],
+            [i18n.t('CATEGORY_FIELD'), findCategoryById(settings.categories, transaction.categoryId)?.name || ''],
+            [i18n.t('TAGS_FIELD'), transaction.tagIds.map(id => findTagById(settings.tags, id)?.name).filter(Boolean).join(', ')],
+            [i18n.t('DESCRIPTION_FIELD'), transaction.description || '']
+        ];
+        const table = contentEl.createEl('table', { cls: 'accounting-quick-entry-preview' });
+        rows.filter(([, value]) => value).forEach(([label, value]) => {
+            const row = table.createEl('tr');
+            row.createEl('th', { text: label });
+            row.createEl('td', { text: value });
+        });
+
+        // The line exactly as it will be written
+        try {
+            contentEl.createEl('pre', { text: formatTransactionForFile(transaction, settings), cls: 'accounting-quick-entry-line' });
+        } catch (error) {
+            console.error('Cannot format quick entry:', error);
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(i18n.t('EDIT'))
+                .onClick(() => {
+                    this.close();
+                    this.onEdit(transaction);
+                }))
+            .addButton(button => button
+                .setButtonText(i18n.t('SAVE'))
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onConfirm(transaction);
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,137 @@
+// Occurrences of recurring transaction rules
+
+import { RecurringFrequency, RecurringRule, Transaction } from './models';
+import { moment } from 'obsidian';
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Upper bound on the occurrences walked through, so a broken rule cannot loop forever
+ */
+const MAX_OCCURRENCES = 100000;
+
+/**
+ * Get the date of the nth period of a rule, counted from its start date
+ * @param rule The recurring rule
+ * @param index The period index, 0 for the start date
+ * @returns The date, or null when the period has no occurrence (e.g. no 5th Monday that month)
+ */
+function getPeriodDate(rule: RecurringRule, index: number): moment.Moment | null {
+    const start = moment(rule.startDate, DATE_FORMAT, true);
+    const steps = index * Math.max(1, rule.interval || 1);
+
+    switch (rule.frequency) {
+        case RecurringFrequency.Daily:
+            return start.add(steps, 'days');
+        case RecurringFrequency.Weekly:
+            return start.add(steps, 'weeks');
+        case RecurringFrequency.Yearly:
+            return start.add(steps, 'years');
+        case RecurringFrequency.Monthly:
+            break;
+        default:
+            return null;
+    }
+
+    if (!rule.monthlyRecurrence || rule.monthlyRecurrence === 'dayOfMonth') {
+        // moment keeps the day number and clamps it to the end of shorter months
+        return start.add(steps, 'months');
+    }
+
+    const weekday = start.day();
+    const month = start.clone().startOf('month').add(steps, 'months');
+    if (rule.monthlyRecurrence === 'lastWeekday') {
+        const date = month.clone().endOf('month').startOf('day');
+        while (date.day() !== weekday) {
+            date.subtract(1, 'day');
+        }
+        return date;
+    }
+
+    const nth = Math.ceil(start.date() / 7);
+    const date = month.clone();
+    while (date.day() !== weekday) {
+        date.add(1, 'day');
+    }
+    date.add(nth - 1, 'weeks');
+    return date.month() === month.month() ? date : null;
+}
+
+/**
+ * List the occurrence dates of a rule in a range, honouring its end date and count
+ * @param rule The recurring rule
+ * @param until Last date to include (YYYY-MM-DD)
+ * @param after Only include dates after this one (YYYY-MM-DD)
+ * @param limit Stop after this many dates
+ * @returns The dates (YYYY-MM-DD) in ascending order
+ */
+export function getRecurringOccurrences(rule: RecurringRule, until: string, after?: string, limit = Infinity): string[] {
+    const dates: string[] = [];
+    if (!moment(rule.startDate, DATE_FORMAT, true).isValid()) {
+        return dates;
+    }
+
+    let occurrences = 0;
+    for (let index = 0; index < MAX_OCCURRENCES && dates.length < limit; index++) {
+        const date = getPeriodDate(rule, index);
+        if (!date) continue;
+
+        const dateString = date.format(DATE_FORMAT);
+        if (dateString > until || (rule.endDate && dateString > rule.endDate)) break;
+        if (rule.count && occurrences >= rule.count) break;
+        occurrences++;
+
+        if (!after || dateString > after) {
+            dates.push(dateString);
+        }
+    }
+    return dates;
+}
+
+/**
+ * Get the occurrences of a rule that are due but not posted yet
+ * @param rule The recurring rule
+ * @param today Today's date (YYYY-MM-DD)
+ */
+export function getDueOccurrences(rule: RecurringRule, today: string): string[] {
+    if (!rule.enabled) {
+        return [];
+    }
+    return getRecurringOccurrences(rule, today, rule.lastPostedDate);
+}
+
+/**
+ * Get the next occurrences of a rule, for previewing a schedule
+ * @param rule The recurring rule
+ * @param today Today's date (YYYY-MM-DD); occurrences after it are listed
+ * @param limit Number of occurrences
+ */
+export function getUpcomingOccurrences(rule: RecurringRule, today: string, limit: number): string[] {
+    const after = rule.lastPostedDate && rule.lastPostedDate > today ? rule.lastPostedDate : today;
+    return getRecurringOccurrences(rule, '9999-12-31', after, limit);
+}
+
+/**
+ * Get the ID of the transaction posted for an occurrence. The ID is derived from the rule
+ * and the date so an occurrence that was already written can be recognised.
+ * @param rule The recurring rule
+ * @param date The occurrence date (YYYY-MM-DD)
+ */
+export function getRecurringTransactionId(rule: RecurringRule, date: string): string {
+    return `${rule.id}-${date.replace(/-/g, '')}`;
+}
+
+/**
+ * Create the transaction posted for an occurrence
+ * @param rule The recurring rule
+ * @param date The occurrence date (YYYY-MM-DD)
+ */
+export function createRecurringTransaction(rule: RecurringRule, date: string): Transaction {
+    return {
+        ...rule.transaction,
+        tagIds: [...(rule.transaction.tagIds || [])],
+        splits: rule.transaction.splits?.map(split => ({ ...split })),
+        id: getRecurringTransactionId(rule, date),
+        date: `${date} ${rule.time || '00:00'}`
+    };
+}
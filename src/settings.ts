@@ -1,8 +1,13 @@
 import { App, PluginSettingTab, Setting, Modal, Notice, moment, TextComponent, DropdownComponent } from 'obsidian';
 import AccountingPlugin from '../main';
-import { Account, Category, Tag, TransactionType, generateId, addItemToHierarchy, findItemById, updateItemInHierarchy, removeItemFromHierarchy, BudgetItem, BudgetScope, BudgetPeriod } from './models';
+import { Account, AccountType, ACCOUNT_TYPES, Category, Tag, TransactionType, generateId, getAccountType, addItemToHierarchy, findItemById, updateItemInHierarchy, removeItemFromHierarchy, BudgetItem, BudgetScope, BudgetPeriod, ExchangeRate, RecurringRule, RecurringFrequency, MonthlyRecurrence, flattenHierarchy } from './models';
 import { SupportedLocale, DEFAULT_LOCALE, localeDisplayNames, Translation } from './locales';
-import { parseTransactionsFromFile, findAccountById, findCategoryById, findTagById, normalizeTransactionDate, getDatePart, calculateBudgetSpending, getScopeName } from './utils';
+import { parseTransactionsFromFile, findAccountById, findCategoryById, findTagById, normalizeTransactionDate, getDatePart, calculateBudgetSpending, getScopeName, getAccountTypeName } from './utils';
+import { validateTemplate, TemplateField, REQUIRED_FIELDS, TRANSFER_REQUIRED_FIELDS } from './template';
+import { normalizeCurrencyCode } from './currency';
+import { getUpcomingOccurrences } from './recurring';
+import { ImportModal } from './importModal';
+import { ExportModal } from './exportModal';
 
 /**
  * Default categories for income and expense
@@ -166,6 +171,15 @@ const DEFAULT_TAGS: Tag[] = [
     }
 ];
 
+/**
+ * Default templates of versions without a transaction status. Saved templates that still
+ * equal them are replaced by the current defaults when the settings are loaded.
+ */
+export const PREVIOUS_DEFAULT_TEMPLATES: Pick<AccountingPluginSettings, 'transactionTemplate' | 'transferTemplate'> = {
+    transactionTemplate: '- {{date}} | {{type}} | {{amount}} | {{account}} | {{category}} | {{tags}} | {{description}} {{#note}}| {{note}}{{/note}}',
+    transferTemplate: '- {{date}} | transfer | {{amount}} | {{from}} -> {{to}} | {{tags}} | {{description}} {{#note}}| {{note}}{{/note}}'
+};
+
 /**
  * Default plugin settings
  */
@@ -174,10 +188,15 @@ export const DEFAULT_SETTINGS: AccountingPluginSettings = {
     categories: DEFAULT_CATEGORIES,
     tags: DEFAULT_TAGS,
     budgets: [],
+    baseCurrency: 'CNY',
+    exchangeRates: [],
+    recurringRules: [],
     outputFile: 'Accounting/transactions.md',
     useDailyNotes: false,
     dailyNotesFormat: 'YYYY-MM-DD',
-    transactionTemplate: '- {{date}} | {{type}} | {{amount}} | {{account}} | {{category}} | {{tags}} | {{description}} {{#note}}| {{note}}{{/note}}',
+    transactionTemplate: '- {{date}} | {{type}} | {{amount}} | {{account}} | {{category}} | {{tags}} | {{description}} {{#status}}[{{status}}] {{/status}}{{#note}}| {{note}}{{/note}}',
+    transferTemplate: '- {{date}} | transfer | {{amount}} | {{from}} -> {{to}} | {{tags}} | {{description}} {{#status}}[{{status}}] {{/status}}{{#note}}| {{note}}{{/note}}',
+    renderTransactionWidgets: true,
     locale: DEFAULT_LOCALE, // 默认语言（英文）
     followSystemLanguage: true // 默认跟随系统语言
 };
@@ -190,10 +209,15 @@ export interface AccountingPluginSettings {
     categories: Category[];
     tags: Tag[];
     budgets: BudgetItem[];
+    baseCurrency: string; // Currency all totals are converted to
+    exchangeRates: ExchangeRate[];
+    recurringRules: RecurringRule[];
     outputFile: string;
     useDailyNotes: boolean;
     dailyNotesFormat: string;
     transactionTemplate: string;
+    transferTemplate: string;
+    renderTransactionWidgets: boolean; // Show ledger lines as rows in reading view and live preview
     locale: SupportedLocale; // 添加语言设置
     followSystemLanguage: boolean; // 是否跟随系统语言
 }
@@ -233,6 +257,12 @@ export class AccountingSettingTab extends PluginSettingTab {
         // --- Budgets Section ---
         this.addBudgetsSection(containerEl);
 
+        // --- Recurring Transactions Section ---
+        this.addRecurringSection(containerEl);
+
+        // --- Exchange Rates Section ---
+        this.addExchangeRatesSection(containerEl);
+
         // --- Data Management ---
         containerEl.createEl('h3', { text: i18n.t('DATA_MANAGEMENT') });
         this.addDataManagementSection(containerEl);
@@ -320,17 +350,85 @@ export class AccountingSettingTab extends PluginSettingTab {
         }
 
         // Transaction Template Setting
+        this.addTemplateSetting(
+            containerEl,
+            i18n.t('TRANSACTION_TEMPLATE'),
+            i18n.t('TRANSACTION_TEMPLATE_DESC') || 'Template for formatting transactions.',
+            'transactionTemplate',
+            REQUIRED_FIELDS
+        );
+
+        // Transfer Template Setting
+        this.addTemplateSetting(
+            containerEl,
+            i18n.t('TRANSFER_TEMPLATE'),
+            i18n.t('TRANSFER_TEMPLATE_DESC'),
+            'transferTemplate',
+            TRANSFER_REQUIRED_FIELDS
+        );
+
+        // Transaction Widgets Setting
         new Setting(containerEl)
-            .setName(i18n.t('TRANSACTION_TEMPLATE'))
-            .setDesc(i18n.t('TRANSACTION_TEMPLATE_DESC') || 'Template for formatting transactions.')
-            .addTextArea(text => {
+            .setName(i18n.t('RENDER_TRANSACTION_WIDGETS'))
+            .setDesc(i18n.t('RENDER_TRANSACTION_WIDGETS_DESC'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.renderTransactionWidgets)
+                .onChange(async (value) => {
+                    this.plugin.settings.renderTransactionWidgets = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Base Currency Setting
+        new Setting(containerEl)
+            .setName(i18n.t('BASE_CURRENCY'))
+            .setDesc(i18n.t('BASE_CURRENCY_DESC'))
+            .addText(text => text
+                .setPlaceholder('CNY')
+                .setValue(this.plugin.settings.baseCurrency)
+                .onChange(async (value) => {
+                    const code = normalizeCurrencyCode(value);
+                    if (!code) return;
+                    this.plugin.settings.baseCurrency = code;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    /**
+     * Add a text area for one of the line templates. It is checked while typing and saved
+     * when the text area loses focus, so half-typed templates never become the live one.
+     */
+    private addTemplateSetting(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        key: 'transactionTemplate' | 'transferTemplate',
+        requiredFields: TemplateField[]
+    ): void {
+        const i18n = this.plugin.i18n;
+        const templateSetting = new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc);
+        const templateErrorEl = templateSetting.descEl.createDiv({ cls: 'accounting-template-error' });
+        const showTemplateError = (template: string): boolean => {
+            const error = validateTemplate(template, requiredFields);
+            templateErrorEl.setText(error ? i18n.t('TRANSACTION_TEMPLATE_INVALID').replace('{error}', error) : '');
+            return !error;
+        };
+        showTemplateError(this.plugin.settings[key]);
+        templateSetting.addTextArea(text => {
                 text
-                    .setPlaceholder('- {{date}} | {{type}} | {{amount}} | {{account}} | {{category}} | {{tags}} | {{description}} {{#note}}| {{note}}{{/note}}')
-                    .setValue(this.plugin.settings.transactionTemplate)
-                    .onChange(async (value) => {
-                        this.plugin.settings.transactionTemplate = value;
-                        await this.plugin.saveSettings();
-                    });
+                    .setPlaceholder(DEFAULT_SETTINGS[key])
+                    .setValue(this.plugin.settings[key])
+                    .onChange(value => showTemplateError(value));
+                text.inputEl.addEventListener('blur', async () => {
+                    const value = text.getValue();
+                    // Only keep templates that can be read back, otherwise existing records would stop parsing
+                    if (value === this.plugin.settings[key] || !showTemplateError(value)) {
+                        return;
+                    }
+                    this.plugin.settings[key] = value;
+                    await this.plugin.saveSettings();
+                });
                 text.inputEl.rows = 5;
                 text.inputEl.cols = 40;
             });
@@ -339,7 +437,20 @@ export class AccountingSettingTab extends PluginSettingTab {
     private addDataManagementSection(containerEl: HTMLElement): void {
         const i18n = this.plugin.i18n;
         // --- Data Import/Export ---
-        // Add import/export buttons and logic here later if needed
+        new Setting(containerEl)
+            .setName(i18n.t('IMPORT_TRANSACTIONS'))
+            .setDesc(i18n.t('IMPORT_TRANSACTIONS_DESC'))
+            .addButton(button => button
+                .setButtonText(i18n.t('IMPORT'))
+                .onClick(() => new ImportModal(this.app, this.plugin).open()));
+
+        new Setting(containerEl)
+            .setName(i18n.t('EXPORT_TRANSACTIONS'))
+            .setDesc(i18n.t('EXPORT_TRANSACTIONS_DESC'))
+            .addButton(button => button
+                .setButtonText(i18n.t('EXPORT'))
+                .onClick(() => new ExportModal(this.app, this.plugin).open()));
+
         new Setting(containerEl)
             .setName(i18n.t('EXPORT_DATA'))
             .setDesc(i18n.t('EXPORT_DATA_DESC'))
@@ -414,7 +525,7 @@ export class AccountingSettingTab extends PluginSettingTab {
         this.plugin.settings.accounts.forEach((account, index) => {
             const setting = new Setting(containerEl)
                 .setName(account.name)
-                .setDesc(account.description || ''); // Show description if available
+                .setDesc([getAccountTypeName(getAccountType(account), i18n), account.description].filter(Boolean).join(' · '));
 
             // Add Edit button (placeholder)
             setting.addButton(button => button
@@ -791,6 +902,135 @@ export class AccountingSettingTab extends PluginSettingTab {
             });
         }
     }
+
+    private addRecurringSection(containerEl: HTMLElement): void {
+        const i18n = this.plugin.i18n;
+        containerEl.createEl('h3', { text: i18n.t('RECURRING_TRANSACTIONS') });
+
+        new Setting(containerEl)
+            .setName(i18n.t('MANAGE_RECURRING'))
+            .setDesc(i18n.t('MANAGE_RECURRING_DESC'))
+            .addButton(button => button
+                .setButtonText(i18n.t('POST_RECURRING_TRANSACTIONS'))
+                .onClick(async () => {
+                    const posted = await this.plugin.postDueRecurringTransactions();
+                    if (posted === 0) {
+                        new Notice(i18n.t('NO_RECURRING_DUE'));
+                    }
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText(i18n.t('ADD_RECURRING'))
+                .setIcon('plus')
+                .onClick(() => {
+                    new RecurringRuleModal(this.app, this.plugin, (result) => {
+                        this.plugin.settings.recurringRules.push(result);
+                        this.plugin.saveSettings();
+                        this.display();
+                    }).open();
+                }));
+
+        const rulesListEl = containerEl.createDiv('recurring-rules-list');
+        if (this.plugin.settings.recurringRules.length === 0) {
+            rulesListEl.createEl('p', { text: i18n.t('NO_RECURRING_RULES') });
+            return;
+        }
+
+        const today = moment().format('YYYY-MM-DD');
+        this.plugin.settings.recurringRules.forEach(rule => {
+            // Preview of the next occurrences
+            const upcoming = getUpcomingOccurrences(rule, today, 3);
+            const description = upcoming.length > 0
+                ? i18n.t('RECURRING_NEXT').replace('{dates}', upcoming.join(', '))
+                : i18n.t('RECURRING_NO_UPCOMING');
+
+            new Setting(rulesListEl)
+                .setName(`${rule.name} (${rule.transaction.amount.toFixed(2)})`)
+                .setDesc(description)
+                .addToggle(toggle => toggle
+                    .setTooltip(i18n.t('RECURRING_ENABLED'))
+                    .setValue(rule.enabled)
+                    .onChange(async (value) => {
+                        rule.enabled = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip(i18n.t('EDIT_RECURRING'))
+                    .onClick(() => {
+                        new RecurringRuleModal(this.app, this.plugin, (result) => {
+                            const index = this.plugin.settings.recurringRules.findIndex(r => r.id === rule.id);
+                            if (index > -1) {
+                                this.plugin.settings.recurringRules[index] = result;
+                                this.plugin.saveSettings();
+                                this.display();
+                            }
+                        }, rule).open();
+                    }))
+                .addButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(i18n.t('DELETE_RECURRING'))
+                    .onClick(async () => {
+                        this.plugin.settings.recurringRules = this.plugin.settings.recurringRules.filter(r => r.id !== rule.id);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+    }
+
+    private addExchangeRatesSection(containerEl: HTMLElement): void {
+        const i18n = this.plugin.i18n;
+        containerEl.createEl('h3', { text: i18n.t('EXCHANGE_RATES') });
+
+        new Setting(containerEl)
+            .setName(i18n.t('MANAGE_EXCHANGE_RATES'))
+            .setDesc(i18n.t('MANAGE_EXCHANGE_RATES_DESC').replace('{base}', this.plugin.settings.baseCurrency))
+            .addButton(button => button
+                .setButtonText(i18n.t('ADD_EXCHANGE_RATE'))
+                .setIcon('plus')
+                .onClick(() => {
+                    new ExchangeRateModal(this.app, this.plugin, (result) => {
+                        this.plugin.settings.exchangeRates.push(result);
+                        this.plugin.saveSettings();
+                        this.display();
+                    }).open();
+                }));
+
+        const ratesListEl = containerEl.createDiv('exchange-rates-list');
+        const rates = [...this.plugin.settings.exchangeRates]
+            .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+        if (rates.length === 0) {
+            ratesListEl.createEl('p', { text: i18n.t('NO_EXCHANGE_RATES') });
+            return;
+        }
+
+        rates.forEach(rate => {
+            new Setting(ratesListEl)
+                .setName(`1 ${rate.currency} = ${rate.rate} ${this.plugin.settings.baseCurrency}`)
+                .setDesc(i18n.t('EXCHANGE_RATE_FROM').replace('{date}', rate.date))
+                .addButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip(i18n.t('EDIT_EXCHANGE_RATE'))
+                    .onClick(() => {
+                        new ExchangeRateModal(this.app, this.plugin, (result) => {
+                            const index = this.plugin.settings.exchangeRates.findIndex(r => r.id === rate.id);
+                            if (index > -1) {
+                                this.plugin.settings.exchangeRates[index] = result;
+                                this.plugin.saveSettings();
+                                this.display();
+                            }
+                        }, rate).open();
+                    }))
+                .addButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(i18n.t('DELETE_EXCHANGE_RATE'))
+                    .onClick(async () => {
+                        this.plugin.settings.exchangeRates = this.plugin.settings.exchangeRates.filter(r => r.id !== rate.id);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+    }
 }
 
 // --- Account Modal ---
@@ -866,6 +1106,35 @@ class AccountModal extends Modal {
                     .setValue(this.account.description || '')
                 .onChange(value => this.account.description = value.trim()));
 
+        // Account Type
+        new Setting(contentEl)
+            .setName(i18n.t('ACCOUNT_TYPE'))
+            .setDesc(i18n.t('ACCOUNT_TYPE_DESC'))
+            .addDropdown(dropdown => {
+                ACCOUNT_TYPES.forEach(type => dropdown.addOption(type, getAccountTypeName(type, i18n)));
+                dropdown.setValue(getAccountType(this.account)).onChange(value => {
+                    this.account.type = value as AccountType;
+                    // Show or hide the credit card fields
+                    this.onOpen();
+                });
+            });
+
+        if (this.account.type === 'credit') {
+            const addNumberSetting = (name: string, desc: string, field: 'creditLimit' | 'statementDay' | 'dueDay') => {
+                new Setting(contentEl)
+                    .setName(name)
+                    .setDesc(desc)
+                    .addText(text => {
+                        text.inputEl.type = 'number';
+                        text.setValue(this.account[field] === undefined ? '' : String(this.account[field]))
+                            .onChange(value => this.account[field] = value.trim() === '' ? undefined : Number(value));
+                    });
+            };
+            addNumberSetting(i18n.t('CREDIT_LIMIT'), i18n.t('CREDIT_LIMIT_DESC'), 'creditLimit');
+            addNumberSetting(i18n.t('STATEMENT_DAY'), i18n.t('STATEMENT_DAY_DESC'), 'statementDay');
+            addNumberSetting(i18n.t('DUE_DAY'), i18n.t('DUE_DAY_DESC'), 'dueDay');
+        }
+
         // Account Icon (Optional)
         new Setting(contentEl)
             .setName(i18n.t('ACCOUNT_ICON')) // Use key
@@ -875,6 +1144,30 @@ class AccountModal extends Modal {
                 .setValue(this.account.icon || '')
                 .onChange(value => this.account.icon = value.trim()));
 
+        // Account Currency
+        new Setting(contentEl)
+            .setName(i18n.t('CURRENCY'))
+            .setDesc(i18n.t('ACCOUNT_CURRENCY_DESC'))
+            .addText(text => text
+                .setPlaceholder(this.plugin.settings.baseCurrency)
+                .setValue(this.account.currency || '')
+                .onChange(value => this.account.currency = normalizeCurrencyCode(value) || undefined));
+
+        // Opening Balance
+        new Setting(contentEl)
+            .setName(i18n.t('OPENING_BALANCE'))
+            .setDesc(i18n.t('OPENING_BALANCE_DESC'))
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setValue(this.account.openingBalance === undefined ? '' : String(this.account.openingBalance))
+                    .onChange(value => this.account.openingBalance = value.trim() === '' ? undefined : Number(value));
+            })
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.account.openingDate || '')
+                    .onChange(value => this.account.openingDate = value || undefined);
+            });
+
         // Parent Account Dropdown
         const accountOptions = this.getAccountOptions(this.plugin.settings.accounts, this.isNew ? undefined : this.account.id);
         new Setting(contentEl)
@@ -901,6 +1194,29 @@ class AccountModal extends Modal {
                         new Notice(i18n.t('ACCOUNT_NAME_REQUIRED')); // Use key
                         return;
                     }
+                    if (this.account.openingBalance !== undefined && !isFinite(this.account.openingBalance)) {
+                        new Notice(i18n.t('ERROR_INVALID_OPENING_BALANCE'));
+                        return;
+                    }
+                    if (this.account.openingBalance === undefined) {
+                        delete this.account.openingDate;
+                    }
+                    if (this.account.type === 'credit') {
+                        const { creditLimit, statementDay, dueDay } = this.account;
+                        if (creditLimit !== undefined && !(creditLimit > 0)) {
+                            new Notice(i18n.t('ERROR_INVALID_CREDIT_LIMIT'));
+                            return;
+                        }
+                        if ([statementDay, dueDay].some(day => day !== undefined && !(Number.isInteger(day) && day >= 1 && day <= 31))) {
+                            new Notice(i18n.t('ERROR_INVALID_DAY'));
+                            return;
+                        }
+                    } else {
+                        // Only credit cards have a limit and statements
+                        delete this.account.creditLimit;
+                        delete this.account.statementDay;
+                        delete this.account.dueDay;
+                    }
                     this.onSubmit(this.account);
                     this.close();
                 }));
@@ -1352,3 +1668,388 @@ class BudgetModal extends Modal {
         contentEl.empty();
     }
 }
+
+// --- Exchange Rate Modal ---
+class ExchangeRateModal extends Modal {
+    plugin: AccountingPlugin;
+    rate: ExchangeRate;
+    isNew: boolean;
+    onSubmit: (result: ExchangeRate) => void;
+
+    constructor(app: App, plugin: AccountingPlugin, onSubmit: (result: ExchangeRate) => void, rateToEdit?: ExchangeRate) {
+        super(app);
+        this.plugin = plugin;
+        this.onSubmit = onSubmit;
+        this.isNew = !rateToEdit;
+        this.rate = rateToEdit ? { ...rateToEdit } : {
+            id: generateId(),
+            currency: '',
+            date: moment().format('YYYY-MM-DD'),
+            rate: 0
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.isNew ? i18n.t('ADD_EXCHANGE_RATE') : i18n.t('EDIT_EXCHANGE_RATE') });
+
+        new Setting(contentEl)
+            .setName(i18n.t('CURRENCY'))
+            .addText(text => text
+                .setPlaceholder('USD')
+                .setValue(this.rate.currency)
+                .onChange(value => this.rate.currency = normalizeCurrencyCode(value)));
+
+        new Setting(contentEl)
+            .setName(i18n.t('EXCHANGE_RATE_DATE'))
+            .setDesc(i18n.t('EXCHANGE_RATE_DATE_DESC'))
+            .addText(text => {
+                text.setValue(this.rate.date)
+                    .onChange(value => this.rate.date = value);
+                text.inputEl.setAttribute('type', 'date');
+            });
+
+        new Setting(contentEl)
+            .setName(i18n.t('EXCHANGE_RATE'))
+            .setDesc(i18n.t('EXCHANGE_RATE_DESC').replace('{base}', this.plugin.settings.baseCurrency))
+            .addText(text => {
+                text.setPlaceholder('7.2')
+                    .setValue(this.rate.rate ? this.rate.rate.toString() : '')
+                    .onChange(value => {
+                        const rate = parseFloat(value);
+                        this.rate.rate = isNaN(rate) ? 0 : rate;
+                    });
+                text.inputEl.setAttribute('type', 'number');
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(this.isNew ? i18n.t('ADD') : i18n.t('SAVE'))
+                .setCta()
+                .onClick(() => {
+                    if (!/^[A-Z]{3}$/.test(this.rate.currency) || this.rate.currency === normalizeCurrencyCode(this.plugin.settings.baseCurrency)) {
+                        new Notice(i18n.t('ERROR_INVALID_CURRENCY'));
+                        return;
+                    }
+                    if (!moment(this.rate.date, 'YYYY-MM-DD', true).isValid()) {
+                        new Notice(i18n.t('ERROR_INVALID_DATE'));
+                        return;
+                    }
+                    if (this.rate.rate <= 0) {
+                        new Notice(i18n.t('ERROR_INVALID_EXCHANGE_RATE'));
+                        return;
+                    }
+                    this.onSubmit(this.rate);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// --- Recurring Rule Modal ---
+class RecurringRuleModal extends Modal {
+    plugin: AccountingPlugin;
+    rule: RecurringRule;
+    isNew: boolean;
+    onSubmit: (result: RecurringRule) => void;
+
+    constructor(app: App, plugin: AccountingPlugin, onSubmit: (result: RecurringRule) => void, ruleToEdit?: RecurringRule) {
+        super(app);
+        this.plugin = plugin;
+        this.onSubmit = onSubmit;
+        this.isNew = !ruleToEdit;
+        this.rule = ruleToEdit ? {
+            ...ruleToEdit,
+            transaction: { ...ruleToEdit.transaction, tagIds: [...(ruleToEdit.transaction.tagIds || [])] }
+        } : {
+            id: generateId(),
+            name: '',
+            enabled: true,
+            transaction: {
+                type: 'expense',
+                amount: 0,
+                accountId: '',
+                categoryId: '',
+                tagIds: []
+            },
+            frequency: RecurringFrequency.Monthly,
+            interval: 1,
+            monthlyRecurrence: 'dayOfMonth',
+            startDate: moment().format('YYYY-MM-DD'),
+            time: '09:00'
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const i18n = this.plugin.i18n;
+        const transaction = this.rule.transaction;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.isNew ? i18n.t('ADD_RECURRING') : i18n.t('EDIT_RECURRING') });
+
+        new Setting(contentEl)
+            .setName(i18n.t('NAME'))
+            .addText(text => text
+                .setPlaceholder(i18n.t('RECURRING_NAME_PLACEHOLDER'))
+                .setValue(this.rule.name)
+                .onChange(value => this.rule.name = value.trim()));
+
+        // --- The transaction that is posted ---
+        new Setting(contentEl)
+            .setName(i18n.t('TRANSACTION_TYPE'))
+            .addDropdown(dropdown => dropdown
+                .addOption('expense', i18n.t('EXPENSE'))
+                .addOption('income', i18n.t('INCOME'))
+                .addOption('transfer', i18n.t('TRANSFER'))
+                .setValue(transaction.type)
+                .onChange(value => {
+                    transaction.type = value as TransactionType;
+                    transaction.categoryId = '';
+                    this.onOpen(); // Refresh to show the fields of the type
+                }));
+
+        new Setting(contentEl)
+            .setName(i18n.t('AMOUNT'))
+            .addText(text => {
+                text.setPlaceholder('0.00')
+                    .setValue(transaction.amount ? transaction.amount.toString() : '')
+                    .onChange(value => {
+                        const amount = parseFloat(value);
+                        transaction.amount = isNaN(amount) ? 0 : amount;
+                    });
+                text.inputEl.setAttribute('type', 'number');
+            });
+
+        const flatAccounts = flattenHierarchy(this.plugin.settings.accounts);
+        const addAccountDropdown = (name: string, field: 'accountId' | 'fromAccountId' | 'toAccountId') => {
+            new Setting(contentEl)
+                .setName(name)
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', i18n.t('SELECT_ACCOUNT'));
+                    flatAccounts.forEach(account => dropdown.addOption(account.id, account.name));
+                    dropdown.setValue(transaction[field] || '');
+                    dropdown.onChange(value => transaction[field] = value);
+                });
+        };
+
+        if (transaction.type === 'transfer') {
+            addAccountDropdown(i18n.t('FROM_ACCOUNT'), 'fromAccountId');
+            addAccountDropdown(i18n.t('TO_ACCOUNT'), 'toAccountId');
+        } else {
+            addAccountDropdown(i18n.t('ACCOUNT_FIELD'), 'accountId');
+            new Setting(contentEl)
+                .setName(i18n.t('CATEGORY_FIELD'))
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', i18n.t('SELECT_CATEGORY'));
+                    flattenHierarchy(this.plugin.settings.categories.filter(c => c.type === transaction.type))
+                        .forEach(category => dropdown.addOption(category.id, category.name));
+                    dropdown.setValue(transaction.categoryId || '');
+                    dropdown.onChange(value => transaction.categoryId = value);
+                });
+        }
+
+        const flatTags = flattenHierarchy(this.plugin.settings.tags);
+        new Setting(contentEl)
+            .setName(i18n.t('TAGS_FIELD'))
+            .setDesc(i18n.t('RECURRING_TAGS_DESC'))
+            .addText(text => text
+                .setPlaceholder(i18n.t('TAGS_PLACEHOLDER'))
+                .setValue(transaction.tagIds
+                    .map(id => flatTags.find(tag => tag.id === id)?.name)
+                    .filter(Boolean)
+                    .join(', '))
+                .onChange(value => {
+                    transaction.tagIds = value.split(',')
+                        .map(name => name.trim().toLowerCase())
+                        .map(name => flatTags.find(tag => tag.name.toLowerCase() === name)?.id)
+                        .filter((id): id is string => !!id);
+                }));
+
+        new Setting(contentEl)
+            .setName(i18n.t('DESCRIPTION_FIELD'))
+            .addText(text => text
+                .setPlaceholder(i18n.t('DESCRIPTION_PLACEHOLDER'))
+                .setValue(transaction.description || '')
+                .onChange(value => transaction.description = value.trim() || undefined));
+
+        // --- The schedule ---
+        new Setting(contentEl)
+            .setName(i18n.t('FREQUENCY'))
+            .addDropdown(dropdown => dropdown
+                .addOption(RecurringFrequency.Daily, i18n.t('DAILY'))
+                .addOption(RecurringFrequency.Weekly, i18n.t('WEEKLY'))
+                .addOption(RecurringFrequency.Monthly, i18n.t('MONTHLY'))
+                .addOption(RecurringFrequency.Yearly, i18n.t('YEARLY'))
+                .setValue(this.rule.frequency)
+                .onChange(value => {
+                    this.rule.frequency = value as RecurringFrequency;
+                    this.onOpen();
+                }));
+
+        new Setting(contentEl)
+            .setName(i18n.t('REPEAT_EVERY'))
+            .setDesc(i18n.t('REPEAT_EVERY_DESC'))
+            .addText(text => {
+                text.setValue(this.rule.interval.toString())
+                    .onChange(value => {
+                        const interval = parseInt(value, 10);
+                        this.rule.interval = isNaN(interval) || interval < 1 ? 1 : interval;
+                        this.updatePreview();
+                    });
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('min', '1');
+            });
+
+        new Setting(contentEl)
+            .setName(i18n.t('START_DATE'))
+            .setDesc(i18n.t('RECURRING_START_DESC'))
+            .addText(text => {
+                text.setValue(this.rule.startDate)
+                    .onChange(value => {
+                        this.rule.startDate = value;
+                        this.onOpen(); // The monthly options name the weekday of the start date
+                    });
+                text.inputEl.setAttribute('type', 'date');
+            })
+            .addText(text => {
+                text.setValue(this.rule.time)
+                    .onChange(value => this.rule.time = value || '00:00');
+                text.inputEl.setAttribute('type', 'time');
+            });
+
+        if (this.rule.frequency === RecurringFrequency.Monthly) {
+            const start = moment(this.rule.startDate, 'YYYY-MM-DD', true);
+            const weekday = start.isValid() ? start.format('dddd') : '';
+            const nth = start.isValid() ? Math.ceil(start.date() / 7) : 1;
+            new Setting(contentEl)
+                .setName(i18n.t('MONTHLY_ON'))
+                .addDropdown(dropdown => dropdown
+                    .addOption('dayOfMonth', i18n.t('DAY_OF_MONTH').replace('{day}', start.isValid() ? start.date().toString() : ''))
+                    .addOption('nthWeekday', i18n.t('NTH_WEEKDAY').replace('{nth}', nth.toString()).replace('{weekday}', weekday))
+                    .addOption('lastWeekday', i18n.t('LAST_WEEKDAY').replace('{weekday}', weekday))
+                    .setValue(this.rule.monthlyRecurrence || 'dayOfMonth')
+                    .onChange(value => {
+                        this.rule.monthlyRecurrence = value as MonthlyRecurrence;
+                        this.updatePreview();
+                    }));
+        }
+
+        const endCondition = this.rule.count ? 'count' : this.rule.endDate ? 'date' : 'never';
+        const endSetting = new Setting(contentEl)
+            .setName(i18n.t('RECURRING_ENDS'))
+            .addDropdown(dropdown => dropdown
+                .addOption('never', i18n.t('ENDS_NEVER'))
+                .addOption('date', i18n.t('ENDS_ON_DATE'))
+                .addOption('count', i18n.t('ENDS_AFTER_COUNT'))
+                .setValue(endCondition)
+                .onChange(value => {
+                    this.rule.endDate = value === 'date' ? moment().add(1, 'year').format('YYYY-MM-DD') : undefined;
+                    this.rule.count = value === 'count' ? 12 : undefined;
+                    this.onOpen();
+                }));
+        if (endCondition === 'date') {
+            endSetting.addText(text => {
+                text.setValue(this.rule.endDate || '')
+                    .onChange(value => {
+                        this.rule.endDate = value || undefined;
+                        this.updatePreview();
+                    });
+                text.inputEl.setAttribute('type', 'date');
+            });
+        } else if (endCondition === 'count') {
+            endSetting.addText(text => {
+                text.setValue((this.rule.count || '').toString())
+                    .onChange(value => {
+                        const count = parseInt(value, 10);
+                        this.rule.count = isNaN(count) || count < 1 ? 1 : count;
+                        this.updatePreview();
+                    });
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('min', '1');
+            });
+        }
+
+        // Preview of the next occurrences
+        contentEl.createEl('h4', { text: i18n.t('UPCOMING_OCCURRENCES') });
+        contentEl.createEl('ul', { cls: 'recurring-preview' });
+        this.updatePreview();
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(this.isNew ? i18n.t('ADD') : i18n.t('SAVE'))
+                .setCta()
+                .onClick(() => {
+                    const error = this.validate();
+                    if (error) {
+                        new Notice(error);
+                        return;
+                    }
+                    if (transaction.type === 'transfer') {
+                        delete transaction.accountId;
+                    } else {
+                        delete transaction.fromAccountId;
+                        delete transaction.toAccountId;
+                    }
+                    this.onSubmit(this.rule);
+                    this.close();
+                }));
+    }
+
+    private updatePreview(): void {
+        const previewEl = this.contentEl.querySelector('.recurring-preview');
+        if (!(previewEl instanceof HTMLElement)) return;
+
+        previewEl.empty();
+        // Occurrences from the start date on, so a rule starting in the past shows what will be posted
+        const today = moment().format('YYYY-MM-DD');
+        const from = this.rule.startDate < today ? moment(this.rule.startDate).subtract(1, 'day').format('YYYY-MM-DD') : today;
+        const dates = getUpcomingOccurrences({ ...this.rule, lastPostedDate: undefined }, from, 5);
+        if (dates.length === 0) {
+            previewEl.createEl('li', { text: this.plugin.i18n.t('RECURRING_NO_UPCOMING') });
+        }
+        dates.forEach(date => {
+            previewEl.createEl('li', { text: `${date} ${this.rule.time}${date <= today ? ` (${this.plugin.i18n.t('RECURRING_DUE')})` : ''}` });
+        });
+    }
+
+    private validate(): string | null {
+        const i18n = this.plugin.i18n;
+        const transaction = this.rule.transaction;
+        if (!this.rule.name) {
+            return i18n.t('ERROR_RECURRING_NAME_REQUIRED');
+        }
+        if (!(transaction.amount > 0)) {
+            return i18n.t('ERROR_AMOUNT_INVALID');
+        }
+        if (transaction.type === 'transfer') {
+            if (!transaction.fromAccountId || !transaction.toAccountId || transaction.fromAccountId === transaction.toAccountId) {
+                return i18n.t('ERROR_TRANSFER_ACCOUNTS');
+            }
+        } else {
+            if (!transaction.accountId) {
+                return i18n.t('ERROR_ACCOUNT_REQUIRED');
+            }
+            if (!transaction.categoryId) {
+                return i18n.t('ERROR_CATEGORY_REQUIRED');
+            }
+        }
+        if (!moment(this.rule.startDate, 'YYYY-MM-DD', true).isValid()) {
+            return i18n.t('ERROR_INVALID_DATE');
+        }
+        if (this.rule.endDate && this.rule.endDate < this.rule.startDate) {
+            return i18n.t('ERROR_RECURRING_END_BEFORE_START');
+        }
+        return null;
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,203 @@
+// Readers for the bill statements exported by Alipay (支付宝) and WeChat Pay (微信支付)
+
+import { moment } from 'obsidian';
+import { TransactionType } from './models';
+import { ImportRow } from './importer';
+import { parseAmount, parseCsv } from './csvImport';
+
+/**
+ * Statement formats with a dedicated reader
+ */
+export type StatementFormat = 'alipay' | 'wechat';
+
+/**
+ * Names the account of a statement usually has, matched against the accounts in the settings
+ */
+export const STATEMENT_ACCOUNT_NAMES: Record<StatementFormat, string[]> = {
+    alipay: ['支付宝', 'Alipay'],
+    wechat: ['微信', '微信支付', 'WeChat', 'WeChat Pay']
+};
+
+/**
+ * Columns of a statement, by the header names the apps have used over the years
+ */
+interface StatementColumns {
+    date: string[];
+    direction: string[];
+    amount: string[];
+    status: string[];
+    counterparty: string[];
+    item: string[];
+    category?: string[];
+    kind?: string[];
+    note?: string[];
+}
+
+const ALIPAY_COLUMNS: StatementColumns = {
+    date: ['交易时间', '交易创建时间', '付款时间'],
+    direction: ['收/支'],
+    amount: ['金额', '金额（元）', '金额(元)'],
+    status: ['交易状态'],
+    counterparty: ['交易对方'],
+    item: ['商品说明', '商品名称'],
+    category: ['交易分类'],
+    note: ['备注']
+};
+
+const WECHAT_COLUMNS: StatementColumns = {
+    date: ['交易时间'],
+    direction: ['收/支'],
+    amount: ['金额(元)', '金额（元）', '金额'],
+    status: ['当前状态'],
+    counterparty: ['交易对方'],
+    item: ['商品'],
+    kind: ['交易类型'],
+    note: ['备注']
+};
+
+/**
+ * Statuses of payments that never went through, or were refunded in full. Their refund
+ * shows up as a row of its own, so both are skipped.
+ */
+const SKIPPED_STATUSES = ['交易关闭', '退款成功', '已全额退款', '已退款', '支付失败', '已关闭', '对方已退还'];
+
+/**
+ * Values of the income/expense column
+ */
+const DIRECTIONS: Record<string, TransactionType> = {
+    '支出': 'expense',
+    '收入': 'income'
+};
+
+/**
+ * Placeholder the apps write into empty fields
+ */
+const EMPTY_VALUES = ['', '/', '-'];
+
+/**
+ * Find the header row after the preamble both apps put above their tables
+ * @returns The index of the header row, or -1
+ */
+function findHeaderRow(records: string[][], columns: StatementColumns): number {
+    return records.findIndex(record => {
+        const cells = record.map(cell => cell.trim());
+        return columns.date.some(name => cells.includes(name))
+            && columns.direction.some(name => cells.includes(name))
+            && columns.amount.some(name => cells.includes(name));
+    });
+}
+
+/**
+ * Read the rows of a statement table
+ * @param text The statement text
+ * @param columns The column names of the statement
+ * @param readRow Turns the values of a row, keyed by column, into an import row
+ * @throws When the table can't be found
+ */
+function parseStatement(
+    text: string,
+    columns: StatementColumns,
+    readRow: (get: (names?: string[]) => string, row: ImportRow) => void
+): ImportRow[] {
+    const records = parseCsv(text, ',');
+    const headerIndex = findHeaderRow(records, columns);
+    if (headerIndex === -1) {
+        throw new Error('No transaction table found in the statement');
+    }
+    const headers = records[headerIndex].map(cell => cell.trim());
+
+    return records.slice(headerIndex + 1)
+        // The table ends where the footer lines start
+        .filter(record => record.length >= headers.length - 1)
+        .map((record, index) => {
+            const get = (names?: string[]): string => {
+                const column = names ? headers.findIndex(header => names.includes(header)) : -1;
+                const value = column > -1 ? (record[column] || '').trim() : '';
+                return EMPTY_VALUES.includes(value) ? '' : value;
+            };
+
+            const row: ImportRow = {
+                source: headerIndex + index + 2,
+                date: '',
+                type: 'expense',
+                amount: 0,
+                categoryName: '',
+                tagNames: [],
+                description: [get(columns.counterparty), get(columns.item)].filter(Boolean).join(' · '),
+                note: get(columns.note)
+            };
+
+            const date = moment(get(columns.date), ['YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY/M/D HH:mm:ss', 'YYYY/M/D H:mm', 'YYYY/M/D HH:mm'], true);
+            if (!date.isValid()) {
+                row.error = `Invalid date "${get(columns.date)}"`;
+                return row;
+            }
+            row.date = date.format('YYYY-MM-DD HH:mm');
+
+            const amount = parseAmount(get(columns.amount), '.');
+            if (isNaN(amount) || amount === 0) {
+                row.error = `Invalid amount "${get(columns.amount)}"`;
+                return row;
+            }
+            row.amount = Math.abs(amount);
+
+            const type = DIRECTIONS[get(columns.direction)];
+            if (!type) {
+                // Moves between the user's own funds, e.g. top-ups or 余额宝
+                row.error = `Neither income nor expense (${get(columns.direction) || '/'})`;
+                return row;
+            }
+            row.type = type;
+
+            const status = get(columns.status);
+            if (SKIPPED_STATUSES.some(skipped => status.startsWith(skipped)) && !/^已退款[(（]/.test(status)) {
+                row.error = `Skipped: ${status}`;
+                return row;
+            }
+
+            readRow(get, row);
+            return row;
+        });
+}
+
+/**
+ * Read an Alipay bill statement (支付宝交易明细). Its 交易分类 becomes the category.
+ * @param text The statement text
+ */
+export function parseAlipayStatement(text: string): ImportRow[] {
+    return parseStatement(text, ALIPAY_COLUMNS, (get, row) => {
+        row.categoryName = get(ALIPAY_COLUMNS.category);
+    });
+}
+
+/**
+ * Read a WeChat Pay bill statement (微信支付账单明细). Partly refunded payments
+ * ("已退款(￥12.00)") are imported with the refund taken off.
+ * @param text The statement text
+ */
+export function parseWechatStatement(text: string): ImportRow[] {
+    return parseStatement(text, WECHAT_COLUMNS, (get, row) => {
+        const refund = get(WECHAT_COLUMNS.status).match(/^已退款[(（][￥¥]?([\d.,]+)[)）]/);
+        if (refund) {
+            const remaining = row.amount - parseAmount(refund[1], '.');
+            if (remaining <= 0) {
+                row.error = `Skipped: ${get(WECHAT_COLUMNS.status)}`;
+            } else {
+                row.amount = Math.round(remaining * 100) / 100;
+            }
+        }
+        // Refunds arrive as income rows of their own kind; the payment they belong to is reduced already
+        if (get(WECHAT_COLUMNS.kind).includes('退款') && !row.error) {
+            row.error = `Skipped: ${get(WECHAT_COLUMNS.kind)}`;
+        }
+    });
+}
+
+/**
+ * Read a statement in one of the supported formats
+ * @param format The statement format
+ * @param text The statement text
+ */
+export function parseStatementFile(format: StatementFormat, text: string): ImportRow[] {
+    return format === 'alipay' ? parseAlipayStatement(text) : parseWechatStatement(text);
+}
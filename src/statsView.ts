@@ -1,8 +1,14 @@
-import { ItemView, WorkspaceLeaf, moment, TFile } from 'obsidian';
+import { ItemView, Notice, Setting, WorkspaceLeaf, moment, TFile, setIcon } from 'obsidian';
 import AccountingPlugin from '../main';
-import { Account, Category, Tag, Transaction, TransactionType, flattenHierarchy } from './models';
+import { ACCOUNT_TYPES, Account, AccountType, Category, Tag, Transaction, TransactionStatus, TransactionType, flattenHierarchy, getAccountType, getDisplayBalance, isLiabilityAccount } from './models';
 import { Translation } from './locales'; // Corrected import path
-import { parseTransactionsFromFile, findAccountById, findCategoryById, findTagById, normalizeTransactionDate, getDatePart, calculateBudgetSpending, getScopeName, getPeriodDateRange } from './utils';
+import { ExportModal } from './exportModal';
+import { addIncomeExpenseLegend, renderCategoryPieChart, renderIncomeExpenseBarChart } from './charts';
+import { convertToBaseCurrency, convertTransactionAmount, convertTransactionAmountTo, formatCurrency, getAccountCurrency, getTransactionCurrency } from './currency';
+import { isTransactionForAccount, isTransactionInCategory, getAccountBalanceChange, getCategoryAmounts, CategoryAmount, findAccountById, findCategoryById, findTagById, normalizeTransactionDate, getDatePart, calculateBudgetSpending, getScopeName, getPeriodDateRange, getAccountTypeName, getCreditCardCycle, getOpeningBalance } from './utils';
+import { BalanceAssertionResult, checkBalanceAssertions } from './balances';
+import { BalanceAssertionModal } from './balanceAssertionModal';
+import { TRANSFER_REQUIRED_FIELDS, compileTemplate } from './template';
 
 export const STATS_VIEW_TYPE = 'accounting-stats-view';
 
@@ -32,7 +38,6 @@ export enum SecondaryTab {
 export class StatsView extends ItemView {
     private plugin: AccountingPlugin;
     public contentEl: HTMLElement;
-    private transactions: Transaction[] = [];
     private dateRange: string = 'this-month';
     private customStartDate: string = '';
     private customEndDate: string = '';
@@ -41,19 +46,32 @@ export class StatsView extends ItemView {
     private selectedType: string = 'all';
     private currentTab: StatsTab = StatsTab.OVERVIEW;
     private selectedDate: string = moment().format('YYYY-MM-DD');
-    private transactionAddedListener: () => void;
+    private transactionsChangedListener: () => void;
     private currentSecondaryTab: SecondaryTab = SecondaryTab.DAILY;
+    /** Balance assertions checked when the accounts tab was last rendered */
+    private balanceAssertionResults: BalanceAssertionResult[] = [];
+    /** Reconciliation open in the account details, reopened when the view re-renders */
+    private reconciliation: { accountId: string, date: string, balance: string } | null = null;
+
+    /**
+     * The transactions of the vault, from the plugin's shared index
+     */
+    private get transactions(): Transaction[] {
+        return this.plugin.transactions;
+    }
 
     constructor(leaf: WorkspaceLeaf, plugin: AccountingPlugin) {
         super(leaf);
         this.plugin = plugin;
         
-        // Set up event listener for transaction added
-        this.transactionAddedListener = () => {
-            this.refreshView();
+        // Re-render whenever the transaction index changes, whether through this plugin or an edit of a ledger file
+        this.transactionsChangedListener = () => {
+            if (this.contentEl) {
+                this.renderStats();
+            }
         };
         
-        this.plugin.events.on('transaction-added', this.transactionAddedListener);
+        this.plugin.events.on('transactions-updated', this.transactionsChangedListener);
     }
 
     getViewType(): string {
@@ -74,84 +92,32 @@ export class StatsView extends ItemView {
         this.contentEl.empty();
         this.contentEl.addClass('accounting-stats-view');
         
-        // Load transactions
-        await this.loadTransactions();
+        // Make sure the shared index is current
+        await this.plugin.loadAllTransactions();
         
         // Render the view
         this.renderStats();
     }
 
-    async onClose(): Promise<void> {
-        // Remove event listener
-        this.plugin.events.off('transaction-added', this.transactionAddedListener);
-        this.contentEl.empty();
-    }
-
     /**
-     * Load transactions from files
+     * Switch to a tab, optionally showing the day, month or year of a date
+     * @param tab The tab to show
+     * @param date The date to select (YYYY-MM-DD)
      */
-    private async loadTransactions(): Promise<void> {
-        this.transactions = [];
-        
-        try {
-            if (this.plugin.settings.useDailyNotes) {
-                // Load from daily notes
-                await this.loadTransactionsFromDailyNotes();
-            } else {
-                // Load from the configured output file
-                await this.loadTransactionsFromFile(this.plugin.settings.outputFile);
-            }
-        } catch (error) {
-            console.error('Error loading transactions:', error);
+    showTab(tab: StatsTab, date?: string): void {
+        this.currentTab = tab;
+        if (date) {
+            this.selectedDate = date;
         }
-    }
-
-    /**
-     * Load transactions from daily notes
-     */
-    private async loadTransactionsFromDailyNotes(): Promise<void> {
-        const files = this.app.vault.getMarkdownFiles();
-        
-        // Try to get the format from the core Daily Notes plugin
-        let dailyNoteFormat = this.plugin.settings.dailyNotesFormat;
-        
-        // Check if the Daily Notes plugin is enabled and get its format
-        // @ts-ignore - Accessing internal API
-        const dailyNotesPlugin = this.app.internalPlugins.plugins['daily-notes'];
-        // @ts-ignore - Accessing internal API
-        const calendarPlugin = this.app.plugins.plugins['calendar'];
-        
-        if (dailyNotesPlugin && dailyNotesPlugin.enabled) {
-            // @ts-ignore - Accessing internal API
-            const dailyNotesSettings = dailyNotesPlugin.instance.options;
-            if (dailyNotesSettings && dailyNotesSettings.format) {
-                dailyNoteFormat = dailyNotesSettings.format;
-                console.log('Using Daily Notes plugin format:', dailyNoteFormat);
-            }
-        } else if (calendarPlugin) {
-            // Try to get format from Calendar plugin as fallback
-            // @ts-ignore - Accessing internal API
-            const calendarSettings = calendarPlugin.options;
-            if (calendarSettings && calendarSettings.dateFormat) {
-                dailyNoteFormat = calendarSettings.dateFormat;
-                console.log('Using Calendar plugin format:', dailyNoteFormat);
-            }
-        }
-        
-        for (const file of files) {
-            // Check if the file is a daily note
-            if (moment(file.basename, dailyNoteFormat, true).isValid()) {
-                await this.loadTransactionsFromFile(file.path);
-            }
+        if (this.contentEl) {
+            this.renderStats();
         }
     }
 
-    /**
-     * Load transactions from a specific file
-     */
-    private async loadTransactionsFromFile(filePath: string): Promise<void> {
-        const transactions = await parseTransactionsFromFile(this.app, filePath, this.plugin.settings);
-        this.transactions = [...this.transactions, ...transactions];
+    async onClose(): Promise<void> {
+        // Remove event listeners
+        this.plugin.events.off('transactions-updated', this.transactionsChangedListener);
+        this.contentEl.empty();
     }
 
     /**
@@ -337,12 +303,12 @@ export class StatsView extends ItemView {
             }
 
             // Filter by account
-            if (this.selectedAccountId !== 'all' && transaction.accountId !== this.selectedAccountId) {
+            if (this.selectedAccountId !== 'all' && !isTransactionForAccount(transaction, this.selectedAccountId)) {
                 return false;
             }
 
             // Filter by category
-            if (this.selectedCategoryId !== 'all' && transaction.categoryId !== this.selectedCategoryId) {
+            if (this.selectedCategoryId !== 'all' && !isTransactionInCategory(transaction, this.selectedCategoryId)) {
                 return false;
             }
 
@@ -412,9 +378,9 @@ export class StatsView extends ItemView {
         
         transactions.forEach(transaction => {
             if (transaction.type === 'income') {
-                income += transaction.amount;
-            } else {
-                expenses += transaction.amount;
+                income += this.toBase(transaction);
+            } else if (transaction.type === 'expense') {
+                expenses += this.toBase(transaction);
             }
         });
         
@@ -497,19 +463,19 @@ export class StatsView extends ItemView {
         const incomeCard = summaryGrid.createDiv('summary-card income-card');
         incomeCard.createEl('h4', { text: 'Income' });
         const incomeValue = incomeCard.createDiv('summary-value');
-        incomeValue.setText(`¥${totals.income.toFixed(2)}`);
+        incomeValue.setText(this.formatMoney(totals.income));
         
         // Expense card
         const expenseCard = summaryGrid.createDiv('summary-card expense-card');
         expenseCard.createEl('h4', { text: 'Expenses' });
         const expenseValue = expenseCard.createDiv('summary-value');
-        expenseValue.setText(`¥${totals.expenses.toFixed(2)}`);
+        expenseValue.setText(this.formatMoney(totals.expenses));
         
         // Balance card
         const balanceCard = summaryGrid.createDiv('summary-card balance-card');
         balanceCard.createEl('h4', { text: 'Balance' });
         const balanceValue = balanceCard.createDiv('summary-value');
-        balanceValue.setText(`¥${totals.balance.toFixed(2)}`);
+        balanceValue.setText(this.formatMoney(totals.balance));
         if (totals.balance >= 0) {
             balanceValue.addClass('positive');
         } else {
@@ -661,18 +627,18 @@ export class StatsView extends ItemView {
              // Double check date match (although filtering should handle this)
             if (moment(normalizeTransactionDate(transaction.date)).isSame(this.selectedDate, 'day')) {
                 if (transaction.type === 'income') {
-                    dayIncome += transaction.amount;
-                } else {
-                    dayExpense += transaction.amount;
+                    dayIncome += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    dayExpense += this.toBase(transaction);
                 }
             }
         });
 
         // Basic display of totals for the day
         const totalsEl = chartContainer.createDiv('day-totals-simple');
-        totalsEl.createEl('p', { text: `Income: ¥${dayIncome.toFixed(2)}` });
-        totalsEl.createEl('p', { text: `Expense: ¥${dayExpense.toFixed(2)}` });
-        totalsEl.createEl('p', { text: `Net: ¥${(dayIncome - dayExpense).toFixed(2)}` });
+        totalsEl.createEl('p', { text: `Income: ${this.formatMoney(dayIncome)}` });
+        totalsEl.createEl('p', { text: `Expense: ${this.formatMoney(dayExpense)}` });
+        totalsEl.createEl('p', { text: `Net: ${this.formatMoney(dayIncome - dayExpense)}` });
         
         // Optionally, list the transactions for the day below the totals
         this.renderTransactionListForDay(chartContainer, transactions);
@@ -703,12 +669,10 @@ export class StatsView extends ItemView {
                  const row = tbody.createEl('tr');
                  row.createEl('td', { text: moment(normalizeTransactionDate(transaction.date)).format('HH:mm') });
                  row.createEl('td', { text: transaction.description || '' });
-                 const category = categories.find(c => c.id === transaction.categoryId);
-                 row.createEl('td', { text: category ? category.name : '?' });
-                 const account = accounts.find(a => a.id === transaction.accountId);
-                 row.createEl('td', { text: account ? account.name : '?' });
+                 row.createEl('td', { text: this.getCategoryLabel(transaction, categories) });
+                 row.createEl('td', { text: this.getAccountLabel(transaction, accounts) });
                  const amountCell = row.createEl('td');
-                 amountCell.setText(`¥${transaction.amount.toFixed(2)}`);
+                 amountCell.setText(this.formatNativeAmount(transaction));
                  amountCell.addClass(transaction.type === 'income' ? 'income-value' : 'expense-value');
                  const typeCell = row.createEl('td');
                  typeCell.setText(transaction.type.substring(0, 3));
@@ -741,7 +705,7 @@ export class StatsView extends ItemView {
             accountBalances[account.id] = {
                 income: 0,
                 expense: 0,
-                balance: 0,
+                balance: this.getBaseOpeningBalance(account),
                 transactions: 0
             };
         });
@@ -749,6 +713,17 @@ export class StatsView extends ItemView {
         // Calculate balances from ALL transactions up to the current moment (or end of selected period?)
         // Using all transactions gives the *current* snapshot balance.
         this.transactions.forEach(transaction => {
+            // Transfers only move money between accounts, they are neither income nor expense
+            if (transaction.type === 'transfer') {
+                [transaction.fromAccountId, transaction.toAccountId].forEach(accountId => {
+                    const accountData = accountId ? accountBalances[accountId] : undefined;
+                    if (!accountData || !accountId) return;
+                    accountData.balance += this.toBase(transaction, getAccountBalanceChange(transaction, accountId));
+                    accountData.transactions++;
+                });
+                return;
+            }
+            
             if (!transaction.accountId) return;
             
             // Find the top-level account if using hierarchy?
@@ -758,11 +733,11 @@ export class StatsView extends ItemView {
             if (!accountData) return; // Account might not exist in flattened list if settings changed
             
             if (transaction.type === 'income') {
-                accountData.income += transaction.amount;
-                accountData.balance += transaction.amount;
+                accountData.income += this.toBase(transaction);
+                accountData.balance += this.toBase(transaction);
             } else {
-                accountData.expense += transaction.amount;
-                accountData.balance -= transaction.amount;
+                accountData.expense += this.toBase(transaction);
+                accountData.balance -= this.toBase(transaction);
             }
             
             accountData.transactions++;
@@ -785,68 +760,95 @@ export class StatsView extends ItemView {
         const tbody = table.createEl('tbody');
         
         // Total values
-        let totalBalance = 0;
+        let totalAssets = 0;
+        let totalLiabilities = 0;
         let totalIncome = 0;
         let totalExpense = 0;
         let totalTransactions = 0;
         
-        // Add rows for each account
-        accounts.forEach(account => {
-            const balanceData = accountBalances[account.id];
-            
-            const row = tbody.createEl('tr');
-            
-            // Account name
-            row.createEl('td', { text: account.name });
-            
-            // Balance
+        // Balance cell: liabilities show what is owed, colored as negative while something is owed
+        const addBalanceCell = (row: HTMLElement, account: Account | undefined, balance: number) => {
             const balanceCell = row.createEl('td');
-            balanceCell.setText(`¥${balanceData.balance.toFixed(2)}`);
-            if (balanceData.balance >= 0) {
-                balanceCell.addClass('positive');
-            } else {
-                balanceCell.addClass('negative');
-            }
-            
-            // Income
-            const incomeCell = row.createEl('td');
-            incomeCell.setText(`¥${balanceData.income.toFixed(2)}`);
-            incomeCell.addClass('income-value');
-            
-            // Expenses
-            const expenseCell = row.createEl('td');
-            expenseCell.setText(`¥${balanceData.expense.toFixed(2)}`);
-            expenseCell.addClass('expense-value');
+            balanceCell.setText(this.formatMoney(getDisplayBalance(account, balance)));
+            balanceCell.addClass(balance >= 0 ? 'positive' : 'negative');
+        };
+        
+        // Add rows for each account, grouped by type
+        ACCOUNT_TYPES.forEach(type => {
+            const typeAccounts = accounts.filter(account => getAccountType(account) === type);
+            if (typeAccounts.length === 0) return;
             
-            // Transactions
-            row.createEl('td', { text: balanceData.transactions.toString() });
+            const groupRow = tbody.createEl('tr', { cls: 'account-type-row' });
+            groupRow.createEl('td', { text: getAccountTypeName(type, this.plugin.i18n) });
+            addBalanceCell(groupRow, typeAccounts[0], typeAccounts.reduce((sum, account) => sum + accountBalances[account.id].balance, 0));
+            groupRow.createEl('td', { attr: { colspan: '3' } });
             
-            // Add to totals
-            totalBalance += balanceData.balance;
-            totalIncome += balanceData.income;
-            totalExpense += balanceData.expense;
-            totalTransactions += balanceData.transactions;
+            typeAccounts.forEach(account => {
+                const balanceData = accountBalances[account.id];
+                
+                const row = tbody.createEl('tr');
+                
+                // Account name
+                row.createEl('td', { text: account.name, cls: 'account-type-member' });
+                
+                // Balance
+                addBalanceCell(row, account, balanceData.balance);
+                
+                // Income
+                const incomeCell = row.createEl('td');
+                incomeCell.setText(this.formatMoney(balanceData.income));
+                incomeCell.addClass('income-value');
+                
+                // Expenses
+                const expenseCell = row.createEl('td');
+                expenseCell.setText(this.formatMoney(balanceData.expense));
+                expenseCell.addClass('expense-value');
+                
+                // Transactions
+                row.createEl('td', { text: balanceData.transactions.toString() });
+                
+                // Add to totals
+                if (isLiabilityAccount(account)) {
+                    totalLiabilities -= balanceData.balance;
+                } else {
+                    totalAssets += balanceData.balance;
+                }
+                totalIncome += balanceData.income;
+                totalExpense += balanceData.expense;
+                totalTransactions += balanceData.transactions;
+            });
         });
         
-        // Add total row
+        // Add total rows: what is held, what is owed, and the difference
+        const i18n = this.plugin.i18n;
+        const addSubtotalRow = (label: string, amount: number) => {
+            const row = tbody.createEl('tr', { cls: 'subtotal-row' });
+            row.createEl('td', { text: label, cls: 'total-label' });
+            row.createEl('td', { text: this.formatMoney(amount) });
+            row.createEl('td', { attr: { colspan: '3' } });
+        };
+        addSubtotalRow(i18n.t('TOTAL_ASSETS'), totalAssets);
+        addSubtotalRow(i18n.t('TOTAL_LIABILITIES'), totalLiabilities);
+        
+        const netWorth = totalAssets - totalLiabilities;
         const totalRow = tbody.createEl('tr', { cls: 'total-row' });
         
-        totalRow.createEl('td', { text: 'Total', cls: 'total-label' });
+        totalRow.createEl('td', { text: i18n.t('NET_WORTH'), cls: 'total-label' });
         
         const totalBalanceCell = totalRow.createEl('td');
-        totalBalanceCell.setText(`¥${totalBalance.toFixed(2)}`);
-        if (totalBalance >= 0) {
+        totalBalanceCell.setText(this.formatMoney(netWorth));
+        if (netWorth >= 0) {
             totalBalanceCell.addClass('positive');
         } else {
             totalBalanceCell.addClass('negative');
         }
         
         const totalIncomeCell = totalRow.createEl('td');
-        totalIncomeCell.setText(`¥${totalIncome.toFixed(2)}`);
+        totalIncomeCell.setText(this.formatMoney(totalIncome));
         totalIncomeCell.addClass('income-value');
         
         const totalExpenseCell = totalRow.createEl('td');
-        totalExpenseCell.setText(`¥${totalExpense.toFixed(2)}`);
+        totalExpenseCell.setText(this.formatMoney(totalExpense));
         totalExpenseCell.addClass('expense-value');
         
         totalRow.createEl('td', { text: totalTransactions.toString() });
@@ -868,12 +870,15 @@ export class StatsView extends ItemView {
             const { start, end } = getPeriodDateRange(budget.period); // Get range for *current* period
             const relevantTransactions = this.transactions.filter(t => {
                 const transactionMoment = moment(normalizeTransactionDate(t.date));
-                // Filter transactions within the budget's current period AND matching the budget's scope
-                 return transactionMoment.isBetween(start, end, undefined, '[]') && 
-                        this.isTransactionInBudgetScope(t, budget);
+                // Filter transactions within the budget's current period
+                 return t.type === 'expense' &&
+                        transactionMoment.isBetween(start, end, undefined, '[]');
             });
             
-            const spending = relevantTransactions.reduce((sum, t) => sum + t.amount, 0); // Assuming budget tracks expenses
+            // Only the parts of split transactions that match the budget's scope count
+            const spending = relevantTransactions.reduce((sum, t) => sum + getCategoryAmounts(t)
+                .filter(part => this.isTransactionInBudgetScope(t, part, budget))
+                .reduce((partSum, part) => partSum + this.toBase(t, part.amount), 0), 0); // Assuming budget tracks expenses
 
             const percentage = budget.amount > 0 ? (spending / budget.amount) * 100 : 0;
             const scopeName = getScopeName(
@@ -896,7 +901,7 @@ export class StatsView extends ItemView {
             budgetItemEl.createEl('div', { text: titleText, cls: 'budget-item-title' });
 
             const detailsEl = budgetItemEl.createDiv({ cls: 'budget-item-details' });
-            detailsEl.createSpan({ text: `${i18n.t('AMOUNT')}: ¥${spending.toFixed(2)} / ¥${budget.amount.toFixed(2)} (${percentage.toFixed(1)}%)` });
+            detailsEl.createSpan({ text: `${i18n.t('AMOUNT')}: ${this.formatMoney(spending)} / ${this.formatMoney(budget.amount)} (${percentage.toFixed(1)}%)` });
 
             const progressBarContainer = budgetItemEl.createDiv({ cls: 'progress-bar-container' });
             const progressBar = progressBarContainer.createDiv({ cls: 'progress-bar' });
@@ -912,12 +917,12 @@ export class StatsView extends ItemView {
         });
     }
 
-     /** Helper to check if a transaction matches a budget's scope */
-    private isTransactionInBudgetScope(transaction: Transaction, budget: any): boolean {
+     /** Helper to check if a transaction (or one category part of it) matches a budget's scope */
+    private isTransactionInBudgetScope(transaction: Transaction, part: CategoryAmount, budget: any): boolean {
         if (budget.scope === 'all') return true;
         if (budget.scope === 'account' && transaction.accountId === budget.scopeId) return true;
-        if (budget.scope === 'category' && transaction.categoryId === budget.scopeId) return true;
-        if (budget.scope === 'tag' && transaction.tagIds?.includes(budget.scopeId)) return true;
+        if (budget.scope === 'category' && part.categoryId === budget.scopeId) return true;
+        if (budget.scope === 'tag' && part.tagIds.includes(budget.scopeId)) return true;
         // Add checks for hierarchical scopes if needed later
         return false;
     }
@@ -1053,57 +1058,22 @@ export class StatsView extends ItemView {
             const dateString = getDatePart(transaction.date);
             if (transactionsByDay[dateString]) {
                 if (transaction.type === 'income') {
-                    transactionsByDay[dateString].income += transaction.amount;
-                } else {
-                    transactionsByDay[dateString].expense += transaction.amount;
+                    transactionsByDay[dateString].income += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    transactionsByDay[dateString].expense += this.toBase(transaction);
                 }
             }
         });
         
-        // Create chart grid (similar to renderRecentTransactionsChart)
-        const chartEl = chartContainer.createDiv({cls: 'bar-chart-grid monthly-chart'}); // Use a generic class
-        
-        // Find the maximum value for scaling
-        let maxValue = 0;
-        monthDays.forEach(day => {
-            const dayData = transactionsByDay[day];
-            maxValue = Math.max(maxValue, dayData.income, dayData.expense);
-        });
-        maxValue = maxValue * 1.1 || 100; // Add padding, default 100
-        
-        // Create bars for each day
-        monthDays.forEach(day => {
-            const dayData = transactionsByDay[day];
-            const dayMoment = moment(day);
-            
-            const dayContainer = chartEl.createDiv({cls: 'bar-item-container'}); // Generic class
-            const barsContainer = dayContainer.createDiv({cls: 'bar-group'}); // Group income/expense
-            
-            // Income bar
-            const incomeBarWrapper = barsContainer.createDiv({cls: 'bar-wrapper'});
-            const incomeBar = incomeBarWrapper.createDiv({cls: 'bar income-bar'});
-            const incomeHeight = maxValue > 0 ? (dayData.income / maxValue) * 100 : 0;
-            incomeBar.style.height = `${incomeHeight}%`;
-            if (dayData.income > 0) {
-                incomeBar.createDiv({cls: 'bar-value'}).setText(`¥${dayData.income.toFixed(0)}`);
-            }
-            
-            // Expense bar
-            const expenseBarWrapper = barsContainer.createDiv({cls: 'bar-wrapper'});
-            const expenseBar = expenseBarWrapper.createDiv({cls: 'bar expense-bar'});
-            const expenseHeight = maxValue > 0 ? (dayData.expense / maxValue) * 100 : 0;
-            expenseBar.style.height = `${expenseHeight}%`;
-            if (dayData.expense > 0) {
-                expenseBar.createDiv({cls: 'bar-value'}).setText(`¥${dayData.expense.toFixed(0)}`);
-            }
-            
-            // Day label (e.g., "1", "2", ...)
-            const dayLabel = dayContainer.createDiv({cls: 'bar-label'});
-            dayLabel.setText(dayMoment.format('D'));
-        });
+        renderIncomeExpenseBarChart(
+            chartContainer,
+            monthDays.map(day => ({ label: moment(day).format('D'), ...transactionsByDay[day] })),
+            (amount, digits) => this.formatMoney(amount, digits),
+            { chart: 'monthly-chart' }
+        );
         
         // Add legend
-        this.addIncomeExpenseLegend(chartContainer);
+        addIncomeExpenseLegend(chartContainer);
     }
     
     private renderAssetTrendChart(containerEl: HTMLElement, transactions: Transaction[]): void {
@@ -1146,9 +1116,9 @@ export class StatsView extends ItemView {
             const periodKey = moment(normalizeTransactionDate(transaction.date)).startOf(groupUnit).format();
             if (transactionsByPeriod[periodKey]) {
                 if (transaction.type === 'income') {
-                    transactionsByPeriod[periodKey].income += transaction.amount;
-                } else {
-                    transactionsByPeriod[periodKey].expense += transaction.amount;
+                    transactionsByPeriod[periodKey].income += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    transactionsByPeriod[periodKey].expense += this.toBase(transaction);
                 }
                 transactionsByPeriod[periodKey].net = transactionsByPeriod[periodKey].income - transactionsByPeriod[periodKey].expense;
             }
@@ -1181,7 +1151,7 @@ export class StatsView extends ItemView {
             
             if (periodData.net !== 0) { // Add value label if not zero
                  const valueLabel = netBar.createDiv({cls: 'bar-value'});
-                 valueLabel.setText(`¥${periodData.net.toFixed(0)}`);
+                 valueLabel.setText(this.formatMoney(periodData.net, 0));
             }
 
             // Period label 
@@ -1218,19 +1188,21 @@ export class StatsView extends ItemView {
         const flatCategories = flattenHierarchy(this.plugin.settings.categories);
 
         expenseTransactions.forEach(transaction => {
-            const category = findCategoryById(this.plugin.settings.categories, transaction.categoryId);
-            const categoryName = category ? category.name : 'Uncategorized';
-            categoryExpenses[categoryName] = (categoryExpenses[categoryName] || 0) + transaction.amount;
+            getCategoryAmounts(transaction).forEach(part => {
+                const category = findCategoryById(this.plugin.settings.categories, part.categoryId);
+                const categoryName = category ? category.name : 'Uncategorized';
+                categoryExpenses[categoryName] = (categoryExpenses[categoryName] || 0) + this.toBase(transaction, part.amount);
+            });
         });
 
         const sortedCategories = Object.entries(categoryExpenses)
             .sort(([, a], [, b]) => b - a) // Sort descending by amount
             .map(([name, amount]) => ({ name, amount }));
 
-        const totalExpenses = expenseTransactions.reduce((sum, t) => sum + t.amount, 0);
+        const totalExpenses = expenseTransactions.reduce((sum, t) => sum + this.toBase(t), 0);
 
         // Use the existing function for rendering category pie charts
-        this.renderCategoryPieChart(chartContainer, sortedCategories, totalExpenses, 'Expense Breakdown');
+        renderCategoryPieChart(chartContainer, sortedCategories, totalExpenses, (amount, digits) => this.formatMoney(amount, digits));
     }
     
     private renderExpenseData(containerEl: HTMLElement, transactions: Transaction[]): void {
@@ -1251,13 +1223,15 @@ export class StatsView extends ItemView {
         let totalExpenses = 0;
 
         filteredTransactions.forEach(transaction => {
-            let categoryName = 'Uncategorized';
-            if (transaction.categoryId) {
-                const category = categories.find(c => c.id === transaction.categoryId);
-                if (category) categoryName = category.name;
-            }
-            expensesByCategory[categoryName] = (expensesByCategory[categoryName] || 0) + transaction.amount;
-            totalExpenses += transaction.amount;
+            getCategoryAmounts(transaction).forEach(part => {
+                let categoryName = 'Uncategorized';
+                if (part.categoryId) {
+                    const category = categories.find(c => c.id === part.categoryId);
+                    if (category) categoryName = category.name;
+                }
+                expensesByCategory[categoryName] = (expensesByCategory[categoryName] || 0) + this.toBase(transaction, part.amount);
+            });
+            totalExpenses += this.toBase(transaction);
         });
 
         // Sort categories by amount
@@ -1275,7 +1249,7 @@ export class StatsView extends ItemView {
         sortedCategories.forEach(([name, amount]) => {
             const row = tbody.createEl('tr');
             row.createEl('td', { text: name });
-            row.createEl('td', { text: `¥${amount.toFixed(2)}` });
+            row.createEl('td', { text: this.formatMoney(amount) });
             const percentage = totalExpenses > 0 ? (amount / totalExpenses * 100).toFixed(1) : '0.0';
             row.createEl('td', { text: `${percentage}%` });
         });
@@ -1284,7 +1258,7 @@ export class StatsView extends ItemView {
         const tfoot = table.createEl('tfoot');
         const totalRow = tfoot.createEl('tr');
         totalRow.createEl('th', { text: 'Total' });
-        totalRow.createEl('th', { text: `¥${totalExpenses.toFixed(2)}` });
+        totalRow.createEl('th', { text: this.formatMoney(totalExpenses) });
         totalRow.createEl('th', { text: totalExpenses > 0 ? '100.0%' : '0.0%' });
     }
     
@@ -1371,56 +1345,22 @@ export class StatsView extends ItemView {
             const monthKey = moment(normalizeTransactionDate(transaction.date)).format('YYYY-MM');
             if (transactionsByMonth[monthKey]) {
                 if (transaction.type === 'income') {
-                    transactionsByMonth[monthKey].income += transaction.amount;
-                } else {
-                    transactionsByMonth[monthKey].expense += transaction.amount;
+                    transactionsByMonth[monthKey].income += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    transactionsByMonth[monthKey].expense += this.toBase(transaction);
                 }
             }
         });
         
-        // Create chart grid (similar to monthly/daily charts)
-        const chartEl = chartContainer.createDiv({cls: 'bar-chart-grid yearly-chart'}); // Add specific class
-        
-        // Find the maximum value for scaling
-        let maxValue = 0;
-        yearMonths.forEach(monthKey => {
-            const monthData = transactionsByMonth[monthKey];
-            maxValue = Math.max(maxValue, monthData.income, monthData.expense);
-        });
-        maxValue = maxValue * 1.1 || 100; // Add padding, default 100
-        
-        // Create bars for each month
-        yearMonths.forEach((monthKey, index) => {
-            const monthData = transactionsByMonth[monthKey];
-            
-            const monthContainer = chartEl.createDiv({cls: 'bar-item-container month-container'}); 
-            const barsContainer = monthContainer.createDiv({cls: 'bar-group month-bars'});
-            
-            // Income bar
-            const incomeBarWrapper = barsContainer.createDiv({cls: 'bar-wrapper'});
-            const incomeBar = incomeBarWrapper.createDiv({cls: 'bar income-bar'});
-            const incomeHeight = maxValue > 0 ? (monthData.income / maxValue) * 100 : 0;
-            incomeBar.style.height = `${incomeHeight}%`;
-            if (monthData.income > 0) {
-                incomeBar.createDiv({cls: 'bar-value'}).setText(`¥${monthData.income.toFixed(0)}`);
-            }
-            
-            // Expense bar
-            const expenseBarWrapper = barsContainer.createDiv({cls: 'bar-wrapper'});
-            const expenseBar = expenseBarWrapper.createDiv({cls: 'bar expense-bar'});
-            const expenseHeight = maxValue > 0 ? (monthData.expense / maxValue) * 100 : 0;
-            expenseBar.style.height = `${expenseHeight}%`;
-            if (monthData.expense > 0) {
-                expenseBar.createDiv({cls: 'bar-value'}).setText(`¥${monthData.expense.toFixed(0)}`);
-            }
-            
-            // Month label (e.g., "Jan", "Feb", ...)
-            const monthLabelDiv = monthContainer.createDiv({cls: 'bar-label month-label'});
-            monthLabelDiv.setText(monthLabels[index]);
-        });
+        renderIncomeExpenseBarChart(
+            chartContainer,
+            yearMonths.map((monthKey, index) => ({ label: monthLabels[index], ...transactionsByMonth[monthKey] })),
+            (amount, digits) => this.formatMoney(amount, digits),
+            { chart: 'yearly-chart', item: 'month-container', group: 'month-bars', label: 'month-label' }
+        );
         
         // Add legend
-        this.addIncomeExpenseLegend(chartContainer);
+        addIncomeExpenseLegend(chartContainer);
     }
     
     private renderYearlyHeatmap(containerEl: HTMLElement, transactions: Transaction[]): void {
@@ -1452,9 +1392,9 @@ export class StatsView extends ItemView {
             const dateStr = getDatePart(t.date);
             if (dataByDay[dateStr]) {
                  if (t.type === 'income') {
-                    dataByDay[dateStr].income += t.amount;
-                 } else {
-                    dataByDay[dateStr].expense += t.amount;
+                    dataByDay[dateStr].income += this.toBase(t);
+                 } else if (t.type === 'expense') {
+                    dataByDay[dateStr].expense += this.toBase(t);
                  }
                  dataByDay[dateStr].net = dataByDay[dateStr].income - dataByDay[dateStr].expense;
             }
@@ -1503,7 +1443,7 @@ export class StatsView extends ItemView {
                 const dayData = dataByDay[dateStr];
                 const dayCell = monthContainer.createDiv('heatmap-day');
                 dayCell.dataset.date = dateStr;
-                dayCell.dataset.tooltip = `${dateStr}\nIncome: ¥${dayData.income.toFixed(2)}\nExpense: ¥${dayData.expense.toFixed(2)}\nNet: ¥${dayData.net.toFixed(2)}`;
+                dayCell.dataset.tooltip = `${dateStr}\nIncome: ${this.formatMoney(dayData.income)}\nExpense: ${this.formatMoney(dayData.expense)}\nNet: ${this.formatMoney(dayData.net)}`;
 
                  // Apply color based on net value
                  let intensity = 0; // 0 = white/gray (no activity)
@@ -1606,56 +1546,22 @@ export class StatsView extends ItemView {
             const periodKey = moment(normalizeTransactionDate(transaction.date)).startOf(groupUnit).format();
             if (transactionsByPeriod[periodKey]) {
                 if (transaction.type === 'income') {
-                    transactionsByPeriod[periodKey].income += transaction.amount;
-                } else {
-                    transactionsByPeriod[periodKey].expense += transaction.amount;
+                    transactionsByPeriod[periodKey].income += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    transactionsByPeriod[periodKey].expense += this.toBase(transaction);
                 }
             }
         });
         
-        // Create chart grid
-        const chartEl = chartContainer.createDiv({cls: 'bar-chart-grid custom-period-chart'});
-        
-        // Find the maximum value for scaling
-        let maxValue = 0;
-        uniquePeriods.forEach(periodKey => {
-            const periodData = transactionsByPeriod[periodKey];
-            maxValue = Math.max(maxValue, periodData.income, periodData.expense);
-        });
-        maxValue = maxValue * 1.1 || 100; 
-        
-        // Create bars for each period
-        uniquePeriods.forEach(periodKey => {
-            const periodData = transactionsByPeriod[periodKey];
-            
-            const periodContainer = chartEl.createDiv({cls: 'bar-item-container'});
-            const barsContainer = periodContainer.createDiv({cls: 'bar-group'});
-            
-            // Income bar
-            const incomeBarWrapper = barsContainer.createDiv({cls: 'bar-wrapper'});
-            const incomeBar = incomeBarWrapper.createDiv({cls: 'bar income-bar'});
-            const incomeHeight = maxValue > 0 ? (periodData.income / maxValue) * 100 : 0;
-            incomeBar.style.height = `${incomeHeight}%`;
-            if (periodData.income > 0) {
-                incomeBar.createDiv({cls: 'bar-value'}).setText(`¥${periodData.income.toFixed(0)}`);
-            }
-            
-            // Expense bar
-            const expenseBarWrapper = barsContainer.createDiv({cls: 'bar-wrapper'});
-            const expenseBar = expenseBarWrapper.createDiv({cls: 'bar expense-bar'});
-            const expenseHeight = maxValue > 0 ? (periodData.expense / maxValue) * 100 : 0;
-            expenseBar.style.height = `${expenseHeight}%`;
-            if (periodData.expense > 0) {
-                expenseBar.createDiv({cls: 'bar-value'}).setText(`¥${periodData.expense.toFixed(0)}`);
-            }
-            
-            // Period label
-            const periodLabelDiv = periodContainer.createDiv({cls: 'bar-label'});
-            periodLabelDiv.setText(moment(periodKey).format(timeFormat));
-        });
+        renderIncomeExpenseBarChart(
+            chartContainer,
+            uniquePeriods.map(periodKey => ({ label: moment(periodKey).format(timeFormat), ...transactionsByPeriod[periodKey] })),
+            (amount, digits) => this.formatMoney(amount, digits),
+            { chart: 'custom-period-chart' }
+        );
         
         // Add legend
-         this.addIncomeExpenseLegend(chartContainer);
+         addIncomeExpenseLegend(chartContainer);
     }
 
     /**
@@ -1670,6 +1576,12 @@ export class StatsView extends ItemView {
          // Add Summary for the filtered transactions
          this.addSummarySection(containerEl); // Show summary based on applied filters
 
+        // Export exactly what the table below shows
+        const exportButton = containerEl.createEl('button', { text: this.plugin.i18n.t('EXPORT'), cls: 'accounting-export-button' });
+        exportButton.addEventListener('click', () => {
+            new ExportModal(this.app, this.plugin, filteredTransactions).open();
+        });
+
         if (filteredTransactions.length === 0) {
             containerEl.createEl('p', { text: 'No transactions found matching the selected filters.' });
             return;
@@ -1682,7 +1594,7 @@ export class StatsView extends ItemView {
         const table = tableContainer.createEl('table', { cls: 'transactions-table full-transactions-table' });
         const thead = table.createEl('thead');
         const headerRow = thead.createEl('tr');
-        const headers = ['Date', 'Description', 'Category', 'Account', 'Tags', 'Amount', 'Type'];
+        const headers = ['Date', 'Description', 'Category', 'Account', 'Tags', 'Amount', 'Type', ''];
         headers.forEach(header => headerRow.createEl('th', { text: header }));
 
         const tbody = table.createEl('tbody');
@@ -1702,12 +1614,10 @@ export class StatsView extends ItemView {
             row.createEl('td', { text: transaction.description || '' });
 
             // Category
-            const category = categories.find(c => c.id === transaction.categoryId);
-            row.createEl('td', { text: category ? category.name : '?' });
+            row.createEl('td', { text: this.getCategoryLabel(transaction, categories) });
 
             // Account
-            const account = accounts.find(a => a.id === transaction.accountId);
-            row.createEl('td', { text: account ? account.name : '?' });
+            row.createEl('td', { text: this.getAccountLabel(transaction, accounts) });
 
             // Tags
             const tagNames = (transaction.tagIds || [])
@@ -1718,13 +1628,87 @@ export class StatsView extends ItemView {
 
             // Amount
             const amountCell = row.createEl('td');
-            amountCell.setText(`¥${transaction.amount.toFixed(2)}`);
+            amountCell.setText(this.formatNativeAmount(transaction));
             amountCell.addClass(transaction.type === 'income' ? 'income-value' : 'expense-value');
 
             // Type
             const typeCell = row.createEl('td');
             typeCell.setText(transaction.type);
             typeCell.addClass(transaction.type === 'income' ? 'income-type' : 'expense-type');
+
+            // Actions
+            this.addDeleteTransactionCell(row, transaction);
+        });
+    }
+
+    /**
+     * Convert (part of) a transaction's amount to the base currency for totals
+     */
+    private toBase(transaction: Transaction, amount = transaction.amount): number {
+        return convertTransactionAmount(transaction, this.plugin.settings, amount);
+    }
+
+    /**
+     * Convert the opening balance of an account to the base currency, at its date
+     */
+    private getBaseOpeningBalance(account: Account): number {
+        const date = account.openingDate || moment().format('YYYY-MM-DD');
+        return convertToBaseCurrency(getOpeningBalance(account), getAccountCurrency(account, this.plugin.settings), date, this.plugin.settings);
+    }
+
+    /**
+     * Format a total in the base currency
+     */
+    private formatMoney(amount: number, fractionDigits = 2): string {
+        return formatCurrency(amount, this.plugin.settings.baseCurrency, fractionDigits);
+    }
+
+    /**
+     * Format a transaction's amount in its own currency, for transaction lists
+     */
+    private formatNativeAmount(transaction: Transaction): string {
+        return formatCurrency(transaction.amount, getTransactionCurrency(transaction, this.plugin.settings));
+    }
+
+    /**
+     * Get the account column text for a transaction; transfers show both accounts
+     */
+    private getAccountLabel(transaction: Transaction, accounts: Account[]): string {
+        const nameOf = (accountId?: string) => accounts.find(a => a.id === accountId)?.name || '?';
+        if (transaction.type === 'transfer') {
+            return `${nameOf(transaction.fromAccountId)} → ${nameOf(transaction.toAccountId)}`;
+        }
+        return nameOf(transaction.accountId);
+    }
+
+    /**
+     * Get the category column text for a transaction; split transactions list every split's category
+     */
+    private getCategoryLabel(transaction: Transaction, categories: Omit<Category, 'children'>[]): string {
+        return getCategoryAmounts(transaction)
+            .map(part => categories.find(c => c.id === part.categoryId)?.name || '?')
+            .join(', ');
+    }
+
+    /**
+     * Add a cell with a delete button to a transaction row
+     * @param row The table row
+     * @param transaction The transaction shown in the row
+     * @param onDeleted Called after the transaction has been deleted
+     */
+    private addDeleteTransactionCell(row: HTMLElement, transaction: Transaction, onDeleted?: () => void): void {
+        const actionCell = row.createEl('td', { cls: 'transaction-actions' });
+        const deleteButton = actionCell.createEl('button', {
+            cls: 'transaction-delete-button',
+            attr: { 'aria-label': this.plugin.i18n.t('DELETE_TRANSACTION') }
+        });
+        setIcon(deleteButton, 'trash');
+
+        deleteButton.addEventListener('click', async (e) => {
+            e.stopPropagation(); // Don't open the edit modal of clickable rows
+            if (await this.plugin.deleteTransaction(transaction) && onDeleted) {
+                onDeleted();
+            }
         });
     }
 
@@ -1777,12 +1761,12 @@ export class StatsView extends ItemView {
             }
 
             // Filter by account (respect main filter)
-            if (this.selectedAccountId !== 'all' && transaction.accountId !== this.selectedAccountId) {
+            if (this.selectedAccountId !== 'all' && !isTransactionForAccount(transaction, this.selectedAccountId)) {
                 return false;
             }
 
             // Filter by category (respect main filter)
-            if (this.selectedCategoryId !== 'all' && transaction.categoryId !== this.selectedCategoryId) {
+            if (this.selectedCategoryId !== 'all' && !isTransactionInCategory(transaction, this.selectedCategoryId)) {
                 return false;
             }
             
@@ -1794,9 +1778,9 @@ export class StatsView extends ItemView {
 
         summaryMonthTransactions.forEach(transaction => {
             if (transaction.type === 'income') {
-                summaryMonthlyIncome += transaction.amount;
-            } else {
-                summaryMonthlyExpense += transaction.amount;
+                summaryMonthlyIncome += this.toBase(transaction);
+            } else if (transaction.type === 'expense') {
+                summaryMonthlyExpense += this.toBase(transaction);
             }
         });
 
@@ -1813,7 +1797,7 @@ export class StatsView extends ItemView {
             
             card.createEl('div', { text: label, cls: 'monthly-summary-label' });
             const amountEl = card.createEl('div', { 
-                text: `¥${Math.abs(amount).toFixed(0)}`,
+                text: this.formatMoney(Math.abs(amount), 0),
                 cls: `monthly-summary-amount ${type}`
             });
             
@@ -1948,9 +1932,9 @@ export class StatsView extends ItemView {
                 
                 dayTransactions.forEach(transaction => {
                     if (transaction.type === 'income') {
-                        dayIncome += transaction.amount;
-                    } else {
-                        dayExpense += transaction.amount;
+                        dayIncome += this.toBase(transaction);
+                    } else if (transaction.type === 'expense') {
+                        dayExpense += this.toBase(transaction);
                     }
                 });
                 
@@ -1966,18 +1950,18 @@ export class StatsView extends ItemView {
                 // Income
                 if (dayIncome > 0) {
                     const dayIncomeEl = transactionSummary.createDiv('day-income');
-                    dayIncomeEl.setText(`+¥${dayIncome.toFixed(0)}`); // Use toFixed(0) for brevity
+                    dayIncomeEl.setText(`+${this.formatMoney(dayIncome, 0)}`); // Use toFixed(0) for brevity
                 }
                 
                 // Expense
                 if (dayExpense > 0) {
                     const dayExpenseEl = transactionSummary.createDiv('day-expense');
-                    dayExpenseEl.setText(`-¥${dayExpense.toFixed(0)}`); // Use toFixed(0) for brevity
+                    dayExpenseEl.setText(`-${this.formatMoney(dayExpense, 0)}`); // Use toFixed(0) for brevity
                 }
                 
                 // Balance (Optional, can make it cluttered)
                  // const balanceEl = transactionSummary.createDiv(`day-balance ${dayBalance >= 0 ? 'positive' : 'negative'}`);
-                 // balanceEl.setText(`Net: ¥${dayBalance.toFixed(0)}`);
+                 // balanceEl.setText(`Net: ${this.formatMoney(dayBalance, 0)}`);
                 
                 // Make the day clickable to show transactions
                 dayCell.addClass('has-transactions');
@@ -2055,7 +2039,7 @@ export class StatsView extends ItemView {
         const thead = table.createEl('thead');
         const headerRow = thead.createEl('tr');
         
-        const headers = ['Time', 'Desc', 'Cat', 'Acc', 'Tags', 'Amount', 'Type']; // Use shorter headers
+        const headers = ['Time', 'Desc', 'Cat', 'Acc', 'Tags', 'Amount', 'Type', '']; // Use shorter headers
         
         headers.forEach(header => {
             headerRow.createEl('th', { text: header });
@@ -2090,12 +2074,10 @@ export class StatsView extends ItemView {
             row.createEl('td', { text: transaction.description || '' });
             
             // Category
-            const category = categories.find(c => c.id === transaction.categoryId);
-            row.createEl('td', { text: category ? category.name : '?' });
+            row.createEl('td', { text: this.getCategoryLabel(transaction, categories) });
             
             // Account
-            const account = accounts.find(a => a.id === transaction.accountId);
-            row.createEl('td', { text: account ? account.name : '?' });
+            row.createEl('td', { text: this.getAccountLabel(transaction, accounts) });
             
             // Tags
             const tagNames = (transaction.tagIds || [])
@@ -2106,7 +2088,7 @@ export class StatsView extends ItemView {
             
             // Amount
             const amountCell = row.createEl('td');
-            amountCell.setText(`¥${transaction.amount.toFixed(2)}`);
+            amountCell.setText(this.formatNativeAmount(transaction));
             amountCell.addClass(transaction.type === 'income' ? 'income-value' : 'expense-value');
             
             // Type
@@ -2114,6 +2096,9 @@ export class StatsView extends ItemView {
             typeCell.setText(transaction.type.substring(0,3)); // Shorten type
             typeCell.addClass(transaction.type === 'income' ? 'income-type' : 'expense-type');
 
+            // Actions
+            this.addDeleteTransactionCell(row, transaction, () => popupContainer.remove());
+
             // Add click listener to the row
             row.addEventListener('click', async () => {
                 // Find the full transaction details
@@ -2175,21 +2160,55 @@ export class StatsView extends ItemView {
         const accountsTreeContainer = accountsLayout.createDiv('accounts-tree-container');
         accountsTreeContainer.createEl('h4', { text: 'Account Hierarchy' });
         
-        // Create accounts tree
-        // Create the root UL element first and pass it
-        const rootListElement = accountsTreeContainer.createEl('ul', { cls: 'accounts-list root-level' });
-        this.renderAccountsHierarchy(rootListElement, accounts);
+        // Net worth: what the assets hold minus what is owed on liabilities, in the base currency
+        const allAccounts = flattenHierarchy(accounts);
+        const getBaseBalance = (account: Account) => this.transactions.reduce((sum, transaction) =>
+            sum + this.toBase(transaction, getAccountBalanceChange(transaction, account.id)), this.getBaseOpeningBalance(account));
+        const netWorth = allAccounts.reduce((sum, account) => sum + getBaseBalance(account), 0);
+        const netWorthEl = accountsTreeContainer.createDiv('accounts-net-worth');
+        netWorthEl.createSpan({ text: `${this.plugin.i18n.t('NET_WORTH')}: ` });
+        netWorthEl.createSpan({ cls: netWorth >= 0 ? 'positive' : 'negative', text: this.formatMoney(netWorth) });
+        
+        // Balance assertions that don't match the balances computed from the transactions
+        this.balanceAssertionResults = checkBalanceAssertions(this.plugin.balanceAssertions, this.transactions, this.plugin.settings);
+        this.renderFailedBalanceAssertions(accountsTreeContainer);
+        
+        // Create an accounts tree per account type
+        ACCOUNT_TYPES.forEach(type => {
+            const typeAccounts = allAccounts.filter(account => getAccountType(account) === type);
+            if (!accounts.some(account => !account.parentId && getAccountType(account) === type)) return;
+            const total = typeAccounts.reduce((sum, account) => sum + getBaseBalance(account), 0);
+            const typeHeader = accountsTreeContainer.createDiv('account-type-header');
+            typeHeader.createSpan({ text: getAccountTypeName(type, this.plugin.i18n) });
+            typeHeader.createSpan({
+                cls: `account-balance ${total >= 0 ? 'positive' : 'negative'}`,
+                text: this.formatMoney(getDisplayBalance(typeAccounts[0], total))
+            });
+            // Create the root UL element first and pass it
+            const rootListElement = accountsTreeContainer.createEl('ul', { cls: 'accounts-list root-level' });
+            this.renderAccountsHierarchy(rootListElement, accounts, 0, type);
+        });
         
         // Right column - account details
         const accountDetailsContainer = accountsLayout.createDiv('account-details-container');
         accountDetailsContainer.createEl('h4', { text: 'Account Details' });
         accountDetailsContainer.createEl('p', { text: 'Select an account to view details.' });
+        
+        // Ticking off a transaction rewrites it, which re-renders the view; keep the reconciliation open
+        const reconciledAccount = this.reconciliation && allAccounts.find(account => account.id === this.reconciliation!.accountId);
+        if (reconciledAccount) {
+            const accountRow = accountsTreeContainer.querySelector(`.account-item[data-account-id="${reconciledAccount.id}"] .account-row`) as HTMLElement | null;
+            if (accountRow) this.setActiveAccountRow(accountRow);
+            this.showReconciliation(reconciledAccount, accounts);
+        } else {
+            this.reconciliation = null;
+        }
     }
     
     /**
      * Render accounts hierarchy
      */
-    private renderAccountsHierarchy(parentListEl: HTMLUListElement, accounts: Account[], level = 0): void {
+    private renderAccountsHierarchy(parentListEl: HTMLUListElement, accounts: Account[], level = 0, type?: AccountType): void {
         // Get accounts for the current level (top-level or children of parentId)
         // Add type assertion for closest result
         const parentLiElement = parentListEl.closest('li.account-item') as HTMLLIElement | null;
@@ -2198,7 +2217,8 @@ export class StatsView extends ItemView {
         const currentLevelAccounts = accounts.filter(account => {
             // Normalize undefined/null/empty string parentId checks
             const accParentId = account.parentId || undefined;
-            return accParentId === parentId;
+            // Sub-accounts are listed under their parent whatever their type
+            return accParentId === parentId && (!type || level > 0 || getAccountType(account) === type);
         });
         
         // Sort accounts by name
@@ -2221,12 +2241,11 @@ export class StatsView extends ItemView {
         const accountRow = accountItem.createDiv('account-row');
         accountRow.style.paddingLeft = `${level * 15}px`; // Indentation based on level
         
-        // Calculate account balance (only for this specific account)
-        let balance = 0;
+        // Calculate account balance (only for this specific account), in the account's currency
+        const accountCurrency = getAccountCurrency(account, this.plugin.settings);
+        let balance = getOpeningBalance(account);
         this.transactions.forEach(transaction => {
-            if (transaction.accountId === account.id) {
-                balance += (transaction.type === 'income' ? transaction.amount : -transaction.amount);
-            }
+            balance += convertTransactionAmountTo(transaction, accountCurrency, this.plugin.settings, getAccountBalanceChange(transaction, account.id));
         });
         
         // Add expand/collapse toggle if children exist
@@ -2258,8 +2277,13 @@ export class StatsView extends ItemView {
         accountRow.createEl('span', { cls: 'account-name', text: account.name });
         accountRow.createEl('span', { 
             cls: `account-balance ${balance >= 0 ? 'positive' : 'negative'}`, 
-            text: `¥${balance.toFixed(2)}` 
+            text: formatCurrency(getDisplayBalance(account, balance), accountCurrency) 
         });
+        if (this.balanceAssertionResults.some(result => result.assertion.accountId === account.id && !result.matches)) {
+            const warning = accountRow.createSpan({ cls: 'balance-assertion-warning' });
+            setIcon(warning, 'alert-triangle');
+            warning.setAttribute('aria-label', this.plugin.i18n.t('BALANCE_ASSERTION_MISMATCH'));
+        }
         
         // Make account row clickable to show details
         accountRow.addEventListener('click', (e) => {
@@ -2300,6 +2324,7 @@ export class StatsView extends ItemView {
         
         // Clear container
         detailsContainer.empty();
+        this.reconciliation = null;
         
         // Add header
         detailsContainer.createEl('h4', { text: `Account: ${account.name}` });
@@ -2310,20 +2335,27 @@ export class StatsView extends ItemView {
 
         // Filter transactions for this account AND its children
         const accountAndChildrenTransactions = this.transactions.filter(transaction => 
-            transaction.accountId && allRelevantAccountIds.includes(transaction.accountId)
+            allRelevantAccountIds.some(accountId => isTransactionForAccount(transaction, accountId))
         );
 
         // Filter transactions only for this specific account (for recent list)
         const accountOnlyTransactions = this.transactions.filter(transaction => 
-             transaction.accountId === account.id
+             isTransactionForAccount(transaction, account.id)
         );
         
-        // Calculate totals (rollup)
-        const totalsRollup = this.calculateTotals(accountAndChildrenTransactions);
-        const balanceRollup = totalsRollup.balance;
+        // Calculate balance (rollup); transfers between the account and its children cancel out
+        // Child accounts may use other currencies, so the rollup is in the base currency
+        const openingRollup = allRelevantAccountIds.reduce((sum, accountId) => {
+            const relevantAccount = allAccounts.find(a => a.id === accountId);
+            return relevantAccount ? sum + this.getBaseOpeningBalance(relevantAccount) : sum;
+        }, 0);
+        const balanceRollup = accountAndChildrenTransactions.reduce((sum, transaction) => 
+            sum + this.toBase(transaction, allRelevantAccountIds.reduce((change, accountId) => change + getAccountBalanceChange(transaction, accountId), 0)), openingRollup);
         
-        // Calculate balance for only this account
-        const balanceDirect = this.calculateTotals(accountOnlyTransactions).balance;
+        // Calculate balance for only this account, in the account's currency
+        const accountCurrency = getAccountCurrency(account, this.plugin.settings);
+        const balanceDirect = accountOnlyTransactions.reduce((sum, transaction) => 
+            sum + convertTransactionAmountTo(transaction, accountCurrency, this.plugin.settings, getAccountBalanceChange(transaction, account.id)), getOpeningBalance(account));
 
         // Create summary section
         const summarySection = detailsContainer.createDiv('account-summary');
@@ -2331,18 +2363,23 @@ export class StatsView extends ItemView {
         
         // Direct Balance card
          const directBalanceCard = summaryGrid.createDiv('summary-card balance-card');
-         directBalanceCard.createEl('h5', { text: 'Direct Balance' });
+         directBalanceCard.createEl('h5', { text: isLiabilityAccount(account) ? this.plugin.i18n.t('AMOUNT_OWED') : 'Direct Balance' });
          const directBalanceValue = directBalanceCard.createDiv('summary-value');
-         directBalanceValue.setText(`¥${balanceDirect.toFixed(2)}`);
+         directBalanceValue.setText(formatCurrency(getDisplayBalance(account, balanceDirect), accountCurrency));
          directBalanceValue.addClass(balanceDirect >= 0 ? 'positive' : 'negative');
          
         // Total Rollup Balance card
         const rollupBalanceCard = summaryGrid.createDiv('summary-card balance-card');
         rollupBalanceCard.createEl('h5', { text: 'Total Balance (with Children)' });
         const rollupBalanceValue = rollupBalanceCard.createDiv('summary-value');
-        rollupBalanceValue.setText(`¥${balanceRollup.toFixed(2)}`);
+        rollupBalanceValue.setText(this.formatMoney(getDisplayBalance(account, balanceRollup)));
         rollupBalanceValue.addClass(balanceRollup >= 0 ? 'positive' : 'negative');
         
+        // Credit card cards: what can still be spent, and when the next statement is due
+        if (getAccountType(account) === 'credit') {
+            this.renderCreditCardCards(summaryGrid, account, balanceDirect, accountCurrency);
+        }
+        
         // Transaction count card (Direct)
         const countCardDirect = summaryGrid.createDiv('summary-card count-card');
         countCardDirect.createEl('h5', { text: 'Direct Transactions' });
@@ -2353,6 +2390,10 @@ export class StatsView extends ItemView {
         countCardRollup.createEl('h5', { text: 'Total Transactions (with Children)' });
         countCardRollup.createDiv('summary-value').setText(accountAndChildrenTransactions.length.toString());
         
+        const reconcileButton = detailsContainer.createEl('button', { cls: 'reconcile-button', text: this.plugin.i18n.t('RECONCILE') });
+        reconcileButton.addEventListener('click', () => this.showReconciliation(account, allAccounts));
+        
+        this.renderAccountBalanceAssertions(detailsContainer, account, accountCurrency);
         
         // If no direct transactions, show message
         if (accountOnlyTransactions.length === 0) {
@@ -2367,7 +2408,7 @@ export class StatsView extends ItemView {
              const table = transactionsSection.createEl('table', { cls: 'transactions-table compact-transactions-table' });
              const thead = table.createEl('thead');
              const headerRow = thead.createEl('tr');
-             const headers = ['Date', 'Desc', 'Cat', 'Amount', 'Type']; // Compact view
+             const headers = ['Date', 'Desc', 'Cat', 'Amount', 'Type', '']; // Compact view
              headers.forEach(header => headerRow.createEl('th', { text: header }));
              
              const tbody = table.createEl('tbody');
@@ -2393,18 +2434,20 @@ export class StatsView extends ItemView {
                  row.createEl('td', { text: transaction.description || '' });
                  
                  // Category
-                 const category = categories.find(c => c.id === transaction.categoryId);
-                 row.createEl('td', { text: category ? category.name : '?' });
+                 row.createEl('td', { text: this.getCategoryLabel(transaction, categories) });
                  
                  // Amount
                  const amountCell = row.createEl('td');
-                 amountCell.setText(`¥${transaction.amount.toFixed(2)}`);
+                 amountCell.setText(this.formatNativeAmount(transaction));
                  amountCell.addClass(transaction.type === 'income' ? 'income-value' : 'expense-value');
                  
                  // Type
                  const typeCell = row.createEl('td');
                  typeCell.setText(transaction.type.substring(0,3)); // Shorten
                  typeCell.addClass(transaction.type === 'income' ? 'income-type' : 'expense-type');
+                 
+                 // Actions
+                 this.addDeleteTransactionCell(row, transaction);
              });
              
              // Add "View All" button if there are more than 10 transactions
@@ -2434,6 +2477,302 @@ export class StatsView extends ItemView {
          }
     }
 
+    /**
+     * Reconcile an account with a statement: tick off the transactions on the statement as
+     * cleared until the cleared balance matches the statement balance, then mark them reconciled
+     */
+    private showReconciliation(account: Account, allAccounts: Account[]): void {
+        const detailsContainer = this.contentEl.querySelector('.account-details-container') as HTMLElement;
+        if (!detailsContainer) return;
+        detailsContainer.empty();
+
+        const i18n = this.plugin.i18n;
+        if (!this.reconciliation || this.reconciliation.accountId !== account.id) {
+            this.reconciliation = { accountId: account.id, date: moment().format('YYYY-MM-DD'), balance: '' };
+        }
+        const state = this.reconciliation;
+        const currency = getAccountCurrency(account, this.plugin.settings);
+
+        detailsContainer.createEl('h4', { text: `${i18n.t('RECONCILE')}: ${account.name}` });
+        const backButton = detailsContainer.createEl('button', { cls: 'back-button', text: '← Back to Account Details' });
+        backButton.addEventListener('click', () => this.showAccountDetails(account, allAccounts));
+
+        new Setting(detailsContainer)
+            .setName(i18n.t('STATEMENT_DATE'))
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(state.date).onChange(value => {
+                    if (!moment(value, 'YYYY-MM-DD', true).isValid()) return;
+                    state.date = value;
+                    renderTransactions();
+                });
+            });
+        new Setting(detailsContainer)
+            .setName(i18n.t('STATEMENT_BALANCE'))
+            .setDesc(i18n.t('STATEMENT_BALANCE_DESC'))
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setValue(state.balance).onChange(value => {
+                    state.balance = value.trim();
+                    renderSummary();
+                });
+            });
+
+        const summaryGrid = detailsContainer.createDiv('summary-grid reconcile-summary');
+        const listContainer = detailsContainer.createDiv('reconcile-transactions');
+        const finishButton = detailsContainer.createEl('button', { cls: 'mod-cta', text: i18n.t('FINISH_RECONCILIATION') });
+        finishButton.addEventListener('click', async () => {
+            finishButton.disabled = true;
+            await this.finishReconciliation(account);
+            finishButton.disabled = false;
+        });
+
+        const renderSummary = () => {
+            summaryGrid.empty();
+            const clearedBalance = this.getClearedBalance(account, state.date);
+            const statementBalance = parseFloat(state.balance);
+            const addCard = (title: string, value: string, cls?: string) => {
+                const card = summaryGrid.createDiv('summary-card');
+                card.createEl('h5', { text: title });
+                const valueEl = card.createDiv('summary-value');
+                valueEl.setText(value);
+                if (cls) valueEl.addClass(cls);
+            };
+            addCard(i18n.t('CLEARED_BALANCE'), formatCurrency(clearedBalance, currency));
+            if (!isNaN(statementBalance)) {
+                const difference = statementBalance - clearedBalance;
+                const balanced = Math.abs(difference) < 0.005;
+                addCard(i18n.t('BALANCE_DIFFERENCE'), formatCurrency(balanced ? 0 : difference, currency), balanced ? 'positive' : 'negative');
+            }
+        };
+
+        const renderTransactions = () => {
+            listContainer.empty();
+            const transactions = this.getUnreconciledTransactions(account, state.date);
+            if (transactions.some(transaction => !this.canRecordStatus(transaction))) {
+                listContainer.createEl('p', { cls: 'reconcile-warning', text: i18n.t('RECONCILE_TEMPLATE_NO_STATUS') });
+            }
+            if (transactions.some(transaction => transaction.type === 'transfer')) {
+                listContainer.createEl('p', { cls: 'reconcile-note', text: i18n.t('RECONCILE_TRANSFER_SHARED') });
+            }
+            if (transactions.length === 0) {
+                listContainer.createEl('p', { text: i18n.t('RECONCILE_NOTHING_TO_CLEAR') });
+            } else {
+                const table = listContainer.createEl('table', { cls: 'transactions-table compact-transactions-table' });
+                const headerRow = table.createEl('thead').createEl('tr');
+                ['', i18n.t('DATE'), i18n.t('DESCRIPTION'), i18n.t('AMOUNT')].forEach(header => headerRow.createEl('th', { text: header }));
+                const tbody = table.createEl('tbody');
+                transactions.forEach(transaction => {
+                    const row = tbody.createEl('tr');
+                    const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+                    checkbox.checked = transaction.status === 'cleared';
+                    checkbox.disabled = !this.canRecordStatus(transaction);
+                    checkbox.addEventListener('change', async () => {
+                        checkbox.disabled = true;
+                        await this.setTransactionStatus(transaction, checkbox.checked ? 'cleared' : undefined);
+                    });
+                    row.createEl('td', { text: getDatePart(transaction.date) });
+                    row.createEl('td', { text: transaction.description || transaction.note || '' });
+                    const change = getDisplayBalance(account, convertTransactionAmountTo(
+                        transaction, currency, this.plugin.settings, getAccountBalanceChange(transaction, account.id)));
+                    row.createEl('td', { text: formatCurrency(change, currency), cls: change >= 0 ? 'income-value' : 'expense-value' });
+                });
+            }
+            renderSummary();
+        };
+
+        renderTransactions();
+    }
+
+    /**
+     * Transactions of an account up to a statement date that were not reconciled yet, oldest first
+     */
+    private getUnreconciledTransactions(account: Account, date: string): Transaction[] {
+        return this.transactions
+            .filter(transaction => isTransactionForAccount(transaction, account.id)
+                && transaction.status !== 'reconciled'
+                && getDatePart(transaction.date) <= date)
+            .sort((a, b) => normalizeTransactionDate(a.date).localeCompare(normalizeTransactionDate(b.date)));
+    }
+
+    /**
+     * Balance of the cleared and reconciled transactions of an account up to a day,
+     * including its opening balance, in the account's currency and shown the way it is
+     * shown for the account
+     */
+    private getClearedBalance(account: Account, date: string): number {
+        const currency = getAccountCurrency(account, this.plugin.settings);
+        const balance = this.transactions
+            .filter(transaction => !!transaction.status && getDatePart(transaction.date) <= date)
+            .reduce((sum, transaction) => sum + convertTransactionAmountTo(
+                transaction, currency, this.plugin.settings, getAccountBalanceChange(transaction, account.id)), getOpeningBalance(account, date));
+        return getDisplayBalance(account, balance);
+    }
+
+    /**
+     * Whether the template a transaction is written with has a place for its status
+     */
+    private canRecordStatus(transaction: Transaction): boolean {
+        const template = transaction.type === 'transfer'
+            ? compileTemplate(this.plugin.settings.transferTemplate, TRANSFER_REQUIRED_FIELDS)
+            : compileTemplate(this.plugin.settings.transactionTemplate);
+        return template.groups.status !== undefined;
+    }
+
+    /**
+     * Write a transaction with a new reconciliation status
+     * @returns Whether the transaction was written
+     */
+    private async setTransactionStatus(transaction: Transaction, status: TransactionStatus | undefined): Promise<boolean> {
+        const updated: Transaction = { ...transaction, status };
+        if (!status) {
+            delete updated.status;
+        }
+        try {
+            await this.plugin.replaceTransaction(updated);
+        } catch (error) {
+            console.error('Error updating transaction status:', error);
+            new Notice(`${this.plugin.i18n.t('ERROR_UPDATING_STATUS')}: ${error.message}`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Mark the cleared transactions up to the statement date reconciled, once the cleared
+     * balance matches the statement balance
+     */
+    private async finishReconciliation(account: Account): Promise<void> {
+        const i18n = this.plugin.i18n;
+        const state = this.reconciliation;
+        if (!state) return;
+        const statementBalance = parseFloat(state.balance);
+        if (isNaN(statementBalance)) {
+            new Notice(i18n.t('ERROR_INVALID_STATEMENT_BALANCE'));
+            return;
+        }
+        if (Math.abs(statementBalance - this.getClearedBalance(account, state.date)) >= 0.005) {
+            new Notice(i18n.t('RECONCILE_NOT_BALANCED'));
+            return;
+        }
+
+        const cleared = this.getUnreconciledTransactions(account, state.date).filter(transaction => transaction.status === 'cleared');
+        this.reconciliation = null;
+        let reconciled = 0;
+        for (const transaction of cleared) {
+            if (await this.setTransactionStatus(transaction, 'reconciled')) {
+                reconciled++;
+            }
+        }
+        await this.plugin.loadAllTransactions();
+        new Notice(i18n.t('RECONCILE_FINISHED').replace('{count}', reconciled.toString()));
+    }
+
+    /**
+     * Add the available credit and the next statement and payment dates of a credit card
+     * to the account summary
+     */
+    private renderCreditCardCards(summaryGrid: HTMLElement, account: Account, balance: number, currency: string): void {
+        const i18n = this.plugin.i18n;
+        const addCard = (title: string, value: string, cls?: string) => {
+            const card = summaryGrid.createDiv('summary-card credit-card');
+            card.createEl('h5', { text: title });
+            const valueEl = card.createDiv('summary-value');
+            valueEl.setText(value);
+            if (cls) valueEl.addClass(cls);
+        };
+        
+        if (account.creditLimit) {
+            // The balance is negative while something is owed
+            const available = account.creditLimit + balance;
+            addCard(i18n.t('CREDIT_LIMIT'), formatCurrency(account.creditLimit, currency));
+            addCard(i18n.t('AVAILABLE_CREDIT'), formatCurrency(available, currency), available >= 0 ? 'positive' : 'negative');
+        }
+        const cycle = getCreditCardCycle(account, moment().format('YYYY-MM-DD'));
+        if (cycle) {
+            addCard(i18n.t('NEXT_STATEMENT'), cycle.statementDate);
+            if (cycle.dueDate) {
+                addCard(i18n.t('PAYMENT_DUE'), cycle.dueDate);
+            }
+        }
+    }
+
+    /**
+     * List the balance assertions that don't match, with the file and line they are written on
+     */
+    private renderFailedBalanceAssertions(containerEl: HTMLElement): void {
+        const failed = this.balanceAssertionResults.filter(result => !result.matches);
+        if (failed.length === 0) return;
+        
+        const i18n = this.plugin.i18n;
+        const section = containerEl.createDiv('balance-assertion-failures');
+        section.createDiv({
+            cls: 'balance-assertion-failures-title',
+            text: i18n.t('BALANCE_ASSERTIONS_FAILED')
+                .replace('{failed}', failed.length.toString())
+                .replace('{count}', this.balanceAssertionResults.length.toString())
+        });
+        const list = section.createEl('ul');
+        failed.forEach(result => {
+            const currency = getAccountCurrency(result.account, this.plugin.settings);
+            const item = list.createEl('li');
+            item.createSpan({ text: `${result.account?.name || result.assertion.accountId} ${result.assertion.date}: ` });
+            item.createSpan({
+                cls: 'negative',
+                text: i18n.t('BALANCE_ASSERTION_DIFFERENCE')
+                    .replace('{expected}', formatCurrency(result.assertion.amount, currency))
+                    .replace('{actual}', formatCurrency(result.balance, currency))
+            });
+            const link = item.createEl('a', { cls: 'balance-assertion-source', text: `${result.assertion.filePath}:${result.assertion.line}` });
+            link.addEventListener('click', () => this.openBalanceAssertion(result));
+        });
+    }
+
+    /**
+     * Show the balance assertions of an account in its details, and a button to add one
+     */
+    private renderAccountBalanceAssertions(containerEl: HTMLElement, account: Account, currency: string): void {
+        const i18n = this.plugin.i18n;
+        const section = containerEl.createDiv('account-balance-assertions');
+        section.createEl('h5', { text: i18n.t('BALANCE_ASSERTIONS') });
+        
+        const results = this.balanceAssertionResults.filter(result => result.assertion.accountId === account.id);
+        if (results.length > 0) {
+            const table = section.createEl('table', { cls: 'transactions-table compact-transactions-table' });
+            const headerRow = table.createEl('thead').createEl('tr');
+            [i18n.t('DATE'), i18n.t('BALANCE_ASSERTED'), i18n.t('BALANCE_COMPUTED'), i18n.t('BALANCE_DIFFERENCE')]
+                .forEach(header => headerRow.createEl('th', { text: header }));
+            const tbody = table.createEl('tbody');
+            [...results].reverse().forEach(result => {
+                const row = tbody.createEl('tr', { cls: result.matches ? '' : 'balance-assertion-failed' });
+                const dateCell = row.createEl('td');
+                const link = dateCell.createEl('a', { text: result.assertion.date });
+                link.addEventListener('click', () => this.openBalanceAssertion(result));
+                row.createEl('td', { text: formatCurrency(result.assertion.amount, currency) });
+                row.createEl('td', { text: formatCurrency(result.balance, currency) });
+                row.createEl('td', {
+                    cls: result.matches ? 'positive' : 'negative',
+                    text: result.matches ? '✓' : formatCurrency(result.difference, currency)
+                });
+            });
+        }
+        
+        const addButton = section.createEl('button', { text: i18n.t('ADD_BALANCE_ASSERTION') });
+        addButton.addEventListener('click', () => {
+            new BalanceAssertionModal(this.app, this.plugin, account).open();
+        });
+    }
+
+    /**
+     * Open the ledger file a balance assertion is written in, at its line
+     */
+    private async openBalanceAssertion(result: BalanceAssertionResult): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(result.assertion.filePath);
+        if (file instanceof TFile) {
+            await this.app.workspace.getLeaf(false).openFile(file, { eState: { line: result.assertion.line - 1 } });
+        }
+    }
+
     /** Helper to recursively get all child account IDs */
      private getChildAccountIds(parentId: string, allAccounts: Account[]): string[] {
         const children = allAccounts.filter(a => a.parentId === parentId);
@@ -2487,15 +2826,15 @@ export class StatsView extends ItemView {
         
          // Add 'Account' column only if it's a rollup view
          const headers = isRollupView 
-             ? ['Date', 'Description', 'Category', 'Account', 'Tags', 'Amount', 'Type'] 
-             : ['Date', 'Description', 'Category', 'Tags', 'Amount', 'Type'];
+             ? ['Date', 'Description', 'Category', 'Account', 'Tags', 'Amount', 'Type', ''] 
+             : ['Date', 'Description', 'Category', 'Tags', 'Amount', 'Type', ''];
         headers.forEach(header => headerRow.createEl('th', { text: header }));
         
         // Table body
         const tbody = table.createEl('tbody');
         const categories = flattenHierarchy(this.plugin.settings.categories);
         const tags = flattenHierarchy(this.plugin.settings.tags);
-         const accountsMap = new Map(flattenHierarchy(allAccounts).map(a => [a.id, a.name])); // Map for quick lookup if needed
+         const flatAccounts = flattenHierarchy(allAccounts);
         
         // Sort transactions by date (newest first)
         const sortedTransactions = [...transactions].sort((a, b) => 
@@ -2514,13 +2853,11 @@ export class StatsView extends ItemView {
             row.createEl('td', { text: transaction.description || '' });
             
             // Category
-            const category = categories.find(c => c.id === transaction.categoryId);
-            row.createEl('td', { text: category ? category.name : '?' });
+            row.createEl('td', { text: this.getCategoryLabel(transaction, categories) });
 
              // Account (only if rollup view)
              if (isRollupView) {
-                 const accountName = transaction.accountId ? accountsMap.get(transaction.accountId) : '?';
-                 row.createEl('td', { text: accountName });
+                 row.createEl('td', { text: this.getAccountLabel(transaction, flatAccounts) });
              }
             
             // Tags
@@ -2532,13 +2869,16 @@ export class StatsView extends ItemView {
             
             // Amount
             const amountCell = row.createEl('td');
-            amountCell.setText(`¥${transaction.amount.toFixed(2)}`);
+            amountCell.setText(this.formatNativeAmount(transaction));
             amountCell.addClass(transaction.type === 'income' ? 'income-value' : 'expense-value');
             
             // Type
             const typeCell = row.createEl('td');
             typeCell.setText(transaction.type);
             typeCell.addClass(transaction.type === 'income' ? 'income-type' : 'expense-type');
+            
+            // Actions
+            this.addDeleteTransactionCell(row, transaction);
         });
     }
 
@@ -2636,9 +2976,9 @@ export class StatsView extends ItemView {
             
             if (transactionsByMonth[monthKey]) {
                 if (transaction.type === 'income') {
-                    transactionsByMonth[monthKey].income += transaction.amount;
-                } else {
-                    transactionsByMonth[monthKey].expenses += transaction.amount;
+                    transactionsByMonth[monthKey].income += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    transactionsByMonth[monthKey].expenses += this.toBase(transaction);
                 }
                 transactionsByMonth[monthKey].balance = 
                     transactionsByMonth[monthKey].income - transactionsByMonth[monthKey].expenses;
@@ -2677,7 +3017,7 @@ export class StatsView extends ItemView {
             const incomeHeightPercentage = maxIncomeExpense > 0 ? (monthData.income / maxIncomeExpense) * 100 : 0;
             incomeBar.style.height = `${incomeHeightPercentage}%`;
             if (monthData.income > 0) {
-                incomeBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(`¥${monthData.income.toFixed(0)}`);
+                incomeBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(this.formatMoney(monthData.income, 0));
             }
             
             // Expense bar
@@ -2686,7 +3026,7 @@ export class StatsView extends ItemView {
             const expenseHeightPercentage = maxIncomeExpense > 0 ? (monthData.expenses / maxIncomeExpense) * 100 : 0;
             expenseBar.style.height = `${expenseHeightPercentage}%`;
             if (monthData.expenses > 0) {
-                expenseBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(`¥${monthData.expenses.toFixed(0)}`);
+                expenseBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(this.formatMoney(monthData.expenses, 0));
             }
             
             // Balance bar
@@ -2696,7 +3036,7 @@ export class StatsView extends ItemView {
             const balanceHeightPercentage = maxAbsBalance > 0 ? (Math.abs(monthData.balance) / maxAbsBalance) * 100 : 0;
             balanceBar.style.height = `${balanceHeightPercentage}%`;
             const balanceValueDiv = balanceBar.createDiv({cls: 'bar-value trend-bar-value'});
-            balanceValueDiv.setText(`¥${monthData.balance.toFixed(0)}`);
+            balanceValueDiv.setText(this.formatMoney(monthData.balance, 0));
             
             // Month label
             const monthLabelDiv = monthContainer.createDiv('bar-label trend-period-label');
@@ -2765,16 +3105,16 @@ export class StatsView extends ItemView {
             const analysisBody = analysisTable.createEl('tbody'); // Use tbody directly for key-value pairs
 
             const analysisData = [
-                { label: 'Avg Monthly Income', value: `¥${avgIncome.toFixed(2)}` },
-                { label: 'Avg Monthly Expenses', value: `¥${avgExpenses.toFixed(2)}` },
-                { label: 'Avg Monthly Balance', value: `¥${avgBalance.toFixed(2)}`, class: avgBalance >= 0 ? 'positive' : 'negative' },
-                { label: 'Highest Income Month', value: `${moment(highestIncomeMonth).format('MMM YYYY')} (¥${highestIncomeValue.toFixed(2)})` },
-                { label: 'Highest Expense Month', value: `${moment(highestExpenseMonth).format('MMM YYYY')} (¥${highestExpenseValue.toFixed(2)})` },
-                 { label: 'Highest Balance Month', value: `${moment(highestBalanceMonth).format('MMM YYYY')} (¥${highestBalanceValue.toFixed(2)})`, class: 'positive' },
-                 { label: 'Lowest Balance Month', value: `${moment(lowestBalanceMonth).format('MMM YYYY')} (¥${lowestBalanceValue.toFixed(2)})`, class: 'negative' },
-                 { label: `Total Income (${totalMonths} mo)`, value: `¥${totalIncome.toFixed(2)}` },
-                 { label: `Total Expenses (${totalMonths} mo)`, value: `¥${totalExpenses.toFixed(2)}` },
-                 { label: `Net Balance (${totalMonths} mo)`, value: `¥${totalBalance.toFixed(2)}`, class: totalBalance >= 0 ? 'positive' : 'negative' }
+                { label: 'Avg Monthly Income', value: this.formatMoney(avgIncome) },
+                { label: 'Avg Monthly Expenses', value: this.formatMoney(avgExpenses) },
+                { label: 'Avg Monthly Balance', value: this.formatMoney(avgBalance), class: avgBalance >= 0 ? 'positive' : 'negative' },
+                { label: 'Highest Income Month', value: `${moment(highestIncomeMonth).format('MMM YYYY')} (${this.formatMoney(highestIncomeValue)})` },
+                { label: 'Highest Expense Month', value: `${moment(highestExpenseMonth).format('MMM YYYY')} (${this.formatMoney(highestExpenseValue)})` },
+                 { label: 'Highest Balance Month', value: `${moment(highestBalanceMonth).format('MMM YYYY')} (${this.formatMoney(highestBalanceValue)})`, class: 'positive' },
+                 { label: 'Lowest Balance Month', value: `${moment(lowestBalanceMonth).format('MMM YYYY')} (${this.formatMoney(lowestBalanceValue)})`, class: 'negative' },
+                 { label: `Total Income (${totalMonths} mo)`, value: this.formatMoney(totalIncome) },
+                 { label: `Total Expenses (${totalMonths} mo)`, value: this.formatMoney(totalExpenses) },
+                 { label: `Net Balance (${totalMonths} mo)`, value: this.formatMoney(totalBalance), class: totalBalance >= 0 ? 'positive' : 'negative' }
             ];
             analysisData.forEach(item => {
                 const row = analysisBody.createEl('tr');
@@ -2818,9 +3158,9 @@ export class StatsView extends ItemView {
             
             if (transactionsByYear[yearKey]) {
                 if (transaction.type === 'income') {
-                    transactionsByYear[yearKey].income += transaction.amount;
-                } else {
-                    transactionsByYear[yearKey].expenses += transaction.amount;
+                    transactionsByYear[yearKey].income += this.toBase(transaction);
+                } else if (transaction.type === 'expense') {
+                    transactionsByYear[yearKey].expenses += this.toBase(transaction);
                 }
                 transactionsByYear[yearKey].balance = 
                     transactionsByYear[yearKey].income - transactionsByYear[yearKey].expenses;
@@ -2857,7 +3197,7 @@ export class StatsView extends ItemView {
             const incomeHeightPercentage = maxIncomeExpense > 0 ? (yearData.income / maxIncomeExpense) * 100 : 0;
             incomeBar.style.height = `${incomeHeightPercentage}%`;
             if (yearData.income > 0) {
-                 incomeBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(`¥${yearData.income.toFixed(0)}`);
+                 incomeBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(this.formatMoney(yearData.income, 0));
             }
             
             // Expense bar
@@ -2866,7 +3206,7 @@ export class StatsView extends ItemView {
             const expenseHeightPercentage = maxIncomeExpense > 0 ? (yearData.expenses / maxIncomeExpense) * 100 : 0;
             expenseBar.style.height = `${expenseHeightPercentage}%`;
             if (yearData.expenses > 0) {
-                 expenseBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(`¥${yearData.expenses.toFixed(0)}`);
+                 expenseBar.createDiv({cls: 'bar-value trend-bar-value'}).setText(this.formatMoney(yearData.expenses, 0));
             }
             
             // Balance bar
@@ -2875,7 +3215,7 @@ export class StatsView extends ItemView {
             const balanceHeightPercentage = maxAbsBalance > 0 ? (Math.abs(yearData.balance) / maxAbsBalance) * 100 : 0;
             balanceBar.style.height = `${balanceHeightPercentage}%`;
              const balanceValueDiv = balanceBar.createDiv({cls: 'bar-value trend-bar-value'});
-             balanceValueDiv.setText(`¥${yearData.balance.toFixed(0)}`);
+             balanceValueDiv.setText(this.formatMoney(yearData.balance, 0));
             
             // Year label
             const yearLabelDiv = yearContainer.createDiv('bar-label trend-period-label');
@@ -2948,15 +3288,15 @@ export class StatsView extends ItemView {
             row.createEl('td', { text: yearKey });
             // Income
              const incomeCell = row.createEl('td');
-             incomeCell.setText(`¥${yearData.income.toFixed(2)}`);
+             incomeCell.setText(this.formatMoney(yearData.income));
              incomeCell.addClass('income-value');
              // Expenses
              const expenseCell = row.createEl('td');
-             expenseCell.setText(`¥${yearData.expenses.toFixed(2)}`);
+             expenseCell.setText(this.formatMoney(yearData.expenses));
              expenseCell.addClass('expense-value');
              // Balance
              const balanceCell = row.createEl('td');
-             balanceCell.setText(`¥${yearData.balance.toFixed(2)}`);
+             balanceCell.setText(this.formatMoney(yearData.balance));
              balanceCell.addClass(yearData.balance >= 0 ? 'positive' : 'negative');
             
              // Growth Columns
@@ -2997,7 +3337,9 @@ export class StatsView extends ItemView {
         containerEl.createEl('h4', { text: 'Category Trends (Monthly)' });
 
         const categoryTypeTabs = containerEl.createDiv('category-type-tabs');
-        let currentCategoryType: 'income' | 'expense' = 'expense'; // Default to expense
+        let currentCategoryType = 'expense' as 'income' | 'expense'; // Default to expense
+        const filteredTransactions = this.getFilteredTransactionsForCurrentScope();
+        const categories = flattenHierarchy(this.plugin.settings.categories);
 
         const expenseTab = categoryTypeTabs.createEl('button', {
             cls: ['category-type-tab', currentCategoryType === 'expense' ? 'active' : ''],
@@ -3025,14 +3367,16 @@ export class StatsView extends ItemView {
                 return;
             }
             
-            // Group transactions by category ID
-            const transactionsByCategory: { [categoryId: string]: Transaction[] } = {};
+            // Group transactions by category ID, split transactions by each split's category
+            const transactionsByCategory: { [categoryId: string]: CategoryAmount[] } = {};
             typeTransactions.forEach((transaction: Transaction) => { // Added type for transaction
-                const categoryId = transaction.categoryId;
-                if (!transactionsByCategory[categoryId]) {
-                    transactionsByCategory[categoryId] = [];
-                }
-                transactionsByCategory[categoryId].push(transaction);
+                getCategoryAmounts(transaction).forEach(part => {
+                    const categoryId = part.categoryId || 'uncategorized';
+                    if (!transactionsByCategory[categoryId]) {
+                        transactionsByCategory[categoryId] = [];
+                    }
+                    transactionsByCategory[categoryId].push({ ...part, amount: this.toBase(transaction, part.amount) });
+                });
             });
 
              // Map back to names for display, keeping uncategorized separate
@@ -3059,7 +3403,7 @@ export class StatsView extends ItemView {
             const chartSection = categoryTrendsTableContainer.createDiv('category-chart-section');
              chartSection.createEl('h4', { text: `${type === 'income' ? 'Income' : 'Expense'} Breakdown by Category` });
              // Reuse the pie chart rendering function
-             this.renderCategoryPieChart(chartSection, sortedCategories, totalAmount); 
+             renderCategoryPieChart(chartSection, sortedCategories, totalAmount, (amount, digits) => this.formatMoney(amount, digits));
             
             // Create trend analysis section (Table)
             const analysisSection = categoryTrendsTableContainer.createDiv('trend-analysis-section category-table-section');
@@ -3080,11 +3424,11 @@ export class StatsView extends ItemView {
                 const row = tbody.createEl('tr');
                 row.createEl('td', { text: catData.name });
                  row.createEl('td', { text: catData.count.toString() });
-                row.createEl('td', { text: `¥${catData.amount.toFixed(2)}` });
+                row.createEl('td', { text: this.formatMoney(catData.amount) });
                 const percentage = totalAmount > 0 ? (catData.amount / totalAmount) * 100 : 0;
                 row.createEl('td', { text: `${percentage.toFixed(1)}%` });
                  const avgAmount = catData.count > 0 ? (catData.amount / catData.count) : 0;
-                 row.createEl('td', { text: `¥${avgAmount.toFixed(2)}` });
+                 row.createEl('td', { text: this.formatMoney(avgAmount) });
             });
             
             // Add total row
@@ -3093,10 +3437,10 @@ export class StatsView extends ItemView {
             totalRow.createEl('td', { text: 'Total' });
              const totalCount = sortedCategories.reduce((sum, cat) => sum + cat.count, 0);
              totalRow.createEl('td', { text: totalCount.toString() });
-            totalRow.createEl('td', { text: `¥${totalAmount.toFixed(2)}` });
+            totalRow.createEl('td', { text: this.formatMoney(totalAmount) });
             totalRow.createEl('td', { text: totalAmount > 0 ? '100.0%' : '0.0%' });
              const overallAvg = totalCount > 0 ? (totalAmount / totalCount) : 0;
-             totalRow.createEl('td', { text: `¥${overallAvg.toFixed(2)}` });
+             totalRow.createEl('td', { text: this.formatMoney(overallAvg) });
         };
         
         // Render expense categories by default
@@ -3169,19 +3513,21 @@ export class StatsView extends ItemView {
         let totalIncome = 0;
 
         incomeTransactions.forEach(transaction => {
-             let categoryId = transaction.categoryId || 'uncategorized';
-             let categoryName = 'Uncategorized';
-             if (transaction.categoryId) {
-                 const category = categories.find(c => c.id === transaction.categoryId);
-                 if (category) categoryName = category.name;
-                 else categoryId = 'uncategorized';
-             }
-             if (!incomeByCategory[categoryId]) {
-                 incomeByCategory[categoryId] = { amount: 0, count: 0 };
-             }
-             incomeByCategory[categoryId].amount += transaction.amount;
-             incomeByCategory[categoryId].count++;
-             totalIncome += transaction.amount;
+             getCategoryAmounts(transaction).forEach(part => {
+                 let categoryId = part.categoryId || 'uncategorized';
+                 let categoryName = 'Uncategorized';
+                 if (part.categoryId) {
+                     const category = categories.find(c => c.id === part.categoryId);
+                     if (category) categoryName = category.name;
+                     else categoryId = 'uncategorized';
+                 }
+                 if (!incomeByCategory[categoryId]) {
+                     incomeByCategory[categoryId] = { amount: 0, count: 0 };
+                 }
+                 incomeByCategory[categoryId].amount += this.toBase(transaction, part.amount);
+                 incomeByCategory[categoryId].count++;
+             });
+             totalIncome += this.toBase(transaction);
         });
 
         const incomeDataForDisplay: { name: string, amount: number, count: number }[] = [];
@@ -3196,7 +3542,7 @@ export class StatsView extends ItemView {
         const sortedIncome = incomeDataForDisplay.sort((a, b) => b.amount - a.amount);
 
         // Render Pie Chart
-        this.renderCategoryPieChart(containerEl, sortedIncome, totalIncome, 'Income Sources');
+        renderCategoryPieChart(containerEl, sortedIncome, totalIncome, (amount, digits) => this.formatMoney(amount, digits));
 
         // Render Table
         const tableContainer = containerEl.createDiv('income-data-container');
@@ -3214,21 +3560,21 @@ export class StatsView extends ItemView {
             const row = tbody.createEl('tr');
             row.createEl('td', { text: catData.name });
             row.createEl('td', { text: catData.count.toString() });
-            row.createEl('td', { text: `¥${catData.amount.toFixed(2)}` });
+            row.createEl('td', { text: this.formatMoney(catData.amount) });
             const percentage = totalIncome > 0 ? (catData.amount / totalIncome) * 100 : 0;
             row.createEl('td', { text: `${percentage.toFixed(1)}%` });
             const avgAmount = catData.count > 0 ? (catData.amount / catData.count) : 0;
-            row.createEl('td', { text: `¥${avgAmount.toFixed(2)}` });
+            row.createEl('td', { text: this.formatMoney(avgAmount) });
         });
          const tfoot = table.createEl('tfoot');
          const totalRow = tfoot.createEl('tr');
          totalRow.createEl('td', { text: 'Total' });
          const totalCount = sortedIncome.reduce((sum, i) => sum + i.count, 0);
          totalRow.createEl('td', { text: totalCount.toString() });
-         totalRow.createEl('td', { text: `¥${totalIncome.toFixed(2)}` });
+         totalRow.createEl('td', { text: this.formatMoney(totalIncome) });
          totalRow.createEl('td', { text: '100.0%' });
           const overallAvg = totalCount > 0 ? (totalIncome / totalCount) : 0;
-         totalRow.createEl('td', { text: `¥${overallAvg.toFixed(2)}` });
+         totalRow.createEl('td', { text: this.formatMoney(overallAvg) });
     }
 
     /** Helper for Analysis Tab: Render Cash Flow Overview */
@@ -3246,13 +3592,13 @@ export class StatsView extends ItemView {
               if (valueClass) cell.addClass(valueClass);
          };
 
-         createRow('Total Income', `¥${totals.income.toFixed(2)}`, 'income-value');
-         createRow('Total Expenses', `¥${totals.expenses.toFixed(2)}`, 'expense-value');
-         createRow('Net Cash Flow (Balance)', `¥${totals.balance.toFixed(2)}`, totals.balance >= 0 ? 'positive' : 'negative');
+         createRow('Total Income', this.formatMoney(totals.income), 'income-value');
+         createRow('Total Expenses', this.formatMoney(totals.expenses), 'expense-value');
+         createRow('Net Cash Flow (Balance)', this.formatMoney(totals.balance), totals.balance >= 0 ? 'positive' : 'negative');
          createRow('Savings Rate', `${savingsRate.toFixed(1)}%`, savingsRate >= 0 ? 'positive' : 'negative'); // Savings rate as % of income
-         createRow('Average Transaction Amount', `¥${(transactions.reduce((sum, t) => sum + t.amount, 0) / transactions.length).toFixed(2)}`);
-         createRow('Average Income Transaction', `¥${(totals.income / transactions.filter(t=>t.type==='income').length || 0).toFixed(2)}`);
-         createRow('Average Expense Transaction', `¥${(totals.expenses / transactions.filter(t=>t.type==='expense').length || 0).toFixed(2)}`);
+         createRow('Average Transaction Amount', this.formatMoney(transactions.reduce((sum, t) => sum + this.toBase(t), 0) / transactions.length));
+         createRow('Average Income Transaction', this.formatMoney(totals.income / transactions.filter(t=>t.type==='income').length || 0));
+         createRow('Average Expense Transaction', this.formatMoney(totals.expenses / transactions.filter(t=>t.type==='expense').length || 0));
     }
 
     /** Helper for Analysis Tab: Render Tag Analysis */
@@ -3274,22 +3620,23 @@ export class StatsView extends ItemView {
 
 
         transactions.forEach(t => {
-            const tagIds = t.tagIds || [];
-             if (tagIds.length === 0) {
-                 // Count untagged transactions
-                 if (t.type === 'income') tagData['untagged'].income += t.amount;
-                 else tagData['untagged'].expense += t.amount;
-                 tagData['untagged'].count++;
-             } else {
-                 tagIds.forEach(tagId => {
-                     if (tagData[tagId]) {
-                         if (t.type === 'income') tagData[tagId].income += t.amount;
-                         else tagData[tagId].expense += t.amount;
-                         tagData[tagId].count++;
-                     }
-                      // Could handle unknown tag IDs here if needed
-                 });
-             }
+            if (t.type === 'transfer') return; // Transfers are neither income nor expense
+            // Splits can carry their own tags, so tag amounts come from each split
+            const countedTagIds = new Set<string>();
+            getCategoryAmounts(t).forEach(part => {
+                const tagIds = part.tagIds.length > 0 ? part.tagIds : ['untagged'];
+                tagIds.forEach(tagId => {
+                    if (tagData[tagId]) {
+                        if (t.type === 'income') tagData[tagId].income += this.toBase(t, part.amount);
+                        else if (t.type === 'expense') tagData[tagId].expense += this.toBase(t, part.amount);
+                        if (!countedTagIds.has(tagId)) {
+                            tagData[tagId].count++;
+                            countedTagIds.add(tagId);
+                        }
+                    }
+                     // Could handle unknown tag IDs here if needed
+                });
+            });
         });
 
          // Prepare data for table, filtering out tags with no transactions
@@ -3333,11 +3680,11 @@ export class StatsView extends ItemView {
              const row = tbody.createEl('tr');
              row.createEl('td', { text: d.name });
              row.createEl('td', { text: d.count.toString() });
-              const incCell = row.createEl('td', { text: `¥${d.income.toFixed(2)}` });
+              const incCell = row.createEl('td', { text: this.formatMoney(d.income) });
               if (d.income > 0) incCell.addClass('income-value');
-              const expCell = row.createEl('td', { text: `¥${d.expense.toFixed(2)}` });
+              const expCell = row.createEl('td', { text: this.formatMoney(d.expense) });
               if (d.expense > 0) expCell.addClass('expense-value');
-              const netCell = row.createEl('td', { text: `¥${d.net.toFixed(2)}` });
+              const netCell = row.createEl('td', { text: this.formatMoney(d.net) });
               if (d.net !== 0) netCell.addClass(d.net > 0 ? 'positive' : 'negative');
          });
      }
@@ -3422,108 +3769,10 @@ export class StatsView extends ItemView {
      * Refresh the view with updated data
      */
     public async refreshView(): Promise<void> {
-        await this.loadTransactions();
+        await this.plugin.loadAllTransactions();
         this.renderStats();
     }
 
-    // Dummy renderExpensePieChart for structure - replace with actual implementation if needed
-     /**
-     * Renders a pie chart for category breakdown (income or expense).
-     */
-    private renderCategoryPieChart(
-        containerEl: HTMLElement, 
-        categoryData: { name: string, amount: number }[], // Expects sorted data with names and amounts
-        totalAmount: number,
-        title: string = 'Breakdown' // Optional title override
-    ): void {
-        const chartOuterContainer = containerEl.createDiv('pie-chart-outer-container');
-        // chartOuterContainer.createEl('h5', { text: title }); // Title is usually provided by the calling context (e.g., h4)
-
-        const chartContainer = chartOuterContainer.createDiv('category-pie-chart-container');
-
-        if (categoryData.length === 0 || totalAmount <= 0) {
-            chartContainer.createEl('p', { text: 'No data for pie chart.' });
-            return;
-        }
-
-        // Limit slices shown? (e.g., top 9 + "Other")
-        const maxSlices = 10;
-        let displayData = categoryData;
-        let otherAmount = 0;
-        if (categoryData.length > maxSlices) {
-            displayData = categoryData.slice(0, maxSlices - 1);
-            otherAmount = categoryData.slice(maxSlices - 1).reduce((sum, cat) => sum + cat.amount, 0);
-            if (otherAmount > 0) {
-                displayData.push({ name: 'Other', amount: otherAmount });
-            }
-        }
-        
-        // Generate CSS conic gradient string
-        let gradientString = 'conic-gradient(';
-        let currentPercentage = 0;
-        const colors = this.generateCategoryColors(displayData.length); // Helper to get distinct colors
-        
-        displayData.forEach(({ name, amount }, index) => {
-            const percentage = (amount / totalAmount) * 100;
-            const color = colors[index % colors.length]; // Cycle colors if needed
-            gradientString += `${color} ${currentPercentage}% ${currentPercentage + percentage}%, `;
-            currentPercentage += percentage;
-        });
-        
-        // Remove trailing comma and space, add closing parenthesis
-        gradientString = gradientString.slice(0, -2) + ')';
-
-        // Create pie element
-        const pieElement = chartContainer.createDiv({ cls: 'pie-chart' });
-        pieElement.style.background = gradientString;
-        // Add a tooltip showing the total?
-        pieElement.title = `Total: ¥${totalAmount.toFixed(2)}`;
-        
-        // Create legend (optional, table often serves this purpose)
-        // const legendContainer = chartContainer.createDiv({ cls: 'pie-chart-legend' });
-        // displayData.forEach(({ name, amount }, index) => {
-        //     const percentage = (amount / totalAmount) * 100;
-        //     const legendItem = legendContainer.createDiv({ cls: 'legend-item' });
-        //     const colorBox = legendItem.createDiv({ cls: 'legend-color' });
-        //     colorBox.style.backgroundColor = colors[index % colors.length];
-        //     legendItem.createEl('span', { text: `${name}: ¥${amount.toFixed(2)} (${percentage.toFixed(1)}%)` });
-        // });
-    }
-    
-    /**
-     * Helper function to generate distinct colors for categories.
-     * Simple HSL based color generation.
-     */
-    private generateCategoryColors(count: number): string[] {
-        const colors: string[] = [];
-         // Use a base hue and rotate, varying lightness/saturation slightly for more distinction
-         const baseHue = 200; // Start somewhere like blue/teal
-         const hueStep = count > 1 ? 360 / count : 0; 
-        for (let i = 0; i < count; i++) {
-            const hue = (baseHue + i * hueStep) % 360;
-             // Alternate saturation/lightness slightly
-            const saturation = 60 + (i % 2) * 10; // e.g., 60% or 70%
-            const lightness = 55 + (i % 3) * 5; // e.g., 55%, 60%, 65%
-            colors.push(`hsl(${hue}, ${saturation}%, ${lightness}%)`); 
-        }
-        // If only one color, make it reasonably distinct
-         if (count === 1) {
-             return ['hsl(210, 70%, 60%)']; // A standard blueish color
-         }
-        return colors;
-    }
-
-     /** Helper to add a standard Income/Expense legend */
-     private addIncomeExpenseLegend(containerEl: HTMLElement): void {
-        const legend = containerEl.createDiv({cls: 'chart-legend'});
-        const incomeLegend = legend.createDiv({cls: 'legend-item'});
-        incomeLegend.createDiv({cls: 'legend-color income-color'});
-        incomeLegend.createEl('span', { text: 'Income' });
-        const expenseLegend = legend.createDiv({cls: 'legend-item'});
-        expenseLegend.createDiv({cls: 'legend-color expense-color'});
-        expenseLegend.createEl('span', { text: 'Expenses' });
-    }
-
     // --- Report Rendering Methods ---
 
     /** Base class or function for generating reports? Could abstract common parts. */
@@ -3582,20 +3831,22 @@ export class StatsView extends ItemView {
                  const cats = flattenHierarchy(this.plugin.settings.categories);
                  const expByCat: Record<string, number> = {};
                  expenses.forEach(t => {
-                     const catName = cats.find(c => c.id === t.categoryId)?.name || 'Uncategorized';
-                     expByCat[catName] = (expByCat[catName] || 0) + t.amount;
+                     getCategoryAmounts(t).forEach(part => {
+                         const catName = cats.find(c => c.id === part.categoryId)?.name || 'Uncategorized';
+                         expByCat[catName] = (expByCat[catName] || 0) + this.toBase(t, part.amount);
+                     });
                  });
                  const sortedExp = Object.entries(expByCat).sort((a, b) => b[1] - a[1]);
                  if (sortedExp.length > 0) {
-                     topExpenseCat = `${sortedExp[0][0]} (¥${sortedExp[0][1].toFixed(0)})`;
+                     topExpenseCat = `${sortedExp[0][0]} (${this.formatMoney(sortedExp[0][1], 0)})`;
                  }
              }
 
             const row = tbody.createEl('tr');
             row.createEl('td', { text: moment(monthKey).format('MMM YYYY') });
-            row.createEl('td', { text: `¥${totals.income.toFixed(2)}`, cls: 'income-value' });
-            row.createEl('td', { text: `¥${totals.expenses.toFixed(2)}`, cls: 'expense-value' });
-             const balanceCell = row.createEl('td', { text: `¥${totals.balance.toFixed(2)}` });
+            row.createEl('td', { text: this.formatMoney(totals.income), cls: 'income-value' });
+            row.createEl('td', { text: this.formatMoney(totals.expenses), cls: 'expense-value' });
+             const balanceCell = row.createEl('td', { text: this.formatMoney(totals.balance) });
              balanceCell.addClass(totals.balance >= 0 ? 'positive' : 'negative');
             row.createEl('td', { text: monthTransactions.length.toString() });
             row.createEl('td', { text: topExpenseCat });
@@ -3605,10 +3856,10 @@ export class StatsView extends ItemView {
          const tfoot = table.createEl('tfoot');
          const totalRow = tfoot.createEl('tr');
          totalRow.createEl('th', { text: 'Total / Avg' });
-         totalRow.createEl('th', { text: `¥${totalIncome.toFixed(2)}` });
-         totalRow.createEl('th', { text: `¥${totalExpenses.toFixed(2)}` });
+         totalRow.createEl('th', { text: this.formatMoney(totalIncome) });
+         totalRow.createEl('th', { text: this.formatMoney(totalExpenses) });
          const totalBalance = totalIncome - totalExpenses;
-         const totalBalCell = totalRow.createEl('th', { text: `¥${totalBalance.toFixed(2)}` });
+         const totalBalCell = totalRow.createEl('th', { text: this.formatMoney(totalBalance) });
          totalBalCell.addClass(totalBalance >= 0 ? 'positive' : 'negative');
          totalRow.createEl('th', { text: totalCount.toString() });
          totalRow.createEl('th', { text: '-' }); // No total for top category
@@ -3658,11 +3909,11 @@ export class StatsView extends ItemView {
 
             const row = tbody.createEl('tr');
             row.createEl('td', { text: yearKey });
-            row.createEl('td', { text: `¥${totals.income.toFixed(2)}`, cls: 'income-value' });
-            row.createEl('td', { text: `¥${totals.expenses.toFixed(2)}`, cls: 'expense-value' });
-            const balanceCell = row.createEl('td', { text: `¥${totals.balance.toFixed(2)}` });
+            row.createEl('td', { text: this.formatMoney(totals.income), cls: 'income-value' });
+            row.createEl('td', { text: this.formatMoney(totals.expenses), cls: 'expense-value' });
+            const balanceCell = row.createEl('td', { text: this.formatMoney(totals.balance) });
             balanceCell.addClass(totals.balance >= 0 ? 'positive' : 'negative');
-             const avgBalCell = row.createEl('td', { text: `¥${avgMonthlyBal.toFixed(2)}` });
+             const avgBalCell = row.createEl('td', { text: this.formatMoney(avgMonthlyBal) });
              avgBalCell.addClass(avgMonthlyBal >= 0 ? 'positive' : 'negative');
             row.createEl('td', { text: yearTransactions.length.toString() });
         });
@@ -3670,15 +3921,15 @@ export class StatsView extends ItemView {
          const tfoot = table.createEl('tfoot');
          const totalRow = tfoot.createEl('tr');
          totalRow.createEl('th', { text: 'Overall Total / Avg' });
-         totalRow.createEl('th', { text: `¥${grandTotalIncome.toFixed(2)}` });
-         totalRow.createEl('th', { text: `¥${grandTotalExpenses.toFixed(2)}` });
+         totalRow.createEl('th', { text: this.formatMoney(grandTotalIncome) });
+         totalRow.createEl('th', { text: this.formatMoney(grandTotalExpenses) });
          const grandTotalBalance = grandTotalIncome - grandTotalExpenses;
-         const totalBalCell = totalRow.createEl('th', { text: `¥${grandTotalBalance.toFixed(2)}` });
+         const totalBalCell = totalRow.createEl('th', { text: this.formatMoney(grandTotalBalance) });
          totalBalCell.addClass(grandTotalBalance >= 0 ? 'positive' : 'negative');
          // Avg monthly balance over the entire period shown
          const totalMonthsOverall = new Set(filteredTransactions.map(t => moment(normalizeTransactionDate(t.date)).format('YYYY-MM'))).size;
          const overallAvgMonthlyBal = totalMonthsOverall > 0 ? grandTotalBalance / totalMonthsOverall : 0;
-         const overallAvgCell = totalRow.createEl('th', { text: `¥${overallAvgMonthlyBal.toFixed(2)}`});
+         const overallAvgCell = totalRow.createEl('th', { text: this.formatMoney(overallAvgMonthlyBal)});
          overallAvgCell.addClass(overallAvgMonthlyBal >= 0 ? 'positive' : 'negative');
          totalRow.createEl('th', { text: grandTotalCount.toString() });
     }
@@ -3700,13 +3951,16 @@ export class StatsView extends ItemView {
          categoryData['uncategorized'] = { income: 0, expense: 0, count: 0 }; // For uncategorized
 
          filteredTransactions.forEach(t => {
-             const catId = t.categoryId || 'uncategorized';
-             if (!categoryData[catId]) { // Handle potentially unknown category IDs from data
-                 categoryData[catId] = { income: 0, expense: 0, count: 0 }; 
-             }
-             if (t.type === 'income') categoryData[catId].income += t.amount;
-             else categoryData[catId].expense += t.amount;
-             categoryData[catId].count++;
+             if (t.type === 'transfer') return; // Transfers are neither income nor expense
+             getCategoryAmounts(t).forEach(part => {
+                 const catId = part.categoryId || 'uncategorized';
+                 if (!categoryData[catId]) { // Handle potentially unknown category IDs from data
+                     categoryData[catId] = { income: 0, expense: 0, count: 0 }; 
+                 }
+                 if (t.type === 'income') categoryData[catId].income += this.toBase(t, part.amount);
+                 else if (t.type === 'expense') categoryData[catId].expense += this.toBase(t, part.amount);
+                 categoryData[catId].count++;
+             });
          });
 
          const tableData = Object.entries(categoryData).map(([id, data]) => ({
@@ -3739,27 +3993,27 @@ export class StatsView extends ItemView {
              totalIncome += d.income; totalExpenses += d.expense; totalCount += d.count;
              const row = tbody.createEl('tr');
              row.createEl('td', { text: d.name });
-             row.createEl('td', { text: `¥${d.income.toFixed(2)}`, cls: 'income-value' });
-             row.createEl('td', { text: `¥${d.expense.toFixed(2)}`, cls: 'expense-value' });
-             const netCell = row.createEl('td', { text: `¥${d.net.toFixed(2)}` });
+             row.createEl('td', { text: this.formatMoney(d.income), cls: 'income-value' });
+             row.createEl('td', { text: this.formatMoney(d.expense), cls: 'expense-value' });
+             const netCell = row.createEl('td', { text: this.formatMoney(d.net) });
              netCell.addClass(d.net >= 0 ? 'positive' : 'negative');
              row.createEl('td', { text: d.count.toString() });
              const avgNet = d.count > 0 ? d.net / d.count : 0;
-             const avgNetCell = row.createEl('td', { text: `¥${avgNet.toFixed(2)}` });
+             const avgNetCell = row.createEl('td', { text: this.formatMoney(avgNet) });
              avgNetCell.addClass(avgNet >= 0 ? 'positive' : 'negative');
          });
 
          const tfoot = table.createEl('tfoot');
          const totalRow = tfoot.createEl('tr');
          totalRow.createEl('th', { text: 'Total' });
-         totalRow.createEl('th', { text: `¥${totalIncome.toFixed(2)}` });
-         totalRow.createEl('th', { text: `¥${totalExpenses.toFixed(2)}` });
+         totalRow.createEl('th', { text: this.formatMoney(totalIncome) });
+         totalRow.createEl('th', { text: this.formatMoney(totalExpenses) });
          const totalNet = totalIncome - totalExpenses;
-         const totalNetCell = totalRow.createEl('th', { text: `¥${totalNet.toFixed(2)}` });
+         const totalNetCell = totalRow.createEl('th', { text: this.formatMoney(totalNet) });
          totalNetCell.addClass(totalNet >= 0 ? 'positive' : 'negative');
          totalRow.createEl('th', { text: totalCount.toString() });
           const totalAvgNet = totalCount > 0 ? totalNet / totalCount : 0;
-          const totalAvgNetCell = totalRow.createEl('th', { text: `¥${totalAvgNet.toFixed(2)}` });
+          const totalAvgNetCell = totalRow.createEl('th', { text: this.formatMoney(totalAvgNet) });
           totalAvgNetCell.addClass(totalAvgNet >= 0 ? 'positive' : 'negative');
     }
     
@@ -3779,12 +4033,13 @@ export class StatsView extends ItemView {
          accountData['unassigned'] = { income: 0, expense: 0, count: 0 }; // For transactions without an account
 
          filteredTransactions.forEach(t => {
+             if (t.type === 'transfer') return; // Transfers are neither income nor expense
              const accId = t.accountId || 'unassigned';
              if (!accountData[accId]) { // Handle unknown account IDs
                  accountData[accId] = { income: 0, expense: 0, count: 0 }; 
              }
-             if (t.type === 'income') accountData[accId].income += t.amount;
-             else accountData[accId].expense += t.amount;
+             if (t.type === 'income') accountData[accId].income += this.toBase(t);
+             else if (t.type === 'expense') accountData[accId].expense += this.toBase(t);
              accountData[accId].count++;
          });
 
@@ -3816,9 +4071,9 @@ export class StatsView extends ItemView {
              totalIncome += d.income; totalExpenses += d.expense; totalCount += d.count;
              const row = tbody.createEl('tr');
              row.createEl('td', { text: d.name });
-             row.createEl('td', { text: `¥${d.income.toFixed(2)}`, cls: 'income-value' });
-             row.createEl('td', { text: `¥${d.expense.toFixed(2)}`, cls: 'expense-value' });
-             const netCell = row.createEl('td', { text: `¥${d.net.toFixed(2)}` });
+             row.createEl('td', { text: this.formatMoney(d.income), cls: 'income-value' });
+             row.createEl('td', { text: this.formatMoney(d.expense), cls: 'expense-value' });
+             const netCell = row.createEl('td', { text: this.formatMoney(d.net) });
              netCell.addClass(d.net >= 0 ? 'positive' : 'negative');
              row.createEl('td', { text: d.count.toString() });
          });
@@ -3826,10 +4081,10 @@ export class StatsView extends ItemView {
          const tfoot = table.createEl('tfoot');
          const totalRow = tfoot.createEl('tr');
          totalRow.createEl('th', { text: 'Total' });
-         totalRow.createEl('th', { text: `¥${totalIncome.toFixed(2)}` });
-         totalRow.createEl('th', { text: `¥${totalExpenses.toFixed(2)}` });
+         totalRow.createEl('th', { text: this.formatMoney(totalIncome) });
+         totalRow.createEl('th', { text: this.formatMoney(totalExpenses) });
          const totalNet = totalIncome - totalExpenses;
-         const totalNetCell = totalRow.createEl('th', { text: `¥${totalNet.toFixed(2)}` });
+         const totalNetCell = totalRow.createEl('th', { text: this.formatMoney(totalNet) });
          totalNetCell.addClass(totalNet >= 0 ? 'positive' : 'negative');
          totalRow.createEl('th', { text: totalCount.toString() });
     }
@@ -3970,9 +4225,9 @@ export class StatsView extends ItemView {
             if (transactionsByDay[dateString]) {
                 // Safely check the transaction type
                 if (t.type === 'income') {
-                    transactionsByDay[dateString].income += t.amount;
-                } else {
-                    transactionsByDay[dateString].expense += t.amount;
+                    transactionsByDay[dateString].income += this.toBase(t);
+                } else if (t.type === 'expense') {
+                    transactionsByDay[dateString].expense += this.toBase(t);
                 }
                 
                 transactionsByDay[dateString].count++;
@@ -4016,7 +4271,7 @@ export class StatsView extends ItemView {
             
             // Add data attributes for tooltip
             dayCell.dataset.date = dateStr;
-            dayCell.dataset.tooltip = `${dateStr}\nIncome: ¥${dayData.income.toFixed(2)}\nExpense: ¥${dayData.expense.toFixed(2)}\nNet: ¥${dayData.net.toFixed(2)}`;
+            dayCell.dataset.tooltip = `${dateStr}\nIncome: ${this.formatMoney(dayData.income)}\nExpense: ${this.formatMoney(dayData.expense)}\nNet: ${this.formatMoney(dayData.net)}`;
             
             // Add the day number inside the cell
             dayCell.createDiv('heatmap-day-number', el => el.setText(currentDate.date().toString()));
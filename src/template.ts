@@ -0,0 +1,389 @@
+// Compilation of the transaction template into a formatter and a matching parser
+
+/**
+ * Placeholders that can appear in the transaction template
+ */
+export type TemplateField = 'date' | 'type' | 'amount' | 'currency' | 'account' | 'from' | 'to' | 'category' | 'tags' | 'description' | 'note' | 'status';
+
+export const TEMPLATE_FIELDS: TemplateField[] = ['date', 'type', 'amount', 'currency', 'account', 'from', 'to', 'category', 'tags', 'description', 'note', 'status'];
+
+/**
+ * Fields a template must contain so that a written line can be read back
+ */
+export const REQUIRED_FIELDS: TemplateField[] = ['date', 'amount'];
+
+/**
+ * Fields a transfer template must contain
+ */
+export const TRANSFER_REQUIRED_FIELDS: TemplateField[] = ['date', 'amount', 'from', 'to'];
+
+/**
+ * Regex fragments used to capture each placeholder. Free-text fields are lazy so the
+ * literal separators around them decide where they end.
+ */
+const FIELD_PATTERNS: Record<TemplateField, string> = {
+    date: '\\d{4}-\\d{2}-\\d{2}(?:[ T]\\d{1,2}:\\d{2})?',
+    type: 'income|expense|transfer',
+    amount: '[-+]?\\d+(?:\\.\\d+)?',
+    currency: '(?:[A-Za-z]{3})?',
+    account: '.*?',
+    from: '.*?',
+    to: '.*?',
+    category: '.*?',
+    tags: '.*?',
+    description: '.*?',
+    note: '.*?',
+    status: '(?:cleared|reconciled)?'
+};
+
+type TemplateToken =
+    | { kind: 'literal', text: string }
+    | { kind: 'field', name: TemplateField }
+    | { kind: 'section', name: TemplateField, tokens: TemplateToken[] };
+
+/**
+ * Values substituted into / extracted from a template, keyed by placeholder
+ */
+export type TemplateValues = Partial<Record<TemplateField, string>>;
+
+/**
+ * A transaction template compiled once and reused for every line
+ */
+export interface CompiledTemplate {
+    source: string;
+    tokens: TemplateToken[];
+    regex: RegExp;
+    /** Capture group index of the first occurrence of each field */
+    groups: Partial<Record<TemplateField, number>>;
+    /** Regex matching the start of a line written with this template */
+    prefixRegex: RegExp;
+    /** Set when the template itself is unusable */
+    error?: string;
+}
+
+/**
+ * Result of matching a line against a compiled template
+ */
+export interface TemplateMatch {
+    values?: TemplateValues;
+    error?: string;
+}
+
+const compiledCache = new Map<string, CompiledTemplate>();
+
+/**
+ * Compile a transaction template, reusing a cached result for the same source
+ * @param template The template string from the settings
+ * @param requiredFields Placeholders the template must contain
+ * @returns The compiled template
+ */
+export function compileTemplate(template: string, requiredFields: TemplateField[] = REQUIRED_FIELDS): CompiledTemplate {
+    const cacheKey = `${requiredFields.join(',')}\n${template}`;
+    const cached = compiledCache.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    let tokens: TemplateToken[] = [];
+    let error: string | undefined;
+    try {
+        tokens = tokenizeTemplate(template);
+    } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+    }
+
+    const fieldsInTemplate = collectFields(tokens);
+    if (!error) {
+        const missing = requiredFields.filter(field => !fieldsInTemplate.includes(field));
+        if (missing.length > 0) {
+            error = `Template is missing required placeholder(s): ${missing.map(f => `{{${f}}}`).join(', ')}`;
+        }
+    }
+
+    const groups: Partial<Record<TemplateField, number>> = {};
+    const counter = { next: 1 };
+    const body = tokensToRegex(tokens, groups, counter);
+    const compiled: CompiledTemplate = {
+        source: template,
+        tokens,
+        regex: new RegExp(`^${body}\\s*$`),
+        groups,
+        prefixRegex: new RegExp(`^${buildPrefixPattern(tokens)}`),
+        error
+    };
+
+    compiledCache.set(cacheKey, compiled);
+    return compiled;
+}
+
+/**
+ * Check a template for problems that would prevent reading written lines back
+ * @param template The template string
+ * @param requiredFields Placeholders the template must contain
+ * @returns A description of the problem or null when the template is usable
+ */
+export function validateTemplate(template: string, requiredFields: TemplateField[] = REQUIRED_FIELDS): string | null {
+    return compileTemplate(template, requiredFields).error || null;
+}
+
+/**
+ * Render values into a compiled template. Optional sections are dropped when their
+ * field is empty and line breaks are flattened so the result stays on one line.
+ * @param compiled The compiled template
+ * @param values The placeholder values
+ * @returns The formatted line
+ */
+export function renderTemplate(compiled: CompiledTemplate, values: TemplateValues): string {
+    const render = (tokens: TemplateToken[]): string => tokens.map(token => {
+        switch (token.kind) {
+            case 'literal':
+                return token.text;
+            case 'field':
+                return sanitizeValue(values[token.name]);
+            case 'section':
+                return sanitizeValue(values[token.name]) ? render(token.tokens) : '';
+        }
+    }).join('');
+
+    return render(compiled.tokens);
+}
+
+/**
+ * Match a single line against a compiled template
+ * @param compiled The compiled template
+ * @param line The line to match
+ * @returns The extracted values, or an error describing why the line does not match
+ */
+export function matchTemplate(compiled: CompiledTemplate, line: string): TemplateMatch {
+    if (compiled.error) {
+        return { error: compiled.error };
+    }
+
+    const match = compiled.regex.exec(line);
+    if (!match) {
+        return { error: describeMismatch(compiled, line) };
+    }
+
+    const values: TemplateValues = {};
+    (Object.keys(compiled.groups) as TemplateField[]).forEach(field => {
+        const captured = match[compiled.groups[field] as number];
+        if (captured !== undefined) {
+            values[field] = captured.trim();
+        }
+    });
+    return { values };
+}
+
+/**
+ * Whether a line looks like it was written with the template (its leading literal text
+ * and first placeholder match). Used to tell ledger lines apart from ordinary notes.
+ * @param compiled The compiled template
+ * @param line The line to test
+ */
+export function looksLikeTemplateLine(compiled: CompiledTemplate, line: string): boolean {
+    return compiled.prefixRegex.test(line);
+}
+
+/**
+ * The placeholder a partly typed line ends in, as found by {@link getFieldAtEnd}
+ */
+export interface TemplateFieldPosition {
+    field: TemplateField;
+    /** Text typed into the field so far */
+    query: string;
+    /** Offset in the line where the field starts */
+    start: number;
+    /** Values of the fields before it */
+    values: TemplateValues;
+}
+
+/**
+ * Find the placeholder a partly typed line ends in, e.g. the account field for
+ * "- 2025-04-01 12:00 | expense | 35 | We". Optional sections are assumed to be typed.
+ * @param compiled The compiled template
+ * @param text The line up to the cursor
+ * @returns The field and what was typed into it, or null when the text doesn't follow the template
+ */
+export function getFieldAtEnd(compiled: CompiledTemplate, text: string): TemplateFieldPosition | null {
+    if (compiled.error) {
+        return null;
+    }
+
+    // Sections are spliced into the sequence as if their content had been typed
+    const tokens: TemplateToken[] = [];
+    compiled.tokens.forEach(token => token.kind === 'section' ? tokens.push(...token.tokens) : tokens.push(token));
+
+    let position: TemplateFieldPosition | null = null;
+    tokens.forEach((token, index) => {
+        if (token.kind !== 'field') {
+            return;
+        }
+
+        // The field runs until the first character of the separator after it
+        const next = tokens[index + 1];
+        const stop = next?.kind === 'literal' ? next.text.trim().charAt(0) : '';
+        const partial = stop ? `(?:(?!${escapeRegex(stop)}).)*` : '.*';
+
+        const groups: Partial<Record<TemplateField, number>> = {};
+        const counter = { next: 1 };
+        const prefix = tokensToRegex(tokens.slice(0, index), groups, counter);
+        const match = new RegExp(`^${prefix}(${partial})$`).exec(text);
+        if (!match) {
+            return;
+        }
+
+        const values: TemplateValues = {};
+        (Object.keys(groups) as TemplateField[]).forEach(field => {
+            const captured = match[groups[field] as number];
+            if (captured !== undefined) {
+                values[field] = captured.trim();
+            }
+        });
+        const query = match[counter.next];
+        position = { field: token.name, query, start: text.length - query.length, values };
+    });
+    return position;
+}
+
+function tokenizeTemplate(template: string): TemplateToken[] {
+    const root: TemplateToken[] = [];
+    let current = root;
+    let openSection: { name: TemplateField, tokens: TemplateToken[] } | null = null;
+    const placeholderRegex = /{{\s*([#/]?)\s*(\w+)\s*}}/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = placeholderRegex.exec(template)) !== null) {
+        if (match.index > lastIndex) {
+            current.push({ kind: 'literal', text: template.substring(lastIndex, match.index) });
+        }
+        lastIndex = placeholderRegex.lastIndex;
+
+        const [, marker, rawName] = match;
+        if (!TEMPLATE_FIELDS.includes(rawName as TemplateField)) {
+            throw new Error(`Unknown placeholder {{${marker}${rawName}}}`);
+        }
+        const name = rawName as TemplateField;
+
+        if (marker === '#') {
+            if (openSection) {
+                throw new Error(`Nested optional section {{#${name}}} inside {{#${openSection.name}}}`);
+            }
+            openSection = { name, tokens: [] };
+            current = openSection.tokens;
+        } else if (marker === '/') {
+            if (!openSection || openSection.name !== name) {
+                throw new Error(`Unexpected closing {{/${name}}}`);
+            }
+            root.push({ kind: 'section', name: openSection.name, tokens: openSection.tokens });
+            openSection = null;
+            current = root;
+        } else {
+            current.push({ kind: 'field', name });
+        }
+    }
+
+    if (openSection) {
+        throw new Error(`Optional section {{#${openSection.name}}} is never closed`);
+    }
+    if (lastIndex < template.length) {
+        root.push({ kind: 'literal', text: template.substring(lastIndex) });
+    }
+    return root;
+}
+
+function collectFields(tokens: TemplateToken[]): TemplateField[] {
+    const fields: TemplateField[] = [];
+    tokens.forEach(token => {
+        if (token.kind === 'field') {
+            fields.push(token.name);
+        } else if (token.kind === 'section') {
+            fields.push(...collectFields(token.tokens));
+        }
+    });
+    return fields;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whitespace inside separators is matched loosely so hand-edited lines still parse;
+ * a separator made only of whitespace between two placeholders must still contain at least one space.
+ */
+function literalToRegex(text: string, betweenFields = false): string {
+    if (!text.trim()) {
+        return betweenFields ? '\\s+' : '\\s*';
+    }
+    return text.split(/\s+/).map(escapeRegex).join('\\s*');
+}
+
+function tokensToRegex(
+    tokens: TemplateToken[],
+    groups: Partial<Record<TemplateField, number>>,
+    counter: { next: number }
+): string {
+    return tokens.map((token, index) => {
+        switch (token.kind) {
+            case 'literal':
+                return literalToRegex(token.text, tokens[index - 1]?.kind === 'field' && tokens[index + 1]?.kind === 'field');
+            case 'field': {
+                const existing = groups[token.name];
+                if (existing !== undefined) {
+                    // The same placeholder twice must hold the same text
+                    return `\\${existing}`;
+                }
+                groups[token.name] = counter.next++;
+                return `(${FIELD_PATTERNS[token.name]})`;
+            }
+            case 'section':
+                return `(?:${tokensToRegex(token.tokens, groups, counter)})?`;
+        }
+    }).join('');
+}
+
+function buildPrefixPattern(tokens: TemplateToken[]): string {
+    let pattern = '';
+    for (const token of tokens) {
+        if (token.kind === 'literal') {
+            pattern += literalToRegex(token.text);
+            continue;
+        }
+        if (token.kind === 'field') {
+            pattern += `(?:${FIELD_PATTERNS[token.name]})`;
+        }
+        break;
+    }
+    return pattern;
+}
+
+/**
+ * Find the first token the line stops matching at, to explain a failed match
+ */
+function describeMismatch(compiled: CompiledTemplate, line: string): string {
+    const { tokens } = compiled;
+    let previous = 'start of line';
+    for (let i = 0; i < tokens.length; i++) {
+        const scratchGroups: Partial<Record<TemplateField, number>> = {};
+        const prefix = tokensToRegex(tokens.slice(0, i + 1), scratchGroups, { next: 1 });
+        if (!new RegExp(`^${prefix}`).test(line)) {
+            const token = tokens[i];
+            if (token.kind === 'literal') {
+                return `Expected "${token.text}" after ${previous}`;
+            }
+            if (token.kind === 'field') {
+                return `Invalid or missing {{${token.name}}} after ${previous}`;
+            }
+            return `Optional {{#${token.name}}} section does not match after ${previous}`;
+        }
+        if (tokens[i].kind !== 'literal') {
+            previous = `{{${(tokens[i] as { name: TemplateField }).name}}}`;
+        }
+    }
+    return `Unexpected text after ${previous}`;
+}
+
+function sanitizeValue(value: string | undefined): string {
+    return (value || '').replace(/\r?\n/g, ' ');
+}
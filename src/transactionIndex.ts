@@ -0,0 +1,322 @@
+// In-memory index of the transactions in the vault, kept up to date file by file
+
+import { TAbstractFile, TFile, debounce, moment, normalizePath } from 'obsidian';
+import AccountingPlugin from '../main';
+import { BalanceAssertion, Transaction } from './models';
+import { TransactionParseError, parseTransactionContent } from './utils';
+
+/**
+ * Version of the parsed format. Bump it whenever the parser reads a line differently, so
+ * caches written by older versions are thrown away.
+ */
+const PARSER_VERSION = 3;
+
+/**
+ * Name of the parse cache in the plugin folder
+ */
+const CACHE_FILE = 'transaction-cache.json';
+
+/**
+ * Delay before changes are written to the parse cache, so typing in a note doesn't write it on every save
+ */
+const CACHE_SAVE_DELAY = 5000;
+
+/**
+ * What the index keeps for one file
+ */
+interface IndexedFile {
+    mtime: number;
+    size: number;
+    transactions: Transaction[];
+    errors: TransactionParseError[];
+    assertions: BalanceAssertion[];
+}
+
+/**
+ * Layout of the parse cache file
+ */
+interface TransactionCache {
+    version: number;
+    settingsSignature: string;
+    files: Record<string, IndexedFile>;
+}
+
+/**
+ * Transactions of every ledger file, keyed by file path. A file is only re-parsed when it
+ * changed since it was last read, so keeping the index current is cheap even with years
+ * of daily notes.
+ */
+export class TransactionIndex {
+    private plugin: AccountingPlugin;
+    private files = new Map<string, IndexedFile>();
+    /** Settings the parsed results depend on, when they were parsed */
+    private settingsSignature = '';
+    /** Flattened views of the index, rebuilt on first access after a change */
+    private cachedTransactions: Transaction[] | null = null;
+    private cachedErrors: TransactionParseError[] | null = null;
+    private cachedAssertions: BalanceAssertion[] | null = null;
+    /** Writes the parse cache once the index has been quiet for a while */
+    private saveCacheLater = debounce(() => this.saveCache(), CACHE_SAVE_DELAY, true);
+
+    constructor(plugin: AccountingPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Fill the index from the parse cache written in an earlier session. The cache is
+     * ignored when it was written by another parser version or with other settings.
+     */
+    async loadCache(): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const path = this.getCachePath();
+        try {
+            if (!await adapter.exists(path)) {
+                return;
+            }
+            const cache = JSON.parse(await adapter.read(path)) as TransactionCache;
+            if (cache.version !== PARSER_VERSION || cache.settingsSignature !== this.getSettingsSignature()) {
+                return;
+            }
+            this.files = new Map(Object.entries(cache.files));
+            this.settingsSignature = cache.settingsSignature;
+            this.cachedTransactions = null;
+            this.cachedErrors = null;
+            this.cachedAssertions = null;
+        } catch (error) {
+            console.warn('Accounting: could not read the transaction cache, all files will be parsed', error);
+        }
+    }
+
+    /**
+     * Write the index to the parse cache
+     */
+    async saveCache(): Promise<void> {
+        const cache: TransactionCache = {
+            version: PARSER_VERSION,
+            settingsSignature: this.settingsSignature,
+            files: Object.fromEntries(this.files)
+        };
+        try {
+            await this.plugin.app.vault.adapter.write(this.getCachePath(), JSON.stringify(cache));
+        } catch (error) {
+            console.warn('Accounting: could not write the transaction cache', error);
+        }
+    }
+
+    /**
+     * Write pending changes to the parse cache right away, e.g. when the plugin unloads
+     */
+    flushCache(): void {
+        this.saveCacheLater.run();
+    }
+
+    /**
+     * All indexed transactions, in file order
+     */
+    get transactions(): Transaction[] {
+        if (!this.cachedTransactions) {
+            this.cachedTransactions = [];
+            this.files.forEach(entry => this.cachedTransactions!.push(...entry.transactions));
+        }
+        return this.cachedTransactions;
+    }
+
+    /**
+     * Lines that look like transactions but could not be read
+     */
+    get errors(): TransactionParseError[] {
+        if (!this.cachedErrors) {
+            this.cachedErrors = [];
+            this.files.forEach(entry => this.cachedErrors!.push(...entry.errors));
+        }
+        return this.cachedErrors;
+    }
+
+    /**
+     * Balance assertions of all ledger files
+     */
+    get assertions(): BalanceAssertion[] {
+        if (!this.cachedAssertions) {
+            this.cachedAssertions = [];
+            this.files.forEach(entry => this.cachedAssertions!.push(...entry.assertions));
+        }
+        return this.cachedAssertions;
+    }
+
+    /**
+     * Bring the index up to date with the vault: parse new and changed files and drop
+     * files that no longer hold transactions. Everything is re-parsed when the settings
+     * that parsing depends on changed.
+     * @returns Whether any transactions changed
+     */
+    async refresh(): Promise<boolean> {
+        const signature = this.getSettingsSignature();
+        let changed = false;
+        if (signature !== this.settingsSignature) {
+            this.settingsSignature = signature;
+            changed = this.files.size > 0;
+            this.files.clear();
+        }
+
+        const files = this.getTransactionFiles();
+        const paths = new Set(files.map(file => file.path));
+        for (const path of Array.from(this.files.keys())) {
+            if (!paths.has(path)) {
+                this.files.delete(path);
+                changed = true;
+            }
+        }
+
+        for (const file of files) {
+            if (!this.isUpToDate(file)) {
+                await this.parseFile(file);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.invalidateCache();
+        }
+        return changed;
+    }
+
+    /**
+     * Re-parse a file after it was created or modified. When the settings that parsing
+     * depends on changed since the index was built, the whole index is refreshed instead,
+     * so it never mixes files parsed with old and new settings.
+     * @returns Whether the index changed
+     */
+    async updateFile(file: TAbstractFile): Promise<boolean> {
+        if (this.getSettingsSignature() !== this.settingsSignature) {
+            return this.refresh();
+        }
+        if (!(file instanceof TFile) || !this.isTransactionFile(file) || this.isUpToDate(file)) {
+            return false;
+        }
+        await this.parseFile(file);
+        this.invalidateCache();
+        return true;
+    }
+
+    /**
+     * Drop a file that was deleted
+     * @returns Whether the index changed
+     */
+    removeFile(path: string): boolean {
+        if (!this.files.delete(path)) {
+            return false;
+        }
+        this.invalidateCache();
+        return true;
+    }
+
+    /**
+     * Follow a renamed file: it may have become a ledger file, or stopped being one
+     * @returns Whether the index changed
+     */
+    async renameFile(file: TAbstractFile, oldPath: string): Promise<boolean> {
+        const removed = this.removeFile(oldPath);
+        const added = await this.updateFile(file);
+        return removed || added;
+    }
+
+    /**
+     * Check whether transactions are read from a file: a daily note, or the output file
+     */
+    isTransactionFile(file: TFile): boolean {
+        const settings = this.plugin.settings;
+        if (!settings.useDailyNotes) {
+            return file.path === normalizePath(settings.outputFile);
+        }
+        return file.extension === 'md'
+            && this.getDailyNoteFormats().some(format => moment(file.basename, format, true).isValid());
+    }
+
+    /**
+     * Get the files transactions are read from
+     */
+    getTransactionFiles(): TFile[] {
+        const settings = this.plugin.settings;
+        if (!settings.useDailyNotes) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(normalizePath(settings.outputFile));
+            return file instanceof TFile ? [file] : [];
+        }
+        return this.plugin.app.vault.getMarkdownFiles().filter(file => this.isTransactionFile(file));
+    }
+
+    /**
+     * Get the formats daily notes are named with: the plugin's own format, and the format
+     * of the core Daily Notes plugin (or the Calendar plugin) when it differs
+     */
+    private getDailyNoteFormats(): string[] {
+        const formats = [this.plugin.settings.dailyNotesFormat];
+        const app = this.plugin.app;
+
+        // @ts-ignore - Accessing internal API
+        const dailyNotesPlugin = app.internalPlugins?.plugins['daily-notes'];
+        // @ts-ignore - Accessing internal API
+        const calendarPlugin = app.plugins?.plugins['calendar'];
+
+        let externalFormat: string | undefined;
+        if (dailyNotesPlugin && dailyNotesPlugin.enabled) {
+            externalFormat = dailyNotesPlugin.instance?.options?.format;
+        } else if (calendarPlugin) {
+            externalFormat = calendarPlugin.options?.dateFormat;
+        }
+
+        if (externalFormat && !formats.includes(externalFormat)) {
+            formats.push(externalFormat);
+        }
+        return formats;
+    }
+
+    private isUpToDate(file: TFile): boolean {
+        const entry = this.files.get(file.path);
+        return !!entry && entry.mtime === file.stat.mtime && entry.size === file.stat.size;
+    }
+
+    private async parseFile(file: TFile): Promise<void> {
+        const content = await this.plugin.app.vault.cachedRead(file);
+        const result = parseTransactionContent(content, file.path, this.plugin.settings);
+        this.files.set(file.path, {
+            mtime: file.stat.mtime,
+            size: file.stat.size,
+            transactions: result.transactions,
+            errors: result.errors,
+            assertions: result.assertions
+        });
+        result.errors.forEach(error => {
+            console.warn(`Could not parse transaction at ${error.filePath}:${error.line}: ${error.reason}\n${error.text}`);
+        });
+    }
+
+    private getSettingsSignature(): string {
+        const settings = this.plugin.settings;
+        return JSON.stringify([
+            settings.useDailyNotes,
+            settings.dailyNotesFormat,
+            settings.outputFile,
+            settings.transactionTemplate,
+            settings.transferTemplate,
+            settings.accounts,
+            settings.categories,
+            settings.tags
+        ]);
+    }
+
+    private getCachePath(): string {
+        const manifest = this.plugin.manifest;
+        const pluginDir = manifest.dir || `${this.plugin.app.vault.configDir}/plugins/${manifest.id}`;
+        return normalizePath(`${pluginDir}/${CACHE_FILE}`);
+    }
+
+    /**
+     * Forget the flattened views after the index changed, and schedule a cache write
+     */
+    private invalidateCache(): void {
+        this.cachedTransactions = null;
+        this.cachedErrors = null;
+        this.cachedAssertions = null;
+        this.saveCacheLater();
+    }
+}
@@ -1,7 +1,10 @@
-import { App, Modal, Setting, moment, Notice, TFile, normalizePath } from 'obsidian';
+import { App, Modal, Setting, moment, Notice, TFile, normalizePath, setIcon } from 'obsidian';
 import AccountingPlugin from '../main';
-import { Account, Category, Tag, Transaction, TransactionType, generateId, flattenHierarchy, findItemById, BudgetItem, BudgetScope, BudgetPeriod } from './models';
-import { calculateBudgetSpending, getScopeName, getPeriodDateRange, parseTransactionsFromFile, getDatePart, findAccountById, findCategoryById, findTagById, findAccountByName, findCategoryByName } from './utils';
+import { Account, Category, Tag, Transaction, TransactionStatus, TransactionType, generateId, flattenHierarchy, findItemById, BudgetItem, BudgetScope, BudgetPeriod } from './models';
+import { calculateBudgetSpending, getScopeName, getPeriodDateRange, parseTransactionsFromFile, getDatePart, findAccountById, findCategoryById, findTagById, findAccountByName, findCategoryByName, getSplitsTotalError, getCategoryAmounts } from './utils';
+import { compileTemplate, TRANSFER_REQUIRED_FIELDS } from './template';
+import { convertTransactionAmount, normalizeCurrencyCode } from './currency';
+import { findDuplicates, mergeTransactions } from './duplicates';
 import { Translation } from './locales';
 import { I18n } from './locales/i18n';
 
@@ -14,12 +17,15 @@ export class TransactionModal extends Modal {
     private onSubmit: (transaction: Transaction) => void;
     private isEditMode: boolean;
     private budgetWarningEl: HTMLElement | null = null;
+    private duplicateWarningEl: HTMLElement | null = null;
+    private splitRemainingEl: HTMLElement | null = null;
 
     constructor(
         app: App,
         plugin: AccountingPlugin,
         onSubmit: (transaction: Transaction) => void,
-        transactionToEdit?: Transaction
+        transactionToEdit?: Transaction,
+        initialValues?: Partial<Transaction>
     ) {
         super(app);
         this.plugin = plugin;
@@ -31,6 +37,10 @@ export class TransactionModal extends Modal {
             if (!Array.isArray(this.transaction.tagIds)) {
                 this.transaction.tagIds = [];
             }
+            // Splits are edited in place, so keep them apart from the loaded transaction
+            if (transactionToEdit.splits) {
+                this.transaction.splits = transactionToEdit.splits.map(split => ({ ...split }));
+            }
         } else {
             this.transaction = {
                 id: generateId(),
@@ -40,7 +50,9 @@ export class TransactionModal extends Modal {
                 accountId: this.plugin.settings.accounts.length > 0 ? flattenHierarchy(this.plugin.settings.accounts)[0]?.id : '',
                 categoryId: '',
                 tagIds: [],
-                note: ''
+                note: '',
+                // Fields already known for a new transaction, e.g. from a quick entry
+                ...initialValues
             };
         }
     }
@@ -91,7 +103,7 @@ export class TransactionModal extends Modal {
             const newDate = dateInput.value || moment().format('YYYY-MM-DD');
             const newTime = timeInput.value || '00:00';
             this.transaction.date = `${newDate} ${newTime}`;
-            this.updateBudgetWarnings();
+            this.updateWarnings();
         };
         dateInput.addEventListener('change', updateDateTime);
         timeInput.addEventListener('change', updateDateTime);
@@ -107,9 +119,12 @@ export class TransactionModal extends Modal {
         
         const expenseOption = typeSelect.createEl('option', { text: i18n.t('EXPENSE'), value: 'expense' });
         const incomeOption = typeSelect.createEl('option', { text: i18n.t('INCOME'), value: 'income' });
+        const transferOption = typeSelect.createEl('option', { text: i18n.t('TRANSFER'), value: 'transfer' });
         
         if (this.transaction.type === 'income') {
             incomeOption.selected = true;
+        } else if (this.transaction.type === 'transfer') {
+            transferOption.selected = true;
         } else {
             expenseOption.selected = true;
         }
@@ -118,7 +133,7 @@ export class TransactionModal extends Modal {
             const select = e.target as HTMLSelectElement;
             this.transaction.type = select.value as TransactionType;
             this.onOpen(); // Refresh to update categories
-            this.updateBudgetWarnings();
+            this.updateWarnings();
         });
         
         // Amount with improved layout
@@ -140,10 +155,43 @@ export class TransactionModal extends Modal {
             const amount = parseFloat(input.value);
             if (!isNaN(amount)) {
                 this.transaction.amount = amount;
-                this.updateBudgetWarnings();
+                this.updateSplitRemaining();
+                this.updateWarnings();
             }
         });
         
+        // Currency, only when the template can record it; otherwise the account's currency applies
+        const activeTemplate = this.transaction.type === 'transfer'
+            ? compileTemplate(this.plugin.settings.transferTemplate, TRANSFER_REQUIRED_FIELDS)
+            : compileTemplate(this.plugin.settings.transactionTemplate);
+        if (activeTemplate.groups.currency !== undefined) {
+            new Setting(modalContent)
+                .setName(i18n.t('CURRENCY'))
+                .setDesc(i18n.t('TRANSACTION_CURRENCY_DESC'))
+                .addText(text => text
+                    .setPlaceholder(normalizeCurrencyCode(this.plugin.settings.baseCurrency))
+                    .setValue(this.transaction.currency || '')
+                    .onChange(value => {
+                        this.transaction.currency = normalizeCurrencyCode(value) || undefined;
+                        this.updateWarnings();
+                    }));
+        }
+        
+        // Reconciliation status, likewise only when the template can record it
+        if (activeTemplate.groups.status !== undefined) {
+            new Setting(modalContent)
+                .setName(i18n.t('STATUS'))
+                .setDesc(i18n.t('STATUS_DESC'))
+                .addDropdown(dropdown => dropdown
+                    .addOptions({
+                        '': i18n.t('STATUS_UNCLEARED'),
+                        cleared: i18n.t('STATUS_CLEARED'),
+                        reconciled: i18n.t('STATUS_RECONCILED')
+                    })
+                    .setValue(this.transaction.status || '')
+                    .onChange(value => this.transaction.status = (value as TransactionStatus) || undefined));
+        }
+        
         // Account with improved layout and autocomplete
         const accountSettingContainer = modalContent.createDiv('setting-item');
         const accountSettingInfo = accountSettingContainer.createDiv('setting-item-info');
@@ -192,11 +240,21 @@ export class TransactionModal extends Modal {
             } else {
                 this.transaction.accountId = '';
             }
-            this.updateBudgetWarnings();
+            this.updateWarnings();
         });
         
+        // Transfers move money between two accounts and have no category
+        if (this.transaction.type === 'transfer') {
+            accountSettingContainer.style.display = 'none';
+            this.addTransferAccountSelect(modalContent, i18n.t('FROM_ACCOUNT'), i18n.t('FROM_ACCOUNT_DESC'), 'fromAccountId');
+            this.addTransferAccountSelect(modalContent, i18n.t('TO_ACCOUNT'), i18n.t('TO_ACCOUNT_DESC'), 'toAccountId');
+        }
+        
         // Category with improved layout and autocomplete
         const categorySettingContainer = modalContent.createDiv('setting-item');
+        if (this.transaction.type === 'transfer') {
+            categorySettingContainer.style.display = 'none';
+        }
         const categorySettingInfo = categorySettingContainer.createDiv('setting-item-info');
         categorySettingInfo.createEl('div', { text: i18n.t('CATEGORY_FIELD'), cls: 'setting-item-name' });
         categorySettingInfo.createEl('div', { text: i18n.t('CATEGORY_SELECT_DESC'), cls: 'setting-item-description' });
@@ -246,9 +304,16 @@ export class TransactionModal extends Modal {
             } else {
                 this.transaction.categoryId = '';
             }
-            this.updateBudgetWarnings();
+            this.updateWarnings();
         });
-        
+
+        // Splits divide the amount across several categories
+        const splitsContainer = modalContent.createDiv('accounting-splits-container');
+        if (this.transaction.type === 'transfer') {
+            splitsContainer.style.display = 'none';
+        }
+        this.renderSplits(splitsContainer, categorySettingContainer, flatCategories);
+
         // Tags with improved layout and autocomplete
         const tagsSettingContainer = modalContent.createDiv('setting-item');
         const tagsSettingInfo = tagsSettingContainer.createDiv('setting-item-info');
@@ -292,6 +357,25 @@ export class TransactionModal extends Modal {
             this.transaction.tagIds = this.getTagIdsFromNames(input.value);
         });
         
+        // Description
+        const descriptionSettingContainer = modalContent.createDiv('setting-item');
+        const descriptionSettingInfo = descriptionSettingContainer.createDiv('setting-item-info');
+        descriptionSettingInfo.createEl('div', { text: i18n.t('DESCRIPTION_FIELD'), cls: 'setting-item-name' });
+        descriptionSettingInfo.createEl('div', { text: i18n.t('DESCRIPTION_DESC'), cls: 'setting-item-description' });
+        
+        const descriptionSettingControl = descriptionSettingContainer.createDiv('setting-item-control');
+        const descriptionInput = descriptionSettingControl.createEl('input', {
+            type: 'text',
+            value: this.transaction.description || '',
+            placeholder: i18n.t('DESCRIPTION_PLACEHOLDER')
+        });
+        
+        descriptionInput.addEventListener('input', (e) => {
+            const input = e.target as HTMLInputElement;
+            this.transaction.description = input.value;
+            this.updateDuplicateWarning();
+        });
+        
         // Note with improved layout
         const noteSettingContainer = modalContent.createDiv('setting-item');
         const noteSettingInfo = noteSettingContainer.createDiv('setting-item-info');
@@ -309,6 +393,10 @@ export class TransactionModal extends Modal {
             this.transaction.note = textarea.value;
         });
         
+        // Duplicate warning section
+        this.duplicateWarningEl = modalContent.createDiv('duplicate-warning-container');
+        this.duplicateWarningEl.style.display = 'none';
+
         // Budget warnings section
         this.budgetWarningEl = modalContent.createDiv('budget-warnings-container');
         this.budgetWarningEl.style.display = 'none';
@@ -326,6 +414,7 @@ export class TransactionModal extends Modal {
              cls: 'mod-cta'
             });
         submitButton.addEventListener('click', async () => {
+            this.clearFieldsOfOtherType();
             await this.handleNewItems();
 
             if (!this.validateTransaction()) {
@@ -336,7 +425,183 @@ export class TransactionModal extends Modal {
             this.close();
         });
 
-        this.updateBudgetWarnings();
+        this.updateWarnings();
+    }
+    
+    /**
+     * Add a dropdown selecting one side of a transfer
+     */
+    private addTransferAccountSelect(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        field: 'fromAccountId' | 'toAccountId'
+    ): void {
+        const settingContainer = containerEl.createDiv('setting-item');
+        const settingInfo = settingContainer.createDiv('setting-item-info');
+        settingInfo.createEl('div', { text: name, cls: 'setting-item-name' });
+        settingInfo.createEl('div', { text: desc, cls: 'setting-item-description' });
+        
+        const settingControl = settingContainer.createDiv('setting-item-control');
+        const select = settingControl.createEl('select', { cls: 'dropdown' });
+        select.createEl('option', { text: this.plugin.i18n.t('SELECT_ACCOUNT'), value: '' });
+        
+        flattenHierarchy(this.plugin.settings.accounts).forEach(account => {
+            const option = select.createEl('option', { text: account.name, value: account.id });
+            if (this.transaction[field] === account.id) {
+                option.selected = true;
+            }
+        });
+        
+        select.addEventListener('change', () => {
+            this.transaction[field] = select.value;
+        });
+    }
+
+    /**
+     * Render the split editor. While the transaction has splits the single category
+     * field is hidden, since the categories come from the splits.
+     */
+    private renderSplits(
+        containerEl: HTMLElement,
+        categorySettingContainer: HTMLElement,
+        categories: Omit<Category, 'children'>[]
+    ): void {
+        const i18n = this.plugin.i18n;
+        containerEl.empty();
+        const splits = this.transaction.splits || [];
+
+        if (this.transaction.type !== 'transfer') {
+            categorySettingContainer.style.display = splits.length > 0 ? 'none' : '';
+        }
+
+        const rerender = () => {
+            this.renderSplits(containerEl, categorySettingContainer, categories);
+            this.updateWarnings();
+        };
+
+        const headerContainer = containerEl.createDiv('setting-item');
+        const headerInfo = headerContainer.createDiv('setting-item-info');
+        headerInfo.createEl('div', { text: i18n.t('SPLITS'), cls: 'setting-item-name' });
+        headerInfo.createEl('div', { text: i18n.t('SPLITS_DESC'), cls: 'setting-item-description' });
+
+        const headerControl = headerContainer.createDiv('setting-item-control');
+        const addButton = headerControl.createEl('button', { text: i18n.t('ADD_SPLIT') });
+        addButton.addEventListener('click', () => {
+            const remaining = this.getSplitRemaining();
+            this.transaction.splits = [...splits, {
+                categoryId: splits.length === 0 ? this.getExistingCategoryId() : '',
+                amount: remaining > 0 ? Math.round(remaining * 100) / 100 : 0,
+                tagIds: []
+            }];
+            rerender();
+        });
+
+        const tagsDatalistId = 'tags-list-' + (this.transaction.id || '');
+        splits.forEach((split, index) => {
+            const row = containerEl.createDiv('accounting-split-row');
+
+            const categorySelect = row.createEl('select', { cls: 'dropdown' });
+            categorySelect.createEl('option', { text: i18n.t('SELECT_CATEGORY'), value: '' });
+            categories.forEach(category => {
+                const option = categorySelect.createEl('option', { text: category.name, value: category.id });
+                if (split.categoryId === category.id) {
+                    option.selected = true;
+                }
+            });
+            categorySelect.addEventListener('change', () => {
+                split.categoryId = categorySelect.value;
+                this.updateWarnings();
+            });
+
+            const amountInput = row.createEl('input', {
+                type: 'number',
+                value: split.amount.toString(),
+                placeholder: '0.00'
+            });
+            amountInput.step = '0.01';
+            amountInput.addEventListener('input', () => {
+                const amount = parseFloat(amountInput.value);
+                split.amount = isNaN(amount) ? 0 : amount;
+                this.updateSplitRemaining();
+                this.updateWarnings();
+            });
+
+            const tagsInput = row.createEl('input', {
+                type: 'text',
+                value: (split.tagIds || [])
+                    .map(id => findTagById(this.plugin.settings.tags, id)?.name)
+                    .filter(Boolean)
+                    .join(', '),
+                placeholder: i18n.t('TAGS_PLACEHOLDER')
+            });
+            tagsInput.setAttribute('list', tagsDatalistId);
+            tagsInput.addEventListener('input', () => {
+                split.tagIds = this.getTagIdsFromNames(tagsInput.value);
+            });
+
+            const noteInput = row.createEl('input', {
+                type: 'text',
+                value: split.note || '',
+                placeholder: i18n.t('NOTE_PLACEHOLDER')
+            });
+            noteInput.addEventListener('input', () => {
+                split.note = noteInput.value;
+            });
+
+            const removeButton = row.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': i18n.t('REMOVE_SPLIT') } });
+            setIcon(removeButton, 'trash');
+            removeButton.addEventListener('click', () => {
+                this.transaction.splits = splits.filter((_, i) => i !== index);
+                rerender();
+            });
+        });
+
+        this.splitRemainingEl = splits.length > 0 ? containerEl.createDiv('accounting-split-remaining') : null;
+        this.updateSplitRemaining();
+    }
+
+    /**
+     * Amount of the transaction not yet assigned to a split
+     */
+    private getSplitRemaining(): number {
+        const assigned = (this.transaction.splits || []).reduce((sum, split) => sum + split.amount, 0);
+        return (this.transaction.amount || 0) - assigned;
+    }
+
+    private updateSplitRemaining(): void {
+        if (!this.splitRemainingEl) return;
+
+        const remaining = this.getSplitRemaining();
+        this.splitRemainingEl.setText(this.plugin.i18n.t('SPLIT_REMAINING').replace('{amount}', remaining.toFixed(2)));
+        this.splitRemainingEl.toggleClass('is-unbalanced', Math.abs(remaining) > 0.005);
+    }
+
+    /**
+     * The category chosen in the single category field, unless it is still a new one
+     */
+    private getExistingCategoryId(): string {
+        const categoryId = this.transaction.categoryId || '';
+        return categoryId.startsWith('new:') ? '' : categoryId;
+    }
+
+    /**
+     * Drop the fields that belong to the other kind of transaction before saving
+     */
+    private clearFieldsOfOtherType(): void {
+        if (this.transaction.type === 'transfer') {
+            delete this.transaction.accountId;
+            delete this.transaction.splits;
+            this.transaction.categoryId = '';
+        } else {
+            delete this.transaction.fromAccountId;
+            delete this.transaction.toAccountId;
+            if (this.transaction.splits && this.transaction.splits.length > 0) {
+                this.transaction.categoryId = '';
+            } else {
+                delete this.transaction.splits;
+            }
+        }
     }
     
     onClose() {
@@ -359,7 +624,7 @@ export class TransactionModal extends Modal {
             errors.push(i18n.t('ERROR_INVALID_DATE'));
         }
 
-        if (!this.transaction.type || (this.transaction.type !== 'income' && this.transaction.type !== 'expense')) {
+        if (!this.transaction.type || !['income', 'expense', 'transfer'].includes(this.transaction.type)) {
             errors.push(i18n.t('ERROR_INVALID_TYPE'));
         }
 
@@ -367,12 +632,28 @@ export class TransactionModal extends Modal {
             errors.push(i18n.t('ERROR_AMOUNT_INVALID'));
         }
 
-        if (!this.transaction.accountId) {
-            errors.push(i18n.t('ERROR_ACCOUNT_REQUIRED'));
-        }
+        if (this.transaction.type === 'transfer') {
+            if (!this.transaction.fromAccountId || !this.transaction.toAccountId ||
+                this.transaction.fromAccountId === this.transaction.toAccountId) {
+                errors.push(i18n.t('ERROR_TRANSFER_ACCOUNTS'));
+            }
+        } else {
+            if (!this.transaction.accountId) {
+                errors.push(i18n.t('ERROR_ACCOUNT_REQUIRED'));
+            }
 
-        if (!this.transaction.categoryId) {
-             errors.push(i18n.t('ERROR_CATEGORY_REQUIRED'));
+            const splits = this.transaction.splits || [];
+            if (splits.length > 0) {
+                if (splits.some(split => !split.categoryId || !(split.amount > 0))) {
+                    errors.push(i18n.t('ERROR_SPLIT_INVALID'));
+                } else if (getSplitsTotalError(this.transaction as Transaction)) {
+                    errors.push(i18n.t('ERROR_SPLITS_TOTAL')
+                        .replace('{total}', ((this.transaction.amount || 0) - this.getSplitRemaining()).toFixed(2))
+                        .replace('{amount}', (this.transaction.amount || 0).toFixed(2)));
+                }
+            } else if (!this.transaction.categoryId) {
+                 errors.push(i18n.t('ERROR_CATEGORY_REQUIRED'));
+            }
         }
 
         if (errors.length > 0) {
@@ -383,6 +664,77 @@ export class TransactionModal extends Modal {
         return true;
     }
 
+    /**
+     * Refresh the warnings shown below the form
+     */
+    private updateWarnings(): void {
+        this.updateDuplicateWarning();
+        this.updateBudgetWarnings();
+    }
+
+    /**
+     * Warn when a new transaction looks like one already recorded, e.g. imported from a
+     * bank statement, and offer to merge it into that one or not add it
+     */
+    private updateDuplicateWarning(): void {
+        if (!this.duplicateWarningEl) return;
+
+        this.duplicateWarningEl.empty();
+        const duplicate = !this.isEditMode && (this.transaction.amount || 0) > 0
+            ? findDuplicates(this.transaction as Transaction, this.plugin.transactions)[0]
+            : undefined;
+        if (!duplicate) {
+            this.duplicateWarningEl.style.display = 'none';
+            return;
+        }
+
+        const i18n = this.plugin.i18n;
+        const existing = duplicate.transaction;
+        this.duplicateWarningEl.style.display = '';
+        this.duplicateWarningEl.createDiv({
+            text: i18n.t('DUPLICATE_WARNING')
+                .replace('{date}', existing.date)
+                .replace('{amount}', existing.amount.toFixed(2))
+                .replace('{description}', existing.description || existing.note || '')
+        });
+
+        const actions = this.duplicateWarningEl.createDiv('duplicate-warning-actions');
+        const mergeButton = actions.createEl('button', { text: i18n.t('DUPLICATE_MERGE'), attr: { 'aria-label': i18n.t('DUPLICATE_MERGE_DESC') } });
+        mergeButton.addEventListener('click', async () => {
+            await this.mergeInto(existing);
+        });
+        const skipButton = actions.createEl('button', { text: i18n.t('DUPLICATE_SKIP') });
+        skipButton.addEventListener('click', () => {
+            new Notice(i18n.t('DUPLICATE_SKIPPED'));
+            this.close();
+        });
+    }
+
+    /**
+     * Save the entered fields into an existing transaction instead of adding a new one.
+     * What was entered by hand wins; the existing transaction fills in the rest.
+     */
+    private async mergeInto(existing: Transaction): Promise<void> {
+        const i18n = this.plugin.i18n;
+        this.clearFieldsOfOtherType();
+        await this.handleNewItems();
+
+        if (!this.validateTransaction()) {
+            return;
+        }
+
+        try {
+            await this.plugin.replaceTransaction(mergeTransactions({ ...this.transaction as Transaction, id: existing.id }, existing));
+            await this.plugin.loadAllTransactions();
+        } catch (error) {
+            console.error('Error merging transaction:', error);
+            new Notice(`${i18n.t('ERROR_SAVING_TRANSACTION')}: ${error.message}`);
+            return;
+        }
+        new Notice(i18n.t('DUPLICATE_MERGED'));
+        this.close();
+    }
+
     private updateBudgetWarnings(): void {
         if (!this.budgetWarningEl) return;
 
@@ -422,8 +774,10 @@ export class TransactionModal extends Modal {
              return warnings;
         }
         const transactionAmount = this.transaction.amount || 0;
+        // Budgets are kept in the base currency
+        const toBase = (transaction: Transaction, amount: number) => convertTransactionAmount(transaction, this.plugin.settings, amount);
         const accountId = this.transaction.accountId?.startsWith('new:') ? undefined : this.transaction.accountId;
-        const categoryId = this.transaction.categoryId?.startsWith('new:') ? undefined : this.transaction.categoryId;
+        const categoryAmounts = getCategoryAmounts({ ...this.transaction, categoryId: this.getExistingCategoryId() } as Transaction);
 
         const allAccounts = this.plugin.settings.accounts;
         const allCategories = this.plugin.settings.categories;
@@ -432,15 +786,18 @@ export class TransactionModal extends Modal {
         budgets.forEach(budget => {
             let isApplicable = false;
             let applicableScopeId: string | undefined = undefined;
+            let amountInScope = toBase(this.transaction as Transaction, transactionAmount);
 
             const { start, end } = getPeriodDateRange(budget.period, transactionMoment);
             if (!transactionMoment.isBetween(start, end, undefined, '[]')) {
                 return;
             }
 
-            if (budget.scope === BudgetScope.Category && budget.scopeId === categoryId) {
+            const categoryParts = categoryAmounts.filter(part => part.categoryId && part.categoryId === budget.scopeId);
+            if (budget.scope === BudgetScope.Category && categoryParts.length > 0) {
                  isApplicable = true;
-                 applicableScopeId = categoryId;
+                 applicableScopeId = budget.scopeId;
+                 amountInScope = categoryParts.reduce((sum, part) => sum + toBase(this.transaction as Transaction, part.amount), 0);
             } else if (budget.scope === BudgetScope.Account && budget.scopeId === accountId) {
                  isApplicable = true;
                  applicableScopeId = accountId;
@@ -455,10 +812,11 @@ export class TransactionModal extends Modal {
                     allCategories,
                     allTags,
                     start,
-                    end
+                    end,
+                    toBase
                 );
 
-                const projectedSpending = currentSpending + transactionAmount;
+                const projectedSpending = currentSpending + amountInScope;
                 const scopeName = getScopeName(
                     budget.scope,
                     applicableScopeId,
@@ -531,25 +889,26 @@ export class TransactionModal extends Modal {
             }
         }
 
-        const currentTagNames = this.getTagNames();
-        const resolvedTagIds: string[] = [];
         const flatTags = flattenHierarchy(settings.tags);
-
-        for (const name of currentTagNames) {
+        const resolveTagName = (name: string): string => {
             const existingTag = flatTags.find(t => t.name.toLowerCase() === name.toLowerCase());
             if (existingTag) {
-                resolvedTagIds.push(existingTag.id);
-            } else {
-                const newTag: Tag = { id: generateId(), name: name, children: [], parentId: null };
-                settings.tags.push(newTag);
-                flatTags.push(newTag);
-                resolvedTagIds.push(newTag.id);
-                settingsChanged = true;
-                let noticeMsg = i18n.t('INFO_NEW_TAG').replace('{name}', name);
-                new Notice(noticeMsg);
+                return existingTag.id;
             }
-        }
-        this.transaction.tagIds = resolvedTagIds;
+            const newTag: Tag = { id: generateId(), name: name, children: [], parentId: null };
+            settings.tags.push(newTag);
+            flatTags.push(newTag);
+            settingsChanged = true;
+            let noticeMsg = i18n.t('INFO_NEW_TAG').replace('{name}', name);
+            new Notice(noticeMsg);
+            return newTag.id;
+        };
+
+        this.transaction.tagIds = this.getTagNames().map(resolveTagName);
+
+        (this.transaction.splits || []).forEach(split => {
+            split.tagIds = (split.tagIds || []).map(id => id.startsWith('new:') ? resolveTagName(id.substring(4)) : id);
+        });
 
         if (settingsChanged) {
             await this.plugin.saveSettings();
@@ -0,0 +1,94 @@
+// obsidian://accounting URIs, e.g. from phone shortcuts and launchers:
+// obsidian://accounting?action=add&amount=35&category=午餐&account=微信&tags=工作
+// obsidian://accounting?action=stats&tab=calendar&date=2025-03-15
+
+import { ObsidianProtocolData, moment } from 'obsidian';
+import { Transaction, TransactionType, generateId } from './models';
+import { AccountingPluginSettings } from './settings';
+import { QuickEntryProblem, QuickEntryResult, findAllByName, parseDateToken } from './quickEntry';
+
+/**
+ * Name the handler is registered under, i.e. the host of the URI
+ */
+export const URI_ACTION = 'accounting';
+
+const TRANSACTION_TYPES: TransactionType[] = ['expense', 'income', 'transfer'];
+
+/**
+ * Read the transaction described by the parameters of an `action=add` URI. Accounts,
+ * categories and tags are given by name; `tags` is a comma-separated list. Transfers use
+ * `from` and `to` instead of `account`. Without `type`, the type follows the category.
+ * @param params The URI parameters
+ * @param settings The plugin settings
+ * @param now The current time
+ * @returns The fields that could be read, and why the transaction can't be written as it is
+ */
+export function parseAddUriParams(params: ObsidianProtocolData, settings: AccountingPluginSettings, now: moment.Moment = moment()): QuickEntryResult {
+    const problems: QuickEntryProblem[] = [];
+    const param = (name: string) => (params[name] || '').trim();
+
+    const amount = parseFloat(param('amount'));
+    if (isNaN(amount) || amount <= 0) {
+        problems.push({ kind: 'missing-amount' });
+    }
+
+    // Resolve a name to exactly one item, noting a problem otherwise
+    const resolve = <T extends { id: string, name: string, children?: T[] }>(
+        items: T[],
+        name: string,
+        missing: QuickEntryProblem['kind'],
+        ambiguous: QuickEntryProblem['kind']
+    ): Omit<T, 'children'> | undefined => {
+        const matches = name ? findAllByName(items, name) : [];
+        if (matches.length === 1) {
+            return matches[0];
+        }
+        problems.push({ kind: matches.length > 1 ? ambiguous : missing, text: name });
+        return undefined;
+    };
+
+    const category = param('category') ? resolve(settings.categories, param('category'), 'missing-category', 'ambiguous-category') : undefined;
+    const explicitType = TRANSACTION_TYPES.find(type => type === param('type').toLowerCase());
+    const type: TransactionType = explicitType || category?.type || 'expense';
+
+    const transaction: Partial<Transaction> = {
+        id: generateId(),
+        type,
+        amount: isNaN(amount) ? 0 : amount,
+        categoryId: '',
+        tagIds: [],
+        note: param('note')
+    };
+    if (param('description')) {
+        transaction.description = param('description');
+    }
+
+    if (type === 'transfer') {
+        transaction.fromAccountId = resolve(settings.accounts, param('from'), 'missing-account', 'ambiguous-account')?.id || '';
+        transaction.toAccountId = resolve(settings.accounts, param('to'), 'missing-account', 'ambiguous-account')?.id || '';
+    } else {
+        transaction.accountId = resolve(settings.accounts, param('account'), 'missing-account', 'ambiguous-account')?.id || '';
+        if (category && category.type === type) {
+            transaction.categoryId = category.id;
+        } else if (!problems.some(problem => problem.kind === 'missing-category' || problem.kind === 'ambiguous-category')) {
+            problems.push({ kind: 'missing-category', text: param('category') });
+        }
+    }
+
+    param('tags').split(',').map(name => name.trim()).filter(Boolean).forEach(name => {
+        const tags = findAllByName(settings.tags, name);
+        if (tags.length > 0) {
+            transaction.tagIds!.push(tags[0].id);
+        } else {
+            problems.push({ kind: 'unknown-tag', text: name });
+        }
+    });
+
+    // The date may carry the time, or the time may come separately; both default to now
+    const [datePart, timePart] = param('date').split(/[ T]/);
+    const date = (datePart && parseDateToken(datePart, now)) || now.format('YYYY-MM-DD');
+    const time = moment(param('time') || timePart || '', 'H:mm', true);
+    transaction.date = `${date} ${time.isValid() ? time.format('HH:mm') : now.format('HH:mm')}`;
+
+    return { transaction, problems };
+}
@@ -1,56 +1,230 @@
 import { App, TFile, normalizePath } from 'obsidian';
-import { Account, Category, Tag, Transaction, findItemById, findItemByName, BudgetItem, BudgetScope, BudgetPeriod } from './models';
+import { Account, AccountType, BalanceAssertion, Category, Tag, Transaction, TransactionSplit, TransactionStatus, TransactionType, generateId, findItemById, findItemByName, getDisplayBalance, BudgetItem, BudgetScope, BudgetPeriod } from './models';
 import { AccountingPluginSettings } from './settings';
 import { I18n } from './locales/i18n';
+import { CompiledTemplate, TemplateField, TemplateValues, TRANSFER_REQUIRED_FIELDS, compileTemplate, renderTemplate, matchTemplate, looksLikeTemplateLine } from './template';
 import * as moment from 'moment';
 
 /**
- * Format a transaction as a markdown string
- * @param transaction The transaction to format
- * @param template The transaction template
+ * Collect the template values for a transaction
+ * @param transaction The transaction
  * @param accounts The accounts list
  * @param categories The categories list
  * @param tags The tags list
- * @returns The formatted transaction string
+ * @returns The values keyed by template placeholder
  */
-export function formatTransaction(
+export function getTransactionTemplateValues(
     transaction: Transaction,
-    template: string,
     accounts: Account[],
     categories: Category[],
     tags: Tag[]
-): string {
+): TemplateValues {
     // Find the account, category, and tags
     const account = transaction.accountId ? findAccountById(accounts, transaction.accountId) : undefined;
+    const fromAccount = transaction.fromAccountId ? findAccountById(accounts, transaction.fromAccountId) : undefined;
+    const toAccount = transaction.toAccountId ? findAccountById(accounts, transaction.toAccountId) : undefined;
     const category = findCategoryById(categories, transaction.categoryId);
     const transactionTags = transaction.tagIds
         .map(id => findTagById(tags, id))
         .filter(Boolean)
         .map(tag => tag?.name);
-    
-    // Replace template variables
-    let result = template;
-    
-    // Basic replacements
-    result = result.replace(/{{date}}/g, transaction.date);
-    result = result.replace(/{{type}}/g, transaction.type);
-    result = result.replace(/{{amount}}/g, transaction.amount.toString());
-    result = result.replace(/{{account}}/g, account?.name || '');
-    result = result.replace(/{{category}}/g, category?.name || '');
-    result = result.replace(/{{tags}}/g, transactionTags.join(', '));
-    
-    // Replace description with note
-    result = result.replace(/{{description}}/g, transaction.note || '');
-    
-    // Handle optional note
-    if (transaction.note) {
-        result = result.replace(/{{#note}}(.*?){{\/note}}/g, '$1');
-        result = result.replace(/{{note}}/g, transaction.note);
-    } else {
-        result = result.replace(/{{#note}}(.*?){{\/note}}/g, '');
+
+    return {
+        date: transaction.date,
+        type: transaction.type,
+        amount: transaction.amount.toString(),
+        currency: transaction.currency || '',
+        account: account?.name || '',
+        from: fromAccount?.name || '',
+        to: toAccount?.name || '',
+        category: category?.name || '',
+        tags: transactionTags.join(', '),
+        description: (transaction.description || '').trim(),
+        note: (transaction.note || '').trim(),
+        status: transaction.status || ''
+    };
+}
+
+/**
+ * Template of the indented sub-bullets holding the parts of a split transaction
+ */
+export const SPLIT_TEMPLATE = '\t- {{category}} | {{amount}} | {{tags}} {{#note}}| {{note}}{{/note}}';
+
+const SPLIT_REQUIRED_FIELDS: TemplateField[] = ['category', 'amount'];
+
+/**
+ * Collect the template values for one split of a transaction
+ * @param split The split
+ * @param categories The categories list
+ * @param tags The tags list
+ * @returns The values keyed by template placeholder
+ */
+function getSplitTemplateValues(split: TransactionSplit, categories: Category[], tags: Tag[]): TemplateValues {
+    const category = findCategoryById(categories, split.categoryId);
+    const splitTags = (split.tagIds || [])
+        .map(id => findTagById(tags, id))
+        .filter(Boolean)
+        .map(tag => tag?.name);
+
+    return {
+        category: category?.name || '',
+        amount: split.amount.toString(),
+        tags: splitTags.join(', '),
+        note: (split.note || '').trim()
+    };
+}
+
+/**
+ * Check that the splits of a transaction add up to its amount
+ * @param transaction The transaction
+ * @returns A description of the mismatch, or null when the splits are consistent
+ */
+export function getSplitsTotalError(transaction: Transaction): string | null {
+    if (!transaction.splits || transaction.splits.length === 0) {
+        return null;
     }
-    
-    return result;
+    const total = transaction.splits.reduce((sum, split) => sum + split.amount, 0);
+    if (Math.abs(total - transaction.amount) > 0.005) {
+        return `Splits add up to ${total.toFixed(2)} but the transaction amount is ${transaction.amount.toFixed(2)}`;
+    }
+    return null;
+}
+
+/**
+ * A part of a transaction's amount attributed to a single category
+ */
+export interface CategoryAmount {
+    categoryId: string;
+    amount: number;
+    tagIds: string[];
+}
+
+/**
+ * Get the amounts a transaction contributes to each category; a split transaction
+ * contributes each split separately, with the split's tags added to the transaction's
+ * @param transaction The transaction
+ * @returns One entry per category share
+ */
+export function getCategoryAmounts(transaction: Transaction): CategoryAmount[] {
+    if (!transaction.splits || transaction.splits.length === 0) {
+        return [{ categoryId: transaction.categoryId, amount: transaction.amount, tagIds: transaction.tagIds || [] }];
+    }
+    return transaction.splits.map(split => ({
+        categoryId: split.categoryId,
+        amount: split.amount,
+        tagIds: [...new Set([...(transaction.tagIds || []), ...(split.tagIds || [])])]
+    }));
+}
+
+/**
+ * Format a transaction for writing to a file, making sure the line reads back
+ * to the same values with the configured template
+ * @param transaction The transaction to format
+ * @param settings The plugin settings
+ * @returns The formatted transaction string
+ * @throws Error describing the field that would not survive a round trip
+ */
+export function formatTransactionForFile(
+    transaction: Transaction,
+    settings: AccountingPluginSettings
+): string {
+    const compiled = transaction.type === 'transfer'
+        ? compileTemplate(settings.transferTemplate, TRANSFER_REQUIRED_FIELDS)
+        : compileTemplate(settings.transactionTemplate);
+    const values = getTransactionTemplateValues(transaction, settings.accounts, settings.categories, settings.tags);
+    const line = renderTemplate(compiled, values);
+    assertRoundTrip(compiled, values, line);
+
+    const splitsError = getSplitsTotalError(transaction);
+    if (splitsError) {
+        throw new Error(splitsError);
+    }
+
+    const compiledSplit = compileTemplate(SPLIT_TEMPLATE, SPLIT_REQUIRED_FIELDS);
+    const splitLines = (transaction.splits || []).map(split => {
+        const splitValues = getSplitTemplateValues(split, settings.categories, settings.tags);
+        const splitLine = renderTemplate(compiledSplit, splitValues);
+        assertRoundTrip(compiledSplit, splitValues, splitLine);
+        return splitLine;
+    });
+
+    return [appendBlockId(line, transaction.id), ...splitLines].join('\n');
+}
+
+/**
+ * Make sure a rendered line reads back to the values it was rendered from
+ * @throws Error describing the first field that changes
+ */
+function assertRoundTrip(compiled: CompiledTemplate, values: TemplateValues, line: string): void {
+    const match = matchTemplate(compiled, line);
+    if (!match.values) {
+        throw new Error(match.error);
+    }
+
+    const parsed = match.values;
+    const mismatched = (Object.keys(compiled.groups) as (keyof TemplateValues)[])
+        .find(field => (parsed[field] || '') !== (values[field] || '').replace(/\r?\n/g, ' ').trim());
+    if (mismatched) {
+        throw new Error(`The {{${mismatched}}} value "${values[mismatched]}" clashes with the separators of the template`);
+    }
+}
+
+/**
+ * Block IDs are written at the end of each transaction line (`... ^id`) so a
+ * transaction keeps the same ID across reloads and can be linked to with `[[note#^id]]`
+ */
+const BLOCK_ID_REGEX = /\s+\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Turn a transaction ID into a valid Obsidian block ID
+ * @param id The transaction ID
+ * @returns The ID with unsupported characters replaced
+ */
+export function toBlockId(id: string): string {
+    return id.replace(/[^A-Za-z0-9-]/g, '-');
+}
+
+/**
+ * Append a block ID to a formatted transaction line
+ * @param line The formatted line
+ * @param id The transaction ID
+ * @returns The line ending with ` ^id`, or the line unchanged when there is no ID
+ */
+export function appendBlockId(line: string, id: string | undefined): string {
+    if (!id) {
+        return line;
+    }
+    return `${line.replace(/\s+$/, '')} ^${toBlockId(id)}`;
+}
+
+/**
+ * Split the trailing block ID off a transaction line
+ * @param line The line
+ * @returns The line content without the block ID, and the ID if there was one
+ */
+export function splitBlockId(line: string): { content: string, id?: string } {
+    const match = BLOCK_ID_REGEX.exec(line);
+    if (!match) {
+        return { content: line };
+    }
+    return { content: line.substring(0, match.index), id: match[1] };
+}
+
+/**
+ * Derive an ID for a line written before IDs were stored in the markdown. It only
+ * depends on the line text (and how many identical lines precede it) so it stays
+ * the same across reloads until the line is migrated.
+ * @param content The line content
+ * @param occurrence How many identical lines came before it in the same file
+ * @returns The derived ID
+ */
+export function getLegacyTransactionId(content: string, occurrence: number): string {
+    let hash = 5381;
+    for (let i = 0; i < content.length; i++) {
+        hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+    }
+    const id = `legacy-${(hash >>> 0).toString(36)}`;
+    return occurrence > 0 ? `${id}-${occurrence}` : id;
 }
 
 /**
@@ -91,6 +265,34 @@ export function getDatePart(dateStr: string): string {
     return dateStr;
 }
 
+/**
+ * Get the path of the file a transaction belongs in
+ * @param transaction The transaction
+ * @param settings The plugin settings
+ * @returns The daily note for the transaction's date, or the output file
+ */
+export function getTransactionFilePath(transaction: Transaction, settings: AccountingPluginSettings): string {
+    return getLedgerFilePath(transaction.date, settings);
+}
+
+/**
+ * Get the file the ledger lines of a day go to: its daily note, or the output file
+ * @param dateStr The date, with or without a time
+ * @param settings The plugin settings
+ */
+export function getLedgerFilePath(dateStr: string, settings: AccountingPluginSettings): string {
+    if (settings.useDailyNotes) {
+        // Use daily notes - extract just the date part for the filename
+        const dateOnly = getDatePart(dateStr);
+        const date = moment(dateOnly, 'YYYY-MM-DD');
+        const fileName = date.format(settings.dailyNotesFormat);
+        return `${fileName}.md`;
+    }
+    
+    // Use the configured output file
+    return settings.outputFile;
+}
+
 /**
  * Save a transaction to a file
  * @param app The Obsidian app
@@ -106,27 +308,10 @@ export async function saveTransaction(
     transaction.date = normalizeTransactionDate(transaction.date);
     
     // Determine the file path
-    let filePath: string;
-    
-    if (settings.useDailyNotes) {
-        // Use daily notes - extract just the date part for the filename
-        const dateOnly = getDatePart(transaction.date);
-        const date = moment(dateOnly, 'YYYY-MM-DD');
-        const fileName = date.format(settings.dailyNotesFormat);
-        filePath = `${fileName}.md`;
-    } else {
-        // Use the configured output file
-        filePath = settings.outputFile;
-    }
+    const filePath = getTransactionFilePath(transaction, settings);
     
-    // Format the transaction
-    const formattedTransaction = formatTransaction(
-        transaction,
-        settings.transactionTemplate,
-        settings.accounts,
-        settings.categories,
-        settings.tags
-    );
+    // Format the transaction, failing before anything is written if it would not read back
+    const formattedTransaction = formatTransactionForFile(transaction, settings);
     
     // Ensure the file exists
     await ensureFileExists(app, filePath);
@@ -135,6 +320,37 @@ export async function saveTransaction(
     await appendToFile(app, filePath, formattedTransaction);
 }
 
+/**
+ * Save many transactions at once, e.g. from an import. Each file is written once, with
+ * its transactions in date order.
+ * @param app The Obsidian app
+ * @param transactions The transactions to save
+ * @param settings The plugin settings
+ * @throws Error when a transaction can't be formatted; nothing is written in that case
+ */
+export async function saveTransactions(
+    app: App,
+    transactions: Transaction[],
+    settings: AccountingPluginSettings
+): Promise<void> {
+    // Format everything first so a bad transaction doesn't leave a partial import behind
+    const linesByFile = new Map<string, string[]>();
+    [...transactions]
+        .sort((a, b) => normalizeTransactionDate(a.date).localeCompare(normalizeTransactionDate(b.date)))
+        .forEach(transaction => {
+            transaction.date = normalizeTransactionDate(transaction.date);
+            const filePath = getTransactionFilePath(transaction, settings);
+            const lines = linesByFile.get(filePath) || [];
+            lines.push(formatTransactionForFile(transaction, settings));
+            linesByFile.set(filePath, lines);
+        });
+
+    for (const [filePath, lines] of linesByFile) {
+        await ensureFileExists(app, filePath);
+        await appendToFile(app, filePath, lines.join('\n'));
+    }
+}
+
 /**
  * Ensure a file exists, creating it if necessary
  * @param app The Obsidian app
@@ -182,6 +398,41 @@ export async function appendToFile(app: App, filePath: string, text: string): Pr
     }
 }
 
+/**
+ * A line that looks like a transaction but could not be read
+ */
+export interface TransactionParseError {
+    filePath: string;
+    /** 1-based line number */
+    line: number;
+    text: string;
+    reason: string;
+}
+
+/**
+ * Transactions read from a file, along with the lines that failed to parse
+ */
+export interface TransactionFileParseResult {
+    transactions: Transaction[];
+    errors: TransactionParseError[];
+    /** 0-based lines of each transaction (end exclusive, including split lines), keyed by transaction ID */
+    lineRanges: Map<string, { start: number, end: number }>;
+    /** IDs of transactions whose line has no block ID yet */
+    legacyIds: Set<string>;
+    /** Balance assertion lines */
+    assertions: BalanceAssertion[];
+}
+
+/**
+ * Result of parsing a single line that looks like a transaction
+ */
+export interface TransactionLineParseResult {
+    transaction?: Transaction;
+    error?: string;
+    /** True when the line has no block ID and the transaction ID is only a placeholder */
+    legacy?: boolean;
+}
+
 /**
  * Parse transactions from a file
  * @param app The Obsidian app
@@ -194,101 +445,440 @@ export async function parseTransactionsFromFile(
     filePath: string,
     settings: AccountingPluginSettings
 ): Promise<Transaction[]> {
+    const result = await parseTransactionFile(app, filePath, settings);
+    return result.transactions;
+}
+
+/**
+ * Parse transactions from a file, reporting the lines that could not be read
+ * @param app The Obsidian app
+ * @param filePath The file path
+ * @param settings The plugin settings
+ * @returns The parsed transactions and per-line errors
+ */
+export async function parseTransactionFile(
+    app: App,
+    filePath: string,
+    settings: AccountingPluginSettings
+): Promise<TransactionFileParseResult> {
     const normalizedPath = normalizePath(filePath);
     const file = app.vault.getAbstractFileByPath(normalizedPath) as TFile;
     
     if (!file) {
-        return [];
+        return { transactions: [], errors: [], lineRanges: new Map(), legacyIds: new Set(), assertions: [] };
     }
     
     // Read the file content
     const content = await app.vault.read(file);
     
-    // Split into lines
-    const lines = content.split('\n');
+    return parseTransactionContent(content, normalizedPath, settings);
+}
+
+/**
+ * Parse transactions from the content of a file
+ * @param content The file content
+ * @param filePath The file path, used in error reports
+ * @param settings The plugin settings
+ * @returns The parsed transactions and per-line errors
+ */
+export function parseTransactionContent(
+    content: string,
+    filePath: string,
+    settings: AccountingPluginSettings
+): TransactionFileParseResult {
+    const compiled = compileTemplate(settings.transactionTemplate);
+    const compiledTransfer = compileTemplate(settings.transferTemplate, TRANSFER_REQUIRED_FIELDS);
+    const compiledSplit = compileTemplate(SPLIT_TEMPLATE, SPLIT_REQUIRED_FIELDS);
+    const result: TransactionFileParseResult = { transactions: [], errors: [], lineRanges: new Map(), legacyIds: new Set(), assertions: [] };
+    const legacyOccurrences = new Map<string, number>();
     
-    // Parse transactions from lines
-    const transactions: Transaction[] = [];
+    // Split into lines
+    const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
     
-    for (const line of lines) {
-        // Skip empty lines
-        if (!line.trim()) {
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        
+        const assertion = parseBalanceAssertionLine(line, settings.accounts);
+        if (assertion) {
+            if (assertion.error) {
+                result.errors.push({ filePath, line: index + 1, text: line, reason: assertion.error });
+            } else {
+                result.assertions.push({ ...assertion.values!, filePath, line: index + 1 });
+            }
             continue;
         }
         
-        // Check if the line is a transaction (starts with '- ')
-        if (line.startsWith('- ')) {
-            const transaction = parseTransactionFromLine(
-                line,
-                settings.accounts,
-                settings.categories,
-                settings.tags
-            );
-            
-            if (transaction) {
-                transactions.push(transaction);
+        // Skip empty lines and lines that are not written with the template
+        if (!line.trim() || (!looksLikeTemplateLine(compiled, line) && !looksLikeTemplateLine(compiledTransfer, line))) {
+            continue;
+        }
+        
+        const parsed = parseTransactionLine(
+            line,
+            settings.transactionTemplate,
+            settings.accounts,
+            settings.categories,
+            settings.tags,
+            settings.transferTemplate
+        );
+        
+        // Splits are the indented sub-bullets directly below the transaction
+        let end = index + 1;
+        const splits: TransactionSplit[] = [];
+        while (end < lines.length && /^\s+\S/.test(lines[end])) {
+            const match = matchTemplate(compiledSplit, lines[end]);
+            if (!match.values) {
+                break;
             }
+            splits.push(parseSplitValues(match.values, settings.categories, settings.tags));
+            end++;
         }
+        
+        const transaction = parsed.transaction;
+        let error = parsed.error;
+        if (transaction && splits.length > 0) {
+            transaction.splits = splits;
+            error = getSplitsTotalError(transaction) || undefined;
+        }
+        
+        if (transaction && !error) {
+            if (parsed.legacy) {
+                const occurrence = legacyOccurrences.get(line) || 0;
+                legacyOccurrences.set(line, occurrence + 1);
+                transaction.id = getLegacyTransactionId(line, occurrence);
+                result.legacyIds.add(transaction.id);
+            }
+            result.transactions.push(transaction);
+            result.lineRanges.set(transaction.id, { start: index, end });
+        } else {
+            result.errors.push({
+                filePath,
+                line: index + 1,
+                text: line,
+                reason: error || 'Unknown error'
+            });
+        }
+        
+        // Continue after the split lines
+        index = end - 1;
     }
     
-    return transactions;
+    return result;
+}
+
+/**
+ * A balance assertion line, optionally written as a list item:
+ * `balance <account> <YYYY-MM-DD> = <amount>`
+ */
+const BALANCE_ASSERTION_PATTERN = /^\s*(?:[-*+]\s+)?balance\s+(.+?)\s+(\d{4}-\d{2}-\d{2})\s*=\s*(-?[\d,]*\.?\d+)\s*(?:\^[\w-]+)?\s*$/;
+
+/**
+ * Read a balance assertion line
+ * @param line The line
+ * @param accounts The accounts list
+ * @returns Nothing when the line is not a balance assertion, otherwise its values or why it can't be read
+ */
+export function parseBalanceAssertionLine(
+    line: string,
+    accounts: Account[]
+): { values?: Omit<BalanceAssertion, 'filePath' | 'line'>, error?: string } | null {
+    const match = BALANCE_ASSERTION_PATTERN.exec(line);
+    if (!match) {
+        return null;
+    }
+    const account = findAccountByName(accounts, match[1].trim());
+    if (!account) {
+        return { error: `Unknown account in balance assertion: ${match[1].trim()}` };
+    }
+    if (!moment(match[2], 'YYYY-MM-DD', true).isValid()) {
+        return { error: `Invalid date in balance assertion: ${match[2]}` };
+    }
+    return { values: { accountId: account.id, date: match[2], amount: parseFloat(match[3].replace(/,/g, '')) } };
+}
+
+/**
+ * Write a balance assertion as a ledger line
+ * @param account The account
+ * @param date The day (YYYY-MM-DD)
+ * @param amount The balance, the amount owed for liabilities
+ */
+export function formatBalanceAssertion(account: Account, date: string, amount: number): string {
+    return `- balance ${account.name} ${date} = ${amount.toFixed(2)}`;
+}
+
+/**
+ * Build a split from the values of a split line
+ */
+function parseSplitValues(values: TemplateValues, categories: Category[], tags: Tag[]): TransactionSplit {
+    const category = findCategoryByName(categories, values.category || '');
+    const tagIds = (values.tags || '').split(',')
+        .map(name => findTagByName(tags, name.trim())?.id || '')
+        .filter(Boolean);
+    
+    return {
+        categoryId: category?.id || '',
+        amount: parseFloat(values.amount || '0'),
+        tagIds,
+        note: values.note || undefined
+    };
+}
+
+/**
+ * Give every transaction line in a file's content its own block ID
+ * @param content The file content
+ * @param filePath The file path
+ * @param settings The plugin settings
+ * @returns The updated content and the number of lines that received an ID
+ */
+export function addMissingBlockIds(
+    content: string,
+    filePath: string,
+    settings: AccountingPluginSettings
+): { content: string, added: number } {
+    const parsed = parseTransactionContent(content, filePath, settings);
+    if (parsed.legacyIds.size === 0) {
+        return { content, added: 0 };
+    }
+    
+    const lines = content.split('\n');
+    parsed.legacyIds.forEach(id => {
+        const range = parsed.lineRanges.get(id);
+        if (range) {
+            const index = range.start;
+            const lineEnding = lines[index].endsWith('\r') ? '\r' : '';
+            lines[index] = appendBlockId(lines[index].replace(/\r$/, ''), generateId()) + lineEnding;
+        }
+    });
+    
+    return { content: lines.join('\n'), added: parsed.legacyIds.size };
 }
 
 /**
  * Parse a transaction from a line of markdown
  * @param line The line to parse
+ * @param template The transaction template
  * @param accounts The accounts list
  * @param categories The categories list
  * @param tags The tags list
+ * @param transferTemplate The template used for transfers between accounts
  * @returns The parsed transaction or undefined
  */
 export function parseTransactionFromLine(
     line: string,
+    template: string,
     accounts: Account[],
     categories: Category[],
-    tags: Tag[]
+    tags: Tag[],
+    transferTemplate?: string
 ): Transaction | undefined {
-    // Remove the leading '- '
-    const content = line.substring(2).trim();
+    return parseTransactionLine(line, template, accounts, categories, tags, transferTemplate).transaction;
+}
+
+/**
+ * Parse a transaction from a line of markdown, explaining why it failed if it did
+ * @param line The line to parse
+ * @param template The transaction template
+ * @param accounts The accounts list
+ * @param categories The categories list
+ * @param tags The tags list
+ * @param transferTemplate The template used for transfers between accounts
+ * @returns The parsed transaction, or the reason the line could not be read
+ */
+export function parseTransactionLine(
+    line: string,
+    template: string,
+    accounts: Account[],
+    categories: Category[],
+    tags: Tag[],
+    transferTemplate?: string
+): TransactionLineParseResult {
+    const { content, id } = splitBlockId(line);
     
-    // Split by ' | '
-    const parts = content.split(' | ');
+    // Transfers have their own template; try it first since the regular one could also match
+    const transferMatch = transferTemplate
+        ? matchTemplate(compileTemplate(transferTemplate, TRANSFER_REQUIRED_FIELDS), content)
+        : undefined;
+    const isTransfer = !!transferMatch?.values;
+    const match = isTransfer && transferMatch ? transferMatch : matchTemplate(compileTemplate(template), content);
+    if (!match.values) {
+        // Explain the failure against the template the line was most likely meant for
+        const error = transferMatch && /\btransfer\b/.test(content) ? transferMatch.error : match.error;
+        return { error };
+    }
+    const values = match.values;
     
-    // Ensure we have at least the minimum number of parts
-    if (parts.length < 7) {
-        return undefined;
+    // The date may or may not include time
+    const date = normalizeTransactionDate((values.date || '').replace('T', ' '));
+    if (!moment(date, 'YYYY-MM-DD HH:mm', true).isValid()) {
+        return { error: `Invalid date "${values.date}"` };
     }
     
-    // Extract the parts
-    let date = parts[0].trim(); // This may or may not include time
-    date = normalizeTransactionDate(date); // Ensure it has time component
+    const type = isTransfer ? 'transfer' : (values.type || 'expense') as TransactionType;
+    if (!isTransfer && type === 'transfer') {
+        return { error: 'Transfers must be written with the transfer template' };
+    }
     
-    const type = parts[1].trim() as 'income' | 'expense';
-    const amount = parseFloat(parts[2].trim());
-    const accountName = parts[3].trim();
-    const categoryName = parts[4].trim();
-    const tagNames = parts[5].trim().split(',').map(t => t.trim()).filter(Boolean);
-    const note = parts[6].trim(); // Use the description field as note
+    const amount = parseFloat(values.amount || '');
+    if (isNaN(amount)) {
+        return { error: `Invalid amount "${values.amount}"` };
+    }
     
-    // Find the account, category, and tags
-    const account = findAccountByName(accounts, accountName);
-    const category = findCategoryByName(categories, categoryName);
+    const tagNames = (values.tags || '').split(',').map(t => t.trim()).filter(Boolean);
     const tagIds = tagNames.map(name => {
         const tag = findTagByName(tags, name);
         return tag ? tag.id : '';
     }).filter(Boolean);
     
-    // Create the transaction
-    return {
-        id: Date.now().toString(),
+    const transaction: Transaction = {
+        // Lines without an ID get the legacy ID of their first occurrence in a file
+        id: id || getLegacyTransactionId(line, 0),
         date,
         type,
         amount,
-        accountId: account?.id || '',
-        categoryId: category?.id || '',
+        categoryId: '',
         tagIds,
-        note
+        description: values.description || undefined,
+        note: values.note || undefined
     };
+    if (values.currency) {
+        transaction.currency = values.currency.toUpperCase();
+    }
+    if (values.status) {
+        transaction.status = values.status as TransactionStatus;
+    }
+    
+    if (isTransfer) {
+        // Both sides of a transfer must be known accounts, otherwise balances would be wrong
+        const fromAccount = findAccountByName(accounts, values.from || '');
+        const toAccount = findAccountByName(accounts, values.to || '');
+        if (!fromAccount) {
+            return { error: `Unknown account "${values.from}"` };
+        }
+        if (!toAccount) {
+            return { error: `Unknown account "${values.to}"` };
+        }
+        transaction.fromAccountId = fromAccount.id;
+        transaction.toAccountId = toAccount.id;
+    } else {
+        // Find the account and category
+        const account = findAccountByName(accounts, values.account || '');
+        const category = findCategoryByName(categories, values.category || '');
+        transaction.accountId = account?.id || '';
+        transaction.categoryId = category?.id || '';
+    }
+    
+    return { legacy: !id, transaction };
+}
+
+/**
+ * Whether a transaction moves money in or out of an account
+ * @param transaction The transaction
+ * @param accountId The account ID
+ */
+export function isTransactionForAccount(transaction: Transaction, accountId: string): boolean {
+    if (transaction.type === 'transfer') {
+        return transaction.fromAccountId === accountId || transaction.toAccountId === accountId;
+    }
+    return transaction.accountId === accountId;
+}
+
+/**
+ * Whether a transaction, or one of its splits, is in a category
+ * @param transaction The transaction
+ * @param categoryId The category ID
+ */
+export function isTransactionInCategory(transaction: Transaction, categoryId: string): boolean {
+    return getCategoryAmounts(transaction).some(part => part.categoryId === categoryId);
+}
+
+/**
+ * Get how much a transaction changes the balance of an account
+ * @param transaction The transaction
+ * @param accountId The account ID
+ * @returns The signed change, 0 when the transaction doesn't touch the account
+ */
+export function getAccountBalanceChange(transaction: Transaction, accountId: string): number {
+    if (transaction.type === 'transfer') {
+        let change = 0;
+        if (transaction.fromAccountId === accountId) change -= transaction.amount;
+        if (transaction.toAccountId === accountId) change += transaction.amount;
+        return change;
+    }
+    if (transaction.accountId !== accountId) {
+        return 0;
+    }
+    return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+}
+
+/**
+ * Get the opening balance of an account as a balance change (money in minus money out),
+ * in the account's currency
+ * @param account The account
+ * @param date The day (YYYY-MM-DD) the balance is wanted for; the opening balance only
+ * counts from its date on. Every day when not given.
+ */
+export function getOpeningBalance(account: Account | undefined, date?: string): number {
+    if (!account?.openingBalance || (date && account.openingDate && date < account.openingDate)) {
+        return 0;
+    }
+    return getDisplayBalance(account, account.openingBalance);
+}
+
+/**
+ * Get the translated name of an account type
+ * @param type The account type
+ * @param i18n The i18n instance
+ */
+export function getAccountTypeName(type: AccountType, i18n: I18n): string {
+    switch (type) {
+        case 'investment':
+            return i18n.t('ACCOUNT_TYPE_INVESTMENT');
+        case 'credit':
+            return i18n.t('ACCOUNT_TYPE_CREDIT');
+        case 'liability':
+            return i18n.t('ACCOUNT_TYPE_LIABILITY');
+        default:
+            return i18n.t('ACCOUNT_TYPE_ASSET');
+    }
+}
+
+/**
+ * Dates of a credit card's next statement and the payment due for it
+ */
+export interface CreditCardCycle {
+    /** YYYY-MM-DD */
+    statementDate: string;
+    /** YYYY-MM-DD, empty when the card has no due day */
+    dueDate: string;
+}
+
+/**
+ * Get the next statement of a credit card on or after a day, and when it must be paid.
+ * Days past the end of a month fall on its last day. A due day before or on the
+ * statement day is in the month after the statement.
+ * @param account The credit card account
+ * @param today The day to start from, YYYY-MM-DD
+ * @returns The dates, or null when the card has no statement day
+ */
+export function getCreditCardCycle(account: Account, today: string): CreditCardCycle | null {
+    if (!account.statementDay) {
+        return null;
+    }
+    const onDay = (month: moment.Moment, day: number) => month.clone().date(Math.min(day, month.daysInMonth()));
+    const month = moment(today, 'YYYY-MM-DD').startOf('month');
+    let statement = onDay(month, account.statementDay);
+    if (statement.format('YYYY-MM-DD') < today) {
+        statement = onDay(month.add(1, 'month'), account.statementDay);
+    }
+    let dueDate = '';
+    if (account.dueDay) {
+        const dueMonth = statement.clone().startOf('month');
+        if (account.dueDay <= account.statementDay) {
+            dueMonth.add(1, 'month');
+        }
+        dueDate = onDay(dueMonth, account.dueDay).format('YYYY-MM-DD');
+    }
+    return { statementDate: statement.format('YYYY-MM-DD'), dueDate };
 }
 
 /**
@@ -385,12 +975,13 @@ export function getScopeName(
 }
 
 /**
- * Gets the start and end dates for a given budget period relative to today.
+ * Gets the start and end dates for a given budget period relative to a date.
  * @param period The BudgetPeriod enum value.
+ * @param reference The date inside the period, today by default.
  * @returns Object with start and end moment objects.
  */
-export function getPeriodDateRange(period: BudgetPeriod): { start: moment.Moment, end: moment.Moment } {
-    const now = moment();
+export function getPeriodDateRange(period: BudgetPeriod, reference?: moment.Moment): { start: moment.Moment, end: moment.Moment } {
+    const now = reference ? reference.clone() : moment();
     let start: moment.Moment;
     let end: moment.Moment;
 
@@ -449,21 +1040,50 @@ export function getAllDescendantIds(items: Array<{ id: string, children?: any[]
 }
 
 /**
- * Calculates the total spending for a given budget item within its current period.
+ * Gets the IDs of an account and every account below it. Unlike categories and tags,
+ * accounts are kept in a flat list and name their parent by ID.
+ * @param accounts All accounts
+ * @param accountId The ID of the top account
+ * @returns The account's ID followed by the IDs of its descendants
+ */
+export function getAccountDescendantIds(accounts: Account[], accountId: string): string[] {
+    const ids = [accountId];
+    // Parents that refer to each other are only visited once
+    for (let i = 0; i < ids.length; i++) {
+        accounts.forEach(account => {
+            if (account.parentId === ids[i] && !ids.includes(account.id)) {
+                ids.push(account.id);
+            }
+        });
+    }
+    return ids;
+}
+
+/**
+ * Calculates the total spending for a given budget item within a period.
+ * Split transactions only count the splits that fall in the budget's scope.
  * @param budget The budget item to calculate spending for.
  * @param transactions A list of all transactions.
  * @param allCategories The complete list of categories (for hierarchy lookup).
  * @param allTags The complete list of tags (for hierarchy lookup).
- * @returns The total spending amount for the current budget period.
+ * @param periodStart Start of the period, the budget's current period by default.
+ * @param periodEnd End of the period, the budget's current period by default.
+ * @param convert Converts an amount of a transaction to the budget's currency, unchanged by default.
+ * @returns The total spending amount for the budget period.
  */
 export function calculateBudgetSpending(
     budget: BudgetItem,
     transactions: Transaction[],
     allCategories: Category[],
-    allTags: Tag[]
+    allTags: Tag[],
+    periodStart?: moment.Moment,
+    periodEnd?: moment.Moment,
+    convert: (transaction: Transaction, amount: number) => number = (_, amount) => amount
 ): number {
     // Pass the enum directly
-    const { start, end } = getPeriodDateRange(budget.period);
+    const currentPeriod = getPeriodDateRange(budget.period);
+    const start = periodStart || currentPeriod.start;
+    const end = periodEnd || currentPeriod.end;
     let relevantIds: string[] = [];
 
     if (budget.scope === BudgetScope.Category) {
@@ -476,21 +1096,23 @@ export function calculateBudgetSpending(
 
     const relevantTransactions = transactions.filter(t => {
         const transactionDate = moment(t.date, 'YYYY-MM-DD HH:mm');
-        if (t.type !== 'expense' || !transactionDate.isBetween(start, end, undefined, '[]')) {
-            return false;
-        }
-        switch (budget.scope) {
-            case BudgetScope.Category:
-                return relevantIds.includes(t.categoryId);
-            case BudgetScope.Tag:
-                return t.tagIds.some(tagId => relevantIds.includes(tagId));
-            case BudgetScope.Account:
-                return t.accountId === budget.scopeId;
-            default:
-                return false;
-        }
+        return t.type === 'expense' && transactionDate.isBetween(start, end, undefined, '[]');
     });
 
-    const totalSpending = relevantTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const totalSpending = relevantTransactions.reduce((sum, t) => {
+        const inScope = getCategoryAmounts(t).filter(part => {
+            switch (budget.scope) {
+                case BudgetScope.Category:
+                    return relevantIds.includes(part.categoryId);
+                case BudgetScope.Tag:
+                    return part.tagIds.some(tagId => relevantIds.includes(tagId));
+                case BudgetScope.Account:
+                    return t.accountId === budget.scopeId;
+                default:
+                    return false;
+            }
+        });
+        return sum + inScope.reduce((partSum, part) => partSum + convert(t, part.amount), 0);
+    }, 0);
     return totalSpending;
 } 
\ No newline at end of file